@@ -0,0 +1,121 @@
+/**
+ * SmartAds Service Worker
+ *
+ * Keeps the kiosk running without a network:
+ * - Ad videos are answered from the `smartads-ad-videos` cache, which the
+ *   app fills (src/utils/adVideoCache.ts). Range requests get 206 slices,
+ *   since media elements seek with them.
+ * - Same-origin files (app shell, built assets, models) are network-first
+ *   with a cached copy as the offline fallback.
+ */
+
+const SHELL_CACHE = 'smartads-shell-v1';
+const VIDEO_CACHE = 'smartads-ad-videos';
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then((cache) => cache.add('/'))
+      .catch(() => undefined)
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((names) => Promise.all(
+        names
+          .filter((name) => name.startsWith('smartads-shell-') && name !== SHELL_CACHE)
+          .map((name) => caches.delete(name))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+// The page lists files it loaded before this worker took control
+self.addEventListener('message', (event) => {
+  if (event.data?.type !== 'cache-urls' || !Array.isArray(event.data.urls)) return;
+  event.waitUntil(
+    caches.open(SHELL_CACHE).then((cache) => Promise.all(
+      event.data.urls.map((url) => cache.add(url).catch(() => undefined))
+    ))
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  event.respondWith(
+    fromVideoCache(request).then((cached) => {
+      if (cached) return cached;
+      if (url.origin !== self.location.origin) return fetch(request);
+      return networkFirst(request);
+    })
+  );
+});
+
+async function fromVideoCache(request) {
+  const cache = await caches.open(VIDEO_CACHE);
+  const cached = await cache.match(request.url);
+  if (!cached) return null;
+
+  const range = request.headers.get('range');
+  return range ? rangeResponse(cached, range) : cached;
+}
+
+async function rangeResponse(response, range) {
+  const blob = await response.blob();
+  const match = /bytes=(\d*)-(\d*)/.exec(range);
+  if (!match) return new Response(blob, { headers: response.headers });
+
+  let start;
+  let end;
+  if (match[1] === '') {
+    // Suffix range: the last N bytes
+    start = Math.max(0, blob.size - Number(match[2]));
+    end = blob.size - 1;
+  } else {
+    start = Number(match[1]);
+    end = match[2] === '' ? blob.size - 1 : Math.min(Number(match[2]), blob.size - 1);
+  }
+
+  if (start >= blob.size || start > end) {
+    return new Response(null, {
+      status: 416,
+      headers: { 'Content-Range': `bytes */${blob.size}` },
+    });
+  }
+
+  return new Response(blob.slice(start, end + 1), {
+    status: 206,
+    headers: {
+      'Content-Type': response.headers.get('content-type') || 'video/mp4',
+      'Content-Length': String(end - start + 1),
+      'Content-Range': `bytes ${start}-${end}/${blob.size}`,
+      'Accept-Ranges': 'bytes',
+    },
+  });
+}
+
+async function networkFirst(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok && response.type === 'basic' && !request.headers.has('range')) {
+      cache.put(request, response.clone());
+    }
+    return response;
+  } catch (err) {
+    const cached = await cache.match(request, { ignoreSearch: request.mode === 'navigate' });
+    if (cached) return cached;
+    // Client-side routes all serve the same index.html
+    if (request.mode === 'navigate') {
+      const shell = await cache.match('/');
+      if (shell) return shell;
+    }
+    throw err;
+  }
+}
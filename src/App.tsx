@@ -9,6 +9,8 @@ import LandingPage from "./pages/LandingPage";
 import Index from "./pages/Index";
 import NotFound from "./pages/NotFound";
 import ModelEvaluation from "./pages/ModelEvaluation";
+import DetectionBenchmark from "./pages/DetectionBenchmark";
+import AudienceAnalytics from "./pages/AudienceAnalytics";
 
 const queryClient = new QueryClient();
 
@@ -24,6 +26,8 @@ const App = () => (
               <Route path="/" element={<LandingPage />} />
               <Route path="/dashboard" element={<Index />} />
               <Route path="/admin/evaluation" element={<ModelEvaluation />} />
+              <Route path="/admin/evaluation/benchmark" element={<DetectionBenchmark />} />
+              <Route path="/analytics" element={<AudienceAnalytics />} />
               {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
               <Route path="*" element={<NotFound />} />
             </Routes>
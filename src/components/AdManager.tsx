@@ -1,5 +1,24 @@
-import { useState } from 'react';
-import { AdMetadata } from '@/types/ad';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { AdMetadata, AdFrequencyCap, AdSchedule, CreativeType, TargetSegment } from '@/types/ad';
+import { WEEKDAY_LABELS, describeSchedule } from '@/utils/adSchedule';
+import { EVERYONE_SEGMENT, getTargetSegments, describeSegment, segmentWeight } from '@/utils/adTargeting';
+import { AdAudience, aggregateSessions } from '@/utils/audienceAnalytics';
+import { getCaptureSessions } from '@/utils/proofOfPlay';
+import { CREATIVE_TYPE_LABELS, describeCreative, getCreativeType, getCreativeUrls } from '@/utils/adCreative';
+import { useAdVideoSource } from '@/hooks/useAdVideoSource';
+import {
+  AdCacheStatus,
+  StorageUsage,
+  cacheAdVideo,
+  formatBytes,
+  getCacheStatuses,
+  getStorageUsage,
+  isLocalVideo,
+  onAdVideoCacheChange,
+  precacheAdVideos,
+  removeCachedVideo,
+  storeUploadedFile,
+} from '@/utils/adVideoCache';
 import { 
   FolderPlus, 
   Trash2, 
@@ -13,10 +32,21 @@ import {
   Plus,
   X,
   Check,
-  Link
+  Link,
+  CalendarClock,
+  Upload,
+  HardDrive,
+  CloudDownload,
+  CloudOff,
+  Loader2,
+  Image as ImageIcon,
+  Globe,
+  GalleryHorizontal,
+  LucideIcon
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
 import {
   Dialog,
   DialogContent,
@@ -35,6 +65,24 @@ import {
 import { cn } from '@/lib/utils';
 import { toast } from 'sonner';
 
+const NEW_AD_DEFAULTS: Partial<AdMetadata> = {
+  title: '',
+  creativeType: 'video',
+  targetSegments: [EVERYONE_SEGMENT],
+  duration: 30,
+  videoUrl: '',
+  imageUrls: [],
+  htmlUrl: '',
+};
+
+// What the add form asks for, per creative type
+const SOURCE_HINTS: Record<CreativeType, string> = {
+  video: 'a video URL or file',
+  image: 'an image URL or file',
+  html: 'a page URL',
+  slideshow: 'image URLs or files',
+};
+
 interface AdManagerProps {
   ads: AdMetadata[];
   onAdsChange: (ads: AdMetadata[]) => void;
@@ -51,13 +99,61 @@ export const AdManager = ({
   const [open, setOpen] = useState(false);
   const [editingAd, setEditingAd] = useState<AdMetadata | null>(null);
   const [isLoadingDuration, setIsLoadingDuration] = useState(false);
-  const [newAd, setNewAd] = useState<Partial<AdMetadata>>({
-    title: '',
-    gender: 'all',
-    ageGroup: 'all',
-    duration: 30,
-    videoUrl: '',
-  });
+  const [adStats, setAdStats] = useState<Map<string, AdAudience>>(new Map());
+  const [cacheStatus, setCacheStatus] = useState<Map<string, AdCacheStatus>>(new Map());
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const [uploadFiles, setUploadFiles] = useState<File[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [newAd, setNewAd] = useState<Partial<AdMetadata>>(NEW_AD_DEFAULTS);
+  const newAdType = getCreativeType(newAd);
+  const newAdImageUrls = (newAd.imageUrls ?? []).map(url => url.trim()).filter(Boolean);
+
+  // Local previews of picked files before they're stored
+  const uploadPreviewUrls = useMemo(() => uploadFiles.map(file => URL.createObjectURL(file)), [uploadFiles]);
+  useEffect(() => () => uploadPreviewUrls.forEach(url => URL.revokeObjectURL(url)), [uploadPreviewUrls]);
+
+  // Per-ad engagement from stored capture sessions, refreshed each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    getCaptureSessions()
+      .then(sessions => {
+        if (cancelled) return;
+        setAdStats(new Map(aggregateSessions(sessions).byAd.map(a => [a.adId, a])));
+      })
+      .catch(err => console.warn('[AdManager] Failed to load capture sessions:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [open]);
+
+  const refreshStorageUsage = useCallback(() => {
+    getStorageUsage()
+      .then(setStorageUsage)
+      .catch(err => console.warn('[AdManager] Failed to read storage usage:', err));
+  }, []);
+
+  // Offline copy status per video, kept live while the dialog is open -
+  // background pre-caching reports its progress here too
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+
+    getCacheStatuses(ads.flatMap(getCreativeUrls)).then(statuses => {
+      if (!cancelled) setCacheStatus(statuses);
+    });
+    refreshStorageUsage();
+
+    const unsubscribe = onAdVideoCacheChange((url, status) => {
+      setCacheStatus(prev => new Map(prev).set(url, status));
+      if (status.state !== 'downloading') refreshStorageUsage();
+    });
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [open, ads, refreshStorageUsage]);
 
   // Auto-detect video duration when URL changes
   const detectVideoDuration = async (url: string) => {
@@ -93,53 +189,132 @@ export const AdManager = ({
     }
   };
 
+  const handleFileSelect = async (fileList: FileList | null) => {
+    const files = Array.from(fileList ?? []);
+    if (files.length === 0) return;
+    setUploadFiles(files);
+    setNewAd(prev => ({
+      ...prev,
+      videoUrl: '',
+      imageUrls: [],
+      title: prev.title || files[0].name.replace(/\.[^.]+$/, ''),
+    }));
+
+    if (newAdType !== 'video') return;
+    const objectUrl = URL.createObjectURL(files[0]);
+    await detectVideoDuration(objectUrl);
+    URL.revokeObjectURL(objectUrl);
+  };
+
+  const clearUploadFiles = () => {
+    setUploadFiles([]);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleCreativeTypeChange = (creativeType: CreativeType) => {
+    clearUploadFiles();
+    setNewAd(prev => ({ ...prev, creativeType }));
+  };
+
   const handleRemoveAd = (id: string) => {
     const ad = ads.find(a => a.id === id);
-    onAdsChange(ads.filter(a => a.id !== id));
+    const remaining = ads.filter(a => a.id !== id);
+    onAdsChange(remaining);
+
+    // Drop offline copies no other ad uses
+    if (ad) {
+      const stillUsed = new Set(remaining.flatMap(getCreativeUrls));
+      getCreativeUrls(ad)
+        .filter(url => !stillUsed.has(url))
+        .forEach(url => removeCachedVideo(url).catch(err => console.warn('[AdManager] Failed to remove cached file:', err)));
+    }
     toast.success(`Removed "${ad?.title}"`);
   };
 
+  const handleDownloadAll = async () => {
+    const { cached, total } = await precacheAdVideos(ads.flatMap(getCreativeUrls));
+    if (cached === total) {
+      toast.success(`All ${total} files available offline`);
+    } else {
+      toast.error(`${total - cached} of ${total} files could not be cached`);
+    }
+  };
+
   const handleUpdateAd = (updatedAd: AdMetadata) => {
-    onAdsChange(ads.map(a => a.id === updatedAd.id ? updatedAd : a));
+    // Image, HTML and slideshow durations are editable - keep the capture window in step
+    const ad = {
+      ...updatedAd,
+      captureStart: Math.floor(updatedAd.duration * captureStartPercent / 100),
+      captureEnd: Math.floor(updatedAd.duration * captureEndPercent / 100),
+    };
+    onAdsChange(ads.map(a => a.id === ad.id ? ad : a));
     setEditingAd(null);
-    toast.success(`Updated "${updatedAd.title}"`);
+    toast.success(`Updated "${ad.title}"`);
   };
 
-  const handleAddUrl = () => {
-    if (!newAd.videoUrl || !newAd.title) {
-      toast.error('Please enter both title and video URL');
+  const hasSource = uploadFiles.length > 0 || (
+    newAdType === 'video' ? !!newAd.videoUrl
+      : newAdType === 'html' ? !!newAd.htmlUrl
+      : newAdImageUrls.length > 0
+  );
+
+  const handleAddAd = async () => {
+    if (!hasSource || !newAd.title) {
+      toast.error(`Please enter a title and ${SOURCE_HINTS[newAdType]}`);
       return;
     }
 
+    // Uploaded files are stored in the browser and referenced by local URLs
+    const storedUrls: string[] = [];
+    if (uploadFiles.length > 0) {
+      setIsSaving(true);
+      try {
+        for (const file of uploadFiles) {
+          storedUrls.push(await storeUploadedFile(file));
+        }
+      } catch (err) {
+        toast.error(err instanceof Error ? err.message : 'Could not store the uploaded file');
+        return;
+      } finally {
+        setIsSaving(false);
+      }
+    }
+
     const duration = newAd.duration || 15;
     const captureStart = Math.floor(duration * captureStartPercent / 100);
     const captureEnd = Math.floor(duration * captureEndPercent / 100);
+    const imageUrls = storedUrls.length > 0 ? storedUrls : newAdImageUrls;
 
     const ad: AdMetadata = {
       id: `ad-${Date.now()}`,
-      filename: `${newAd.title}.mp4`,
+      filename: uploadFiles[0]?.name ?? (newAdType === 'video' ? `${newAd.title}.mp4` : newAd.title),
       title: newAd.title,
-      gender: (newAd.gender as 'male' | 'female' | 'all') || 'all',
-      ageGroup: (newAd.ageGroup as 'kid' | 'young' | 'adult' | 'all') || 'all',
+      targetSegments: newAd.targetSegments?.length ? newAd.targetSegments : [EVERYONE_SEGMENT],
+      frequencyCap: newAd.frequencyCap,
+      schedule: newAd.schedule,
+      creativeType: newAdType,
       duration,
       captureStart,
       captureEnd,
-      videoUrl: newAd.videoUrl,
+      videoUrl: newAdType === 'video' ? storedUrls[0] ?? newAd.videoUrl : '',
+      ...(newAdType === 'image' && { imageUrls: imageUrls.slice(0, 1) }),
+      ...(newAdType === 'slideshow' && { imageUrls }),
+      ...(newAdType === 'html' && { htmlUrl: newAd.htmlUrl }),
     };
 
     onAdsChange([...ads, ad]);
     toast.success(`Added "${ad.title}"`);
+    clearUploadFiles();
     
-    // Reset form
-    setNewAd({
-      title: '',
-      gender: 'all',
-      ageGroup: 'all',
-      duration: 30,
-      videoUrl: '',
-    });
+    // Reset form, keeping the creative type for the next one
+    setNewAd({ ...NEW_AD_DEFAULTS, creativeType: newAdType });
   };
 
+  const previewUrls = uploadPreviewUrls.length > 0 ? uploadPreviewUrls
+    : newAdType === 'video' ? [newAd.videoUrl].filter(Boolean)
+    : newAdType === 'html' ? [newAd.htmlUrl].filter(Boolean)
+    : newAdImageUrls;
+
   return (
     <Dialog open={open} onOpenChange={setOpen}>
       <DialogTrigger asChild>
@@ -155,7 +330,7 @@ export const AdManager = ({
             Ad Library
           </DialogTitle>
           <DialogDescription>
-            Upload video ads and configure their demographic targeting.
+            Add video, image, HTML and slideshow ads and configure their demographic targeting. Videos and images are stored in this browser so playback keeps working offline.
           </DialogDescription>
         </DialogHeader>
 
@@ -164,67 +339,136 @@ export const AdManager = ({
           <div className="bg-muted/50 rounded-xl p-4 space-y-4 border border-dashed border-border">
             <h4 className="font-medium flex items-center gap-2">
               <Link className="h-4 w-4 text-primary" />
-              Add Ad from URL
+              Add Ad
             </h4>
             <p className="text-sm text-muted-foreground">
-              Enter a video URL from external sources (e.g., direct MP4 links, CDN URLs).
+              Enter a URL (e.g., direct MP4 or image links, CDN URLs) or upload files from this computer. HTML pages are shown in a frame and need a network.
             </p>
 
-            {/* URL Input */}
+            {/* Title / Creative Type */}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
               <Input
                 placeholder="Ad title"
                 value={newAd.title || ''}
                 onChange={(e) => setNewAd({ ...newAd, title: e.target.value })}
               />
-              <Input
-                placeholder="Video URL (duration auto-detected)"
-                value={newAd.videoUrl || ''}
-                onChange={(e) => handleUrlChange(e.target.value)}
-              />
+              <Select value={newAdType} onValueChange={(v) => handleCreativeTypeChange(v as CreativeType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(CREATIVE_TYPE_LABELS) as CreativeType[]).map(type => (
+                    <SelectItem key={type} value={type}>{CREATIVE_TYPE_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </div>
 
+            {/* URL / File Input */}
+            <div className="flex gap-2">
+              {uploadFiles.length > 0 ? (
+                <div className="flex-1 flex items-center gap-2 px-3 h-10 rounded-md border border-input bg-background text-sm min-w-0">
+                  {newAdType === 'video'
+                    ? <Video className="h-4 w-4 text-primary shrink-0" />
+                    : <ImageIcon className="h-4 w-4 text-primary shrink-0" />}
+                  <span className="truncate">
+                    {uploadFiles.length === 1 ? uploadFiles[0].name : `${uploadFiles.length} images`}
+                  </span>
+                  <span className="text-xs text-muted-foreground shrink-0">
+                    {formatBytes(uploadFiles.reduce((sum, file) => sum + file.size, 0))}
+                  </span>
+                </div>
+              ) : newAdType === 'video' ? (
+                <Input
+                  placeholder="Video URL (duration auto-detected)"
+                  value={newAd.videoUrl || ''}
+                  onChange={(e) => handleUrlChange(e.target.value)}
+                />
+              ) : newAdType === 'image' ? (
+                <Input
+                  placeholder="Image URL"
+                  value={newAd.imageUrls?.[0] || ''}
+                  onChange={(e) => setNewAd({ ...newAd, imageUrls: [e.target.value] })}
+                />
+              ) : newAdType === 'html' ? (
+                <Input
+                  placeholder="Page URL (https://...)"
+                  value={newAd.htmlUrl || ''}
+                  onChange={(e) => setNewAd({ ...newAd, htmlUrl: e.target.value })}
+                />
+              ) : (
+                <Textarea
+                  placeholder="Image URLs, one per line, in display order"
+                  rows={3}
+                  value={(newAd.imageUrls ?? []).join('\n')}
+                  onChange={(e) => setNewAd({ ...newAd, imageUrls: e.target.value.split('\n') })}
+                />
+              )}
+              {newAdType !== 'html' && (
+                <>
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept={newAdType === 'video' ? 'video/*' : 'image/*'}
+                    multiple={newAdType === 'slideshow'}
+                    className="hidden"
+                    onChange={(e) => handleFileSelect(e.target.files)}
+                  />
+                  {uploadFiles.length > 0 ? (
+                    <Button variant="ghost" size="icon" onClick={clearUploadFiles} title="Use a URL instead">
+                      <X className="h-4 w-4" />
+                    </Button>
+                  ) : (
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      onClick={() => fileInputRef.current?.click()}
+                      title={newAdType === 'video' ? 'Upload video file' : newAdType === 'slideshow' ? 'Upload image files' : 'Upload image file'}
+                    >
+                      <Upload className="h-4 w-4" />
+                    </Button>
+                  )}
+                </>
+              )}
+            </div>
+
+            <CreativePreview type={newAdType} urls={previewUrls} />
+
             {/* Targeting Options */}
+            <div className="space-y-1.5">
+              <label className="text-xs text-muted-foreground">Target Segments</label>
+              <TargetSegmentEditor
+                segments={newAd.targetSegments || [EVERYONE_SEGMENT]}
+                onChange={(targetSegments) => setNewAd({ ...newAd, targetSegments })}
+              />
+            </div>
+
+            <div className="space-y-1.5">
+              <label className="text-xs text-muted-foreground">Frequency Cap (blank = no limit)</label>
+              <FrequencyCapEditor
+                cap={newAd.frequencyCap}
+                onChange={(frequencyCap) => setNewAd({ ...newAd, frequencyCap })}
+              />
+            </div>
+
+            <div className="space-y-1.5">
+              <label className="text-xs text-muted-foreground">Schedule (blank = always on)</label>
+              <ScheduleEditor
+                schedule={newAd.schedule}
+                onChange={(schedule) => setNewAd({ ...newAd, schedule })}
+              />
+            </div>
+
             <div className="grid grid-cols-3 gap-3">
-              <div className="space-y-1.5">
-                <label className="text-xs text-muted-foreground">Target Gender</label>
-                <Select 
-                  value={newAd.gender || 'all'} 
-                  onValueChange={(v) => setNewAd({ ...newAd, gender: v as any })}
-                >
-                  <SelectTrigger>
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="all">All Genders</SelectItem>
-                    <SelectItem value="male">Male</SelectItem>
-                    <SelectItem value="female">Female</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
-              <div className="space-y-1.5">
-                <label className="text-xs text-muted-foreground">Target Age</label>
-                <Select 
-                  value={newAd.ageGroup || 'all'} 
-                  onValueChange={(v) => setNewAd({ ...newAd, ageGroup: v as any })}
-                >
-                  <SelectTrigger>
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="all">All Ages</SelectItem>
-                    <SelectItem value="kid">Kid (&lt;13)</SelectItem>
-                    <SelectItem value="young">Young (13-34)</SelectItem>
-                    <SelectItem value="adult">Adult (35+)</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
               <div className="space-y-1.5">
                 <label className="text-xs text-muted-foreground flex items-center gap-1">
                   Duration (s)
-                  {isLoadingDuration && (
+                  {newAdType === 'video' && isLoadingDuration && (
                     <span className="text-primary animate-pulse">detecting...</span>
                   )}
+                  {newAdType === 'slideshow' && previewUrls.length > 1 && (
+                    <span>• {((newAd.duration || 30) / previewUrls.length).toFixed(1)}s per slide</span>
+                  )}
                 </label>
                 <Input
                   type="number"
@@ -237,12 +481,14 @@ export const AdManager = ({
             </div>
 
             <Button 
-              onClick={handleAddUrl} 
-              disabled={!newAd.title || !newAd.videoUrl}
+              onClick={handleAddAd} 
+              disabled={!newAd.title || !hasSource || isSaving}
               className="w-full"
             >
-              <Plus className="h-4 w-4 mr-2" />
-              Add Ad from URL
+              {isSaving
+                ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                : <Plus className="h-4 w-4 mr-2" />}
+              {uploadFiles.length > 1 ? 'Add Ad from Files' : uploadFiles.length === 1 ? 'Add Ad from File' : 'Add Ad from URL'}
             </Button>
           </div>
 
@@ -253,11 +499,17 @@ export const AdManager = ({
                 <Tag className="h-4 w-4 text-primary" />
                 Current Ads ({ads.length})
               </span>
+              <Button variant="outline" size="sm" className="gap-1" onClick={handleDownloadAll} disabled={ads.length === 0}>
+                <CloudDownload className="h-3 w-3" />
+                Download all
+              </Button>
             </h4>
 
+            <OfflineStorageSummary ads={ads} cacheStatus={cacheStatus} usage={storageUsage} />
+
             {ads.length === 0 ? (
               <div className="text-center py-8 text-muted-foreground">
-                No ads added yet. Upload or add a video URL above.
+                No ads added yet. Upload or add a URL above.
               </div>
             ) : (
               <div className="space-y-2 max-h-[300px] overflow-y-auto pr-2">
@@ -266,56 +518,62 @@ export const AdManager = ({
                     key={ad.id}
                     className="flex items-center gap-3 p-3 bg-card rounded-lg border border-border hover:border-primary/50 transition-colors"
                   >
-                    <div className="w-10 h-10 rounded-lg bg-muted flex items-center justify-center">
-                      <Video className="h-5 w-5 text-muted-foreground" />
-                    </div>
+                    <AdThumbnail ad={ad} />
 
                     {editingAd?.id === ad.id ? (
                       // Edit mode
-                      <div className="flex-1 grid grid-cols-4 gap-2">
+                      <div className="flex-1 space-y-2">
                         <Input
                           value={editingAd.title}
                           onChange={(e) => setEditingAd({ ...editingAd, title: e.target.value })}
-                          className="col-span-2"
                         />
-                        <Select 
-                          value={editingAd.gender} 
-                          onValueChange={(v) => setEditingAd({ ...editingAd, gender: v as any })}
-                        >
-                          <SelectTrigger>
-                            <SelectValue />
-                          </SelectTrigger>
-                          <SelectContent>
-                            <SelectItem value="all">All</SelectItem>
-                            <SelectItem value="male">Male</SelectItem>
-                            <SelectItem value="female">Female</SelectItem>
-                          </SelectContent>
-                        </Select>
-                        <Select 
-                          value={editingAd.ageGroup} 
-                          onValueChange={(v) => setEditingAd({ ...editingAd, ageGroup: v as any })}
-                        >
-                          <SelectTrigger>
-                            <SelectValue />
-                          </SelectTrigger>
-                          <SelectContent>
-                            <SelectItem value="all">All</SelectItem>
-                            <SelectItem value="kid">Kid</SelectItem>
-                            <SelectItem value="young">Young</SelectItem>
-                            <SelectItem value="adult">Adult</SelectItem>
-                          </SelectContent>
-                        </Select>
+                        {getCreativeType(editingAd) !== 'video' && (
+                          <Input
+                            type="number"
+                            min={5}
+                            max={600}
+                            title="Duration (s)"
+                            value={editingAd.duration}
+                            onChange={(e) => setEditingAd({ ...editingAd, duration: parseInt(e.target.value) || editingAd.duration })}
+                          />
+                        )}
+                        <TargetSegmentEditor
+                          segments={getTargetSegments(editingAd)}
+                          onChange={(targetSegments) => setEditingAd({ ...editingAd, targetSegments })}
+                        />
+                        <FrequencyCapEditor
+                          cap={editingAd.frequencyCap}
+                          onChange={(frequencyCap) => setEditingAd({ ...editingAd, frequencyCap })}
+                        />
+                        <ScheduleEditor
+                          schedule={editingAd.schedule}
+                          onChange={(schedule) => setEditingAd({ ...editingAd, schedule })}
+                        />
                       </div>
                     ) : (
                       // View mode
                       <div className="flex-1 min-w-0">
                         <p className="font-medium truncate">{ad.title}</p>
-                        <div className="flex items-center gap-2 mt-1">
-                          <TargetBadge type="gender" value={ad.gender} />
-                          <TargetBadge type="age" value={ad.ageGroup} />
+                        <div className="flex flex-wrap items-center gap-2 mt-1">
+                          {getTargetSegments(ad).map((segment, i) => (
+                            <TargetBadge key={i} segment={segment} />
+                          ))}
                           <span className="text-xs text-muted-foreground">
-                            {ad.duration}s • Capture: {ad.captureStart}s-{ad.captureEnd}s
+                            {describeCreative(ad)} • {ad.duration}s • Capture: {ad.captureStart}s-{ad.captureEnd}s
+                            {describeFrequencyCap(ad.frequencyCap) && ` • ${describeFrequencyCap(ad.frequencyCap)}`}
                           </span>
+                          {ad.schedule && describeSchedule(ad.schedule) && (
+                            <span className="text-xs text-info flex items-center gap-1">
+                              <CalendarClock className="h-3 w-3" />
+                              {describeSchedule(ad.schedule)}
+                            </span>
+                          )}
+                          <EngagementBadge stats={adStats.get(ad.id)} />
+                          <CacheStatusBadge
+                            status={creativeCacheStatus(ad, cacheStatus)}
+                            local={getCreativeUrls(ad).every(isLocalVideo)}
+                            onDownload={() => getCreativeUrls(ad).forEach(url => cacheAdVideo(url))}
+                          />
                         </div>
                       </div>
                     )}
@@ -368,33 +626,313 @@ export const AdManager = ({
   );
 };
 
-interface TargetBadgeProps {
-  type: 'gender' | 'age';
-  value: string;
+interface TargetSegmentEditorProps {
+  segments: TargetSegment[];
+  onChange: (segments: TargetSegment[]) => void;
 }
 
-const TargetBadge = ({ type, value }: TargetBadgeProps) => {
-  const getIcon = () => {
-    if (type === 'gender') {
-      return value === 'male' ? <User className="h-3 w-3" /> 
-           : value === 'female' ? <UserCircle2 className="h-3 w-3" />
-           : null;
-    }
-    return value === 'kid' ? <Smile className="h-3 w-3" />
-         : value === 'young' ? <Baby className="h-3 w-3" /> 
-         : value === 'adult' ? <Briefcase className="h-3 w-3" />
-         : null;
+const TargetSegmentEditor = ({ segments, onChange }: TargetSegmentEditorProps) => {
+  const updateSegment = (index: number, patch: Partial<TargetSegment>) => {
+    onChange(segments.map((s, i) => i === index ? { ...s, ...patch } : s));
+  };
+
+  const removeSegment = (index: number) => {
+    onChange(segments.filter((_, i) => i !== index));
+  };
+
+  const addSegment = () => {
+    onChange([...segments, { gender: 'all', ageGroup: 'all' }]);
   };
 
+  return (
+    <div className="space-y-2">
+      {segments.map((segment, index) => (
+        <div key={index} className="grid grid-cols-[1fr_1fr_80px_auto] gap-2 items-center">
+          <Select
+            value={segment.gender}
+            onValueChange={(v) => updateSegment(index, { gender: v as TargetSegment['gender'] })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Genders</SelectItem>
+              <SelectItem value="male">Male</SelectItem>
+              <SelectItem value="female">Female</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select
+            value={segment.ageGroup}
+            onValueChange={(v) => updateSegment(index, { ageGroup: v as TargetSegment['ageGroup'] })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Ages</SelectItem>
+              <SelectItem value="kid">Kid (&lt;13)</SelectItem>
+              <SelectItem value="young">Young (13-34)</SelectItem>
+              <SelectItem value="adult">Adult (35+)</SelectItem>
+            </SelectContent>
+          </Select>
+          <Input
+            type="number"
+            min={0.1}
+            max={5}
+            step={0.1}
+            title="Segment weight"
+            value={segmentWeight(segment)}
+            onChange={(e) => updateSegment(index, { weight: parseFloat(e.target.value) || 1 })}
+          />
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => removeSegment(index)}
+            disabled={segments.length <= 1}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <Button variant="outline" size="sm" onClick={addSegment} className="gap-1">
+        <Plus className="h-3 w-3" />
+        Add segment
+      </Button>
+    </div>
+  );
+};
+
+const FREQUENCY_CAP_FIELDS: { key: keyof AdFrequencyCap; label: string }[] = [
+  { key: 'maxPerHour', label: 'Max/hour' },
+  { key: 'maxPerDay', label: 'Max/day' },
+  { key: 'minSeparationMinutes', label: 'Gap (min)' },
+  { key: 'dailyTarget', label: 'Daily target' },
+];
+
+const describeFrequencyCap = (cap?: AdFrequencyCap): string => {
+  if (!cap) return '';
+  return [
+    cap.maxPerHour && `${cap.maxPerHour}/h`,
+    cap.maxPerDay && `${cap.maxPerDay}/day`,
+    cap.minSeparationMinutes && `${cap.minSeparationMinutes}m gap`,
+    cap.dailyTarget && `target ${cap.dailyTarget}/day`,
+  ].filter(Boolean).join(', ');
+};
+
+interface FrequencyCapEditorProps {
+  cap?: AdFrequencyCap;
+  onChange: (cap: AdFrequencyCap | undefined) => void;
+}
+
+const FrequencyCapEditor = ({ cap, onChange }: FrequencyCapEditorProps) => {
+  const updateField = (key: keyof AdFrequencyCap, raw: string) => {
+    const value = parseInt(raw);
+    const next: AdFrequencyCap = { ...cap, [key]: value > 0 ? value : undefined };
+    const hasAny = FREQUENCY_CAP_FIELDS.some(f => next[f.key] !== undefined);
+    onChange(hasAny ? next : undefined);
+  };
+
+  return (
+    <div className="grid grid-cols-4 gap-2">
+      {FREQUENCY_CAP_FIELDS.map(({ key, label }) => (
+        <Input
+          key={key}
+          type="number"
+          min={0}
+          placeholder={label}
+          title={label}
+          value={cap?.[key] ?? ''}
+          onChange={(e) => updateField(key, e.target.value)}
+        />
+      ))}
+    </div>
+  );
+};
+
+interface ScheduleEditorProps {
+  schedule?: AdSchedule;
+  onChange: (schedule: AdSchedule | undefined) => void;
+}
+
+const ScheduleEditor = ({ schedule, onChange }: ScheduleEditorProps) => {
+  const timeWindows = schedule?.timeWindows || [];
+  const weekdays = schedule?.weekdays || [];
+
+  // Collapse an all-empty schedule back to undefined (= always on)
+  const update = (patch: Partial<AdSchedule>) => {
+    const next: AdSchedule = { ...schedule, ...patch };
+    const isEmpty = !next.startDate && !next.endDate &&
+      !(next.weekdays && next.weekdays.length > 0) &&
+      !(next.timeWindows && next.timeWindows.length > 0);
+    onChange(isEmpty ? undefined : next);
+  };
+
+  const toggleWeekday = (day: number) => {
+    update({
+      weekdays: weekdays.includes(day)
+        ? weekdays.filter(d => d !== day)
+        : [...weekdays, day].sort((a, b) => a - b),
+    });
+  };
+
+  const updateWindow = (index: number, key: 'start' | 'end', value: string) => {
+    update({ timeWindows: timeWindows.map((w, i) => i === index ? { ...w, [key]: value } : w) });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-2">
+        <Input
+          type="date"
+          title="Flight start date"
+          value={schedule?.startDate || ''}
+          onChange={(e) => update({ startDate: e.target.value || undefined })}
+        />
+        <Input
+          type="date"
+          title="Flight end date"
+          value={schedule?.endDate || ''}
+          onChange={(e) => update({ endDate: e.target.value || undefined })}
+        />
+      </div>
+
+      <div className="flex flex-wrap gap-1">
+        {WEEKDAY_LABELS.map((label, day) => (
+          <Button
+            key={label}
+            type="button"
+            size="sm"
+            variant={weekdays.includes(day) ? 'default' : 'outline'}
+            className="h-7 px-2 text-xs"
+            onClick={() => toggleWeekday(day)}
+          >
+            {label}
+          </Button>
+        ))}
+      </div>
+
+      {timeWindows.map((window, index) => (
+        <div key={index} className="grid grid-cols-[1fr_1fr_auto] gap-2 items-center">
+          <Input
+            type="time"
+            value={window.start}
+            onChange={(e) => updateWindow(index, 'start', e.target.value)}
+          />
+          <Input
+            type="time"
+            value={window.end}
+            onChange={(e) => updateWindow(index, 'end', e.target.value)}
+          />
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => update({ timeWindows: timeWindows.filter((_, i) => i !== index) })}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <Button
+        variant="outline"
+        size="sm"
+        className="gap-1"
+        onClick={() => update({ timeWindows: [...timeWindows, { start: '07:00', end: '10:00' }] })}
+      >
+        <Plus className="h-3 w-3" />
+        Add time window
+      </Button>
+    </div>
+  );
+};
+
+const CREATIVE_ICONS: Record<CreativeType, LucideIcon> = {
+  video: Video,
+  image: ImageIcon,
+  html: Globe,
+  slideshow: GalleryHorizontal,
+};
+
+interface AdThumbnailProps {
+  ad: AdMetadata;
+}
+
+// First image for image and slideshow ads, otherwise the creative type's icon
+const AdThumbnail = ({ ad }: AdThumbnailProps) => {
+  const type = getCreativeType(ad);
+  const src = useAdVideoSource(type === 'image' || type === 'slideshow' ? ad.imageUrls?.[0] : undefined);
+  const Icon = CREATIVE_ICONS[type];
+
+  return (
+    <div className="w-10 h-10 rounded-lg bg-muted flex items-center justify-center overflow-hidden shrink-0" title={describeCreative(ad)}>
+      {src
+        ? <img src={src} alt="" className="w-full h-full object-cover" />
+        : <Icon className="h-5 w-5 text-muted-foreground" />}
+    </div>
+  );
+};
+
+interface CreativePreviewProps {
+  type: CreativeType;
+  urls: string[];
+}
+
+// What the new ad will look like, before it's added
+const CreativePreview = ({ type, urls }: CreativePreviewProps) => {
+  if (urls.length === 0) return null;
+
+  if (type === 'slideshow') {
+    return (
+      <div className="grid grid-cols-4 gap-1.5">
+        {urls.map((url, index) => (
+          <div key={`${index}-${url}`} className="relative aspect-video rounded-md overflow-hidden bg-black">
+            <img src={url} alt="" className="w-full h-full object-contain" />
+            <span className="absolute bottom-0.5 left-1 text-[10px] font-bold text-white drop-shadow">{index + 1}</span>
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="aspect-video max-h-48 rounded-lg overflow-hidden bg-black">
+      {type === 'video' && <video src={urls[0]} className="w-full h-full object-contain" muted controls playsInline />}
+      {type === 'image' && <img src={urls[0]} alt="" className="w-full h-full object-contain" />}
+      {type === 'html' && (
+        <iframe
+          src={urls[0]}
+          title="Creative preview"
+          sandbox="allow-scripts"
+          className="w-full h-full border-0 bg-background"
+        />
+      )}
+    </div>
+  );
+};
+
+interface TargetBadgeProps {
+  segment: TargetSegment;
+}
+
+const TargetBadge = ({ segment }: TargetBadgeProps) => {
+  const getIcons = () => (
+    <>
+      {segment.gender === 'male' ? <User className="h-3 w-3" />
+       : segment.gender === 'female' ? <UserCircle2 className="h-3 w-3" />
+       : null}
+      {segment.ageGroup === 'kid' ? <Smile className="h-3 w-3" />
+       : segment.ageGroup === 'young' ? <Baby className="h-3 w-3" />
+       : segment.ageGroup === 'adult' ? <Briefcase className="h-3 w-3" />
+       : null}
+    </>
+  );
+
   const getColor = () => {
-    if (type === 'gender') {
-      return value === 'male' ? 'bg-primary/20 text-primary'
-           : value === 'female' ? 'bg-accent/20 text-accent'
-           : 'bg-muted text-muted-foreground';
+    if (segment.gender !== 'all') {
+      return segment.gender === 'male' ? 'bg-primary/20 text-primary' : 'bg-accent/20 text-accent';
     }
-    return value === 'kid' ? 'bg-info/20 text-info'
-         : value === 'young' ? 'bg-success/20 text-success'
-         : value === 'adult' ? 'bg-warning/20 text-warning'
+    return segment.ageGroup === 'kid' ? 'bg-info/20 text-info'
+         : segment.ageGroup === 'young' ? 'bg-success/20 text-success'
+         : segment.ageGroup === 'adult' ? 'bg-warning/20 text-warning'
          : 'bg-muted text-muted-foreground';
   };
 
@@ -403,8 +941,123 @@ const TargetBadge = ({ type, value }: TargetBadgeProps) => {
       "inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs font-medium",
       getColor()
     )}>
-      {getIcon()}
-      <span className="capitalize">{value}</span>
+      {getIcons()}
+      <span className="capitalize">{describeSegment(segment)}</span>
+      {segmentWeight(segment) !== 1 && (
+        <span className="opacity-70">×{segmentWeight(segment)}</span>
+      )}
+    </div>
+  );
+};
+
+interface EngagementBadgeProps {
+  stats?: AdAudience;
+}
+
+// Mean expression engagement across this ad's capture sessions
+const EngagementBadge = ({ stats }: EngagementBadgeProps) => {
+  if (!stats || stats.engagementScore === null) return null;
+
+  return (
+    <span className="text-xs text-primary">
+      😊 Engagement {stats.engagementScore}/100 ({stats.engagementSessions} session{stats.engagementSessions !== 1 ? 's' : ''})
+    </span>
+  );
+};
+
+// An ad is only as available offline as its least-available file
+const creativeCacheStatus = (ad: AdMetadata, cacheStatus: Map<string, AdCacheStatus>): AdCacheStatus | undefined => {
+  const statuses = getCreativeUrls(ad).map(url => cacheStatus.get(url));
+  if (statuses.length === 0 || statuses.some(status => !status)) return undefined;
+
+  const unavailable = statuses.find(status => status.state === 'error') ?? statuses.find(status => status.state === 'missing');
+  if (unavailable) return unavailable;
+
+  if (statuses.some(status => status.state === 'downloading')) {
+    const progress = statuses.reduce((sum, status) => sum + (status.state === 'cached' ? 100 : status.progress ?? 0), 0);
+    return { state: 'downloading', progress: Math.round(progress / statuses.length) };
+  }
+  return { state: 'cached', bytes: statuses.reduce((sum, status) => sum + (status.bytes ?? 0), 0) };
+};
+
+interface CacheStatusBadgeProps {
+  status?: AdCacheStatus;
+  local: boolean;
+  onDownload: () => void;
+}
+
+// Whether this ad can play without a network
+const CacheStatusBadge = ({ status, local, onDownload }: CacheStatusBadgeProps) => {
+  if (!status) return null;
+
+  switch (status.state) {
+    case 'cached':
+      return (
+        <span className="text-xs text-success flex items-center gap-1">
+          <HardDrive className="h-3 w-3" />
+          {local ? 'Uploaded' : 'Offline'}{status.bytes ? ` • ${formatBytes(status.bytes)}` : ''}
+        </span>
+      );
+    case 'downloading':
+      return (
+        <span className="text-xs text-primary flex items-center gap-1">
+          <Loader2 className="h-3 w-3 animate-spin" />
+          Caching {status.progress ?? 0}%
+        </span>
+      );
+    default:
+      return (
+        <button
+          type="button"
+          className="text-xs text-warning flex items-center gap-1 hover:underline"
+          title={status.error ?? 'Not stored in this browser - click to download'}
+          onClick={onDownload}
+        >
+          <CloudOff className="h-3 w-3" />
+          {status.state === 'error' ? 'Cache failed' : 'Online only'}
+        </button>
+      );
+  }
+};
+
+interface OfflineStorageSummaryProps {
+  ads: AdMetadata[];
+  cacheStatus: Map<string, AdCacheStatus>;
+  usage: StorageUsage | null;
+}
+
+// How much of the library survives a network outage, and what it costs in storage
+const OfflineStorageSummary = ({ ads, cacheStatus, usage }: OfflineStorageSummaryProps) => {
+  const cachedAds = ads.filter(ad => creativeCacheStatus(ad, cacheStatus)?.state === 'cached').length;
+  const usedPercent = usage && usage.quota > 0 ? (usage.usage / usage.quota) * 100 : 0;
+
+  return (
+    <div className="p-3 rounded-lg bg-muted/50 border border-border space-y-2">
+      <div className="flex items-center justify-between text-xs">
+        <span className="flex items-center gap-1.5 font-medium">
+          <HardDrive className="h-3.5 w-3.5 text-primary" />
+          {cachedAds}/{ads.length} ads available offline
+        </span>
+        {usage && (
+          <span className="text-muted-foreground">
+            Ad files {formatBytes(usage.videoBytes)}
+            {usage.quota > 0 && ` • ${formatBytes(usage.usage)} of ${formatBytes(usage.quota)} used`}
+          </span>
+        )}
+      </div>
+      {usage && usage.quota > 0 && (
+        <div className="h-1.5 bg-muted rounded-full overflow-hidden">
+          <div
+            className={cn('h-full rounded-full', usedPercent > 80 ? 'bg-destructive' : 'bg-primary')}
+            style={{ width: `${Math.min(100, usedPercent)}%` }}
+          />
+        </div>
+      )}
+      {usage && !usage.persisted && (
+        <p className="text-[10px] text-muted-foreground">
+          ⚠️ The browser may clear cached ad files when the disk runs low
+        </p>
+      )}
     </div>
   );
 };
@@ -1,13 +1,27 @@
-import { AdMetadata } from '@/types/ad';
-import { List, Play, User, UserCircle2, Baby, Briefcase } from 'lucide-react';
+import { AdMetadata, IneligibleAd, QueueReorderMode, TargetSegment } from '@/types/ad';
+import { List, Play, User, UserCircle2, Baby, Briefcase, Smile, Clock, Home } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { getTargetSegments, describeSegment, segmentWeight } from '@/utils/adTargeting';
 
 interface AdQueueProps {
   queue: AdMetadata[];
   currentAdId: string | null;
+  ineligibleAds?: IneligibleAd[];
+  queueLength?: number;
+  reorderMode?: QueueReorderMode;
+  usingFallback?: boolean;
 }
 
-export const AdQueue = ({ queue, currentAdId }: AdQueueProps) => {
+export const AdQueue = ({
+  queue,
+  currentAdId,
+  ineligibleAds = [],
+  queueLength = 2,
+  reorderMode = 'replace',
+  usingFallback = false,
+}: AdQueueProps) => {
+  const ineligibleReasons = new Map(ineligibleAds.map(({ ad, reason }) => [ad.id, reason]));
+
   return (
     <div className="glass-card p-6 space-y-4">
       <div className="flex items-center justify-between">
@@ -15,14 +29,23 @@ export const AdQueue = ({ queue, currentAdId }: AdQueueProps) => {
           <List className="h-5 w-5 text-primary" />
           Ad Queue
         </h3>
-        <span className="text-sm text-muted-foreground">
-          {queue.length} ads
-        </span>
+        <div className="flex items-center gap-2">
+          {usingFallback && (
+            <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs font-medium bg-warning/20 text-warning">
+              <Home className="h-3 w-3" />
+              Fallback
+            </span>
+          )}
+          <span className="text-sm text-muted-foreground">
+            {queue.length} ads
+          </span>
+        </div>
       </div>
 
       <div className="space-y-2 max-h-[320px] overflow-y-auto pr-2 scrollbar-thin">
         {queue.map((ad, index) => {
           const isPlaying = ad.id === currentAdId;
+          const ineligibleReason = ineligibleReasons.get(ad.id);
           
           return (
             <div
@@ -31,7 +54,8 @@ export const AdQueue = ({ queue, currentAdId }: AdQueueProps) => {
                 "flex items-center gap-3 p-3 rounded-lg transition-all duration-300",
                 isPlaying 
                   ? "bg-primary/20 border border-primary/40" 
-                  : "bg-muted/50 hover:bg-muted"
+                  : "bg-muted/50 hover:bg-muted",
+                ineligibleReason && !isPlaying && "opacity-60"
               )}
             >
               <div className={cn(
@@ -54,28 +78,52 @@ export const AdQueue = ({ queue, currentAdId }: AdQueueProps) => {
                 )}>
                   {ad.title}
                 </p>
-                <div className="flex items-center gap-2 mt-1">
-                  <TargetBadge 
-                    type="gender" 
-                    value={ad.gender} 
-                  />
-                  <TargetBadge 
-                    type="age" 
-                    value={ad.ageGroup} 
-                  />
+                <div className="flex flex-wrap items-center gap-2 mt-1">
+                  {getTargetSegments(ad).map((segment, i) => (
+                    <TargetBadge 
+                      key={i}
+                      segment={segment} 
+                    />
+                  ))}
                   <span className="text-xs text-muted-foreground">
                     {ad.duration}s
                   </span>
                 </div>
+                {ineligibleReason && (
+                  <p className="text-xs text-warning flex items-center gap-1 mt-1">
+                    <Clock className="h-3 w-3" />
+                    {ineligibleReason}
+                  </p>
+                )}
               </div>
             </div>
           );
         })}
       </div>
 
+      {/* Library ads that cannot run right now (schedule or frequency cap) */}
+      {ineligibleAds.length > 0 && (
+        <div className="space-y-1.5 pt-2 border-t border-border">
+          <p className="text-xs font-medium text-muted-foreground flex items-center gap-1.5">
+            <Clock className="h-3.5 w-3.5" />
+            Not eligible now ({ineligibleAds.length})
+          </p>
+          {ineligibleAds.map(({ ad, reason }) => (
+            <div key={ad.id} className="flex items-center justify-between gap-2 text-xs px-2 py-1 rounded bg-muted/30">
+              <span className="truncate text-muted-foreground">{ad.title}</span>
+              <span className="text-warning shrink-0">{reason}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
       <div className="pt-2 border-t border-border">
         <p className="text-xs text-muted-foreground text-center">
-          Top 2 ads selected based on detected demographics
+          {usingFallback
+            ? 'No viewers detected - playing the fallback playlist'
+            : reorderMode === 'rerank'
+            ? `Queue re-ranked by detected demographics (topped up to ${queueLength})`
+            : `Top ${queueLength} ads selected based on detected demographics`}
         </p>
       </div>
     </div>
@@ -83,30 +131,29 @@ export const AdQueue = ({ queue, currentAdId }: AdQueueProps) => {
 };
 
 interface TargetBadgeProps {
-  type: 'gender' | 'age';
-  value: string;
+  segment: TargetSegment;
 }
 
-const TargetBadge = ({ type, value }: TargetBadgeProps) => {
-  const getIcon = () => {
-    if (type === 'gender') {
-      return value === 'male' ? <User className="h-3 w-3" /> 
-           : value === 'female' ? <UserCircle2 className="h-3 w-3" />
-           : null;
-    }
-    return value === 'young' ? <Baby className="h-3 w-3" /> 
-         : value === 'adult' ? <Briefcase className="h-3 w-3" />
-         : null;
-  };
+const TargetBadge = ({ segment }: TargetBadgeProps) => {
+  const getIcons = () => (
+    <>
+      {segment.gender === 'male' ? <User className="h-3 w-3" />
+       : segment.gender === 'female' ? <UserCircle2 className="h-3 w-3" />
+       : null}
+      {segment.ageGroup === 'kid' ? <Smile className="h-3 w-3" />
+       : segment.ageGroup === 'young' ? <Baby className="h-3 w-3" />
+       : segment.ageGroup === 'adult' ? <Briefcase className="h-3 w-3" />
+       : null}
+    </>
+  );
 
   const getColor = () => {
-    if (type === 'gender') {
-      return value === 'male' ? 'bg-primary/20 text-primary'
-           : value === 'female' ? 'bg-accent/20 text-accent'
-           : 'bg-muted text-muted-foreground';
+    if (segment.gender !== 'all') {
+      return segment.gender === 'male' ? 'bg-primary/20 text-primary' : 'bg-accent/20 text-accent';
     }
-    return value === 'young' ? 'bg-success/20 text-success'
-         : value === 'adult' ? 'bg-warning/20 text-warning'
+    return segment.ageGroup === 'kid' ? 'bg-info/20 text-info'
+         : segment.ageGroup === 'young' ? 'bg-success/20 text-success'
+         : segment.ageGroup === 'adult' ? 'bg-warning/20 text-warning'
          : 'bg-muted text-muted-foreground';
   };
 
@@ -115,8 +162,11 @@ const TargetBadge = ({ type, value }: TargetBadgeProps) => {
       "inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs font-medium",
       getColor()
     )}>
-      {getIcon()}
-      <span className="capitalize">{value}</span>
+      {getIcons()}
+      <span className="capitalize">{describeSegment(segment)}</span>
+      {segmentWeight(segment) !== 1 && (
+        <span className="opacity-70">×{segmentWeight(segment)}</span>
+      )}
     </div>
   );
 };
@@ -0,0 +1,105 @@
+import { AdMetadata } from '@/types/ad';
+import { Dices, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import {
+  BanditPosteriors,
+  BANDIT_SEGMENTS,
+  describeBanditSegment,
+  getPosterior,
+  posteriorMean,
+  posteriorTrials,
+} from '@/utils/adBandit';
+
+interface BanditPanelProps {
+  ads: AdMetadata[];
+  posteriors: BanditPosteriors;
+  isActive: boolean;
+  onReset: () => void;
+}
+
+export const BanditPanel = ({ ads, posteriors, isActive, onReset }: BanditPanelProps) => {
+  const totalTrials = ads.reduce((sum, ad) =>
+    sum + BANDIT_SEGMENTS.reduce((s, segment) => s + posteriorTrials(getPosterior(posteriors, ad.id, segment)), 0),
+  0);
+
+  return (
+    <div className="glass-card p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="font-display font-semibold text-lg flex items-center gap-2">
+          <Dices className="h-5 w-5 text-primary" />
+          Learned Retention
+        </h3>
+        <div className="flex items-center gap-2">
+          <span className={cn(
+            "px-2 py-0.5 rounded text-xs font-medium",
+            isActive ? "bg-success/20 text-success" : "bg-muted text-muted-foreground"
+          )}>
+            {isActive ? 'Bandit active' : 'Learning only'}
+          </span>
+          {totalTrials > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onReset}
+              className="h-7 px-2 text-destructive hover:text-destructive"
+              title="Reset learned posteriors"
+            >
+              <RotateCcw className="h-3.5 w-3.5" />
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {totalTrials === 0 ? (
+        <div className="text-center py-6 text-muted-foreground">
+          <p className="text-sm">No retention data yet</p>
+          <p className="text-xs mt-1">Each capture window teaches the bandit which ads keep viewers watching</p>
+        </div>
+      ) : (
+        <div className="space-y-2 max-h-[320px] overflow-y-auto pr-2 scrollbar-thin">
+          {/* Segment header */}
+          <div className="grid grid-cols-[minmax(0,1fr)_repeat(6,2.5rem)] gap-1 text-[10px] text-muted-foreground text-center">
+            <span />
+            {BANDIT_SEGMENTS.map(segment => (
+              <span key={segment}>{describeBanditSegment(segment)}</span>
+            ))}
+          </div>
+
+          {ads.map(ad => (
+            <div key={ad.id} className="grid grid-cols-[minmax(0,1fr)_repeat(6,2.5rem)] gap-1 items-center">
+              <span className="text-xs truncate">{ad.title}</span>
+              {BANDIT_SEGMENTS.map(segment => {
+                const posterior = getPosterior(posteriors, ad.id, segment);
+                const trials = posteriorTrials(posterior);
+                const mean = posteriorMean(posterior);
+                return (
+                  <div
+                    key={segment}
+                    className={cn(
+                      "rounded px-1 py-0.5 text-center text-[10px] leading-tight",
+                      trials === 0 ? "bg-muted/30 text-muted-foreground"
+                        : mean >= 0.66 ? "bg-success/20 text-success"
+                        : mean >= 0.33 ? "bg-warning/20 text-warning"
+                        : "bg-destructive/20 text-destructive"
+                    )}
+                    title={`α=${posterior.alpha} β=${posterior.beta}`}
+                  >
+                    <div className="font-bold">{trials === 0 ? '–' : `${Math.round(mean * 100)}%`}</div>
+                    <div className="opacity-70">n={trials}</div>
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="pt-2 border-t border-border">
+        <p className="text-xs text-muted-foreground text-center">
+          Posterior mean share of viewers still watching at capture end
+        </p>
+      </div>
+    </div>
+  );
+};
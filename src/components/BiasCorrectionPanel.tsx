@@ -0,0 +1,234 @@
+import { useMemo, useState } from 'react';
+import { Brain, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { BiasCorrectionMetrics, BiasCorrectionModel, GroundTruthEntry } from '@/types/evaluation';
+import { loadCaptureSettings, updateStoredCaptureSettings } from '@/utils/captureSettings';
+import {
+  BIAS_FEATURES,
+  loadBiasModels,
+  nextBiasModelVersion,
+  saveBiasModels,
+  trainBiasCorrection,
+  trainingEntries,
+  trainingShortfall,
+} from '@/utils/biasCorrection';
+
+const METRIC_ROWS: { key: keyof BiasCorrectionMetrics; label: string; lowerIsBetter?: boolean }[] = [
+  { key: 'genderAccuracy', label: 'Gender accuracy' },
+  { key: 'maleRecall', label: 'Male recall' },
+  { key: 'femaleRecall', label: 'Female recall' },
+  { key: 'ece', label: 'Calibration error (ECE)', lowerIsBetter: true },
+];
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+interface BiasCorrectionPanelProps {
+  /** Every evaluation session's entries - the model trains on all of them */
+  entries: GroundTruthEntry[];
+  activeModel: BiasCorrectionModel | null;
+  onActiveModelChange: (model: BiasCorrectionModel | null) => void;
+}
+
+export const BiasCorrectionPanel = ({ entries, activeModel, onActiveModelChange }: BiasCorrectionPanelProps) => {
+  const [models, setModels] = useState<BiasCorrectionModel[]>(loadBiasModels);
+  const [compareVersion, setCompareVersion] = useState<number | null>(
+    () => activeModel?.version ?? models[0]?.version ?? null
+  );
+
+  const eligible = useMemo(() => trainingEntries(entries).length, [entries]);
+  const shortfall = useMemo(() => trainingShortfall(entries), [entries]);
+
+  // The active model may have been deleted from the version list
+  const compared = models.find(m => m.version === compareVersion)
+    ?? (activeModel?.version === compareVersion ? activeModel : null);
+
+  const handleTrain = () => {
+    // Compared against the fixed path as currently configured
+    const settings = loadCaptureSettings();
+    const model = trainBiasCorrection(
+      entries,
+      { femaleBoostFactor: settings.femaleBoostFactor, calibration: settings.confidenceCalibration },
+      nextBiasModelVersion(models)
+    );
+    if (!model) return;
+
+    saveBiasModels([model, ...models]);
+    setModels(loadBiasModels());
+    setCompareVersion(model.version);
+    toast.success(`Trained bias correction v${model.version} on ${model.samples} faces`);
+  };
+
+  const handleUse = (model: BiasCorrectionModel | null) => {
+    updateStoredCaptureSettings({ biasCorrectionModel: model });
+    onActiveModelChange(model);
+    toast.success(model ? `Using learned bias correction v${model.version}` : 'Using the fixed female boost');
+  };
+
+  const handleDelete = (version: number) => {
+    const remaining = models.filter(m => m.version !== version);
+    saveBiasModels(remaining);
+    setModels(remaining);
+    if (compareVersion === version && activeModel?.version !== version) {
+      setCompareVersion(remaining[0]?.version ?? null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Brain className="h-5 w-5 text-primary" />
+          Learned Bias Correction
+        </CardTitle>
+        <CardDescription>
+          Learns how to correct face-api.js gender output from every session's labels, using the raw
+          score, face size, hair score and source. It replaces the fixed female boost and calibration.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap items-center gap-3">
+          <Button onClick={handleTrain} disabled={!!shortfall}>
+            Train New Version
+          </Button>
+          <p className="text-sm text-muted-foreground flex-1">
+            {shortfall ?? `${eligible} labeled faces with raw scores across all sessions`}
+          </p>
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-muted-foreground">In use:</span>
+            {activeModel ? (
+              <>
+                <Badge>Learned v{activeModel.version}</Badge>
+                <Button size="sm" variant="outline" onClick={() => handleUse(null)}>
+                  Use Fixed Boost
+                </Button>
+              </>
+            ) : (
+              <Badge variant="secondary">Fixed boost</Badge>
+            )}
+          </div>
+        </div>
+
+        {models.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Version</TableHead>
+                <TableHead>Trained</TableHead>
+                <TableHead>Faces</TableHead>
+                <TableHead>Accuracy</TableHead>
+                <TableHead>Female Recall</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {models.map(model => (
+                <TableRow
+                  key={model.version}
+                  className={`cursor-pointer ${model.version === compareVersion ? 'bg-muted/50' : ''}`}
+                  onClick={() => setCompareVersion(model.version)}
+                >
+                  <TableCell className="font-medium">
+                    v{model.version}
+                    {model.version === activeModel?.version && <Badge className="ml-2">In use</Badge>}
+                  </TableCell>
+                  <TableCell className="text-xs">{new Date(model.trainedAt).toLocaleString()}</TableCell>
+                  <TableCell>{model.samples}</TableCell>
+                  <TableCell>
+                    {formatPercent(model.before.genderAccuracy)} → {formatPercent(model.after.genderAccuracy)}
+                  </TableCell>
+                  <TableCell>
+                    {formatPercent(model.before.femaleRecall)} → {formatPercent(model.after.femaleRecall)}
+                  </TableCell>
+                  <TableCell className="text-right space-x-2 whitespace-nowrap">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={model.version === activeModel?.version}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleUse(model);
+                      }}
+                    >
+                      Use
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-8 w-8 p-0 text-destructive hover:text-destructive"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleDelete(model.version);
+                      }}
+                      title="Delete version"
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {compared && (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Before / After (v{compared.version})</p>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead></TableHead>
+                    <TableHead>Fixed Boost</TableHead>
+                    <TableHead>Learned v{compared.version}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {METRIC_ROWS.map(({ key, label, lowerIsBetter }) => {
+                    const before = compared.before[key];
+                    const after = compared.after[key];
+                    const improved = lowerIsBetter ? after < before : after > before;
+                    return (
+                      <TableRow key={key}>
+                        <TableCell className="text-muted-foreground">{label}</TableCell>
+                        <TableCell>{formatPercent(before)}</TableCell>
+                        <TableCell className={improved ? 'font-bold text-success' : after === before ? '' : 'text-destructive'}>
+                          {formatPercent(after)}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Weights</p>
+              <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+                {BIAS_FEATURES.map((feature, i) => (
+                  <div key={feature} className="flex justify-between gap-2">
+                    <span className="text-muted-foreground">{feature}</span>
+                    <span className="font-mono">{compared.weights[i]?.toFixed(2) ?? '—'}</span>
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Positive weights push toward male. Metrics are 5-fold cross-validated on the training labels;
+                the fixed boost is scored per face, without the tracker's extra female votes.
+              </p>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,257 @@
+import { useMemo, useState } from 'react';
+import { Gauge, Trash2 } from 'lucide-react';
+import { Bar, CartesianGrid, ComposedChart, Line, XAxis, YAxis } from 'recharts';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from '@/components/ui/chart';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { CalibrationSource, ConfidenceCalibration, GenderCalibration, GroundTruthEntry } from '@/types/evaluation';
+import { updateStoredCaptureSettings } from '@/utils/captureSettings';
+import {
+  CALIBRATION_SOURCES,
+  MIN_CALIBRATION_SAMPLES,
+  describeCalibration,
+  expectedCalibrationError,
+  fitCalibration,
+  fittingEntries,
+  rawSamples,
+  recordedSamples,
+  reliabilityBins,
+} from '@/utils/confidenceCalibration';
+
+type ScoreView = 'recorded' | 'raw' | 'calibrated';
+
+const SCORE_VIEWS: Record<ScoreView, string> = {
+  recorded: 'Recorded confidence',
+  raw: 'Raw face-api.js',
+  calibrated: 'Raw, applied calibration',
+};
+
+const SOURCE_LABELS: Record<CalibrationSource, string> = {
+  webcam: 'Webcam',
+  video: 'Video file',
+  screen: 'Screen capture',
+};
+
+const reliabilityChartConfig = {
+  accuracy: { label: 'Accuracy', color: 'hsl(var(--primary))' },
+  confidence: { label: 'Confidence', color: 'hsl(var(--accent))' },
+} satisfies ChartConfig;
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+// Under 5% is generally considered well calibrated
+const eceClass = (ece: number) => ece < 0.05 ? 'text-success' : ece < 0.1 ? 'text-warning' : 'text-destructive';
+
+interface CalibrationPanelProps {
+  entries: GroundTruthEntry[];
+  calibration: ConfidenceCalibration;
+  onCalibrationChange: (calibration: ConfidenceCalibration) => void;
+  /** Version of the learned bias correction in use, which bypasses these calibrations */
+  learnedVersion?: number;
+}
+
+export const CalibrationPanel = ({ entries, calibration, onCalibrationChange, learnedVersion }: CalibrationPanelProps) => {
+  const [view, setView] = useState<ScoreView>('recorded');
+  const [method, setMethod] = useState<GenderCalibration['method']>('temperature');
+
+  const bins = useMemo(() => {
+    const samples = view === 'recorded'
+      ? recordedSamples(entries)
+      : rawSamples(entries, view === 'calibrated' ? calibration : {});
+    return reliabilityBins(samples);
+  }, [entries, view, calibration]);
+  const ece = expectedCalibrationError(bins);
+  const sampleCount = bins.reduce((sum, b) => sum + b.count, 0);
+
+  const fits = useMemo(() => CALIBRATION_SOURCES.map(source => ({
+    source,
+    labeled: fittingEntries(entries, source).length,
+    fit: fitCalibration(entries, source, method),
+  })), [entries, method]);
+
+  const chartData = bins.map(b => ({
+    bin: `${Math.round(b.lower * 100)}-${Math.round(b.upper * 100)}%`,
+    accuracy: b.count > 0 ? Math.round(b.accuracy * 1000) / 10 : null,
+    // Perfect calibration: accuracy equals confidence
+    confidence: Math.round((b.count > 0 ? b.avgConfidence : (b.lower + b.upper) / 2) * 1000) / 10,
+    count: b.count,
+  }));
+
+  const applyCalibration = (next: ConfidenceCalibration) => {
+    updateStoredCaptureSettings({ confidenceCalibration: next });
+    onCalibrationChange(next);
+  };
+
+  const handleApply = (source: CalibrationSource, fit: GenderCalibration) => {
+    applyCalibration({ ...calibration, [source]: fit });
+    toast.success(`Calibrated ${SOURCE_LABELS[source].toLowerCase()} confidence (${describeCalibration(fit)})`);
+  };
+
+  const handleRemove = (source: CalibrationSource) => {
+    const next = { ...calibration };
+    delete next[source];
+    applyCalibration(next);
+    toast.success(`${SOURCE_LABELS[source]} confidence uses raw probabilities again`);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Gauge className="h-5 w-5 text-primary" />
+          Confidence Calibration
+        </CardTitle>
+        <CardDescription>
+          How often a gender prediction at each confidence is actually right. A calibrated model's bars
+          sit on the confidence line, so Min Demographic Confidence means measured accuracy.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2">
+            <Label>Scores</Label>
+            <Select value={view} onValueChange={(v) => setView(v as ScoreView)}>
+              <SelectTrigger className="w-[220px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(SCORE_VIEWS) as ScoreView[]).map(key => (
+                  <SelectItem key={key} value={key}>{SCORE_VIEWS[key]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <p className="text-sm text-muted-foreground">Expected Calibration Error</p>
+            <p className={`text-2xl font-bold ${sampleCount > 0 ? eceClass(ece) : ''}`}>
+              {sampleCount > 0 ? formatPercent(ece) : '—'}
+            </p>
+          </div>
+          <p className="text-sm text-muted-foreground">{sampleCount} labeled real faces</p>
+        </div>
+
+        {sampleCount > 0 ? (
+          <ChartContainer config={reliabilityChartConfig} className="h-[260px] w-full aspect-auto">
+            <ComposedChart data={chartData}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="bin" tickLine={false} axisLine={false} />
+              <YAxis domain={[0, 100]} unit="%" tickLine={false} axisLine={false} width={45} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Bar dataKey="accuracy" fill="var(--color-accuracy)" radius={4} />
+              <Line dataKey="confidence" stroke="var(--color-confidence)" strokeWidth={2} strokeDasharray="4 4" dot={false} />
+            </ComposedChart>
+          </ChartContainer>
+        ) : (
+          <p className="text-center py-6 text-muted-foreground">
+            {view === 'recorded'
+              ? 'No labeled real faces yet.'
+              : 'No entries with raw scores yet - label detections to record them.'}
+          </p>
+        )}
+
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <p className="text-sm font-medium">Fit per source</p>
+            <Select value={method} onValueChange={(v) => setMethod(v as GenderCalibration['method'])}>
+              <SelectTrigger className="w-[220px] h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="temperature">Temperature scaling</SelectItem>
+                <SelectItem value="platt">Platt scaling</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Source</TableHead>
+                <TableHead>Raw Labels</TableHead>
+                <TableHead>Applied</TableHead>
+                <TableHead>ECE Raw</TableHead>
+                <TableHead>ECE Fitted</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {fits.map(({ source, labeled, fit }) => {
+                const applied = calibration[source];
+                return (
+                  <TableRow key={source}>
+                    <TableCell className="font-medium">{SOURCE_LABELS[source]}</TableCell>
+                    <TableCell>{labeled}</TableCell>
+                    <TableCell>
+                      {applied ? (
+                        <Badge variant="secondary">{describeCalibration(applied)}</Badge>
+                      ) : (
+                        <span className="text-muted-foreground">Raw</span>
+                      )}
+                    </TableCell>
+                    <TableCell className={fit ? eceClass(fit.eceBefore) : ''}>
+                      {fit ? formatPercent(fit.eceBefore) : '—'}
+                    </TableCell>
+                    <TableCell className={fit ? eceClass(fit.eceAfter) : ''}>
+                      {fit ? `${formatPercent(fit.eceAfter)} (${describeCalibration(fit)})` : `Needs ${MIN_CALIBRATION_SAMPLES}`}
+                    </TableCell>
+                    <TableCell className="text-right space-x-2 whitespace-nowrap">
+                      <Button size="sm" variant="outline" disabled={!fit} onClick={() => fit && handleApply(source, fit)}>
+                        Fit &amp; Apply
+                      </Button>
+                      {applied && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="h-8 w-8 p-0 text-destructive hover:text-destructive"
+                          onClick={() => handleRemove(source)}
+                          title="Remove calibration"
+                        >
+                          <Trash2 className="h-3.5 w-3.5" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+          <p className="text-xs text-muted-foreground">
+            Fits use the raw face-api.js output of labeled real faces from each source; the fitted ECE is
+            measured on the same labels, so it is optimistic. The calibration is applied before the female
+            boost, and entries labeled afterwards record the calibrated confidence.
+          </p>
+          {learnedVersion !== undefined && (
+            <p className="text-xs text-warning">
+              Learned bias correction v{learnedVersion} is in use, so these calibrations are not applied.
+            </p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,6 +1,7 @@
 import { CaptureSessionSummary as SessionSummaryType } from '@/types/detection';
-import { Users, User, UserCircle2, Smile, Baby, Briefcase, Clock, CheckCircle2 } from 'lucide-react';
+import { Users, User, UserCircle2, Smile, Baby, Briefcase, Clock, CheckCircle2, Eye } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { dominantExpression, EXPRESSION_EMOJI } from '@/utils/engagement';
 
 interface CaptureSessionSummaryProps {
   summary: SessionSummaryType | null;
@@ -16,6 +17,7 @@ export const CaptureSessionSummary = ({ summary, isVisible }: CaptureSessionSumm
 
   const totalGender = summary.demographics.male + summary.demographics.female;
   const totalAge = summary.demographics.kid + summary.demographics.young + summary.demographics.adult;
+  const dominant = summary.expressions ? dominantExpression(summary.expressions) : null;
 
   return (
     <div className="glass-card p-4 space-y-4 border-2 border-success/30 bg-success/5">
@@ -41,6 +43,29 @@ export const CaptureSessionSummary = ({ summary, isVisible }: CaptureSessionSumm
         </span>
       </div>
 
+      {summary.retainedViewers !== undefined && summary.uniqueViewers > 0 && (
+        <p className="text-xs text-center text-muted-foreground">
+          {summary.retainedViewers} still watching when capture ended
+          ({Math.round((summary.retainedViewers / summary.uniqueViewers) * 100)}% retention)
+        </p>
+      )}
+
+      {summary.engagedViewers !== undefined && summary.uniqueViewers > 0 && (
+        <p className="flex items-center justify-center gap-1.5 text-xs text-muted-foreground">
+          <Eye className="h-3.5 w-3.5" />
+          {summary.engagedViewers} engaged • {(summary.attentionSeconds ?? 0).toFixed(1)}s total attention
+          ({((summary.attentionSeconds ?? 0) / summary.uniqueViewers).toFixed(1)}s avg)
+        </p>
+      )}
+
+      {summary.engagementScore !== undefined && dominant && (
+        <p className="text-xs text-center text-muted-foreground">
+          {EXPRESSION_EMOJI[dominant]} Engagement{' '}
+          <span className="font-semibold text-primary">{summary.engagementScore}/100</span>
+          {' '}• mostly {dominant}
+        </p>
+      )}
+
       {/* Demographics Grid */}
       {totalGender > 0 && (
         <div className="grid grid-cols-2 gap-3">
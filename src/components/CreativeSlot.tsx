@@ -0,0 +1,257 @@
+import { forwardRef, useEffect, useImperativeHandle, useRef, useState } from 'react';
+import { AdMetadata } from '@/types/ad';
+import { cn } from '@/lib/utils';
+import { creativeKey, getCreativeType, slideDuration } from '@/utils/adCreative';
+import { useAdVideoSource } from '@/hooks/useAdVideoSource';
+
+/**
+ * What VideoPlayer drives on each of its two slots. Videos map straight onto
+ * the media element; images, HTML pages and slideshows run on a clock so they
+ * follow the same timeline and capture window.
+ */
+export interface CreativeHandle {
+  play(): void;
+  pause(): void;
+  /** Back to the first frame */
+  restart(): void;
+  /** Try loading again after an error */
+  reload(): void;
+  /** Seconds; NaN until a video's metadata is known */
+  readonly duration: number;
+}
+
+interface CreativeSlotProps {
+  ad: AdMetadata | null;
+  muted: boolean;
+  style?: React.CSSProperties;
+  /** First frame can be shown */
+  onReady: () => void;
+  onError: (message: string) => void;
+  onTimeUpdate: (time: number) => void;
+  onEnded: () => void;
+}
+
+type CreativeProps = Omit<CreativeSlotProps, 'style'> & { ad: AdMetadata };
+
+// About as often as a <video> fires timeupdate
+const CLOCK_TICK_MS = 250;
+
+// <iframe> never fires error events - a page that hasn't loaded by then is skipped
+const HTML_LOAD_TIMEOUT_MS = 15000;
+
+const describeMediaError = (video: HTMLVideoElement): string => {
+  switch (video.error?.code) {
+    case MediaError.MEDIA_ERR_ABORTED: return 'loading aborted';
+    case MediaError.MEDIA_ERR_NETWORK: return 'network error';
+    case MediaError.MEDIA_ERR_DECODE: return 'video could not be decoded';
+    case MediaError.MEDIA_ERR_SRC_NOT_SUPPORTED: return 'video not found or format not supported';
+    default: return video.error?.message || 'unknown error';
+  }
+};
+
+const VideoCreative = forwardRef<CreativeHandle, CreativeProps>(
+  ({ ad, muted, onReady, onError, onTimeUpdate, onEnded }, ref) => {
+    const videoRef = useRef<HTMLVideoElement>(null);
+    // Offline copy when cached
+    const src = useAdVideoSource(ad.videoUrl);
+
+    useImperativeHandle(ref, () => ({
+      play: () => {
+        videoRef.current?.play().catch(console.error);
+      },
+      pause: () => videoRef.current?.pause(),
+      restart: () => {
+        const video = videoRef.current;
+        if (video && video.currentTime > 0) video.currentTime = 0;
+      },
+      reload: () => videoRef.current?.load(),
+      get duration() {
+        return videoRef.current?.duration ?? NaN;
+      },
+    }), []);
+
+    return (
+      <video
+        ref={videoRef}
+        src={src}
+        className="absolute inset-0 w-full h-full object-cover"
+        muted={muted}
+        preload="auto"
+        playsInline
+        onCanPlay={onReady}
+        onError={() => {
+          const video = videoRef.current;
+          if (video?.error) onError(describeMediaError(video));
+        }}
+        onTimeUpdate={() => onTimeUpdate(videoRef.current?.currentTime ?? 0)}
+        onEnded={onEnded}
+      />
+    );
+  }
+);
+VideoCreative.displayName = 'VideoCreative';
+
+interface CreativeImageProps {
+  url: string;
+  visible: boolean;
+  onLoad?: () => void;
+  onError: () => void;
+}
+
+const CreativeImage = ({ url, visible, onLoad, onError }: CreativeImageProps) => {
+  const src = useAdVideoSource(url);
+  return (
+    <img
+      src={src}
+      alt=""
+      className={cn(
+        'absolute inset-0 w-full h-full object-contain transition-opacity duration-500',
+        visible ? 'opacity-100' : 'opacity-0'
+      )}
+      onLoad={onLoad}
+      onError={onError}
+    />
+  );
+};
+
+// Image, HTML and slideshow creatives: shown for the ad's explicit duration
+const TimedCreative = forwardRef<CreativeHandle, CreativeProps>(
+  ({ ad, onReady, onError, onTimeUpdate, onEnded }, ref) => {
+    const [elapsed, setElapsed] = useState(0);
+    // Bumped by reload() to remount the image/iframe elements
+    const [attempt, setAttempt] = useState(0);
+    const elapsedRef = useRef(0);
+    const timerRef = useRef<number | null>(null);
+    const lastTickRef = useRef(0);
+    const latestRef = useRef({ duration: ad.duration, onTimeUpdate, onEnded, onError });
+    latestRef.current = { duration: ad.duration, onTimeUpdate, onEnded, onError };
+    const htmlTimeoutRef = useRef<number | null>(null);
+
+    const type = getCreativeType(ad);
+    const imageUrls = type === 'image' ? (ad.imageUrls ?? []).slice(0, 1) : ad.imageUrls ?? [];
+
+    useImperativeHandle(ref, () => {
+      const advance = () => {
+        const now = performance.now();
+        const { duration } = latestRef.current;
+        elapsedRef.current = Math.min(duration, elapsedRef.current + (now - lastTickRef.current) / 1000);
+        lastTickRef.current = now;
+        setElapsed(elapsedRef.current);
+        latestRef.current.onTimeUpdate(elapsedRef.current);
+        return elapsedRef.current >= duration;
+      };
+
+      const stop = () => {
+        if (timerRef.current === null) return;
+        window.clearInterval(timerRef.current);
+        timerRef.current = null;
+      };
+
+      return {
+        play: () => {
+          if (timerRef.current !== null) return;
+          // Like a video, playing after the end starts over
+          if (elapsedRef.current >= latestRef.current.duration) elapsedRef.current = 0;
+          lastTickRef.current = performance.now();
+          timerRef.current = window.setInterval(() => {
+            if (!advance()) return;
+            stop();
+            latestRef.current.onEnded();
+          }, CLOCK_TICK_MS);
+        },
+        pause: () => {
+          if (timerRef.current === null) return;
+          advance();
+          stop();
+        },
+        restart: () => {
+          elapsedRef.current = 0;
+          lastTickRef.current = performance.now();
+          setElapsed(0);
+        },
+        reload: () => setAttempt(a => a + 1),
+        get duration() {
+          return latestRef.current.duration;
+        },
+      };
+    }, []);
+
+    useEffect(() => () => {
+      if (timerRef.current !== null) window.clearInterval(timerRef.current);
+    }, []);
+
+    useEffect(() => {
+      if (type !== 'html') return;
+      htmlTimeoutRef.current = window.setTimeout(() => {
+        htmlTimeoutRef.current = null;
+        latestRef.current.onError(`page did not load within ${HTML_LOAD_TIMEOUT_MS / 1000}s`);
+      }, HTML_LOAD_TIMEOUT_MS);
+      return () => {
+        if (htmlTimeoutRef.current !== null) window.clearTimeout(htmlTimeoutRef.current);
+        htmlTimeoutRef.current = null;
+      };
+    }, [type, ad.htmlUrl, attempt]);
+
+    // Stored or hand-edited ads can lack images - fail like a missing file so the player skips them
+    useEffect(() => {
+      if (type === 'html' || imageUrls.length > 0) return;
+      latestRef.current.onError('no images configured');
+    }, [type, imageUrls.length, attempt]);
+
+    if (type === 'html') {
+      // No allow-same-origin: the page runs in an opaque origin, so it can't
+      // reach the dashboard's storage even when served from the same host
+      return (
+        <iframe
+          key={attempt}
+          src={ad.htmlUrl}
+          title={ad.title}
+          sandbox="allow-scripts"
+          className="absolute inset-0 w-full h-full border-0 bg-background pointer-events-none"
+          onLoad={() => {
+            if (htmlTimeoutRef.current !== null) window.clearTimeout(htmlTimeoutRef.current);
+            htmlTimeoutRef.current = null;
+            onReady();
+          }}
+        />
+      );
+    }
+
+    if (imageUrls.length === 0) {
+      return null;
+    }
+
+    const slide = Math.min(imageUrls.length - 1, Math.floor(elapsed / slideDuration(ad)));
+
+    return (
+      <div key={attempt} className="absolute inset-0 bg-black">
+        {imageUrls.map((url, index) => (
+          <CreativeImage
+            key={`${index}-${url}`}
+            url={url}
+            visible={index === slide}
+            onLoad={index === 0 ? onReady : undefined}
+            onError={() => onError(imageUrls.length > 1
+              ? `slide ${index + 1} not found or format not supported`
+              : 'image not found or format not supported')}
+          />
+        ))}
+      </div>
+    );
+  }
+);
+TimedCreative.displayName = 'TimedCreative';
+
+/** One of VideoPlayer's two stacked layers, rendering whatever creative type its ad has. */
+export const CreativeSlot = forwardRef<CreativeHandle, CreativeSlotProps>(
+  ({ ad, style, ...props }, ref) => (
+    <div className="absolute inset-0" style={style}>
+      {ad && (getCreativeType(ad) === 'video'
+        // One <video> element across video ads, so preloading isn't thrown away
+        ? <VideoCreative key="video" ref={ref} ad={ad} {...props} />
+        : <TimedCreative key={creativeKey(ad)} ref={ref} ad={ad} {...props} />
+      )}
+    </div>
+  )
+);
+CreativeSlot.displayName = 'CreativeSlot';
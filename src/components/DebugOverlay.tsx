@@ -46,6 +46,11 @@ export const DebugOverlay = ({ debug, trackedFaces, show }: DebugOverlayProps) =
           <span className="text-primary font-bold bg-primary/10 px-2 py-0.5 rounded">
             {debug.backend.toUpperCase()}
           </span>
+          {debug.inferenceThread && (
+            <span className="text-muted-foreground" title="Where inference runs">
+              {debug.inferenceThread === 'worker' ? 'WORKER' : 'MAIN'}
+            </span>
+          )}
         </div>
 
         {/* Detection counts - PROMINENT */}
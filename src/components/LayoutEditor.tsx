@@ -0,0 +1,320 @@
+import { useEffect, useRef, useState } from 'react';
+import { AdMetadata } from '@/types/ad';
+import { ScreenLayout, ScreenZone, ZoneSource } from '@/types/layout';
+import {
+  LAYOUT_PRESETS,
+  clampZone,
+  createZone,
+  findOverlappingZones,
+  isMainZone,
+} from '@/utils/screenLayout';
+import { LayoutDashboard, Plus, Trash2, AlertTriangle, Crosshair } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+
+interface LayoutEditorProps {
+  layout: ScreenLayout;
+  onLayoutChange: (layout: ScreenLayout) => void;
+  ads: AdMetadata[];
+}
+
+const ZONE_COLORS = [
+  'bg-primary/25 border-primary',
+  'bg-accent/25 border-accent',
+  'bg-info/25 border-info',
+  'bg-success/25 border-success',
+  'bg-warning/25 border-warning',
+];
+
+const GEOMETRY_FIELDS: { key: 'x' | 'y' | 'width' | 'height'; label: string }[] = [
+  { key: 'x', label: 'Left %' },
+  { key: 'y', label: 'Top %' },
+  { key: 'width', label: 'Width %' },
+  { key: 'height', label: 'Height %' },
+];
+
+interface ZoneDrag {
+  zoneId: string;
+  mode: 'move' | 'resize';
+  startX: number;
+  startY: number;
+  origin: ScreenZone;
+}
+
+export const LayoutEditor = ({ layout, onLayoutChange, ads }: LayoutEditorProps) => {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState(layout);
+  const [selectedId, setSelectedId] = useState(layout.zones[0]?.id);
+  const canvasRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<ZoneDrag | null>(null);
+
+  // Start each edit from the live layout
+  useEffect(() => {
+    if (!open) return;
+    setDraft(layout);
+    setSelectedId(layout.zones[0]?.id);
+  }, [open, layout]);
+
+  const selectedZone = draft.zones.find(zone => zone.id === selectedId);
+  const overlaps = findOverlappingZones(draft);
+
+  // Any edit turns a preset into a custom layout
+  const updateZone = (id: string, patch: Partial<ScreenZone>) => {
+    setDraft(prev => ({
+      ...prev,
+      name: 'Custom',
+      zones: prev.zones.map(zone => zone.id === id ? clampZone({ ...zone, ...patch }) : zone),
+    }));
+  };
+
+  const applyPreset = (name: string) => {
+    const preset = LAYOUT_PRESETS.find(p => p.name === name);
+    if (!preset) return;
+    setDraft(preset);
+    setSelectedId(preset.zones[0].id);
+  };
+
+  const addZone = () => {
+    const zone = createZone(draft);
+    setDraft(prev => ({ ...prev, name: 'Custom', zones: [...prev.zones, zone] }));
+    setSelectedId(zone.id);
+  };
+
+  const removeZone = (id: string) => {
+    setDraft(prev => ({ ...prev, name: 'Custom', zones: prev.zones.filter(zone => zone.id !== id) }));
+    setSelectedId(draft.zones[0]?.id);
+  };
+
+  const toggleZoneAd = (zone: ScreenZone, adId: string, checked: boolean) => {
+    updateZone(zone.id, {
+      adIds: checked ? [...zone.adIds, adId] : zone.adIds.filter(id => id !== adId),
+    });
+  };
+
+  // Drag a zone to move it, or its corner handle to resize - snapped to whole percents
+  const startDrag = (e: React.PointerEvent, zone: ScreenZone, mode: ZoneDrag['mode']) => {
+    e.stopPropagation();
+    e.preventDefault();
+    (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+    dragRef.current = { zoneId: zone.id, mode, startX: e.clientX, startY: e.clientY, origin: zone };
+    setSelectedId(zone.id);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    const rect = canvasRef.current?.getBoundingClientRect();
+    if (!drag || !rect) return;
+
+    const dx = Math.round(((e.clientX - drag.startX) / rect.width) * 100);
+    const dy = Math.round(((e.clientY - drag.startY) / rect.height) * 100);
+    const { origin } = drag;
+    updateZone(drag.zoneId, drag.mode === 'move'
+      ? { x: origin.x + dx, y: origin.y + dy }
+      : { width: Math.min(100 - origin.x, origin.width + dx), height: Math.min(100 - origin.y, origin.height + dy) });
+  };
+
+  const endDrag = () => {
+    dragRef.current = null;
+  };
+
+  const handleSave = () => {
+    onLayoutChange(draft);
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2">
+          <LayoutDashboard className="h-4 w-4" />
+          Layout
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="font-display flex items-center gap-2">
+            <LayoutDashboard className="h-5 w-5 text-primary" />
+            Screen Layout
+          </DialogTitle>
+          <DialogDescription>
+            Split the fullscreen display into zones. The main zone plays the audience-targeted queue; every other zone runs its own queue.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="flex items-center gap-2">
+            <Label className="text-xs shrink-0">Preset</Label>
+            <Select value={LAYOUT_PRESETS.some(p => p.name === draft.name) ? draft.name : ''} onValueChange={applyPreset}>
+              <SelectTrigger className="bg-background">
+                <SelectValue placeholder="Custom" />
+              </SelectTrigger>
+              <SelectContent className="bg-popover z-50">
+                {LAYOUT_PRESETS.map(preset => (
+                  <SelectItem key={preset.name} value={preset.name}>{preset.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="sm" className="gap-1 shrink-0" onClick={addZone}>
+              <Plus className="h-3 w-3" />
+              Add zone
+            </Button>
+          </div>
+
+          {/* Screen preview - drag zones to move, corner handles to resize */}
+          <div
+            ref={canvasRef}
+            className="relative aspect-video bg-black rounded-lg border border-border overflow-hidden select-none touch-none"
+            onPointerMove={handlePointerMove}
+            onPointerUp={endDrag}
+            onPointerCancel={endDrag}
+          >
+            {draft.zones.map((zone, index) => (
+              <div
+                key={zone.id}
+                className={cn(
+                  'absolute border-2 flex items-center justify-center cursor-move text-xs font-medium text-foreground',
+                  ZONE_COLORS[index % ZONE_COLORS.length],
+                  zone.id === selectedId && 'ring-2 ring-foreground ring-inset'
+                )}
+                style={{ left: `${zone.x}%`, top: `${zone.y}%`, width: `${zone.width}%`, height: `${zone.height}%` }}
+                onPointerDown={(e) => startDrag(e, zone, 'move')}
+              >
+                <span className="px-1.5 py-0.5 rounded bg-background/80 truncate max-w-full flex items-center gap-1">
+                  {isMainZone(zone) && <Crosshair className="h-3 w-3 text-primary" />}
+                  {zone.name}
+                </span>
+                <div
+                  className="absolute bottom-0 right-0 w-3 h-3 bg-foreground cursor-se-resize"
+                  onPointerDown={(e) => startDrag(e, zone, 'resize')}
+                />
+              </div>
+            ))}
+          </div>
+
+          {overlaps.length > 0 && (
+            <p className="text-xs text-warning flex items-center gap-1.5">
+              <AlertTriangle className="h-3.5 w-3.5" />
+              Overlapping: {overlaps.map(([a, b]) => `${a} / ${b}`).join(', ')} - later zones cover earlier ones
+            </p>
+          )}
+
+          {/* Zone list */}
+          <div className="flex flex-wrap gap-1.5">
+            {draft.zones.map((zone, index) => (
+              <Button
+                key={zone.id}
+                size="sm"
+                variant={zone.id === selectedId ? 'default' : 'outline'}
+                className="h-7 px-2 text-xs gap-1.5"
+                onClick={() => setSelectedId(zone.id)}
+              >
+                <span className={cn('w-2 h-2 rounded-sm border', ZONE_COLORS[index % ZONE_COLORS.length])} />
+                {zone.name}
+              </Button>
+            ))}
+          </div>
+
+          {selectedZone && (
+            <div className="space-y-3 p-3 rounded-lg bg-muted/50 border border-border">
+              <div className="flex items-center gap-2">
+                <Input
+                  value={selectedZone.name}
+                  onChange={(e) => updateZone(selectedZone.id, { name: e.target.value })}
+                  placeholder="Zone name"
+                />
+                {!isMainZone(selectedZone) && (
+                  <Button variant="ghost" size="icon" onClick={() => removeZone(selectedZone.id)} title="Remove zone">
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                )}
+              </div>
+
+              <div className="grid grid-cols-4 gap-2">
+                {GEOMETRY_FIELDS.map(({ key, label }) => (
+                  <div key={key} className="space-y-1">
+                    <Label className="text-[10px] text-muted-foreground">{label}</Label>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={100}
+                      value={selectedZone[key]}
+                      onChange={(e) => updateZone(selectedZone.id, { [key]: parseFloat(e.target.value) || 0 })}
+                    />
+                  </div>
+                ))}
+              </div>
+
+              {isMainZone(selectedZone) ? (
+                <p className="text-xs text-muted-foreground">
+                  🎯 The main zone plays the dashboard queue: targeted by the camera, or the manual playlist in Manual mode. Capture runs on this zone's ads.
+                </p>
+              ) : (
+                <>
+                  <div className="space-y-1.5">
+                    <Label className="text-xs">Source</Label>
+                    <Select
+                      value={selectedZone.source}
+                      onValueChange={(v) => updateZone(selectedZone.id, { source: v as ZoneSource })}
+                    >
+                      <SelectTrigger className="bg-background">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="bg-popover z-50">
+                        <SelectItem value="static">Static - loop the selected ads in order</SelectItem>
+                        <SelectItem value="targeted">Targeted - rank the selected ads for the current audience</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="space-y-1.5">
+                    <Label className="text-xs">Ads (none selected = whole library)</Label>
+                    <div className="space-y-1 max-h-40 overflow-y-auto pr-1">
+                      {ads.map(ad => {
+                        const order = selectedZone.adIds.indexOf(ad.id);
+                        return (
+                          <label key={ad.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                            <Checkbox
+                              checked={order !== -1}
+                              onCheckedChange={(checked) => toggleZoneAd(selectedZone, ad.id, checked === true)}
+                            />
+                            <span className="truncate flex-1">{ad.title}</span>
+                            {selectedZone.source === 'static' && order !== -1 && (
+                              <span className="text-xs text-muted-foreground">#{order + 1}</span>
+                            )}
+                          </label>
+                        );
+                      })}
+                    </div>
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3">
+          <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+          <Button onClick={handleSave}>Save Layout</Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -16,6 +16,7 @@ import {
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
+import { getTargetSegments, describeSegment } from '@/utils/adTargeting';
 import {
   Select,
   SelectContent,
@@ -28,12 +29,17 @@ interface ManualQueueEditorProps {
   availableAds: AdMetadata[];
   manualQueue: AdMetadata[];
   onQueueChange: (queue: AdMetadata[]) => void;
+  title?: string;
+  /** Replaces the loop summary in the footer (e.g. for the fallback playlist). */
+  footerNote?: string;
 }
 
 export const ManualQueueEditor = ({ 
   availableAds, 
   manualQueue, 
-  onQueueChange 
+  onQueueChange,
+  title = 'Manual Playlist',
+  footerNote,
 }: ManualQueueEditorProps) => {
   const [selectedAdId, setSelectedAdId] = useState<string>('');
 
@@ -86,7 +92,7 @@ export const ManualQueueEditor = ({
       <div className="flex items-center justify-between">
         <h3 className="font-display font-semibold text-lg flex items-center gap-2">
           <List className="h-5 w-5 text-warning" />
-          Manual Playlist
+          {title}
         </h3>
         <div className="flex items-center gap-2">
           <span className="text-sm text-muted-foreground">
@@ -153,26 +159,25 @@ export const ManualQueueEditor = ({
 
               <div className="flex-1 min-w-0">
                 <p className="font-medium text-sm truncate">{ad.title}</p>
-                <div className="flex items-center gap-2 mt-0.5">
-                  <span className={cn(
-                    "inline-flex items-center gap-1 px-1.5 py-0.5 rounded text-xs",
-                    ad.gender === 'male' ? 'bg-primary/20 text-primary' :
-                    ad.gender === 'female' ? 'bg-accent/20 text-accent' :
-                    'bg-muted text-muted-foreground'
-                  )}>
-                    {getGenderIcon(ad.gender)}
-                    <span className="capitalize">{ad.gender}</span>
-                  </span>
-                  <span className={cn(
-                    "inline-flex items-center gap-1 px-1.5 py-0.5 rounded text-xs",
-                    ad.ageGroup === 'kid' ? 'bg-info/20 text-info' :
-                    ad.ageGroup === 'young' ? 'bg-success/20 text-success' :
-                    ad.ageGroup === 'adult' ? 'bg-warning/20 text-warning' :
-                    'bg-muted text-muted-foreground'
-                  )}>
-                    {getAgeIcon(ad.ageGroup)}
-                    <span className="capitalize">{ad.ageGroup}</span>
-                  </span>
+                <div className="flex flex-wrap items-center gap-2 mt-0.5">
+                  {getTargetSegments(ad).map((segment, i) => (
+                    <span
+                      key={i}
+                      className={cn(
+                        "inline-flex items-center gap-1 px-1.5 py-0.5 rounded text-xs",
+                        segment.gender === 'male' ? 'bg-primary/20 text-primary' :
+                        segment.gender === 'female' ? 'bg-accent/20 text-accent' :
+                        segment.ageGroup === 'kid' ? 'bg-info/20 text-info' :
+                        segment.ageGroup === 'young' ? 'bg-success/20 text-success' :
+                        segment.ageGroup === 'adult' ? 'bg-warning/20 text-warning' :
+                        'bg-muted text-muted-foreground'
+                      )}
+                    >
+                      {getGenderIcon(segment.gender)}
+                      {getAgeIcon(segment.ageGroup)}
+                      <span className="capitalize">{describeSegment(segment)}</span>
+                    </span>
+                  ))}
                   <span className="text-xs text-muted-foreground">{ad.duration}s</span>
                 </div>
               </div>
@@ -212,7 +217,8 @@ export const ManualQueueEditor = ({
 
       <div className="pt-2 border-t border-border">
         <p className="text-xs text-muted-foreground text-center">
-          {manualQueue.length > 0 
+          {footerNote ? footerNote
+            : manualQueue.length > 0 
             ? `🔄 Playlist will loop continuously (${manualQueue.reduce((acc, ad) => acc + ad.duration, 0)}s total)`
             : 'Add ads to create a custom playlist'
           }
@@ -0,0 +1,228 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { Receipt, Download, Trash2, CheckCircle2, SkipForward, Users, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { describeAudience } from '@/utils/adScoring';
+import {
+  ImpressionRecord,
+  getImpressions,
+  clearImpressions,
+  impressionsToCSV,
+  toDateInput,
+  parseDateInput,
+} from '@/utils/proofOfPlay';
+
+const downloadFile = (content: string, filename: string, type: string) => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RANGE_DAYS = 7;
+
+export const ProofOfPlayLedger = () => {
+  const [open, setOpen] = useState(false);
+  const [fromDate, setFromDate] = useState(() =>
+    toDateInput(new Date(Date.now() - (DEFAULT_RANGE_DAYS - 1) * DAY_MS))
+  );
+  const [toDate, setToDate] = useState(() => toDateInput(new Date()));
+  const [records, setRecords] = useState<ImpressionRecord[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const loadRecords = useCallback(async () => {
+    setLoading(true);
+    try {
+      const impressions = await getImpressions(parseDateInput(fromDate, false), parseDateInput(toDate, true));
+      // Newest first for display
+      setRecords(impressions.reverse());
+    } catch (err) {
+      console.warn('[Ledger] Failed to load impressions:', err);
+      toast.error('Could not read the proof-of-play ledger');
+    } finally {
+      setLoading(false);
+    }
+  }, [fromDate, toDate]);
+
+  useEffect(() => {
+    if (open) loadRecords();
+  }, [open, loadRecords]);
+
+  const totals = useMemo(() => ({
+    impressions: records.length,
+    completed: records.filter(r => r.outcome === 'completed').length,
+    skipped: records.filter(r => r.outcome === 'skipped').length,
+    viewers: records.reduce((sum, r) => sum + (r.audience?.uniqueViewers ?? 0), 0),
+  }), [records]);
+
+  const rangeLabel = `${fromDate || 'start'}_${toDate || 'now'}`;
+
+  const handleExportCSV = () => {
+    downloadFile(impressionsToCSV([...records].reverse()), `proof-of-play-${rangeLabel}.csv`, 'text/csv');
+  };
+
+  const handleExportJSON = () => {
+    downloadFile(JSON.stringify([...records].reverse(), null, 2), `proof-of-play-${rangeLabel}.json`, 'application/json');
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm('Delete every proof-of-play record? This cannot be undone.')) return;
+    try {
+      await clearImpressions();
+      setRecords([]);
+      toast.success('Proof-of-play ledger cleared');
+    } catch (err) {
+      console.warn('[Ledger] Failed to clear impressions:', err);
+      toast.error('Could not clear the proof-of-play ledger');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2">
+          <Receipt className="h-4 w-4" />
+          Proof of Play
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="font-display flex items-center gap-2">
+            <Receipt className="h-5 w-5 text-primary" />
+            Proof-of-Play Ledger
+          </DialogTitle>
+          <DialogDescription>
+            Every ad impression with its outcome and the audience measured during capture.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          {/* Date range + export */}
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="space-y-1">
+              <Label className="text-xs">From</Label>
+              <Input type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} className="w-40" />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">To</Label>
+              <Input type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} className="w-40" />
+            </div>
+            <div className="flex gap-2 ml-auto">
+              <Button variant="outline" size="sm" className="gap-1" onClick={handleExportCSV} disabled={records.length === 0}>
+                <Download className="h-3.5 w-3.5" />
+                CSV
+              </Button>
+              <Button variant="outline" size="sm" className="gap-1" onClick={handleExportJSON} disabled={records.length === 0}>
+                <Download className="h-3.5 w-3.5" />
+                JSON
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleClear}
+                className="text-destructive hover:text-destructive"
+                title="Clear ledger"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+
+          {/* Totals */}
+          <div className="grid grid-cols-4 gap-2 text-center">
+            {[
+              { label: 'Impressions', value: totals.impressions },
+              { label: 'Completed', value: totals.completed },
+              { label: 'Skipped', value: totals.skipped },
+              { label: 'Viewers', value: totals.viewers },
+            ].map(({ label, value }) => (
+              <div key={label} className="p-2 rounded-lg bg-muted/50 border border-border">
+                <div className="text-lg font-display font-bold">{value}</div>
+                <div className="text-xs text-muted-foreground">{label}</div>
+              </div>
+            ))}
+          </div>
+
+          {/* Records */}
+          {loading ? (
+            <div className="flex items-center justify-center py-8 text-muted-foreground">
+              <Loader2 className="h-5 w-5 animate-spin" />
+            </div>
+          ) : records.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <p className="text-sm">No impressions in this date range</p>
+            </div>
+          ) : (
+            <div className="max-h-[400px] overflow-y-auto scrollbar-thin">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Started</TableHead>
+                    <TableHead>Ad</TableHead>
+                    <TableHead>Played</TableHead>
+                    <TableHead>Outcome</TableHead>
+                    <TableHead>Audience</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {records.map(record => (
+                    <TableRow key={record.id}>
+                      <TableCell className="text-xs whitespace-nowrap">
+                        {new Date(record.startedAt).toLocaleString()}
+                      </TableCell>
+                      <TableCell className="text-xs font-medium max-w-[180px] truncate">{record.adTitle}</TableCell>
+                      <TableCell className="text-xs">{Math.round((record.endedAt - record.startedAt) / 1000)}s</TableCell>
+                      <TableCell>
+                        <span className={cn(
+                          "inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs font-medium",
+                          record.outcome === 'completed' ? 'bg-success/20 text-success' : 'bg-warning/20 text-warning'
+                        )}>
+                          {record.outcome === 'completed'
+                            ? <CheckCircle2 className="h-3 w-3" />
+                            : <SkipForward className="h-3 w-3" />}
+                          {record.outcome}
+                        </span>
+                      </TableCell>
+                      <TableCell className="text-xs text-muted-foreground">
+                        {record.audience ? (
+                          <span className="flex items-center gap-1">
+                            <Users className="h-3 w-3" />
+                            {record.audience.uniqueViewers} • {describeAudience(record.audience.demographics)}
+                          </span>
+                        ) : '—'}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,6 +1,12 @@
-import { useState, useEffect } from 'react';
-import { Settings, Percent, Eye, Zap, MonitorPlay, BarChart3, HelpCircle, Download, Check, Loader2 } from 'lucide-react';
+import { useState, useEffect, useMemo } from 'react';
+import { Settings, Percent, Eye, Zap, MonitorPlay, BarChart3, HelpCircle, Download, Check, Loader2, Scale, ListOrdered, Crosshair, Smile, Boxes, ShieldCheck, ShieldAlert, Trash2, Film } from 'lucide-react';
+import { ScoringWeights } from '@/utils/adScoring';
+import { AdSelectionMode, AdTransition, QueueReorderMode } from '@/types/ad';
+import { TrackingAlgorithm } from '@/types/detection';
+import { BiasCorrectionModel, ConfidenceCalibration } from '@/types/evaluation';
 import { getYoloModelStatus, downloadAndCacheYoloModel, clearCachedModel, DownloadProgress } from '@/utils/yoloModelDownloader';
+import { MODEL_REGISTRY, ModelId, ModelSelection, resolveModel } from '@/utils/modelRegistry';
+import { loadBiasModels } from '@/utils/biasCorrection';
 import { Button } from '@/components/ui/button';
 import { Slider } from '@/components/ui/slider';
 import { Label } from '@/components/ui/label';
@@ -39,8 +45,12 @@ interface CaptureSettings {
   falsePositiveMinScore: number;
   /** Minimum gender/age confidence to be counted in demographics + session summary. */
   minDemographicConfidence: number;
+  /** Fitted gender probability calibration per source (set from Model Evaluation). */
+  confidenceCalibration: ConfidenceCalibration;
   /** Female boost factor to counter male bias (0-0.3). */
   femaleBoostFactor: number;
+  /** Learned bias correction in use instead of calibration and the female boost (null = fixed boost). */
+  biasCorrectionModel: BiasCorrectionModel | null;
   /** Enable hair-based gender heuristics. */
   enableHairHeuristics: boolean;
   /** Require face texture variation (filters walls/uniform surfaces). */
@@ -49,6 +59,24 @@ interface CaptureSettings {
   useDualModelForVideo: boolean;
   /** Enable YOLO detection for video files. */
   enableYoloForVideo: boolean;
+  /** Greedy matching or Hungarian assignment + Kalman filter for face tracking. */
+  trackingAlgorithm: TrackingAlgorithm;
+  /** Run faceExpressionNet during capture windows for engagement scoring. */
+  enableExpressionAnalysis: boolean;
+  /** Weights used by the ad scoring engine when reordering the queue. */
+  scoringWeights: ScoringWeights;
+  /** Max ads the auto queue holds after a reorder. */
+  queueLength: number;
+  /** Whether a capture replaces the queue with top-scored ads or re-ranks the current queue. */
+  queueReorderMode: QueueReorderMode;
+  /** Rank ads with the scoring rules or with Thompson sampling on learned retention. */
+  adSelectionMode: AdSelectionMode;
+  /** How the player switches from one ad to the next. */
+  adTransition: AdTransition;
+  /** Crossfade length in milliseconds. */
+  transitionMs: number;
+  /** Selected registry version per model (default version where unset). */
+  modelVersions: ModelSelection;
 }
 
 interface SettingsPanelProps {
@@ -73,35 +101,56 @@ const InfoTooltip = ({ text }: { text: string }) => (
 export const SettingsPanel = ({ settings, onSettingsChange }: SettingsPanelProps) => {
   const [localSettings, setLocalSettings] = useState(settings);
   const [open, setOpen] = useState(false);
+
+  // Start each edit from the live settings - the evaluation page can apply new ones
+  useEffect(() => {
+    if (open) setLocalSettings(settings);
+  }, [open, settings]);
+
+  // Learned bias correction versions trained on the evaluation page
+  const biasModels = useMemo(() => open ? loadBiasModels() : [], [open]);
   
   // YOLO model status
   const [yoloStatus, setYoloStatus] = useState<{ hasLocal: boolean; hasCached: boolean } | null>(null);
   const [yoloDownloading, setYoloDownloading] = useState(false);
   const [yoloProgress, setYoloProgress] = useState<DownloadProgress | null>(null);
   
-  // Check YOLO model status when dialog opens
+  // Status is per version - each one is cached separately
+  const yoloVersion = localSettings.modelVersions.yolov8Face;
+
+  // Check YOLO model status when dialog opens or the version changes
   useEffect(() => {
     if (open) {
-      getYoloModelStatus().then(setYoloStatus);
+      setYoloProgress(null);
+      getYoloModelStatus(resolveModel('yolov8Face', { yolov8Face: yoloVersion })).then(setYoloStatus);
     }
-  }, [open]);
+  }, [open, yoloVersion]);
   
   const handleDownloadYolo = async () => {
+    const model = resolveModel('yolov8Face', localSettings.modelVersions);
     setYoloDownloading(true);
-    const success = await downloadAndCacheYoloModel(undefined, setYoloProgress);
+    const success = await downloadAndCacheYoloModel(model, setYoloProgress);
     if (success) {
-      const status = await getYoloModelStatus();
+      const status = await getYoloModelStatus(model);
       setYoloStatus(status);
     }
     setYoloDownloading(false);
   };
   
   const handleClearYoloCache = async () => {
-    await clearCachedModel();
-    const status = await getYoloModelStatus();
+    const model = resolveModel('yolov8Face', localSettings.modelVersions);
+    await clearCachedModel(model);
+    const status = await getYoloModelStatus(model);
     setYoloStatus(status);
   };
 
+  const setModelVersion = (id: ModelId, version: string) => {
+    setLocalSettings(prev => ({
+      ...prev,
+      modelVersions: { ...prev.modelVersions, [id]: version },
+    }));
+  };
+
   const handleSave = () => {
     onSettingsChange(localSettings);
     setOpen(false);
@@ -111,6 +160,23 @@ export const SettingsPanel = ({ settings, onSettingsChange }: SettingsPanelProps
     setLocalSettings(prev => ({ ...prev, detectionSensitivity: value[0] }));
   };
 
+  const updateScoringWeights = (patch: Partial<ScoringWeights>) => {
+    setLocalSettings(prev => ({
+      ...prev,
+      scoringWeights: { ...prev.scoringWeights, ...patch },
+    }));
+  };
+
+  const updateSegmentWeight = (segment: keyof ScoringWeights['segmentWeights'], value: number) => {
+    setLocalSettings(prev => ({
+      ...prev,
+      scoringWeights: {
+        ...prev.scoringWeights,
+        segmentWeights: { ...prev.scoringWeights.segmentWeights, [segment]: value },
+      },
+    }));
+  };
+
   const handleStartChange = (value: number[]) => {
     const newStart = value[0];
     setLocalSettings(prev => ({
@@ -261,10 +327,51 @@ export const SettingsPanel = ({ settings, onSettingsChange }: SettingsPanelProps
             <p className="text-xs text-muted-foreground">
               📊 Only faces above this confidence get counted in demographics
             </p>
+            <p className="text-xs text-muted-foreground">
+              {localSettings.biasCorrectionModel
+                ? '🎯 Calibrated by the learned bias correction'
+                : Object.keys(localSettings.confidenceCalibration).length > 0
+                ? `🎯 Calibrated for ${Object.keys(localSettings.confidenceCalibration).join(', ')} - confidence matches measured accuracy`
+                : '🎯 Uncalibrated - fit a calibration on the Model Evaluation page'}
+            </p>
           </div>
 
           {/* Female Boost Factor */}
           <div className="space-y-2 p-3 rounded-lg bg-pink-500/10 border border-pink-500/20">
+            <div className="space-y-2">
+              <Label className="flex items-center gap-2">
+                <Scale className="h-4 w-4 text-pink-500" />
+                Bias Correction
+                <InfoTooltip text="Fixed boost uses the slider below. A learned model is trained on your labeled faces on the Model Evaluation page and replaces the boost and calibration." />
+              </Label>
+              <Select
+                value={localSettings.biasCorrectionModel ? String(localSettings.biasCorrectionModel.version) : 'boost'}
+                onValueChange={(v) => setLocalSettings(prev => ({
+                  ...prev,
+                  biasCorrectionModel: v === 'boost'
+                    ? null
+                    : biasModels.find(m => String(m.version) === v) ?? prev.biasCorrectionModel,
+                }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="boost">Fixed boost</SelectItem>
+                  {/* The model in use stays selectable even if its stored copy was deleted */}
+                  {localSettings.biasCorrectionModel && !biasModels.some(m => m.version === localSettings.biasCorrectionModel?.version) && (
+                    <SelectItem value={String(localSettings.biasCorrectionModel.version)}>
+                      Learned v{localSettings.biasCorrectionModel.version}
+                    </SelectItem>
+                  )}
+                  {biasModels.map(m => (
+                    <SelectItem key={m.version} value={String(m.version)}>
+                      Learned v{m.version} ({(m.after.genderAccuracy * 100).toFixed(0)}% accurate, {m.samples} faces)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
             <div className="flex items-center justify-between">
               <Label className="flex items-center gap-2">
                 <Eye className="h-4 w-4 text-pink-500" />
@@ -279,9 +386,12 @@ export const SettingsPanel = ({ settings, onSettingsChange }: SettingsPanelProps
               value={[localSettings.femaleBoostFactor]}
               onValueChange={(v) => setLocalSettings(prev => ({ ...prev, femaleBoostFactor: v[0] }))}
               min={0} max={0.30} step={0.05}
+              disabled={!!localSettings.biasCorrectionModel}
             />
             <p className="text-xs text-muted-foreground">
-              ⚖️ Counters AI's male bias. Increase if too many women are classified as men.
+              {localSettings.biasCorrectionModel
+                ? '🧠 Not used while a learned bias correction is selected'
+                : "⚖️ Counters AI's male bias. Increase if too many women are classified as men."}
             </p>
           </div>
 
@@ -371,6 +481,48 @@ export const SettingsPanel = ({ settings, onSettingsChange }: SettingsPanelProps
             </p>
           </div>
 
+          {/* Face Tracking */}
+          <div className="space-y-2 p-3 rounded-lg bg-muted/50 border border-border">
+            <Label className="flex items-center gap-2">
+              <Crosshair className="h-4 w-4 text-primary" />
+              Face Tracking
+              <InfoTooltip text="How faces are matched from frame to frame. 'Greedy' is the original tracker. 'Kalman + Hungarian' predicts each person's movement and matches everyone at once, so identities don't swap when people cross." />
+            </Label>
+            <Select
+              value={localSettings.trackingAlgorithm}
+              onValueChange={(v) => setLocalSettings(prev => ({ ...prev, trackingAlgorithm: v as TrackingAlgorithm }))}
+            >
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="greedy">Greedy - best match per face</SelectItem>
+                <SelectItem value="kalman">Kalman + Hungarian - optimal assignment</SelectItem>
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              🚶 Use Kalman for crowds where people walk past each other
+            </p>
+          </div>
+
+          {/* Expression Engagement Toggle */}
+          <div className="flex items-center justify-between p-3 rounded-lg bg-muted/50 border border-border">
+            <div className="space-y-0.5 flex-1">
+              <Label className="flex items-center gap-2">
+                <Smile className="h-4 w-4" />
+                Expression Engagement
+                <InfoTooltip text="Reads facial expressions (happy, surprised, neutral...) while viewers watch and turns them into a 0-100 engagement score per ad. Needs the face expression model in /models and adds a little work per face." />
+              </Label>
+              <p className="text-xs text-muted-foreground">
+                😊 Scores how viewers react to each ad
+              </p>
+            </div>
+            <input
+              type="checkbox"
+              checked={localSettings.enableExpressionAnalysis}
+              onChange={(e) => setLocalSettings(prev => ({ ...prev, enableExpressionAnalysis: e.target.checked }))}
+              className="h-4 w-4 rounded border-gray-300"
+            />
+          </div>
+
           {/* Capture Window */}
           <div className="space-y-3 p-3 rounded-lg bg-muted/30 border border-border">
             <Label className="flex items-center gap-2">
@@ -403,6 +555,236 @@ export const SettingsPanel = ({ settings, onSettingsChange }: SettingsPanelProps
             </div>
           </div>
 
+          {/* Ad Scoring Weights */}
+          <div className="space-y-3 p-3 rounded-lg bg-primary/5 border border-primary/20">
+            <Label className="flex items-center gap-2">
+              <Scale className="h-4 w-4 text-primary" />
+              Ad Scoring Weights
+              <InfoTooltip text="How ads are ranked after each capture. Points scale with the share of viewers matching an ad's target, so 3 women + 2 men gives a female ad 60% of the gender points instead of all of them." />
+            </Label>
+            <p className="text-xs text-muted-foreground">
+              🎯 Higher weight = that factor matters more when choosing the next ad
+            </p>
+
+            {([
+              { key: 'genderWeight', label: 'Gender match', max: 10, step: 0.5 },
+              { key: 'ageWeight', label: 'Age match', max: 10, step: 0.5 },
+              { key: 'jointWeight', label: 'Gender + age bonus', max: 10, step: 0.5 },
+              { key: 'broadTargetFactor', label: '"All" target factor', max: 1, step: 0.05 },
+              { key: 'mismatchPenalty', label: 'No-match penalty', max: 10, step: 0.5 },
+              { key: 'recentPlayPenalty', label: 'Just-played penalty', max: 10, step: 0.5 },
+              { key: 'pacingWeight', label: 'Pacing (per play behind target)', max: 5, step: 0.5 },
+            ] as const).map(({ key, label, max, step }) => (
+              <div key={key} className="space-y-1.5">
+                <div className="flex items-center justify-between">
+                  <Label className="text-xs">{label}</Label>
+                  <span className="text-xs text-primary font-bold">
+                    {localSettings.scoringWeights[key].toFixed(step < 0.5 ? 2 : 1)}
+                  </span>
+                </div>
+                <Slider
+                  value={[localSettings.scoringWeights[key]]}
+                  onValueChange={(v) => updateScoringWeights({ [key]: v[0] })}
+                  min={0} max={max} step={step}
+                />
+              </div>
+            ))}
+
+            <div className="pt-2 border-t border-primary/20 space-y-1.5">
+              <Label className="text-xs flex items-center">
+                Audience priority
+                <InfoTooltip text="Multiplier per audience segment. Raise a segment above 1.0 to favour ads aimed at it, lower it to de-prioritize." />
+              </Label>
+              <div className="grid grid-cols-5 gap-2">
+                {(['male', 'female', 'kid', 'young', 'adult'] as const).map(segment => (
+                  <div key={segment} className="space-y-1 text-center">
+                    <span className="text-[10px] capitalize text-muted-foreground">{segment}</span>
+                    <Slider
+                      value={[localSettings.scoringWeights.segmentWeights[segment]]}
+                      onValueChange={(v) => updateSegmentWeight(segment, v[0])}
+                      min={0} max={2} step={0.1}
+                    />
+                    <span className="text-[10px] font-bold">
+                      {localSettings.scoringWeights.segmentWeights[segment].toFixed(1)}×
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          {/* Ad Queue Behaviour */}
+          <div className="space-y-3 p-3 rounded-lg bg-muted/50 border border-border">
+            <Label className="flex items-center gap-2">
+              <ListOrdered className="h-4 w-4 text-primary" />
+              Ad Queue
+              <InfoTooltip text="How the auto queue changes after each capture. When a capture sees no confident viewers, the Fallback Playlist plays instead (if one is set)." />
+            </Label>
+
+            <div className="space-y-1.5">
+              <Label className="text-xs flex items-center">
+                Selection
+                <InfoTooltip text="Bandit mode learns from every capture which ads keep each audience segment watching, and mixes exploring new ads with exploiting the best ones. Learning happens in both modes." />
+              </Label>
+              <Select
+                value={localSettings.adSelectionMode}
+                onValueChange={(v) => setLocalSettings(prev => ({ ...prev, adSelectionMode: v as AdSelectionMode }))}
+              >
+                <SelectTrigger className="bg-background">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-popover z-50">
+                  <SelectItem value="rules">Scoring rules - demographic match</SelectItem>
+                  <SelectItem value="bandit">Bandit - learned retention (Thompson sampling)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <Label className="text-xs">Queue length</Label>
+              <span className="text-sm text-primary font-bold">{localSettings.queueLength} ads</span>
+            </div>
+            <Slider
+              value={[localSettings.queueLength]}
+              onValueChange={(v) => setLocalSettings(prev => ({ ...prev, queueLength: v[0] }))}
+              min={1} max={10} step={1}
+            />
+
+            <div className="space-y-1.5">
+              <Label className="text-xs">On new audience</Label>
+              <Select
+                value={localSettings.queueReorderMode}
+                onValueChange={(v) => setLocalSettings(prev => ({ ...prev, queueReorderMode: v as QueueReorderMode }))}
+              >
+                <SelectTrigger className="bg-background">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-popover z-50">
+                  <SelectItem value="replace">Replace - top-scored ads from the library</SelectItem>
+                  <SelectItem value="rerank">Re-rank - reorder the current queue</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {/* Ad Transitions */}
+          <div className="space-y-3 p-3 rounded-lg bg-muted/50 border border-border">
+            <Label className="flex items-center gap-2">
+              <Film className="h-4 w-4 text-primary" />
+              Ad Transitions
+              <InfoTooltip text="The next ad is preloaded while the current one plays, so switching never shows a blank frame. Crossfade blends the two ads; Cut switches instantly." />
+            </Label>
+
+            <Select
+              value={localSettings.adTransition}
+              onValueChange={(v) => setLocalSettings(prev => ({ ...prev, adTransition: v as AdTransition }))}
+            >
+              <SelectTrigger className="bg-background">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-popover z-50">
+                <SelectItem value="crossfade">Crossfade</SelectItem>
+                <SelectItem value="cut">Cut</SelectItem>
+              </SelectContent>
+            </Select>
+
+            {localSettings.adTransition === 'crossfade' && (
+              <>
+                <div className="flex items-center justify-between">
+                  <Label className="text-xs">Crossfade length</Label>
+                  <span className="text-sm text-primary font-bold">{(localSettings.transitionMs / 1000).toFixed(1)}s</span>
+                </div>
+                <Slider
+                  value={[localSettings.transitionMs]}
+                  onValueChange={(v) => setLocalSettings(prev => ({ ...prev, transitionMs: v[0] }))}
+                  min={200} max={2000} step={100}
+                />
+              </>
+            )}
+          </div>
+
+          {/* Model Versions */}
+          <div className="space-y-3 p-3 rounded-lg bg-muted/50 border border-border">
+            <Label className="flex items-center gap-2">
+              <Boxes className="h-4 w-4 text-primary" />
+              Model Versions
+              <InfoTooltip text="Which version of each model is loaded. Only Pinned versions are checked against a known SHA-256 and refused if the file doesn't match; Unverified ones load as they are. Evaluation entries record the versions that produced them." />
+            </Label>
+            {Object.values(MODEL_REGISTRY).map((descriptor) => {
+              const model = resolveModel(descriptor.id, localSettings.modelVersions);
+              return (
+                <div key={descriptor.id} className="space-y-1">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-xs font-medium">
+                      {descriptor.name}
+                      <span className="text-muted-foreground font-normal"> · {descriptor.inputSize}px{descriptor.optional ? ' · optional' : ''}</span>
+                    </span>
+                    {model.sha256 ? (
+                      <span className="flex items-center gap-1 text-[10px] text-green-600" title={`SHA-256 ${model.sha256}`}>
+                        <ShieldCheck className="h-3 w-3" /> Pinned
+                      </span>
+                    ) : (
+                      <span
+                        className="flex items-center gap-1 text-[10px] text-muted-foreground"
+                        title={descriptor.runtime === 'onnx'
+                          ? 'No pinned SHA-256 - the download is not verified; only later changes to the cached copy are caught'
+                          : 'No pinned SHA-256 - loads without verification'}
+                      >
+                        <ShieldAlert className="h-3 w-3" /> Unverified
+                      </span>
+                    )}
+                  </div>
+                  {descriptor.versions.length > 1 ? (
+                    <Select value={model.version} onValueChange={(v) => setModelVersion(descriptor.id, v)}>
+                      <SelectTrigger className="h-8 text-xs"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {descriptor.versions.map((v) => (
+                          <SelectItem key={v.version} value={v.version}>{v.version}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <p className="text-xs text-muted-foreground">{model.version} (only version)</p>
+                  )}
+                  {descriptor.id === 'yolov8Face' && (
+                    <div className="flex items-center gap-2 pt-1">
+                      {yoloStatus?.hasCached || yoloStatus?.hasLocal ? (
+                        <span className="flex items-center gap-1 text-xs text-green-600">
+                          <Check className="h-3 w-3" />
+                          {yoloStatus.hasCached ? 'Downloaded' : 'Local file'}
+                        </span>
+                      ) : (
+                        <Button size="sm" variant="outline" className="h-7 text-xs" onClick={handleDownloadYolo} disabled={yoloDownloading}>
+                          {yoloDownloading
+                            ? <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                            : <Download className="h-3 w-3 mr-1" />}
+                          Download YOLO Model
+                        </Button>
+                      )}
+                      {yoloStatus?.hasCached && (
+                        <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={handleClearYoloCache}>
+                          <Trash2 className="h-3 w-3 mr-1" />
+                          Clear cache
+                        </Button>
+                      )}
+                      {yoloProgress && yoloProgress.stage !== 'ready' && (
+                        <span className="text-[10px] text-muted-foreground truncate">{yoloProgress.message}</span>
+                      )}
+                    </div>
+                  )}
+                  {descriptor.id === 'yolov8Face' && (
+                    <p className="text-[10px] text-muted-foreground">
+                      ⚠️ Faces found by YOLO get gender and age only - re-ID, attention and expressions are skipped for them
+                    </p>
+                  )}
+                </div>
+              );
+            })}
+            <p className="text-xs text-muted-foreground">
+              🔒 Models with more than one version can be switched; changes apply when you save and models reload in the background
+            </p>
+          </div>
+
           {/* Evaluation Dashboard Link */}
           <div className="p-3 rounded-lg bg-muted/50 border border-border">
             <a 
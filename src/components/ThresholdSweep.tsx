@@ -0,0 +1,285 @@
+import { useMemo, useState } from 'react';
+import { SlidersHorizontal } from 'lucide-react';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from '@/components/ui/chart';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { GroundTruthEntry } from '@/types/evaluation';
+import { loadCaptureSettings, updateStoredCaptureSettings } from '@/utils/captureSettings';
+import {
+  SweepObjective,
+  SweepParameter,
+  SweepPoint,
+  SweepCorrection,
+  SweepSettings,
+  SWEEP_OBJECTIVES,
+  SWEEP_RANGES,
+  bestSettings,
+  countReplayable,
+  evaluateSettings,
+  objectiveScore,
+  sweepCurve,
+  sweepThresholds,
+} from '@/utils/thresholdSweep';
+
+// Not worth proposing settings from a handful of labels
+const MIN_SWEEP_ENTRIES = 10;
+
+const prChartConfig = {
+  precision: { label: 'Precision', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+const thresholdChartConfig = {
+  genderAccuracy: { label: 'Gender accuracy', color: 'hsl(var(--primary))' },
+  coverage: { label: 'Faces counted', color: 'hsl(var(--accent))' },
+  objective: { label: 'Objective', color: 'hsl(var(--success))' },
+} satisfies ChartConfig;
+
+const METRIC_ROWS: { label: string; value: (p: SweepPoint) => number }[] = [
+  { label: 'Detection precision', value: p => p.precision },
+  { label: 'Detection recall', value: p => p.recall },
+  { label: 'Gender accuracy (counted)', value: p => p.genderAccuracy },
+  { label: 'Real faces counted', value: p => p.coverage },
+  { label: 'Male recall', value: p => p.maleRecall },
+  { label: 'Female recall', value: p => p.femaleRecall },
+];
+
+const percent = (value: number) => Math.round(value * 1000) / 10;
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const pickSettings = (settings: SweepSettings): SweepSettings => ({
+  falsePositiveMinScore: settings.falsePositiveMinScore,
+  minDemographicConfidence: settings.minDemographicConfidence,
+  femaleBoostFactor: settings.femaleBoostFactor,
+});
+
+interface ThresholdSweepProps {
+  entries: GroundTruthEntry[];
+  /** Applied calibration or learned correction - raw scores are replayed through it */
+  correction: SweepCorrection;
+}
+
+export const ThresholdSweep = ({ entries, correction }: ThresholdSweepProps) => {
+  const [objective, setObjective] = useState<SweepObjective>('correctCounts');
+  const [curveParameter, setCurveParameter] = useState<SweepParameter>('minDemographicConfidence');
+  const [current, setCurrent] = useState(() => pickSettings(loadCaptureSettings()));
+
+  const points = useMemo(() => sweepThresholds(entries, correction), [entries, correction]);
+  const best = useMemo(() => bestSettings(points, objective), [points, objective]);
+  const currentPoint = useMemo(() => evaluateSettings(entries, current, correction), [entries, current, correction]);
+  const replayable = useMemo(() => countReplayable(entries), [entries]);
+
+  // Curves hold the other thresholds at the proposal
+  const prData = useMemo(() => best
+    ? sweepCurve(entries, 'falsePositiveMinScore', best, correction).map(p => ({
+      guard: p.falsePositiveMinScore,
+      recall: percent(p.recall),
+      precision: percent(p.precision),
+    }))
+    : [], [entries, best, correction]);
+
+  const thresholdData = useMemo(() => best
+    ? sweepCurve(entries, curveParameter, best, correction).map(p => ({
+      value: p[curveParameter],
+      genderAccuracy: percent(p.genderAccuracy),
+      coverage: percent(p.coverage),
+      objective: percent(Math.max(0, objectiveScore(p, objective))),
+    }))
+    : [], [entries, best, curveParameter, objective, correction]);
+
+  const handleApply = () => {
+    if (!best) return;
+    const applied = pickSettings(updateStoredCaptureSettings(pickSettings(best)));
+    setCurrent(applied);
+    toast.success('Applied proposed thresholds to capture settings');
+  };
+
+  const isCurrent = best
+    && best.falsePositiveMinScore === current.falsePositiveMinScore
+    && best.minDemographicConfidence === current.minDemographicConfidence
+    && best.femaleBoostFactor === current.femaleBoostFactor;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <SlidersHorizontal className="h-5 w-5 text-primary" />
+          Threshold Sweep
+        </CardTitle>
+        <CardDescription>
+          Replays the labeled entries under every combination of False Positive Guard, Min Demographic
+          Confidence and Female Boost Factor. {replayable} of {entries.length} entries recorded raw
+          scores; the rest keep their recorded gender whatever the boost.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {entries.length < MIN_SWEEP_ENTRIES ? (
+          <p className="text-center py-6 text-muted-foreground">
+            Label at least {MIN_SWEEP_ENTRIES} detections to sweep thresholds.
+          </p>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-end gap-4">
+              <div className="space-y-2">
+                <Label>Objective</Label>
+                <Select value={objective} onValueChange={(v) => setObjective(v as SweepObjective)}>
+                  <SelectTrigger className="w-[240px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(SWEEP_OBJECTIVES) as SweepObjective[]).map(key => (
+                      <SelectItem key={key} value={key}>{SWEEP_OBJECTIVES[key].label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <p className="text-sm text-muted-foreground flex-1 min-w-[200px]">
+                {SWEEP_OBJECTIVES[objective].description}
+              </p>
+              <Button onClick={handleApply} disabled={!best || !!isCurrent}>
+                {isCurrent ? 'Already Applied' : 'Apply to Settings'}
+              </Button>
+            </div>
+
+            {correction.model && (
+              <p className="text-sm text-muted-foreground">
+                Learned bias correction v{correction.model.version} is in use, so the Female Boost Factor has no effect.
+              </p>
+            )}
+
+            {best ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead></TableHead>
+                    <TableHead>Current</TableHead>
+                    <TableHead>Proposed</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {(Object.keys(SWEEP_RANGES) as SweepParameter[]).map(key => (
+                    <TableRow key={key}>
+                      <TableCell className="font-medium">{SWEEP_RANGES[key].label}</TableCell>
+                      <TableCell>{current[key].toFixed(2)}</TableCell>
+                      <TableCell className={best[key] !== current[key] ? 'font-bold text-primary' : ''}>
+                        {best[key].toFixed(2)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  <TableRow>
+                    <TableCell className="font-medium">{SWEEP_OBJECTIVES[objective].label}</TableCell>
+                    <TableCell>{formatPercent(Math.max(0, objectiveScore(currentPoint, objective)))}</TableCell>
+                    <TableCell className="font-bold">{formatPercent(objectiveScore(best, objective))}</TableCell>
+                  </TableRow>
+                  {METRIC_ROWS.map(row => (
+                    <TableRow key={row.label}>
+                      <TableCell className="text-muted-foreground">{row.label}</TableCell>
+                      <TableCell>{formatPercent(row.value(currentPoint))}</TableCell>
+                      <TableCell>{formatPercent(row.value(best))}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <p className="text-center py-6 text-muted-foreground">
+                No combination meets this objective's minimum coverage.
+              </p>
+            )}
+
+            {best && (
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <div className="space-y-2">
+                  <p className="text-sm font-medium">Precision vs Recall (False Positive Guard)</p>
+                  <ChartContainer config={prChartConfig} className="h-[260px] w-full aspect-auto">
+                    <LineChart data={prData}>
+                      <CartesianGrid />
+                      <XAxis
+                        type="number"
+                        dataKey="recall"
+                        domain={[0, 100]}
+                        unit="%"
+                        tickLine={false}
+                        axisLine={false}
+                      />
+                      <YAxis type="number" domain={[0, 100]} unit="%" tickLine={false} axisLine={false} width={45} />
+                      <ChartTooltip
+                        content={<ChartTooltipContent labelFormatter={(_, payload) =>
+                          `Guard ${payload?.[0]?.payload?.guard?.toFixed(2)} · recall ${payload?.[0]?.payload?.recall}%`
+                        } />}
+                      />
+                      <Line dataKey="precision" stroke="var(--color-precision)" strokeWidth={2} dot />
+                    </LineChart>
+                  </ChartContainer>
+                </div>
+
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="text-sm font-medium">Accuracy vs Threshold</p>
+                    <Select value={curveParameter} onValueChange={(v) => setCurveParameter(v as SweepParameter)}>
+                      <SelectTrigger className="w-[220px] h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(SWEEP_RANGES) as SweepParameter[]).map(key => (
+                          <SelectItem key={key} value={key}>{SWEEP_RANGES[key].label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <ChartContainer config={thresholdChartConfig} className="h-[260px] w-full aspect-auto">
+                    <LineChart data={thresholdData}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis
+                        type="number"
+                        dataKey="value"
+                        domain={[SWEEP_RANGES[curveParameter].min, SWEEP_RANGES[curveParameter].max]}
+                        tickLine={false}
+                        axisLine={false}
+                      />
+                      <YAxis domain={[0, 100]} unit="%" tickLine={false} axisLine={false} width={45} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <ChartLegend content={<ChartLegendContent />} />
+                      <Line dataKey="genderAccuracy" stroke="var(--color-genderAccuracy)" strokeWidth={2} dot={false} />
+                      <Line dataKey="coverage" stroke="var(--color-coverage)" strokeWidth={2} dot={false} />
+                      <Line dataKey="objective" stroke="var(--color-objective)" strokeWidth={2} strokeDasharray="4 4" dot={false} />
+                    </LineChart>
+                  </ChartContainer>
+                </div>
+              </div>
+            )}
+
+            <p className="text-xs text-muted-foreground">
+              Entries are replayed one at a time without tracking votes, and faces the recording settings
+              already rejected aren't in the data - values looser than the ones used while labeling look
+              better here than they will live.
+            </p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,79 +1,242 @@
 import { useRef, useEffect, useState, useCallback } from 'react';
-import { AdMetadata } from '@/types/ad';
+import { AdMetadata, AdTransition } from '@/types/ad';
 import { Play, Pause, SkipForward, Volume2, VolumeX, Camera, CameraOff, Maximize, Minimize } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
+import { describeTargets } from '@/utils/adTargeting';
+import { CreativeHandle, CreativeSlot } from '@/components/CreativeSlot';
+import { creativeKey } from '@/utils/adCreative';
 
 interface VideoPlayerProps {
   ad: AdMetadata | null;
+  /** Ad expected to play next - preloaded in the spare element so the switch is gapless */
+  nextAd?: AdMetadata | null;
   isPlaying: boolean;
   onTimeUpdate: (time: number) => void;
   onEnded: () => void;
   onPlay: () => void;
   onPause: () => void;
   onSkip: () => void;
+  /** The ad's creative failed to load or play; the caller decides what plays instead */
+  onLoadError?: (ad: AdMetadata, message: string) => void;
   isCapturing: boolean;
   captureWindow: { start: number; end: number } | null;
   onDurationDetected?: (durationSeconds: number) => void;
   isFullscreen?: boolean;
   onFullscreenToggle?: () => void;
+  /** Fill the parent instead of keeping 16:9 - for screen layout zones */
+  fill?: boolean;
+  transition?: AdTransition;
+  /** Crossfade length; ignored for cuts */
+  transitionMs?: number;
 }
 
+type Slot = 0 | 1;
+type SlotAds = [AdMetadata | null, AdMetadata | null];
+
+const SLOTS: Slot[] = [0, 1];
+const otherSlot = (slot: Slot): Slot => (slot === 0 ? 1 : 0);
+
 export const VideoPlayer = ({
   ad,
+  nextAd = null,
   isPlaying,
   onTimeUpdate,
   onEnded,
   onPlay,
   onPause,
   onSkip,
+  onLoadError,
   isCapturing,
   captureWindow,
   onDurationDetected,
   isFullscreen = false,
   onFullscreenToggle,
+  fill = false,
+  transition = 'crossfade',
+  transitionMs = 500,
 }: VideoPlayerProps) => {
-  const videoRef = useRef<HTMLVideoElement>(null);
+  // Double buffering: two stacked creative slots. The active one plays the
+  // current ad while the spare one preloads the next, and they swap roles on
+  // each switch. A new ad is only shown once it can play, so the previous
+  // ad's last frame stays up instead of a black gap.
+  const slot0Ref = useRef<CreativeHandle>(null);
+  const slot1Ref = useRef<CreativeHandle>(null);
+  const [slotAds, setSlotAds] = useState<SlotAds>([null, null]);
+  const [activeSlot, setActiveSlot] = useState<Slot>(0);
+  // Slot loading the ad that should be on screen now
+  const [pendingSlot, setPendingSlot] = useState<Slot | null>(null);
+  // Previous slot, kept visible under the crossfade
+  const [fadingSlot, setFadingSlot] = useState<Slot | null>(null);
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
   const [isMuted, setIsMuted] = useState(true);
-  const [isLoaded, setIsLoaded] = useState(false);
 
-  useEffect(() => {
-    if (videoRef.current && ad) {
-      videoRef.current.load();
-      setIsLoaded(false);
+  // Mirrors for media event handlers, which fire outside React's render cycle
+  const slotAdsRef = useRef<SlotAds>([null, null]);
+  const activeSlotRef = useRef<Slot>(0);
+  const pendingSlotRef = useRef<Slot | null>(null);
+  const readyRef = useRef<[boolean, boolean]>([false, false]);
+  const failedRef = useRef<[boolean, boolean]>([false, false]);
+  const fadeTimerRef = useRef<number>();
+  const latestRef = useRef({ isPlaying, transition, transitionMs, onTimeUpdate, onDurationDetected, onLoadError });
+  latestRef.current = { isPlaying, transition, transitionMs, onTimeUpdate, onDurationDetected, onLoadError };
+
+  const setPending = useCallback((slot: Slot | null) => {
+    pendingSlotRef.current = slot;
+    setPendingSlot(slot);
+  }, []);
+
+  const assignSlot = useCallback((slot: Slot, slotAd: AdMetadata) => {
+    const next: SlotAds = [...slotAdsRef.current];
+    next[slot] = slotAd;
+    slotAdsRef.current = next;
+    readyRef.current[slot] = false;
+    failedRef.current[slot] = false;
+    setSlotAds(next);
+  }, []);
+
+  // Put a loaded slot on screen and start it
+  const showSlot = useCallback((slot: Slot) => {
+    const previous = activeSlotRef.current;
+    const { isPlaying, transition, transitionMs, onTimeUpdate, onDurationDetected } = latestRef.current;
+
+    setPending(null);
+    activeSlotRef.current = slot;
+    setActiveSlot(slot);
+
+    const creative = (slot === 0 ? slot0Ref : slot1Ref).current;
+    if (creative) {
+      creative.restart();
+      setDuration(creative.duration);
       setCurrentTime(0);
+      onTimeUpdate(0);
+      const detected = Math.round(creative.duration || 0);
+      if (detected > 0) onDurationDetected?.(detected);
+      if (isPlaying) creative.play();
     }
-  }, [ad?.id]);
 
+    if (previous === slot) return;
+
+    // Stop the outgoing ad once it's fully covered
+    window.clearTimeout(fadeTimerRef.current);
+    setFadingSlot(previous);
+    fadeTimerRef.current = window.setTimeout(() => {
+      (previous === 0 ? slot0Ref : slot1Ref).current?.pause();
+      setFadingSlot(null);
+    }, transition === 'crossfade' ? transitionMs : 0);
+  }, [setPending]);
+
+  // A new ad to play: swap to the preloaded slot, or load it into the spare one
   useEffect(() => {
-    if (videoRef.current && isLoaded) {
-      if (isPlaying) {
-        videoRef.current.play().catch(console.error);
-      } else {
-        videoRef.current.pause();
-      }
+    if (!ad) return;
+
+    const active = activeSlotRef.current;
+    const activeAd = slotAdsRef.current[active];
+
+    // First ad - nothing on screen to keep up, load straight into the visible slot
+    if (!activeAd) {
+      assignSlot(active, ad);
+      setPending(active);
+      return;
     }
-  }, [isPlaying, isLoaded]);
 
-  const handleTimeUpdate = useCallback(() => {
-    if (videoRef.current) {
-      const time = videoRef.current.currentTime;
-      setCurrentTime(time);
-      onTimeUpdate(time);
+    // Same ad with its detected duration filled in: a metadata update, not a new play
+    if (activeAd.id === ad.id && activeAd.duration !== ad.duration && pendingSlotRef.current === null) {
+      const next: SlotAds = [...slotAdsRef.current];
+      next[active] = ad;
+      slotAdsRef.current = next;
+      setSlotAds(next);
+      return;
     }
-  }, [onTimeUpdate]);
 
-  const handleLoadedMetadata = () => {
-    if (videoRef.current) {
-      const detected = Math.round(videoRef.current.duration || 0);
-      setDuration(videoRef.current.duration);
-      setIsLoaded(true);
-      if (detected > 0) onDurationDetected?.(detected);
+    const spare = otherSlot(active);
+    setPending(spare);
+
+    const spareAd = slotAdsRef.current[spare];
+    if (!spareAd || creativeKey(spareAd) !== creativeKey(ad)) {
+      assignSlot(spare, ad);
+      return;
+    }
+
+    const next: SlotAds = [...slotAdsRef.current];
+    next[spare] = ad;
+    slotAdsRef.current = next;
+    setSlotAds(next);
+
+    if (failedRef.current[spare]) {
+      // Preloading failed earlier - try once more before giving up on it
+      failedRef.current[spare] = false;
+      (spare === 0 ? slot0Ref : slot1Ref).current?.reload();
+    } else if (readyRef.current[spare]) {
+      showSlot(spare);
+    }
+  }, [ad, assignSlot, setPending, showSlot]);
+
+  // Preload the upcoming ad into the spare slot once it's free
+  useEffect(() => {
+    if (!nextAd || pendingSlot !== null || fadingSlot !== null) return;
+    const spare = otherSlot(activeSlot);
+    const spareAd = slotAdsRef.current[spare];
+    if (spareAd && creativeKey(spareAd) === creativeKey(nextAd)) return;
+    assignSlot(spare, nextAd);
+  }, [nextAd, activeSlot, pendingSlot, fadingSlot, assignSlot]);
+
+  useEffect(() => {
+    const creative = (activeSlot === 0 ? slot0Ref : slot1Ref).current;
+    if (!creative || pendingSlot === activeSlot || !readyRef.current[activeSlot]) return;
+    if (isPlaying) {
+      creative.play();
+    } else {
+      creative.pause();
+    }
+  }, [isPlaying, activeSlot, pendingSlot]);
+
+  useEffect(() => () => window.clearTimeout(fadeTimerRef.current), []);
+
+  const handleCanPlay = (slot: Slot) => {
+    readyRef.current[slot] = true;
+    if (pendingSlotRef.current === slot) showSlot(slot);
+  };
+
+  const handleError = (slot: Slot, message: string) => {
+    const slotAd = slotAdsRef.current[slot];
+    if (!slotAd || failedRef.current[slot]) return;
+
+    failedRef.current[slot] = true;
+    const isCurrent = pendingSlotRef.current === slot ||
+      (pendingSlotRef.current === null && activeSlotRef.current === slot);
+
+    if (isCurrent) {
+      setPending(null);
+      latestRef.current.onLoadError?.(slotAd, message);
+    } else {
+      console.warn(`[Player] Preloading "${slotAd.title}" failed: ${message}`);
     }
   };
 
+  const handleTimeUpdate = (slot: Slot, time: number) => {
+    if (slot !== activeSlotRef.current || pendingSlotRef.current === slot) return;
+    setCurrentTime(time);
+    onTimeUpdate(time);
+  };
+
+  const handleEnded = (slot: Slot) => {
+    if (slot === activeSlotRef.current) onEnded();
+  };
+
+  // Active on top (fading in for crossfades), outgoing under it, spare hidden
+  const slotStyle = (slot: Slot): React.CSSProperties => {
+    if (slot === activeSlot) {
+      return {
+        zIndex: 2,
+        opacity: 1,
+        transition: transition === 'crossfade' ? `opacity ${transitionMs}ms ease-in-out` : undefined,
+      };
+    }
+    return { zIndex: slot === fadingSlot ? 1 : 0, opacity: slot === fadingSlot ? 1 : 0 };
+  };
+
   const formatTime = (seconds: number): string => {
     const mins = Math.floor(seconds / 60);
     const secs = Math.floor(seconds % 60);
@@ -89,7 +252,7 @@ export const VideoPlayer = ({
 
   if (!ad) {
     return (
-      <div className="video-container aspect-video bg-muted flex items-center justify-center">
+      <div className={cn('video-container bg-muted flex items-center justify-center', fill ? 'h-full rounded-none' : 'aspect-video')}>
         <div className="text-muted-foreground font-display text-lg">
           No ad selected
         </div>
@@ -98,17 +261,22 @@ export const VideoPlayer = ({
   }
 
   return (
-    <div className="video-container relative group">
-      <video
-        ref={videoRef}
-        src={ad.videoUrl}
-        className="w-full aspect-video object-cover bg-background"
-        muted={isMuted}
-        playsInline
-        onTimeUpdate={handleTimeUpdate}
-        onLoadedMetadata={handleLoadedMetadata}
-        onEnded={onEnded}
-      />
+    <div className={cn('video-container relative group', fill && 'h-full rounded-none')}>
+      <div className={cn('relative w-full bg-background overflow-hidden', fill ? 'h-full' : 'aspect-video')}>
+        {SLOTS.map(slot => (
+          <CreativeSlot
+            key={slot}
+            ref={slot === 0 ? slot0Ref : slot1Ref}
+            ad={slotAds[slot]}
+            style={slotStyle(slot)}
+            muted={isMuted || slot !== activeSlot}
+            onReady={() => handleCanPlay(slot)}
+            onError={(message) => handleError(slot, message)}
+            onTimeUpdate={(time) => handleTimeUpdate(slot, time)}
+            onEnded={() => handleEnded(slot)}
+          />
+        ))}
+      </div>
 
       {/* Capture indicator overlay */}
       {isCapturing && (
@@ -236,7 +404,7 @@ export const VideoPlayer = ({
             {ad.title}
           </p>
           <p className="text-xs text-muted-foreground">
-            Target: {ad.gender === 'all' ? 'Everyone' : ad.gender} • {ad.ageGroup === 'all' ? 'All ages' : ad.ageGroup}
+            Target: {describeTargets(ad)}
           </p>
         </div>
       )}
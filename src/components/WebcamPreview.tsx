@@ -157,6 +157,7 @@ export const WebcamPreview = ({
       actualGender: formFalsePositive ? detection.gender : formGender,
       actualAgeGroup: formFalsePositive ? detection.ageGroup : formAge,
       isFalsePositive: formFalsePositive,
+      rawGender: detection.rawGender,
       trackingId: faceId, // Include tracking ID for live correction
     } as GroundTruthEntry & { trackingId: string });
     
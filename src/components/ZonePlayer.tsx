@@ -0,0 +1,129 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { AdMetadata, AdSelectionMode, AdTransition, DemographicCounts } from '@/types/ad';
+import { ScreenZone } from '@/types/layout';
+import { ScoringWeights } from '@/utils/adScoring';
+import { getZoneAds } from '@/utils/screenLayout';
+import { useAdQueue } from '@/hooks/useAdQueue';
+import { VideoPlayer } from '@/components/VideoPlayer';
+
+/** Audience from the main zone's latest capture, shared with targeted zones. */
+export interface ZoneAudience {
+  demographics: DemographicCounts;
+  capturedAt: number;
+}
+
+interface ZonePlayerProps {
+  zone: ScreenZone;
+  library: AdMetadata[];
+  audience: ZoneAudience | null;
+  captureStartPercent: number;
+  captureEndPercent: number;
+  scoringWeights: ScoringWeights;
+  queueLength: number;
+  selectionMode: AdSelectionMode;
+  transition: AdTransition;
+  transitionMs: number;
+}
+
+// A zone whose ads all fail to load shouldn't spin - wait before the next one
+const LOAD_ERROR_DELAY_MS = 5000;
+
+const noop = () => {};
+
+/**
+ * A secondary screen zone: its own queue and player. Static zones loop their
+ * ads in order; targeted zones re-rank their ads for each audience the main
+ * zone captures.
+ */
+export const ZonePlayer = ({
+  zone,
+  library,
+  audience,
+  captureStartPercent,
+  captureEndPercent,
+  scoringWeights,
+  queueLength,
+  selectionMode,
+  transition,
+  transitionMs,
+}: ZonePlayerProps) => {
+  const zoneAds = useMemo(() => getZoneAds(zone, library), [zone, library]);
+  const isStatic = zone.source === 'static';
+
+  const { getNextAd, upcomingAd, reorderQueue, updateQueue, resetManualQueueIndex, forgetPlay } = useAdQueue({
+    customAds: zoneAds,
+    captureStartPercent,
+    captureEndPercent,
+    manualMode: isStatic,
+    manualQueue: zoneAds,
+    scoringWeights,
+    queueLength,
+    selectionMode,
+    persistState: false,
+  });
+
+  const [currentAd, setCurrentAd] = useState<AdMetadata | null>(null);
+  const [isPlaying, setIsPlaying] = useState(true);
+  const startedRef = useRef(false);
+  const retryTimeoutRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    updateQueue(zoneAds);
+    resetManualQueueIndex();
+  }, [zoneAds, updateQueue, resetManualQueueIndex]);
+
+  const playNext = useCallback(() => {
+    if (retryTimeoutRef.current) {
+      window.clearTimeout(retryTimeoutRef.current);
+      retryTimeoutRef.current = null;
+    }
+    setCurrentAd(getNextAd());
+    setIsPlaying(true);
+  }, [getNextAd]);
+
+  useEffect(() => {
+    if (startedRef.current) return;
+    startedRef.current = true;
+    playNext();
+  }, [playNext]);
+
+  // Targeted zones follow the audience independently of the main queue.
+  // Only a new capture re-ranks - reorderQueue changes identity with every rotation.
+  const reorderQueueRef = useRef(reorderQueue);
+  reorderQueueRef.current = reorderQueue;
+  useEffect(() => {
+    if (isStatic || !audience) return;
+    reorderQueueRef.current(audience.demographics);
+  }, [audience, isStatic]);
+
+  const handleLoadError = useCallback((ad: AdMetadata, message: string) => {
+    console.warn(`[Zone ${zone.name}] Could not load "${ad.title}": ${message}`);
+    forgetPlay(ad.id);
+    if (retryTimeoutRef.current) window.clearTimeout(retryTimeoutRef.current);
+    retryTimeoutRef.current = window.setTimeout(playNext, LOAD_ERROR_DELAY_MS);
+  }, [zone.name, playNext, forgetPlay]);
+
+  useEffect(() => () => {
+    if (retryTimeoutRef.current) window.clearTimeout(retryTimeoutRef.current);
+  }, []);
+
+  return (
+    <VideoPlayer
+      ad={currentAd}
+      nextAd={upcomingAd}
+      isPlaying={isPlaying}
+      onTimeUpdate={noop}
+      onEnded={playNext}
+      onPlay={() => setIsPlaying(true)}
+      onPause={() => setIsPlaying(false)}
+      onSkip={playNext}
+      onLoadError={handleLoadError}
+      isCapturing={false}
+      captureWindow={null}
+      isFullscreen={true}
+      fill
+      transition={transition}
+      transitionMs={transitionMs}
+    />
+  );
+};
@@ -1,4 +1,5 @@
 import { AdMetadata } from '@/types/ad';
+import { adReaches } from '@/utils/adTargeting';
 
 // Sample ads with royalty-free video URLs for demonstration
 // Capture window is set to 75%-90% of ad duration (near the end)
@@ -7,8 +8,7 @@ export const sampleAds: AdMetadata[] = [
     id: 'ad-001',
     filename: 'tech-gadgets.mp4',
     title: 'TechPro Gadgets',
-    gender: 'male',
-    ageGroup: 'young',
+    targetSegments: [{ gender: 'male', ageGroup: 'young' }],
     duration: 15, // ForBiggerBlazes is ~15s
     captureStart: 9,
     captureEnd: 14,
@@ -18,8 +18,7 @@ export const sampleAds: AdMetadata[] = [
     id: 'ad-002',
     filename: 'luxury-fashion.mp4',
     title: 'Elegance Fashion',
-    gender: 'female',
-    ageGroup: 'adult',
+    targetSegments: [{ gender: 'female', ageGroup: 'adult' }],
     duration: 15, // ForBiggerEscapes is ~15s
     captureStart: 9,
     captureEnd: 14,
@@ -29,8 +28,7 @@ export const sampleAds: AdMetadata[] = [
     id: 'ad-003',
     filename: 'sports-energy.mp4',
     title: 'PowerBoost Energy',
-    gender: 'male',
-    ageGroup: 'young',
+    targetSegments: [{ gender: 'male', ageGroup: 'young' }],
     duration: 60, // ForBiggerFun is ~60s
     captureStart: 36,
     captureEnd: 56,
@@ -40,8 +38,10 @@ export const sampleAds: AdMetadata[] = [
     id: 'ad-004',
     filename: 'skincare-premium.mp4',
     title: 'GlowUp Skincare',
-    gender: 'female',
-    ageGroup: 'young',
+    targetSegments: [
+      { gender: 'female', ageGroup: 'young' },
+      { gender: 'female', ageGroup: 'adult', weight: 0.5 },
+    ],
     duration: 15, // ForBiggerJoyrides is ~15s
     captureStart: 9,
     captureEnd: 14,
@@ -51,8 +51,7 @@ export const sampleAds: AdMetadata[] = [
     id: 'ad-005',
     filename: 'financial-services.mp4',
     title: 'WealthGuard Insurance',
-    gender: 'all',
-    ageGroup: 'adult',
+    targetSegments: [{ gender: 'all', ageGroup: 'adult' }],
     duration: 53, // ForBiggerMeltdowns is ~53s
     captureStart: 32,
     captureEnd: 49,
@@ -62,8 +61,7 @@ export const sampleAds: AdMetadata[] = [
     id: 'ad-006',
     filename: 'gaming-console.mp4',
     title: 'NexGen Gaming',
-    gender: 'all',
-    ageGroup: 'young',
+    targetSegments: [{ gender: 'all', ageGroup: 'young' }],
     duration: 60, // Using shorter clip, not full Big Buck Bunny
     captureStart: 36,
     captureEnd: 56,
@@ -82,9 +80,5 @@ export const getAdById = (id: string): AdMetadata | undefined => {
 };
 
 export const getAdsByTarget = (gender?: string, ageGroup?: string): AdMetadata[] => {
-  return sampleAds.filter(ad => {
-    const genderMatch = !gender || ad.gender === 'all' || ad.gender === gender;
-    const ageMatch = !ageGroup || ad.ageGroup === 'all' || ad.ageGroup === ageGroup;
-    return genderMatch && ageMatch;
-  });
+  return sampleAds.filter(ad => adReaches(ad, gender, ageGroup));
 };
@@ -1,6 +1,18 @@
 import { useState, useCallback, useMemo, useRef, useEffect } from 'react';
-import { AdMetadata, DemographicCounts, AdScore, LogEntry } from '@/types/ad';
+import { AdMetadata, DemographicCounts, AdScore, LogEntry, IneligibleAd, QueueReorderMode, AdSelectionMode } from '@/types/ad';
+import { CaptureSessionSummary } from '@/types/detection';
 import { sampleAds } from '@/data/sampleAds';
+import { targetsGender, targetsAgeGroup } from '@/utils/adTargeting';
+import { PlayRecord, loadPlayHistory, savePlayHistory, prunePlayHistory, getFrequencyCapStatus } from '@/utils/adPacing';
+import { getScheduleStatus } from '@/utils/adSchedule';
+import { ScoringWeights, DEFAULT_SCORING_WEIGHTS, scoreAdWithRules, describeAudience } from '@/utils/adScoring';
+import {
+  BanditPosteriors,
+  loadBanditPosteriors,
+  saveBanditPosteriors,
+  updatePosteriors,
+  scoreAdWithBandit,
+} from '@/utils/adBandit';
 
 interface UseAdQueueProps {
   customAds?: AdMetadata[];
@@ -8,6 +20,17 @@ interface UseAdQueueProps {
   captureEndPercent?: number;
   manualMode?: boolean;
   manualQueue?: AdMetadata[];
+  scoringWeights?: ScoringWeights;
+  queueLength?: number;
+  reorderMode?: QueueReorderMode;
+  fallbackPlaylist?: AdMetadata[];
+  selectionMode?: AdSelectionMode;
+  /**
+   * Save play history and bandit posteriors to localStorage (default true).
+   * Secondary screen-zone queues turn this off: they start from the saved
+   * state but keep their own in memory, so they don't overwrite the main queue's.
+   */
+  persistState?: boolean;
 }
 
 // Stable helper to calculate capture windows
@@ -18,6 +41,62 @@ const applyCapture = (ads: AdMetadata[], startPercent: number, endPercent: numbe
     captureEnd: Math.floor(ad.duration * endPercent / 100),
   }));
 
+// Why an ad cannot run right now (schedule first, then frequency cap), or null if it can
+const getIneligibleReason = (ad: AdMetadata, history: PlayRecord[], now: number): string | null => {
+  const schedule = getScheduleStatus(ad, new Date(now));
+  if (!schedule.eligible) return schedule.reason ?? 'Out of schedule';
+
+  const cap = getFrequencyCapStatus(ad, history, now);
+  if (cap.capped) return `Capped: ${cap.reason}`;
+
+  return null;
+};
+
+// Re-check schedules every minute so dayparting windows open/close on time
+const ELIGIBILITY_REFRESH_MS = 60 * 1000;
+
+type NextAdPick =
+  | { kind: 'queued'; ad: AdMetadata; index: number }
+  | { kind: 'borrowed'; ad: AdMetadata }
+  | { kind: 'forced'; ad: AdMetadata };
+
+// Which ad plays after the current one, for a non-empty queue: the first eligible
+// queued ad that wasn't just played, then any eligible queued ad, then an eligible
+// library ad, then the top of the queue regardless of schedule/caps
+const pickNextAd = (
+  queue: AdMetadata[],
+  library: AdMetadata[],
+  lastPlayedId: string | null,
+  history: PlayRecord[],
+  now: number
+): NextAdPick => {
+  const isEligible = (ad: AdMetadata) => getIneligibleReason(ad, history, now) === null;
+
+  let index = queue.findIndex(ad => ad.id !== lastPlayedId && isEligible(ad));
+  if (index === -1) index = queue.findIndex(isEligible);
+  if (index !== -1) return { kind: 'queued', ad: queue[index], index };
+
+  const borrowed = library.find(isEligible);
+  if (borrowed) return { kind: 'borrowed', ad: borrowed };
+
+  return { kind: 'forced', ad: queue[0] };
+};
+
+// Manual queues loop in order from `start`, skipping ads that can't run now;
+// if none can, the ad at `start` plays anyway so the screen never goes blank
+const pickManualIndex = (
+  manualQueue: AdMetadata[],
+  start: number,
+  history: PlayRecord[],
+  now: number
+): { index: number; forced: boolean } => {
+  for (let offset = 0; offset < manualQueue.length; offset++) {
+    const index = (start + offset) % manualQueue.length;
+    if (getIneligibleReason(manualQueue[index], history, now) === null) return { index, forced: false };
+  }
+  return { index: start % manualQueue.length, forced: true };
+};
+
 export const useAdQueue = (props?: UseAdQueueProps) => {
   const { 
     customAds, 
@@ -25,6 +104,12 @@ export const useAdQueue = (props?: UseAdQueueProps) => {
     captureEndPercent = 92,
     manualMode = false,
     manualQueue: externalManualQueue = [],
+    scoringWeights = DEFAULT_SCORING_WEIGHTS,
+    queueLength = 2,
+    reorderMode = 'replace',
+    fallbackPlaylist = [],
+    selectionMode = 'rules',
+    persistState = true,
   } = props || {};
   
   const manualQueueIndexRef = useRef(0);
@@ -33,10 +118,63 @@ export const useAdQueue = (props?: UseAdQueueProps) => {
   const [queue, setQueue] = useState<AdMetadata[]>(() =>
     applyCapture(customAds && customAds.length > 0 ? customAds : sampleAds, captureStartPercent, captureEndPercent)
   );
-  const [playedAds, setPlayedAds] = useState<string[]>([]);
   const [logs, setLogs] = useState<LogEntry[]>([]);
+  // True while the queue holds the house/fallback playlist instead of scored ads
+  const [usingFallback, setUsingFallback] = useState(false);
   const lastPlayedIdRef = useRef<string | null>(null);
 
+  // Play history for frequency caps/pacing - persisted so restarts keep counters
+  const [playHistory, setPlayHistory] = useState<PlayRecord[]>(() => loadPlayHistory());
+  const playHistoryRef = useRef(playHistory);
+
+  useEffect(() => {
+    if (persistState) savePlayHistory(playHistory);
+  }, [playHistory, persistState]);
+
+  const recordPlay = useCallback((adId: string) => {
+    const now = Date.now();
+    const next = prunePlayHistory([...playHistoryRef.current, { adId, playedAt: now }], now);
+    playHistoryRef.current = next;
+    setPlayHistory(next);
+  }, []);
+
+  // Undo the latest play of an ad that failed to load, so it doesn't count toward caps or pacing
+  const forgetPlay = useCallback((adId: string) => {
+    const history = playHistoryRef.current;
+    let index = -1;
+    for (let i = history.length - 1; i >= 0; i--) {
+      if (history[i].adId === adId) {
+        index = i;
+        break;
+      }
+    }
+    if (index === -1) return;
+    const next = history.filter((_, i) => i !== index);
+    playHistoryRef.current = next;
+    setPlayHistory(next);
+  }, []);
+
+  // Learned retention posteriors for bandit selection - persisted across restarts
+  const [banditPosteriors, setBanditPosteriors] = useState<BanditPosteriors>(() => loadBanditPosteriors());
+  const banditPosteriorsRef = useRef(banditPosteriors);
+
+  useEffect(() => {
+    if (persistState) saveBanditPosteriors(banditPosteriors);
+  }, [banditPosteriors, persistState]);
+
+  // Feed a finished capture session back as the reward for the ad that was playing
+  const recordRetention = useCallback((adId: string, summary: CaptureSessionSummary, graceMs: number) => {
+    const next = updatePosteriors(banditPosteriorsRef.current, adId, summary, graceMs);
+    if (next === banditPosteriorsRef.current) return;
+    banditPosteriorsRef.current = next;
+    setBanditPosteriors(next);
+  }, []);
+
+  const resetBanditPosteriors = useCallback(() => {
+    banditPosteriorsRef.current = {};
+    setBanditPosteriors({});
+  }, []);
+
   // Memoized version for internal use (not for initializing state)
   const initialAds = useMemo(() => {
     const ads = customAds && customAds.length > 0 ? customAds : sampleAds;
@@ -61,48 +199,15 @@ export const useAdQueue = (props?: UseAdQueueProps) => {
   }, []);
 
   const scoreAd = useCallback((ad: AdMetadata, demographics: DemographicCounts): AdScore => {
-    let score = 0;
-    const reasons: string[] = [];
-
-    const dominantGender = demographics.male >= demographics.female ? 'male' : 'female';
-    
-    // Find dominant age group
-    let dominantAge: 'kid' | 'young' | 'adult' = 'young';
-    if (demographics.kid >= demographics.young && demographics.kid >= demographics.adult) {
-      dominantAge = 'kid';
-    } else if (demographics.adult > demographics.young && demographics.adult > demographics.kid) {
-      dominantAge = 'adult';
-    }
-
-    // Perfect match bonus - both gender AND age match
-    const genderMatches = ad.gender === dominantGender || ad.gender === 'all';
-    const ageMatches = ad.ageGroup === dominantAge || ad.ageGroup === 'all';
-
-    if (ad.gender === dominantGender && ad.ageGroup === dominantAge) {
-      score += 10; // Perfect match - highest priority
-      reasons.push(`★ Perfect match: ${dominantGender} + ${dominantAge}`);
-    } else if (genderMatches && ageMatches) {
-      score += 5; // Both match but one is 'all'
-      reasons.push(`✓ Matches both criteria`);
-    } else if (ad.gender === dominantGender) {
-      score += 3;
-      reasons.push(`✓ Matches ${dominantGender}`);
-    } else if (ad.ageGroup === dominantAge) {
-      score += 3;
-      reasons.push(`✓ Matches ${dominantAge}`);
-    } else {
-      score -= 5; // Neither matches
-      reasons.push(`✗ No match`);
-    }
-
-    // Penalty for recently played
-    if (ad.id === lastPlayedIdRef.current) {
-      score -= 3;
-      reasons.push('Just played (-3)');
-    }
-
-    return { ad, score, reasons };
-  }, [playedAds]);
+    return scoreAdWithRules({
+      ad,
+      demographics,
+      weights: scoringWeights,
+      lastPlayedId: lastPlayedIdRef.current,
+      playHistory: playHistoryRef.current,
+      now: Date.now(),
+    });
+  }, [scoringWeights]);
 
   const reorderQueue = useCallback((demographics: DemographicCounts) => {
     console.log('[Queue] Reordering based on demographics:', demographics);
@@ -115,37 +220,83 @@ export const useAdQueue = (props?: UseAdQueueProps) => {
       captureEnd: Math.floor(ad.duration * captureEndPercent / 100),
     }));
 
-    const scoredAds = adsWithCapture.map(ad => scoreAd(ad, demographics));
+    // Out-of-flight and frequency-capped ads sit out this round
+    const now = Date.now();
+    const eligibleAds = adsWithCapture.filter(ad => {
+      const reason = getIneligibleReason(ad, playHistoryRef.current, now);
+      if (reason) {
+        addLog('queue', `⏸️ Skipped "${ad.title}" (${reason})`);
+      }
+      return !reason;
+    });
+
+    // Bandit mode ranks by sampled retention; eligibility rules still apply
+    const scoredAds = eligibleAds.map(ad => selectionMode === 'bandit'
+      ? scoreAdWithBandit(ad, demographics, banditPosteriorsRef.current)
+      : scoreAd(ad, demographics));
     
     // Sort by score descending
     scoredAds.sort((a, b) => b.score - a.score);
 
-    // Take only top 2 ads for the queue
-    const top2 = scoredAds.slice(0, 2).map(s => s.ad);
-    
-    // Find dominant age for logging
-    let dominantAge = 'young';
-    if (demographics.kid >= demographics.young && demographics.kid >= demographics.adult) {
-      dominantAge = 'kid';
-    } else if (demographics.adult > demographics.young && demographics.adult > demographics.kid) {
-      dominantAge = 'adult';
+    let nextQueue: AdMetadata[];
+    if (reorderMode === 'rerank' && !usingFallback) {
+      // Re-rank: keep the current queue's ads in score order, topped up from the library
+      const ranked = scoredAds.filter(s => queue.some(ad => ad.id === s.ad.id));
+      const topUp = scoredAds
+        .filter(s => !queue.some(ad => ad.id === s.ad.id))
+        .slice(0, Math.max(0, queueLength - ranked.length));
+      nextQueue = [...ranked, ...topUp].map(s => s.ad);
+    } else {
+      // Replace: the top N scored ads become the queue
+      nextQueue = scoredAds.slice(0, queueLength).map(s => s.ad);
     }
     
     // Log the reordering
-    const topAd = scoredAds[0];
+    const topAd = scoredAds.find(s => s.ad.id === nextQueue[0]?.id);
     if (topAd) {
-      console.log('[Queue] New queue (max 2):', scoredAds.slice(0, 2).map(s => `${s.ad.title}(${s.score})`).join(' > '));
-      addLog('queue', `🔄 Queue updated for ${demographics.male > demographics.female ? 'male' : 'female'} ${dominantAge}`);
-      addLog('queue', `Next: "${topAd.ad.title}" (score: ${topAd.score})`);
+      console.log(`[Queue] New queue (${selectionMode}, ${reorderMode}, max ${queueLength}):`, nextQueue.map(ad => ad.title).join(' > '));
+      addLog('queue', `🔄 Queue updated for audience ${describeAudience(demographics)}`);
+      addLog('queue', selectionMode === 'bandit'
+        ? `Next: "${topAd.ad.title}" (sampled retention: ${Math.round(topAd.score * 100)}%)`
+        : `Next: "${topAd.ad.title}" (score: ${topAd.score})`);
+      if (topAd.reasons.length > 0) {
+        addLog('queue', `Why: ${topAd.reasons.join(' • ')}`);
+      }
     }
 
-    setQueue(top2);
-  }, [scoreAd, addLog, customAds, captureStartPercent, captureEndPercent]);
+    // No eligible ads: keep the current queue and let getNextAd fall back
+    if (nextQueue.length > 0) {
+      setQueue(nextQueue);
+      setUsingFallback(false);
+    }
+  }, [scoreAd, addLog, customAds, captureStartPercent, captureEndPercent, queue, queueLength, reorderMode, usingFallback, selectionMode]);
+
+  /**
+   * Called when a capture window ends with zero confident viewers: swap the
+   * queue for the house/fallback playlist until someone is detected again.
+   * Without a fallback playlist the current queue keeps rotating.
+   */
+  const applyFallbackPlaylist = useCallback(() => {
+    if (fallbackPlaylist.length === 0) {
+      addLog('queue', '👀 No viewers detected, keeping current queue');
+      return;
+    }
+    if (usingFallback) return;
+
+    setQueue(applyCapture(fallbackPlaylist, captureStartPercent, captureEndPercent));
+    setUsingFallback(true);
+    addLog('queue', `🏠 No viewers detected, switching to fallback playlist (${fallbackPlaylist.length} ads)`);
+  }, [fallbackPlaylist, usingFallback, addLog, captureStartPercent, captureEndPercent]);
 
   const getNextAd = useCallback((): AdMetadata | null => {
-    // Manual mode: cycle through manual queue in order
+    // Manual mode: cycle through manual queue in order, skipping out-of-schedule and capped ads
     if (manualMode && externalManualQueue.length > 0) {
-      const nextIndex = manualQueueIndexRef.current % externalManualQueue.length;
+      const { index: nextIndex, forced } = pickManualIndex(
+        externalManualQueue,
+        manualQueueIndexRef.current,
+        playHistoryRef.current,
+        Date.now()
+      );
       const nextAd = {
         ...externalManualQueue[nextIndex],
         captureStart: Math.floor(externalManualQueue[nextIndex].duration * captureStartPercent / 100),
@@ -153,66 +304,104 @@ export const useAdQueue = (props?: UseAdQueueProps) => {
       };
       manualQueueIndexRef.current = (nextIndex + 1) % externalManualQueue.length;
       
+      if (forced) {
+        addLog('queue', `⚠️ No eligible ads (schedule/caps), playing "${nextAd.title}" anyway`);
+      }
       addLog('ad', `▶️ Playing: "${nextAd.title}" (${nextIndex + 1}/${externalManualQueue.length})`);
       lastPlayedIdRef.current = nextAd.id;
+      recordPlay(nextAd.id);
       
       return nextAd;
     }
 
-    // Auto mode: original logic
+    // Auto mode - an empty queue starts over from the library, still honoring schedules and caps
+    const source = queue.length > 0 ? queue : initialAds;
+    if (source.length === 0) return null;
     if (queue.length === 0) {
-      const resetAds = initialAds;
-      setQueue(resetAds);
-      setPlayedAds([]);
+      setQueue(initialAds);
+      setUsingFallback(false);
       lastPlayedIdRef.current = null;
-      return resetAds[0] || null;
     }
 
-    // Get the first ad that wasn't just played
-    let nextAd = queue[0];
-    
-    // If top ad was just played, try second option
-    if (nextAd.id === lastPlayedIdRef.current && queue.length > 1) {
-      nextAd = queue[1];
-      // Rotate queue differently
-      setQueue(prev => [prev[1], ...prev.filter((_, i) => i !== 1)]);
+    const pick = pickNextAd(source, initialAds, lastPlayedIdRef.current, playHistoryRef.current, Date.now());
+    const nextAd = pick.ad;
+    if (pick.kind === 'queued') {
+      // Rotate - move the played ad to the end
+      setQueue(prev => [...prev.filter((_, i) => i !== pick.index), prev[pick.index]]);
+    } else if (pick.kind === 'borrowed') {
+      // Nothing in the queue may run - borrow an eligible ad from the library
+      addLog('queue', `⏸️ Queue ineligible, filling with "${nextAd.title}"`);
     } else {
-      // Normal rotation - move first to end
+      // Nothing may run at all - keep the screen alive with the top of the queue
       setQueue(prev => [...prev.slice(1), prev[0]]);
+      addLog('queue', `⚠️ No eligible ads (schedule/caps), playing "${nextAd.title}" anyway`);
     }
-    
-    // Track played ads
-    setPlayedAds(prev => [nextAd.id, ...prev].slice(0, 5));
+
     lastPlayedIdRef.current = nextAd.id;
+    recordPlay(nextAd.id);
     
     addLog('ad', `▶️ Playing: "${nextAd.title}"`);
     
     return nextAd;
-  }, [queue, initialAds, addLog, manualMode, externalManualQueue, captureStartPercent, captureEndPercent]);
+  }, [queue, initialAds, addLog, recordPlay, manualMode, externalManualQueue, captureStartPercent, captureEndPercent]);
 
   // Reset manual queue index when manual queue changes
   const resetManualQueueIndex = useCallback(() => {
     manualQueueIndexRef.current = 0;
   }, []);
 
+  // Library ads that cannot run right now, with the reason, for the queue panel
+  const [eligibilityClock, setEligibilityClock] = useState(() => Date.now());
+  useEffect(() => {
+    const id = window.setInterval(() => setEligibilityClock(Date.now()), ELIGIBILITY_REFRESH_MS);
+    return () => window.clearInterval(id);
+  }, []);
+
+  const ineligibleAds = useMemo<IneligibleAd[]>(() =>
+    initialAds
+      .map(ad => ({ ad, reason: getIneligibleReason(ad, playHistory, eligibilityClock) }))
+      .filter((entry): entry is IneligibleAd => entry.reason !== null),
+  [initialAds, playHistory, eligibilityClock]);
+
+  // What getNextAd would return right now, without rotating or recording anything,
+  // so the player can preload it. A reorder before the current ad ends can change it.
+  const upcomingAd = useMemo((): AdMetadata | null => {
+    if (manualMode && externalManualQueue.length > 0) {
+      return externalManualQueue[pickManualIndex(externalManualQueue, manualQueueIndexRef.current, playHistory, eligibilityClock).index];
+    }
+    const source = queue.length > 0 ? queue : initialAds;
+    if (source.length === 0) return null;
+    return pickNextAd(source, initialAds, lastPlayedIdRef.current, playHistory, eligibilityClock).ad;
+  }, [manualMode, externalManualQueue, queue, initialAds, playHistory, eligibilityClock]);
+
   const queueStats = useMemo(() => ({
     total: queue.length,
-    maleTargeted: queue.filter(a => a.gender === 'male').length,
-    femaleTargeted: queue.filter(a => a.gender === 'female').length,
-    kidTargeted: queue.filter(a => a.ageGroup === 'kid').length,
-    youngTargeted: queue.filter(a => a.ageGroup === 'young').length,
-    adultTargeted: queue.filter(a => a.ageGroup === 'adult').length,
+    maleTargeted: queue.filter(a => targetsGender(a, 'male')).length,
+    femaleTargeted: queue.filter(a => targetsGender(a, 'female')).length,
+    kidTargeted: queue.filter(a => targetsAgeGroup(a, 'kid')).length,
+    youngTargeted: queue.filter(a => targetsAgeGroup(a, 'young')).length,
+    adultTargeted: queue.filter(a => targetsAgeGroup(a, 'adult')).length,
   }), [queue]);
 
   return {
     queue,
     logs,
     getNextAd,
+    upcomingAd,
     reorderQueue,
     scoreAd,
     addLog,
     queueStats,
     updateQueue,
     resetManualQueueIndex,
+    playHistory,
+    recordPlay,
+    forgetPlay,
+    ineligibleAds,
+    usingFallback,
+    applyFallbackPlaylist,
+    banditPosteriors,
+    recordRetention,
+    resetBanditPosteriors,
   };
 };
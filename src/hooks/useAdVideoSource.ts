@@ -0,0 +1,44 @@
+/**
+ * Ad Video Source Hook
+ *
+ * Resolves what to put in a <video> (or creative <img>) src. With the service worker
+ * in control the original URL is used and the worker answers from the
+ * offline cache. Without it (dev builds, the very first visit) a cached copy
+ * plays from an object URL, and anything uncached streams from the network.
+ */
+
+import { useEffect, useState } from 'react';
+import { getCachedVideo } from '@/utils/adVideoCache';
+
+export const useAdVideoSource = (url: string | undefined): string | undefined => {
+  const [resolved, setResolved] = useState<{ url: string; src: string } | null>(null);
+  const controlled = typeof navigator !== 'undefined' && !!navigator.serviceWorker?.controller;
+
+  useEffect(() => {
+    if (!url || controlled) return;
+
+    let cancelled = false;
+    let objectUrl: string | null = null;
+
+    getCachedVideo(url)
+      .then(cached => cached?.blob())
+      .then(blob => {
+        if (cancelled) return;
+        if (blob) objectUrl = URL.createObjectURL(blob);
+        setResolved({ url, src: objectUrl ?? url });
+      })
+      .catch(() => {
+        if (!cancelled) setResolved({ url, src: url });
+      });
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [url, controlled]);
+
+  if (!url) return undefined;
+  if (controlled) return url;
+  // Undefined until the cache lookup for this URL finishes
+  return resolved?.url === url ? resolved.src : undefined;
+};
@@ -1,27 +1,44 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import * as faceapi from 'face-api.js';
 import * as tf from '@tensorflow/tfjs';
 
 // Detection timeout to prevent hanging
 const DETECTION_TIMEOUT = 10000;
-import { DetectionResult, FaceBoundingBox } from '@/types/ad';
+import { DetectionResult, FaceBoundingBox, RawGenderScore } from '@/types/ad';
 import { DetectionDebugInfo, CCTVDetectionConfig, DEFAULT_CCTV_CONFIG, DEFAULT_WEBCAM_CONFIG } from '@/types/detection';
 import { createPreprocessedCanvas, PreprocessingOptions, ROIConfig } from '@/utils/imagePreprocessing';
-import { hasTextureVariation, applyFemaleBoost, analyzeHairRegion } from '@/utils/genderHeuristics';
-
-// Use local models from public folder - no CORS issues
-const MODEL_URL = '/models';
+import { hasTextureVariation, analyzeHairRegion } from '@/utils/genderHeuristics';
+import { correctRawGender } from '@/utils/biasCorrection';
+import { analyzeFaceCrops, FaceAnalysis, FaceAnalysisModels } from '@/utils/faceAnalysis';
+import { estimateHeadPose } from '@/utils/attention';
+import { FaceApiModelSources, ModelSelection, modelTag, resolveFaceApiModels } from '@/utils/modelRegistry';
+import { loadFaceApiModel, tryLoadFaceApiModel } from '@/utils/faceApiModels';
+import { DetectorJob, FaceWorkerRequest, FaceWorkerResponse } from '@/workers/faceDetectionMessages';
 
 type SourceMode = 'webcam' | 'video' | 'screen';
 
-type FaceDetectionOptions = {
+/** Where face-api.js inference runs. */
+export type InferenceThread = 'worker' | 'main';
+
+// Worker inference needs module workers, OffscreenCanvas and ImageBitmap transfer
+const canUseWorker = () =>
+  typeof Worker !== 'undefined' &&
+  typeof OffscreenCanvas !== 'undefined' &&
+  typeof createImageBitmap === 'function';
+
+interface PendingRequest {
+  resolve: (value: unknown) => void;
+  reject: (err: Error) => void;
+}
+
+export type FaceDetectionOptions = {
   sourceMode?: SourceMode;
   cctvMode?: boolean;
   config?: Partial<CCTVDetectionConfig>;
   /** Force use of SSD Mobilenet for dual-model mode */
   useDualModel?: boolean;
-  /** Enable YOLO detection if available */
-  useYolo?: boolean;
+  /** Model versions to load (registry defaults when omitted); changing it reloads the models */
+  modelSelection?: ModelSelection;
 };
 
 interface DetectionStats {
@@ -41,8 +58,17 @@ export const useFaceDetection = (
   const [error, setError] = useState<string | null>(null);
   const [backend, setBackend] = useState<string>('');
   const [ssdLoaded, setSsdLoaded] = useState(false);
+  const [reidLoaded, setReidLoaded] = useState(false);
+  const [landmarksLoaded, setLandmarksLoaded] = useState(false);
+  const [expressionsLoaded, setExpressionsLoaded] = useState(false);
   
   const loadingRef = useRef(false);
+  // Registry-resolved face-api.js models - what's wanted vs. what's loaded
+  const modelSelection = options?.modelSelection;
+  const faceApiModels = useMemo(() => resolveFaceApiModels(modelSelection), [modelSelection]);
+  const requestedModelsRef = useRef<FaceApiModelSources>(faceApiModels);
+  const loadedModelsRef = useRef<FaceApiModelSources | null>(null);
+  requestedModelsRef.current = faceApiModels;
   const offscreenCanvasRef = useRef<HTMLCanvasElement | null>(null);
   const inFlightRef = useRef(false);
   const statsRef = useRef<DetectionStats>({
@@ -53,73 +79,229 @@ export const useFaceDetection = (
   });
   const debugInfoRef = useRef<DetectionDebugInfo | null>(null);
 
-  // Initialize backend and load models
-  useEffect(() => {
-    const loadModels = async () => {
-      if (loadingRef.current) return;
-      loadingRef.current = true;
+  // Worker inference state - null worker means main-thread inference
+  const [inferenceThread, setInferenceThread] = useState<InferenceThread>('main');
+  const workerRef = useRef<Worker | null>(null);
+  const pendingRef = useRef<Map<number, PendingRequest>>(new Map());
+  const requestIdRef = useRef(0);
 
-      try {
-        setIsLoading(true);
-        setLoadingProgress(10);
+  // Load TensorFlow + face-api.js models on the main thread (fallback path)
+  const loadOnMainThread = useCallback(async (models: FaceApiModelSources) => {
+    try {
+      setIsLoading(true);
+      setLoadingProgress(10);
 
-        // Use WebGL (stable with face-api.js) - WebGPU has kernel compatibility issues
-        console.log('[TensorFlow] Initializing backend...');
-        let selectedBackend = 'webgl';
-        
+      // Use WebGL (stable with face-api.js) - WebGPU has kernel compatibility issues
+      console.log('[TensorFlow] Initializing backend...');
+      let selectedBackend = 'webgl';
+      
+      try {
+        await tf.setBackend('webgl');
+        await tf.ready();
+        console.log('[TensorFlow] ✅ Using WebGL backend');
+      } catch (e) {
+        console.log('[TensorFlow] WebGL failed, trying CPU...');
         try {
-          await tf.setBackend('webgl');
+          await tf.setBackend('cpu');
           await tf.ready();
-          console.log('[TensorFlow] ✅ Using WebGL backend');
-        } catch (e) {
-          console.log('[TensorFlow] WebGL failed, trying CPU...');
-          try {
-            await tf.setBackend('cpu');
-            await tf.ready();
-            selectedBackend = 'cpu';
-            console.log('[TensorFlow] ⚠️ Using CPU backend (slower)');
-          } catch (e2) {
-            throw new Error('No TensorFlow backend available');
-          }
+          selectedBackend = 'cpu';
+          console.log('[TensorFlow] ⚠️ Using CPU backend (slower)');
+        } catch (e2) {
+          throw new Error('No TensorFlow backend available');
         }
-        
-        setBackend(tf.getBackend() || selectedBackend);
-        setLoadingProgress(30);
+      }
+      
+      setBackend(tf.getBackend() || selectedBackend);
+      setLoadingProgress(30);
 
-        console.log('[FaceAPI] Loading models from:', MODEL_URL);
+      console.log('[FaceAPI] Loading models:', Object.values(models).map(modelTag).join(', '));
 
-        // Load TinyFaceDetector and AgeGender first (essential)
-        await Promise.all([
-          faceapi.nets.tinyFaceDetector.loadFromUri(MODEL_URL),
-          faceapi.nets.ageGenderNet.loadFromUri(MODEL_URL),
-        ]);
-        
-        console.log('[FaceAPI] ✅ TinyFaceDetector + AgeGender loaded');
-        setLoadingProgress(70);
-        setIsModelLoaded(true);
+      // Load TinyFaceDetector and AgeGender first (essential, hash-verified)
+      await Promise.all([
+        loadFaceApiModel(models.tinyFaceDetector),
+        loadFaceApiModel(models.ageGenderNet),
+      ]);
+      
+      console.log('[FaceAPI] ✅ TinyFaceDetector + AgeGender loaded');
+      setLoadingProgress(70);
+      setInferenceThread('main');
+      setIsModelLoaded(true);
+
+      // Try to load SSD Mobilenet for CCTV mode (optional, don't fail if missing)
+      const ssdOk = await tryLoadFaceApiModel(models.ssdMobilenetv1);
+      console.log(ssdOk
+        ? '[FaceAPI] ✅ SSD Mobilenet V1 loaded'
+        : '[FaceAPI] ⚠️ SSD Mobilenet not available, using TinyFace only');
+      setSsdLoaded(ssdOk);
+
+      // Face recognition descriptors for re-ID (optional - tracking works without)
+      const reidOk = await tryLoadFaceApiModel(models.faceRecognitionNet);
+      console.log(reidOk
+        ? '[FaceAPI] ✅ FaceRecognitionNet loaded (re-ID enabled)'
+        : '[FaceAPI] ⚠️ FaceRecognitionNet not available, re-ID disabled');
+      setReidLoaded(reidOk);
+
+      // Landmarks for head pose / attention (optional - everyone counts as looking without)
+      const landmarksOk = await tryLoadFaceApiModel(models.faceLandmark68TinyNet);
+      console.log(landmarksOk
+        ? '[FaceAPI] ✅ FaceLandmark68TinyNet loaded (attention enabled)'
+        : '[FaceAPI] ⚠️ FaceLandmark68TinyNet not available, attention disabled');
+      setLandmarksLoaded(landmarksOk);
+
+      // Expressions for engagement scoring (optional - only run when enabled in settings)
+      const expressionsOk = await tryLoadFaceApiModel(models.faceExpressionNet);
+      console.log(expressionsOk
+        ? '[FaceAPI] ✅ FaceExpressionNet loaded'
+        : '[FaceAPI] ⚠️ FaceExpressionNet not available, engagement disabled');
+      setExpressionsLoaded(expressionsOk);
+      
+      setLoadingProgress(100);
+      setError(null);
+    } catch (err) {
+      console.error('[FaceAPI] ❌ Failed to load models:', err);
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(`Model load failed: ${errorMsg}`);
+      setIsModelLoaded(false);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
 
-        // Try to load SSD Mobilenet for CCTV mode (optional, don't fail if missing)
-        try {
-          await faceapi.nets.ssdMobilenetv1.loadFromUri(MODEL_URL);
-          console.log('[FaceAPI] ✅ SSD Mobilenet V1 loaded');
-          setSsdLoaded(true);
-        } catch (e) {
-          console.log('[FaceAPI] ⚠️ SSD Mobilenet not available, using TinyFace only');
-        }
-        
-        setLoadingProgress(100);
-        setError(null);
+  // Drop the worker and switch to main-thread inference
+  const fallBackToMainThread = useCallback((reason: string) => {
+    console.warn(`[FaceWorker] ${reason} - falling back to main-thread inference`);
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    for (const pending of pendingRef.current.values()) {
+      pending.reject(new Error(reason));
+    }
+    pendingRef.current.clear();
+    setIsModelLoaded(false);
+    loadOnMainThread(loadedModelsRef.current ?? requestedModelsRef.current);
+  }, [loadOnMainThread]);
+
+  // Start the worker and load models inside it; resolves false if that fails
+  const loadInWorker = useCallback((models: FaceApiModelSources): Promise<boolean> => {
+    return new Promise((resolve) => {
+      let worker: Worker;
+      try {
+        worker = new Worker(new URL('../workers/faceDetection.worker.ts', import.meta.url), { type: 'module' });
       } catch (err) {
-        console.error('[FaceAPI] ❌ Failed to load models:', err);
-        const errorMsg = err instanceof Error ? err.message : 'Unknown error';
-        setError(`Model load failed: ${errorMsg}`);
-        setIsModelLoaded(false);
+        console.warn('[FaceWorker] Could not start worker:', err);
+        resolve(false);
+        return;
+      }
+
+      let loaded = false;
+
+      worker.onmessage = (event: MessageEvent<FaceWorkerResponse>) => {
+        const message = event.data;
+        switch (message.type) {
+          case 'loaded':
+            loaded = true;
+            workerRef.current = worker;
+            console.log(`[FaceWorker] ✅ Models loaded in worker (${message.backend})`);
+            setBackend(message.backend);
+            setSsdLoaded(message.ssdLoaded);
+            setReidLoaded(message.reidLoaded);
+            setLandmarksLoaded(message.landmarksLoaded);
+            setExpressionsLoaded(message.expressionsLoaded);
+            setInferenceThread('worker');
+            resolve(true);
+            break;
+          case 'loadError':
+            console.warn('[FaceWorker] Model load failed in worker:', message.message);
+            worker.terminate();
+            resolve(false);
+            break;
+          case 'detected':
+            pendingRef.current.get(message.requestId)?.resolve(message.results);
+            pendingRef.current.delete(message.requestId);
+            break;
+          case 'analyzed':
+            pendingRef.current.get(message.requestId)?.resolve(message.faces);
+            pendingRef.current.delete(message.requestId);
+            break;
+          case 'detectError':
+            pendingRef.current.get(message.requestId)?.reject(new Error(message.message));
+            pendingRef.current.delete(message.requestId);
+            break;
+        }
+      };
+
+      worker.onerror = (event) => {
+        if (!loaded) {
+          console.warn('[FaceWorker] Worker failed during load:', event.message);
+          worker.terminate();
+          resolve(false);
+        } else {
+          fallBackToMainThread(`Worker crashed: ${event.message}`);
+        }
+      };
+
+      const request: FaceWorkerRequest = { type: 'load', models };
+      worker.postMessage(request);
+    });
+  }, [fallBackToMainThread]);
+
+  // Initialize backend and load models - in a worker when supported.
+  // Re-runs when the model selection changes; a change mid-load is picked up
+  // once the current load finishes.
+  useEffect(() => {
+    const loadModels = async (models: FaceApiModelSources) => {
+      // Switching versions: start over with a fresh worker
+      if (workerRef.current) {
+        workerRef.current.terminate();
+        workerRef.current = null;
+        for (const pending of pendingRef.current.values()) {
+          pending.reject(new Error('Models reloading'));
+        }
+        pendingRef.current.clear();
+      }
+      setIsModelLoaded(false);
+
+      if (canUseWorker()) {
+        setIsLoading(true);
+        setLoadingProgress(30);
+        if (await loadInWorker(models)) {
+          setLoadingProgress(100);
+          setIsModelLoaded(true);
+          setError(null);
+          setIsLoading(false);
+          return;
+        }
+      } else {
+        console.log('[FaceWorker] Workers/OffscreenCanvas unavailable, using main thread');
+      }
+
+      await loadOnMainThread(models);
+    };
+
+    const loadRequested = async () => {
+      if (loadingRef.current) return;
+      loadingRef.current = true;
+      try {
+        while (loadedModelsRef.current !== requestedModelsRef.current) {
+          const models = requestedModelsRef.current;
+          loadedModelsRef.current = models;
+          await loadModels(models);
+        }
       } finally {
-        setIsLoading(false);
+        loadingRef.current = false;
       }
     };
 
-    loadModels();
+    loadRequested();
+  }, [faceApiModels, loadInWorker, loadOnMainThread]);
+
+  // Terminate the worker on unmount
+  useEffect(() => {
+    const pending = pendingRef.current;
+    return () => {
+      workerRef.current?.terminate();
+      workerRef.current = null;
+      pending.clear();
+    };
   }, []);
 
   // Get effective config based on mode - now reactive to options and detection mode
@@ -327,6 +509,59 @@ export const useFaceDetection = (
       .withAgeAndGender();
   }, [ssdLoaded]);
 
+  // Run a batch of detector jobs on one frame - in the worker when available.
+  // Failed jobs yield an empty list so one bad pass never drops the frame.
+  const runDetectors = useCallback(async (
+    input: HTMLVideoElement | HTMLCanvasElement,
+    jobs: DetectorJob[]
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  ): Promise<any[][]> => {
+    const worker = workerRef.current;
+
+    if (!worker) {
+      return Promise.all(jobs.map(async (job) => {
+        try {
+          return job.detector === 'tiny'
+            ? await runTinyDetection(input, job.inputSize, job.scoreThreshold)
+            : await runSsdDetection(input, job.minConfidence);
+        } catch {
+          return [];
+        }
+      }));
+    }
+
+    const frame = await createImageBitmap(input);
+    const requestId = ++requestIdRef.current;
+
+    return new Promise((resolve, reject) => {
+      pendingRef.current.set(requestId, { resolve: resolve as (value: unknown) => void, reject });
+      const request: FaceWorkerRequest = { type: 'detect', requestId, frame, jobs };
+      worker.postMessage(request, [frame]);
+    });
+  }, [runTinyDetection, runSsdDetection]);
+
+  // Descriptors (re-ID), landmarks (attention) and expressions (engagement) for the final face boxes
+  const analyzeFaces = useCallback(async (
+    input: HTMLVideoElement,
+    boxes: FaceBoundingBox[],
+    models: FaceAnalysisModels
+  ): Promise<FaceAnalysis[]> => {
+    const worker = workerRef.current;
+
+    if (!worker) {
+      return analyzeFaceCrops(input, boxes, models);
+    }
+
+    const frame = await createImageBitmap(input);
+    const requestId = ++requestIdRef.current;
+
+    return new Promise((resolve, reject) => {
+      pendingRef.current.set(requestId, { resolve: resolve as (value: unknown) => void, reject });
+      const request: FaceWorkerRequest = { type: 'analyze', requestId, frame, boxes, models };
+      worker.postMessage(request, [frame]);
+    });
+  }, []);
+
   // Create upscaled/preprocessed canvas
   const createProcessedCanvas = useCallback((
     videoElement: HTMLVideoElement,
@@ -365,7 +600,7 @@ export const useFaceDetection = (
       );
     }
 
-    const femaleBoostFactor = config.femaleBoostFactor ?? 0;
+    const genderCorrection = config.genderCorrection ?? { femaleBoostFactor: 0 };
     const enableHairHeuristics = config.enableHairHeuristics ?? false;
     const requireFaceTexture = config.requireFaceTexture ?? false;
 
@@ -454,31 +689,28 @@ export const useFaceDetection = (
           ageGroup = 'adult';
         }
 
-        // Get raw gender prediction
-        let gender = detection.gender as 'male' | 'female';
-        let confidence = detection.genderProbability as number;
-        
-        // Apply female boost at classification time to counter male bias
-        // This can flip uncertain male predictions to female
-        if (femaleBoostFactor > 0) {
-          // Calculate hair score if heuristics enabled and canvas available
-          let hairScore = 0.5; // neutral default
-          if (enableHairHeuristics && textureCheckCanvas) {
-            try {
-              hairScore = analyzeHairRegion(textureCheckCanvas, boundingBox, debugMode);
-            } catch {
-              // ignore errors
-            }
-          }
-          
-          const adjusted = applyFemaleBoost(gender, confidence, femaleBoostFactor, hairScore);
-          gender = adjusted.gender;
-          confidence = adjusted.confidence;
-          
-          if (debugMode && adjusted.gender !== detection.gender) {
-            console.log(`[Bias] Flipped ${detection.gender} → ${adjusted.gender} (boost=${femaleBoostFactor}, hair=${hairScore.toFixed(2)})`);
+        // Calculate hair score if heuristics enabled and canvas available.
+        // Also recorded without a boost, so evaluation can replay one.
+        let measuredHairScore: number | undefined;
+        if (enableHairHeuristics && textureCheckCanvas) {
+          try {
+            measuredHairScore = analyzeHairRegion(textureCheckCanvas, boundingBox, debugMode);
+          } catch {
+            // ignore errors
           }
         }
+        const rawGender: RawGenderScore = {
+          gender: detection.gender as 'male' | 'female',
+          probability: detection.genderProbability as number,
+          hairScore: measuredHairScore,
+        };
+
+        // Correct at classification time to counter male bias - this can
+        // flip uncertain male predictions to female
+        const { gender, confidence } = correctRawGender(rawGender, boundingBox.height, genderCorrection);
+        if (debugMode && gender !== rawGender.gender) {
+          console.log(`[Bias] Flipped ${rawGender.gender} → ${gender} (boost=${genderCorrection.femaleBoostFactor}, learned=${genderCorrection.model ? `v${genderCorrection.model.version}` : 'off'})`);
+        }
 
         return {
           gender,
@@ -488,6 +720,7 @@ export const useFaceDetection = (
           boundingBox,
           trackingId: `${detectorUsed}_${Math.round(boundingBox.x)}_${Math.round(boundingBox.y)}`,
           lastSeen: Date.now(),
+          rawGender,
         } as DetectionResult;
       });
 
@@ -572,35 +805,22 @@ export const useFaceDetection = (
       const modeLabel = isDualMode ? 'DUAL (Tiny+SSD)' : useSsdOnly ? 'SSD' : 'Tiny';
       console.log(`[Detection] Pass 1: ${modeLabel} mode, scales [${pass1Scales.join(', ')}] @ threshold ${pass1Threshold.toFixed(2)}`);
       
-      // Try all scales in parallel for maximum detection
-      const allPass1Detections = await Promise.all(
-        pass1Scales.map(async (inputSize) => {
-          try {
-            if (useSsdOnly) {
-              // SSD-only mode
-              return await runSsdDetection(videoElement, pass1Threshold);
-            } else {
-              // TinyFace (default) - also used in dual mode
-              return await runTinyDetection(videoElement, inputSize, pass1Threshold);
-            }
-          } catch {
-            return [];
-          }
-        })
-      );
+      // Try all scales for maximum detection
+      const pass1Jobs: DetectorJob[] = pass1Scales.map((inputSize): DetectorJob => useSsdOnly
+        // SSD-only mode
+        ? { detector: 'ssd', minConfidence: pass1Threshold }
+        // TinyFace (default) - also used in dual mode
+        : { detector: 'tiny', inputSize, scoreThreshold: pass1Threshold });
       
       // In dual mode OR when SSD is available and not in tiny-only mode, also run SSD
-      if (ssdLoaded && (isDualMode || config.detector !== 'tiny')) {
-        try {
-          const ssdResults = await runSsdDetection(videoElement, pass1Threshold);
-          if (ssdResults.length > 0) {
-            allPass1Detections.push(ssdResults);
-            // Mark as dual or ssd based on mode
-            detectorUsed = isDualMode ? 'ssd' : 'ssd'; // Will show 'dual' in debug via config.detector
-          }
-        } catch {
-          // Ignore SSD errors
-        }
+      const addSsdPass1 = ssdLoaded && (isDualMode || config.detector !== 'tiny');
+      if (addSsdPass1) {
+        pass1Jobs.push({ detector: 'ssd', minConfidence: pass1Threshold });
+      }
+      
+      const allPass1Detections = await runDetectors(videoElement, pass1Jobs);
+      if (addSsdPass1 && allPass1Detections[allPass1Detections.length - 1].length > 0) {
+        detectorUsed = 'ssd';
       }
       
       // Update detectorUsed for dual mode display
@@ -620,9 +840,9 @@ export const useFaceDetection = (
       const enableEnhancedRescue = config.enableEnhancedRescue ?? false;
       const shouldRunPass2 = isCCTV && config.detector !== 'tiny' && (detections.length < 3 || enableEnhancedRescue);
       
-      // Create a canvas for texture checking (used in processDetections)
+      // Create a canvas for texture checking and hair scoring (used in processDetections)
       let textureCheckCanvas: HTMLCanvasElement | null = null;
-      if (config.requireFaceTexture) {
+      if (config.requireFaceTexture || config.enableHairHeuristics) {
         textureCheckCanvas = createProcessedCanvas(videoElement, { gamma: 1, contrast: 1, sharpen: 0, denoise: false }, 1);
       }
       
@@ -654,27 +874,18 @@ export const useFaceDetection = (
           const rescueThreshold = Math.max(config.sensitivity - 0.10, 0.12);
           const pass2Scales = [320, 416, 512, 608];
           
-          const pass2Detections = await Promise.all(
-            pass2Scales.map(async (inputSize) => {
-              try {
-                return await runTinyDetection(processedCanvas, inputSize, rescueThreshold);
-              } catch {
-                return [];
-              }
-            })
-          );
+          const pass2Jobs: DetectorJob[] = pass2Scales.map((inputSize): DetectorJob => (
+            { detector: 'tiny', inputSize, scoreThreshold: rescueThreshold }
+          ));
           
           // Also try SSD on preprocessed
           if (ssdLoaded) {
-            try {
-              const ssdResults = await runSsdDetection(processedCanvas, rescueThreshold);
-              if (ssdResults.length > 0) {
-                pass2Detections.push(ssdResults);
-                detectorUsed = 'ssd';
-              }
-            } catch {
-              // Ignore
-            }
+            pass2Jobs.push({ detector: 'ssd', minConfidence: rescueThreshold });
+          }
+          
+          const pass2Detections = await runDetectors(processedCanvas, pass2Jobs);
+          if (ssdLoaded && pass2Detections[pass2Detections.length - 1].length > 0) {
+            detectorUsed = 'ssd';
           }
           
           const mergedPass2 = mergeDetections(pass2Detections.flat(), videoWidth, videoHeight);
@@ -710,10 +921,11 @@ export const useFaceDetection = (
           );
 
           if (enhancedCanvas) {
-            const pass3Detections = await Promise.all([
-              runTinyDetection(enhancedCanvas, 608, ultraLowThreshold),
-              ssdLoaded ? runSsdDetection(enhancedCanvas, ultraLowThreshold) : Promise.resolve([]),
-            ]);
+            const pass3Jobs: DetectorJob[] = [{ detector: 'tiny', inputSize: 608, scoreThreshold: ultraLowThreshold }];
+            if (ssdLoaded) {
+              pass3Jobs.push({ detector: 'ssd', minConfidence: ultraLowThreshold });
+            }
+            const pass3Detections = await runDetectors(enhancedCanvas, pass3Jobs);
 
             // Keep only stronger candidates with valid size (reduces wall/sky false positives)
             const strongCandidates = pass3Detections
@@ -806,9 +1018,36 @@ export const useFaceDetection = (
         upscaled,
         frameSize: { width: videoWidth, height: videoHeight },
         roiActive: config.roi.enabled,
+        inferenceThread: workerRef.current ? 'worker' : 'main',
       };
 
-      return dedupeResultsByIoU(results);
+      const finalResults = dedupeResultsByIoU(results);
+
+      // Attach appearance descriptors (re-ID, in-memory only), head pose (attention)
+      // and expressions (engagement, only when enabled)
+      const analysisModels: FaceAnalysisModels = {
+        descriptors: reidLoaded,
+        landmarks: landmarksLoaded,
+        expressions: expressionsLoaded && config.enableExpressions === true,
+      };
+      if (analysisModels.descriptors || analysisModels.landmarks || analysisModels.expressions) {
+        const boxed = finalResults.filter(r => r.boundingBox);
+        try {
+          const faces = await analyzeFaces(videoElement, boxed.map(r => r.boundingBox!), analysisModels);
+          boxed.forEach((r, i) => {
+            const face = faces[i];
+            if (!face) return;
+            if (face.descriptor) r.descriptor = face.descriptor;
+            const pose = face.landmarks ? estimateHeadPose(face.landmarks) : null;
+            if (pose) r.headPose = pose;
+            if (face.expressions) r.expressions = face.expressions;
+          });
+        } catch (err) {
+          console.warn('[Detection] Face analysis failed:', err);
+        }
+      }
+
+      return finalResults;
     })();
 
     try {
@@ -827,10 +1066,13 @@ export const useFaceDetection = (
     getConfig,
     mergeDetections,
     dedupeResultsByIoU,
-    runTinyDetection,
-    runSsdDetection,
+    runDetectors,
     createProcessedCanvas,
     processDetections,
+    reidLoaded,
+    landmarksLoaded,
+    expressionsLoaded,
+    analyzeFaces,
   ]);
 
   // Get current debug info
@@ -845,6 +1087,10 @@ export const useFaceDetection = (
     error,
     backend,
     ssdLoaded,
+    reidLoaded,
+    landmarksLoaded,
+    expressionsLoaded,
+    inferenceThread,
     detectFaces,
     getDebugInfo,
   };
@@ -1,20 +1,29 @@
 /**
  * Hybrid Detection Pipeline
- * Combines YOLO face detection with face-api.js age/gender classification
- * Optimized for CCTV footage with multiple people
+ * Combines YOLO face detection (onnxruntime-web) with face-api.js age/gender
+ * classification of each YOLO box. Optimized for CCTV footage with multiple people
  */
 
 import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import * as faceapi from 'face-api.js';
 import * as tf from '@tensorflow/tfjs';
-import { DetectionResult, FaceBoundingBox } from '@/types/ad';
+import { DetectionResult, FaceBoundingBox, RawGenderScore } from '@/types/ad';
 import { DetectionDebugInfo, HybridDetectionConfig, DEFAULT_HYBRID_CONFIG, TrackedFace } from '@/types/detection';
 import { useYoloFaceDetection, YoloDetection } from './useYoloFaceDetection';
 import { createPreprocessedCanvas, PreprocessingOptions } from '@/utils/imagePreprocessing';
+import { FaceApiModelId, ModelSelection, modelTag, resolveModel } from '@/utils/modelRegistry';
+import { loadFaceApiModel, tryLoadFaceApiModel } from '@/utils/faceApiModels';
+import { SourceGenderCorrection, correctRawGender } from '@/utils/biasCorrection';
+import { analyzeHairRegion } from '@/utils/genderHeuristics';
 
-const MODEL_URL = '/models';
 const DETECTION_TIMEOUT = 15000;
 
+// Context around each YOLO box for the age/gender crop
+const CLASSIFY_CROP_PADDING = 0.1;
+
+// face-api.js nets the hybrid pipeline loads (SSD is an optional fallback)
+const HYBRID_FACE_API_MODELS: FaceApiModelId[] = ['tinyFaceDetector', 'ageGenderNet', 'ssdMobilenetv1'];
+
 interface DetectionStats {
   lastFps: number;
   lastLatency: number;
@@ -28,8 +37,18 @@ export interface HybridDetectionOptions {
   mode: 'fast' | 'accurate' | 'max';
   preprocessing?: PreprocessingOptions;
   debugMode?: boolean;
+  /** Load models only when true (default) - lets callers keep the hook mounted while unused */
+  enabled?: boolean;
+  /** Registry versions to load; defaults where unset */
+  modelSelection?: ModelSelection;
+  /** Same gender correction as the regular pipeline (learned model, or calibration then boost) */
+  genderCorrection?: SourceGenderCorrection;
+  /** Measure hair scores for the boost and the learned correction */
+  enableHairHeuristics?: boolean;
 }
 
+const NO_GENDER_CORRECTION: SourceGenderCorrection = { femaleBoostFactor: 0 };
+
 export const useHybridDetection = (
   sensitivity: number = 0.35,
   options?: HybridDetectionOptions
@@ -51,6 +70,20 @@ export const useHybridDetection = (
     faceApiDetections: 0,
   });
   const debugInfoRef = useRef<DetectionDebugInfo | null>(null);
+  const enabled = options?.enabled ?? true;
+  const modelSelectionRef = useRef(options?.modelSelection);
+  modelSelectionRef.current = options?.modelSelection;
+  // Resolved versions of the face-api.js nets - what's wanted vs. what's loaded
+  const faceApiModelsKey = HYBRID_FACE_API_MODELS
+    .map(id => modelTag(resolveModel(id, options?.modelSelection)))
+    .join('+');
+  const requestedModelsKeyRef = useRef(faceApiModelsKey);
+  requestedModelsKeyRef.current = faceApiModelsKey;
+  const loadedModelsKeyRef = useRef<string | null>(null);
+  const genderCorrectionRef = useRef(options?.genderCorrection);
+  genderCorrectionRef.current = options?.genderCorrection;
+  const hairHeuristicsRef = useRef(options?.enableHairHeuristics ?? false);
+  hairHeuristicsRef.current = options?.enableHairHeuristics ?? false;
   
   // YOLO face detection
   const {
@@ -59,7 +92,7 @@ export const useHybridDetection = (
     error: yoloError,
     detectFaces: yoloDetect,
     detectMultiScale: yoloDetectMultiScale,
-  } = useYoloFaceDetection();
+  } = useYoloFaceDetection(enabled, options?.modelSelection?.yolov8Face);
   
   // Get effective config
   const config = useMemo((): HybridDetectionConfig => {
@@ -73,13 +106,17 @@ export const useHybridDetection = (
     };
   }, [sensitivity, options]);
   
-  // Initialize face-api.js models
+  // Initialize face-api.js models. Re-runs when their versions change; a
+  // change mid-load is picked up once the current load finishes.
   useEffect(() => {
+    if (!enabled) {
+      setIsLoading(false);
+      return;
+    }
+
     const loadModels = async () => {
-      if (loadingRef.current) return;
-      loadingRef.current = true;
-      
       try {
+        setIsModelLoaded(false);
         setIsLoading(true);
         setLoadingProgress(10);
         
@@ -100,18 +137,18 @@ export const useHybridDetection = (
         
         // Load age/gender model (required for classification)
         console.log('[Hybrid] Loading face-api.js models...');
+        const selection = modelSelectionRef.current;
         await Promise.all([
-          faceapi.nets.tinyFaceDetector.loadFromUri(MODEL_URL),
-          faceapi.nets.ageGenderNet.loadFromUri(MODEL_URL),
+          loadFaceApiModel(resolveModel('tinyFaceDetector', selection)),
+          loadFaceApiModel(resolveModel('ageGenderNet', selection)),
         ]);
         
         setLoadingProgress(70);
         
         // Try to load SSD for fallback
-        try {
-          await faceapi.nets.ssdMobilenetv1.loadFromUri(MODEL_URL);
+        if (await tryLoadFaceApiModel(resolveModel('ssdMobilenetv1', selection))) {
           console.log('[Hybrid] ✅ SSD Mobilenet loaded');
-        } catch {
+        } else {
           console.log('[Hybrid] ⚠️ SSD not available');
         }
         
@@ -127,76 +164,79 @@ export const useHybridDetection = (
         setIsLoading(false);
       }
     };
+
+    const loadRequested = async () => {
+      if (loadingRef.current) return;
+      loadingRef.current = true;
+      try {
+        while (loadedModelsKeyRef.current !== requestedModelsKeyRef.current) {
+          loadedModelsKeyRef.current = requestedModelsKeyRef.current;
+          await loadModels();
+        }
+      } finally {
+        loadingRef.current = false;
+      }
+    };
     
-    loadModels();
-  }, []);
+    loadRequested();
+  }, [enabled, faceApiModelsKey]);
   
-  // Classify a single face crop using face-api.js
+  // Classify a single face crop using face-api.js - the YOLO box already is
+  // the face, so the crop goes straight to AgeGenderNet without re-detection
   const classifyFace = useCallback(async (
     faceCanvas: HTMLCanvasElement
-  ): Promise<{ gender: 'male' | 'female'; ageGroup: 'kid' | 'young' | 'adult'; confidence: number } | null> => {
+  ): Promise<{ gender: 'male' | 'female'; ageGroup: 'kid' | 'young' | 'adult'; probability: number } | null> => {
     try {
-      // Run age/gender detection on the face crop
-      const detection = await faceapi
-        .detectSingleFace(faceCanvas, new faceapi.TinyFaceDetectorOptions({
-          inputSize: 224,
-          scoreThreshold: 0.1, // Very low threshold since we already have a face
-        }))
-        .withAgeAndGender();
+      const prediction = await faceapi.nets.ageGenderNet.predictAgeAndGender(faceCanvas) as faceapi.AgeAndGenderPrediction;
       
-      if (detection) {
-        const age = Math.round(detection.age);
-        let ageGroup: 'kid' | 'young' | 'adult';
-        if (age < 13) ageGroup = 'kid';
-        else if (age < 35) ageGroup = 'young';
-        else ageGroup = 'adult';
-        
-        return {
-          gender: detection.gender as 'male' | 'female',
-          ageGroup,
-          confidence: detection.genderProbability,
-        };
-      }
-      
-      // Fallback: try with SSD if TinyFace failed
-      const ssdDetection = await faceapi
-        .detectSingleFace(faceCanvas, new faceapi.SsdMobilenetv1Options({
-          minConfidence: 0.1,
-        }))
-        .withAgeAndGender();
-      
-      if (ssdDetection) {
-        const age = Math.round(ssdDetection.age);
-        let ageGroup: 'kid' | 'young' | 'adult';
-        if (age < 13) ageGroup = 'kid';
-        else if (age < 35) ageGroup = 'young';
-        else ageGroup = 'adult';
-        
-        return {
-          gender: ssdDetection.gender as 'male' | 'female',
-          ageGroup,
-          confidence: ssdDetection.genderProbability,
-        };
-      }
+      const age = Math.round(prediction.age);
+      let ageGroup: 'kid' | 'young' | 'adult';
+      if (age < 13) ageGroup = 'kid';
+      else if (age < 35) ageGroup = 'young';
+      else ageGroup = 'adult';
       
-      return null;
+      return {
+        gender: prediction.gender as 'male' | 'female',
+        ageGroup,
+        probability: prediction.genderProbability,
+      };
     } catch (err) {
       console.warn('[Hybrid] Face classification failed:', err);
       return null;
     }
   }, []);
   
+  // Raw face-api.js output through the same correction as the regular pipeline
+  const correctClassification = useCallback((
+    gender: 'male' | 'female',
+    probability: number,
+    boundingBox: FaceBoundingBox,
+    hairCanvas: HTMLCanvasElement | null
+  ): { gender: 'male' | 'female'; confidence: number; rawGender: RawGenderScore } => {
+    let hairScore: number | undefined;
+    if (hairCanvas) {
+      try {
+        hairScore = analyzeHairRegion(hairCanvas, boundingBox);
+      } catch {
+        // ignore errors
+      }
+    }
+    const rawGender: RawGenderScore = { gender, probability, hairScore };
+    const corrected = correctRawGender(rawGender, boundingBox.height, genderCorrectionRef.current ?? NO_GENDER_CORRECTION);
+    return { ...corrected, rawGender };
+  }, []);
+
   // Create upscaled face crop from detection
   const createFaceCrop = useCallback((
     source: HTMLVideoElement | HTMLCanvasElement,
     detection: YoloDetection,
-    upscaleFactor: number = 2
+    upscaleFactor: number = 2,
+    padding: number = 0.2
   ): HTMLCanvasElement | null => {
     const sourceWidth = source instanceof HTMLVideoElement ? source.videoWidth : source.width;
     const sourceHeight = source instanceof HTMLVideoElement ? source.videoHeight : source.height;
     
-    // Expand bounding box by 20% for better classification
-    const padding = 0.2;
+    // Expand bounding box for better classification
     const x = Math.max(0, detection.x - detection.width * padding);
     const y = Math.max(0, detection.y - detection.height * padding);
     const width = Math.min(detection.width * (1 + padding * 2), sourceWidth - x);
@@ -220,7 +260,8 @@ export const useHybridDetection = (
   // Run face-api.js detection as fallback
   const runFaceApiDetection = useCallback(async (
     source: HTMLVideoElement | HTMLCanvasElement,
-    threshold: number
+    threshold: number,
+    hairCanvas: HTMLCanvasElement | null
   ): Promise<DetectionResult[]> => {
     try {
       const detections = await faceapi
@@ -237,18 +278,14 @@ export const useHybridDetection = (
         if (age < 13) ageGroup = 'kid';
         else if (age < 35) ageGroup = 'young';
         else ageGroup = 'adult';
+
+        const boundingBox = { x: box.x, y: box.y, width: box.width, height: box.height };
         
         return {
-          gender: det.gender as 'male' | 'female',
+          ...correctClassification(det.gender as 'male' | 'female', det.genderProbability, boundingBox, hairCanvas),
           ageGroup,
-          confidence: det.genderProbability,
           faceScore: det.detection.score,
-          boundingBox: {
-            x: box.x,
-            y: box.y,
-            width: box.width,
-            height: box.height,
-          },
+          boundingBox,
           trackingId: `faceapi_${Math.round(box.x)}_${Math.round(box.y)}`,
           lastSeen: Date.now(),
         };
@@ -256,7 +293,7 @@ export const useHybridDetection = (
     } catch {
       return [];
     }
-  }, []);
+  }, [correctClassification]);
   
   // Main hybrid detection function
   const detectFaces = useCallback(async (
@@ -296,6 +333,11 @@ export const useHybridDetection = (
           processedSource = preprocessed;
         }
       }
+
+      // Hair is measured on the unprocessed frame, as in the regular pipeline
+      const hairCanvas = hairHeuristicsRef.current
+        ? createPreprocessedCanvas(videoElement, { gamma: 1, contrast: 1, sharpen: 0, denoise: false }, 1.0)
+        : null;
       
       // Stage 1: YOLO face detection (if available)
       if (yoloLoaded && config.mode !== 'fast') {
@@ -335,7 +377,7 @@ export const useHybridDetection = (
         const facesToProcess = yoloDetections.slice(0, 10);
         
         await Promise.all(facesToProcess.map(async (detection) => {
-          const faceCrop = createFaceCrop(processedSource, detection, 2);
+          const faceCrop = createFaceCrop(processedSource, detection, 2, CLASSIFY_CROP_PADDING);
           if (!faceCrop) {
             // Use YOLO detection without classification
             hybridResults.push({
@@ -356,18 +398,21 @@ export const useHybridDetection = (
           }
           
           const classification = await classifyFace(faceCrop);
+          const boundingBox = {
+            x: detection.x,
+            y: detection.y,
+            width: detection.width,
+            height: detection.height,
+          };
+          const gender = classification
+            ? correctClassification(classification.gender, classification.probability, boundingBox, hairCanvas)
+            : { gender: 'male' as const, confidence: 0.5 };
           
           hybridResults.push({
-            gender: classification?.gender ?? 'male',
+            ...gender,
             ageGroup: classification?.ageGroup ?? 'adult',
-            confidence: classification?.confidence ?? 0.5,
             faceScore: detection.confidence,
-            boundingBox: {
-              x: detection.x,
-              y: detection.y,
-              width: detection.width,
-              height: detection.height,
-            },
+            boundingBox,
             trackingId: `hybrid_${Math.round(detection.x)}_${Math.round(detection.y)}`,
             lastSeen: Date.now(),
           });
@@ -377,7 +422,7 @@ export const useHybridDetection = (
       // Stage 3: Fallback to face-api.js if YOLO found nothing
       if (hybridResults.length === 0) {
         const threshold = Math.max(config.sensitivity - 0.05, 0.2);
-        faceApiResults = await runFaceApiDetection(processedSource, threshold);
+        faceApiResults = await runFaceApiDetection(processedSource, threshold, hairCanvas);
         
         if (config.debugMode) {
           console.log(`[Hybrid] face-api.js detected ${faceApiResults.length} faces`);
@@ -441,6 +486,7 @@ export const useHybridDetection = (
     yoloDetect,
     yoloDetectMultiScale,
     classifyFace,
+    correctClassification,
     createFaceCrop,
     runFaceApiDetection,
     config,
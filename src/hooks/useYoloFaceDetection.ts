@@ -1,10 +1,13 @@
 /**
- * YOLOv8-Face TensorFlow.js Detection Hook
- * Optimized for detecting small and distant faces in CCTV footage
+ * YOLOv8-Face ONNX Detection Hook
+ * Optimized for detecting small and distant faces in CCTV footage.
+ * Runs the cached/self-hosted .onnx model with onnxruntime-web (wasm backend).
  */
 
-import { useState, useEffect, useCallback, useRef } from 'react';
-import * as tf from '@tensorflow/tfjs';
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import * as ort from 'onnxruntime-web/wasm';
+import { loadYoloModelBuffer } from '@/utils/yoloModelDownloader';
+import { ModelIntegrityError, ResolvedModel, modelTag, resolveModel } from '@/utils/modelRegistry';
 
 export interface YoloDetection {
   x: number;
@@ -18,36 +21,49 @@ interface YoloModelState {
   isLoaded: boolean;
   isLoading: boolean;
   error: string | null;
-  model: tf.GraphModel | null;
 }
 
+// Where the source frame sits inside the square model input
+interface Letterbox {
+  scale: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+const MULTI_SCALE_SIZES = [320, 416, 640] as const;
+
+// Threaded wasm needs SharedArrayBuffer, which is only available cross-origin isolated
+ort.env.wasm.numThreads = typeof self !== 'undefined' && self.crossOriginIsolated
+  ? Math.min(4, navigator.hardwareConcurrency || 1)
+  : 1;
+
 // NMS (Non-Maximum Suppression) implementation
 function nonMaxSuppression(
   boxes: YoloDetection[],
   iouThreshold: number = 0.5
 ): YoloDetection[] {
   if (boxes.length === 0) return [];
-  
+
   // Sort by confidence (descending)
   const sorted = [...boxes].sort((a, b) => b.confidence - a.confidence);
   const selected: YoloDetection[] = [];
   const active = new Array(sorted.length).fill(true);
-  
+
   for (let i = 0; i < sorted.length; i++) {
     if (!active[i]) continue;
-    
+
     selected.push(sorted[i]);
-    
+
     for (let j = i + 1; j < sorted.length; j++) {
       if (!active[j]) continue;
-      
+
       const iou = calculateIoU(sorted[i], sorted[j]);
       if (iou > iouThreshold) {
         active[j] = false;
       }
     }
   }
-  
+
   return selected;
 }
 
@@ -56,172 +72,217 @@ function calculateIoU(a: YoloDetection, b: YoloDetection): number {
   const y1 = Math.max(a.y, b.y);
   const x2 = Math.min(a.x + a.width, b.x + b.width);
   const y2 = Math.min(a.y + a.height, b.y + b.height);
-  
+
   const intersection = Math.max(0, x2 - x1) * Math.max(0, y2 - y1);
   const areaA = a.width * a.height;
   const areaB = b.width * b.height;
   const union = areaA + areaB - intersection;
-  
+
   return union > 0 ? intersection / union : 0;
 }
 
-// Preprocess image for YOLO input
-async function preprocessImage(
+// Preprocess image for YOLO input: letterboxed RGB, NCHW float32 in 0-1
+function preprocessImage(
   source: HTMLVideoElement | HTMLCanvasElement,
   targetSize: number
-): Promise<{ tensor: tf.Tensor4D; scale: { x: number; y: number } }> {
+): { tensor: ort.Tensor; letterbox: Letterbox } {
   const sourceWidth = source instanceof HTMLVideoElement ? source.videoWidth : source.width;
   const sourceHeight = source instanceof HTMLVideoElement ? source.videoHeight : source.height;
-  
+
   // Create canvas at target size
   const canvas = document.createElement('canvas');
   canvas.width = targetSize;
   canvas.height = targetSize;
-  const ctx = canvas.getContext('2d')!;
-  
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+
   // Calculate scaling to maintain aspect ratio (letterboxing)
   const scale = Math.min(targetSize / sourceWidth, targetSize / sourceHeight);
   const scaledWidth = sourceWidth * scale;
   const scaledHeight = sourceHeight * scale;
   const offsetX = (targetSize - scaledWidth) / 2;
   const offsetY = (targetSize - scaledHeight) / 2;
-  
+
   // Fill with gray (letterbox color)
   ctx.fillStyle = '#808080';
   ctx.fillRect(0, 0, targetSize, targetSize);
-  
+
   // Draw image centered
   ctx.drawImage(source, offsetX, offsetY, scaledWidth, scaledHeight);
-  
-  // Convert to tensor and normalize to 0-1
-  const tensor = tf.browser.fromPixels(canvas)
-    .toFloat()
-    .div(255.0)
-    .expandDims(0) as tf.Tensor4D;
-  
+
+  // RGBA pixels -> planar RGB
+  const { data } = ctx.getImageData(0, 0, targetSize, targetSize);
+  const plane = targetSize * targetSize;
+  const input = new Float32Array(3 * plane);
+  for (let i = 0; i < plane; i++) {
+    input[i] = data[i * 4] / 255;
+    input[plane + i] = data[i * 4 + 1] / 255;
+    input[2 * plane + i] = data[i * 4 + 2] / 255;
+  }
+
   return {
-    tensor,
-    scale: {
-      x: sourceWidth / scaledWidth,
-      y: sourceHeight / scaledHeight,
-    },
+    tensor: new ort.Tensor('float32', input, [1, 3, targetSize, targetSize]),
+    letterbox: { scale, offsetX, offsetY },
   };
 }
 
 // Parse YOLO output format
 function parseYoloOutput(
-  output: tf.Tensor,
-  inputSize: number,
-  scale: { x: number; y: number },
+  output: ort.Tensor,
+  letterbox: Letterbox,
   confidenceThreshold: number,
   originalWidth: number,
   originalHeight: number
 ): YoloDetection[] {
-  const data = output.dataSync();
+  const data = output.data as Float32Array;
   const detections: YoloDetection[] = [];
-  
-  // YOLOv8 output format: [1, 5, 8400] or [1, 8400, 5]
-  // 5 values: x_center, y_center, width, height, confidence
-  const numDetections = output.shape[2] || output.shape[1];
-  const hasConfidenceFirst = output.shape[1] === 5;
-  
-  const offsetX = (inputSize - originalWidth * (inputSize / Math.max(originalWidth, originalHeight))) / 2;
-  const offsetY = (inputSize - originalHeight * (inputSize / Math.max(originalWidth, originalHeight))) / 2;
-  
-  for (let i = 0; i < (numDetections || 8400); i++) {
-    let x_center: number, y_center: number, w: number, h: number, conf: number;
-    
-    if (hasConfidenceFirst) {
-      // Shape [1, 5, N]
-      x_center = data[i];
-      y_center = data[numDetections + i];
-      w = data[2 * numDetections + i];
-      h = data[3 * numDetections + i];
-      conf = data[4 * numDetections + i];
-    } else {
-      // Shape [1, N, 5]
-      const offset = i * 5;
-      x_center = data[offset];
-      y_center = data[offset + 1];
-      w = data[offset + 2];
-      h = data[offset + 3];
-      conf = data[offset + 4];
-    }
-    
-    if (conf >= confidenceThreshold) {
-      // Convert from letterbox coordinates back to original
-      const x = ((x_center - offsetX) * scale.x) - (w * scale.x / 2);
-      const y = ((y_center - offsetY) * scale.y) - (h * scale.y / 2);
-      
-      const detection: YoloDetection = {
-        x: Math.max(0, x),
-        y: Math.max(0, y),
-        width: w * scale.x,
-        height: h * scale.y,
-        confidence: conf,
-      };
-      
-      // Filter out invalid detections
-      if (detection.width > 10 && detection.height > 10) {
-        detections.push(detection);
-      }
+
+  // YOLOv8-face output: [1, C, N] (ultralytics default) or [1, N, C]
+  // First 5 channels: x_center, y_center, width, height, confidence
+  // (face exports append 15 keypoint values, which are ignored here)
+  const [, dimA, dimB] = output.dims;
+  const channelsFirst = dimA < dimB;
+  const numDetections = channelsFirst ? dimB : dimA;
+  const numChannels = channelsFirst ? dimA : dimB;
+  if (numChannels < 5) return [];
+
+  const value = (i: number, channel: number) => channelsFirst
+    ? data[channel * numDetections + i]
+    : data[i * numChannels + channel];
+
+  for (let i = 0; i < numDetections; i++) {
+    const conf = value(i, 4);
+    if (conf < confidenceThreshold) continue;
+
+    const w = value(i, 2) / letterbox.scale;
+    const h = value(i, 3) / letterbox.scale;
+
+    // Convert from letterbox coordinates back to original
+    const x = (value(i, 0) - letterbox.offsetX) / letterbox.scale - w / 2;
+    const y = (value(i, 1) - letterbox.offsetY) / letterbox.scale - h / 2;
+
+    const detection: YoloDetection = {
+      x: Math.max(0, x),
+      y: Math.max(0, y),
+      width: Math.min(x + w, originalWidth) - Math.max(0, x),
+      height: Math.min(y + h, originalHeight) - Math.max(0, y),
+      confidence: conf,
+    };
+
+    // Filter out invalid detections
+    if (detection.width > 10 && detection.height > 10) {
+      detections.push(detection);
     }
   }
-  
+
   return detections;
 }
 
-export const useYoloFaceDetection = () => {
+// Fixed square input size from the model metadata, or null for dynamic-shape exports
+function getFixedInputSize(session: ort.InferenceSession): number | null {
+  try {
+    const input = session.inputMetadata[0];
+    if (!input?.isTensor) return null;
+    const size = input.shape[2];
+    return typeof size === 'number' && size > 0 ? size : null;
+  } catch {
+    return null;
+  }
+}
+
+/** `version` picks a registry version of yolov8Face (default when omitted); changing it reloads the session. */
+export const useYoloFaceDetection = (enabled: boolean = true, version?: string) => {
   const [state, setState] = useState<YoloModelState>({
     isLoaded: false,
     isLoading: false,
     error: null,
-    model: null,
   });
-  
-  const modelRef = useRef<tf.GraphModel | null>(null);
+
+  const model = useMemo(() => resolveModel('yolov8Face', { yolov8Face: version }), [version]);
+  const requestedModelRef = useRef<ResolvedModel>(model);
+  requestedModelRef.current = model;
+
+  const sessionRef = useRef<ort.InferenceSession | null>(null);
+  const sessionModelRef = useRef<string | null>(null);
+  const fixedInputSizeRef = useRef<number | null>(null);
   const loadingRef = useRef(false);
-  
-  // Load YOLO model
-  const loadModel = useCallback(async () => {
-    if (loadingRef.current || modelRef.current) return;
-    loadingRef.current = true;
-    
+
+  // Load one YOLO model version, replacing any loaded session
+  const loadSession = useCallback(async (model: ResolvedModel) => {
     setState(prev => ({ ...prev, isLoading: true, error: null }));
-    
+
+    const previous = sessionRef.current;
+    sessionRef.current = null;
+    sessionModelRef.current = modelTag(model);
+    await previous?.release().catch(() => {});
+
     try {
-      console.log('[YOLO] Loading YOLOv8-face model...');
-      
-      // Try to load from public/models/yolov8-face
-      const model = await tf.loadGraphModel('/models/yolov8-face/model.json');
-      
-      modelRef.current = model;
+      console.log(`[YOLO] Loading ${model.name} ${model.version}...`);
+
+      // Cached download first, then the self-hosted copy - both hash-checked
+      const buffer = await loadYoloModelBuffer(model);
+      if (!buffer) {
+        throw new Error(`No ${model.version} model downloaded or at ${model.localPath}`);
+      }
+
+      const session = await ort.InferenceSession.create(buffer, {
+        executionProviders: ['wasm'],
+        graphOptimizationLevel: 'all',
+      });
+
+      sessionRef.current = session;
+      fixedInputSizeRef.current = getFixedInputSize(session);
       setState({
         isLoaded: true,
         isLoading: false,
         error: null,
-        model,
       });
-      
-      console.log('[YOLO] ✅ Model loaded successfully');
+
+      console.log(`[YOLO] ✅ Model loaded (onnxruntime-web wasm, input ${fixedInputSizeRef.current ?? 'dynamic'})`);
     } catch (err) {
-      console.warn('[YOLO] ⚠️ Model not available:', err);
+      const integrityFailed = err instanceof ModelIntegrityError;
+      if (integrityFailed) {
+        console.error(`[YOLO] ❌ ${err.message}`);
+      } else {
+        console.warn('[YOLO] ⚠️ Model not available:', err);
+      }
       setState({
         isLoaded: false,
         isLoading: false,
-        error: 'YOLO model not available - using face-api.js only',
-        model: null,
+        error: integrityFailed
+          ? 'YOLO model failed its integrity check - using face-api.js only'
+          : 'YOLO model not available - using face-api.js only',
       });
-    } finally {
-      loadingRef.current = false;
     }
   }, []);
-  
-  // Auto-load on mount
+
+  // Load once enabled, and again whenever the selected version changes
+  useEffect(() => {
+    if (!enabled) return;
+
+    const loadRequested = async () => {
+      if (loadingRef.current) return;
+      loadingRef.current = true;
+      try {
+        while (sessionModelRef.current !== modelTag(requestedModelRef.current)) {
+          await loadSession(requestedModelRef.current);
+        }
+      } finally {
+        loadingRef.current = false;
+      }
+    };
+
+    loadRequested();
+  }, [enabled, model, loadSession]);
+
+  // Release the wasm session on unmount
   useEffect(() => {
-    loadModel();
-  }, [loadModel]);
-  
+    return () => {
+      sessionRef.current?.release().catch(() => {});
+      sessionRef.current = null;
+      sessionModelRef.current = null;
+    };
+  }, []);
+
   // Detect faces using YOLO
   const detectFaces = useCallback(async (
     source: HTMLVideoElement | HTMLCanvasElement,
@@ -231,51 +292,51 @@ export const useYoloFaceDetection = () => {
       iouThreshold?: number;
     } = {}
   ): Promise<YoloDetection[]> => {
-    const model = modelRef.current;
-    if (!model) return [];
-    
+    const session = sessionRef.current;
+    if (!session) return [];
+
     const {
       inputSize = 416,
       confidenceThreshold = 0.25,
       iouThreshold = 0.5,
     } = options;
-    
+
     const sourceWidth = source instanceof HTMLVideoElement ? source.videoWidth : source.width;
     const sourceHeight = source instanceof HTMLVideoElement ? source.videoHeight : source.height;
-    
+
     if (sourceWidth === 0 || sourceHeight === 0) return [];
-    
+
     try {
-      // Preprocess image
-      const { tensor, scale } = await preprocessImage(source, inputSize);
-      
+      // Fixed-shape exports only accept their own size
+      const { tensor, letterbox } = preprocessImage(source, fixedInputSizeRef.current ?? inputSize);
+
       // Run inference
-      const output = await model.predict(tensor) as tf.Tensor;
-      
+      const outputs = await session.run({ [session.inputNames[0]]: tensor });
+      const output = outputs[session.outputNames[0]] as ort.Tensor;
+
       // Parse output
       const detections = parseYoloOutput(
         output,
-        inputSize,
-        scale,
+        letterbox,
         confidenceThreshold,
         sourceWidth,
         sourceHeight
       );
-      
+
       // Cleanup tensors
       tensor.dispose();
       output.dispose();
-      
+
       // Apply NMS
       const filtered = nonMaxSuppression(detections, iouThreshold);
-      
+
       return filtered;
     } catch (err) {
       console.error('[YOLO] Detection error:', err);
       return [];
     }
   }, []);
-  
+
   // Multi-scale detection for better small face coverage
   const detectMultiScale = useCallback(async (
     source: HTMLVideoElement | HTMLCanvasElement,
@@ -288,21 +349,22 @@ export const useYoloFaceDetection = () => {
       confidenceThreshold = 0.25,
       iouThreshold = 0.45,
     } = options;
-    
-    // Run detection at multiple scales
-    const [small, medium, large] = await Promise.all([
-      detectFaces(source, { inputSize: 320, confidenceThreshold, iouThreshold }),
-      detectFaces(source, { inputSize: 416, confidenceThreshold, iouThreshold }),
-      detectFaces(source, { inputSize: 640, confidenceThreshold, iouThreshold }),
-    ]);
-    
-    // Merge all detections
-    const all = [...small, ...medium, ...large];
-    
+
+    // A fixed-shape model gives the same result at every scale
+    if (fixedInputSizeRef.current) {
+      return detectFaces(source, { confidenceThreshold, iouThreshold });
+    }
+
+    // Run detection at multiple scales - one at a time, a wasm session can't run concurrently
+    const all: YoloDetection[] = [];
+    for (const inputSize of MULTI_SCALE_SIZES) {
+      all.push(...await detectFaces(source, { inputSize, confidenceThreshold, iouThreshold }));
+    }
+
     // Apply final NMS across all scales
     return nonMaxSuppression(all, iouThreshold);
   }, [detectFaces]);
-  
+
   return {
     isLoaded: state.isLoaded,
     isLoading: state.isLoading,
@@ -0,0 +1,274 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, Users, UserCheck, Activity, Clock, RefreshCw, Trash2 } from 'lucide-react';
+import { Bar, BarChart, CartesianGrid, Cell, Pie, PieChart, XAxis, YAxis } from 'recharts';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from '@/components/ui/chart';
+import { toast } from 'sonner';
+import {
+  StoredCaptureSession,
+  getCaptureSessions,
+  clearCaptureSessions,
+  toDateInput,
+  parseDateInput,
+} from '@/utils/proofOfPlay';
+import { aggregateSessions } from '@/utils/audienceAnalytics';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RANGE_DAYS = 30;
+
+const audienceChartConfig = {
+  male: { label: 'Male', color: 'hsl(var(--primary))' },
+  female: { label: 'Female', color: 'hsl(var(--accent))' },
+  kid: { label: 'Kid', color: 'hsl(var(--info))' },
+  young: { label: 'Young', color: 'hsl(var(--success))' },
+  adult: { label: 'Adult', color: 'hsl(var(--warning))' },
+} satisfies ChartConfig;
+
+const hourlyChartConfig = {
+  viewers: { label: 'Viewers', color: 'hsl(var(--primary))' },
+  sessions: { label: 'Sessions', color: 'hsl(var(--accent))' },
+} satisfies ChartConfig;
+
+const AudienceAnalytics = () => {
+  const [fromDate, setFromDate] = useState(() =>
+    toDateInput(new Date(Date.now() - (DEFAULT_RANGE_DAYS - 1) * DAY_MS))
+  );
+  const [toDate, setToDate] = useState(() => toDateInput(new Date()));
+  const [sessions, setSessions] = useState<StoredCaptureSession[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const loadSessions = useCallback(async () => {
+    setLoading(true);
+    try {
+      setSessions(await getCaptureSessions(parseDateInput(fromDate, false), parseDateInput(toDate, true)));
+    } catch (err) {
+      console.warn('[Analytics] Failed to load capture sessions:', err);
+      toast.error('Could not read stored capture sessions');
+    } finally {
+      setLoading(false);
+    }
+  }, [fromDate, toDate]);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  const analytics = useMemo(() => aggregateSessions(sessions), [sessions]);
+
+  const genderData = [
+    { segment: 'male', viewers: analytics.demographics.male, fill: 'var(--color-male)' },
+    { segment: 'female', viewers: analytics.demographics.female, fill: 'var(--color-female)' },
+  ];
+  const ageData = [
+    { segment: 'kid', viewers: analytics.demographics.kid, fill: 'var(--color-kid)' },
+    { segment: 'young', viewers: analytics.demographics.young, fill: 'var(--color-young)' },
+    { segment: 'adult', viewers: analytics.demographics.adult, fill: 'var(--color-adult)' },
+  ];
+
+  const handleClear = async () => {
+    if (!window.confirm('Delete every stored capture session? This cannot be undone.')) return;
+    try {
+      await clearCaptureSessions();
+      setSessions([]);
+      toast.success('Audience history cleared');
+    } catch (err) {
+      console.warn('[Analytics] Failed to clear capture sessions:', err);
+      toast.error('Could not clear stored capture sessions');
+    }
+  };
+
+  const retentionRate = analytics.uniqueViewers > 0
+    ? Math.round((analytics.retainedViewers / analytics.uniqueViewers) * 100)
+    : 0;
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="max-w-7xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div className="flex items-center gap-4">
+            <Link to="/dashboard">
+              <Button variant="ghost" size="icon">
+                <ArrowLeft className="h-5 w-5" />
+              </Button>
+            </Link>
+            <div>
+              <h1 className="text-2xl font-display font-bold">Audience Analytics</h1>
+              <p className="text-sm text-muted-foreground">
+                Who watched, when, and which ads they saw - from every capture session
+              </p>
+            </div>
+          </div>
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="space-y-1">
+              <Label className="text-xs">From</Label>
+              <Input type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} className="w-40" />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">To</Label>
+              <Input type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} className="w-40" />
+            </div>
+            <Button variant="outline" size="icon" onClick={loadSessions} disabled={loading} title="Refresh">
+              <RefreshCw className={loading ? 'h-4 w-4 animate-spin' : 'h-4 w-4'} />
+            </Button>
+            <Button variant="outline" size="icon" onClick={handleClear} title="Clear history">
+              <Trash2 className="h-4 w-4 text-destructive" />
+            </Button>
+          </div>
+        </div>
+
+        {/* Overview Cards */}
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          {[
+            { icon: Activity, label: 'Capture Sessions', value: analytics.sessions },
+            { icon: Users, label: 'Unique Viewers', value: analytics.uniqueViewers },
+            { icon: Clock, label: 'Avg Viewers / Session', value: analytics.avgViewersPerSession.toFixed(1) },
+            { icon: UserCheck, label: 'Retention', value: `${retentionRate}%` },
+          ].map(({ icon: Icon, label, value }) => (
+            <Card key={label}>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium flex items-center gap-2">
+                  <Icon className="h-4 w-4 text-primary" />
+                  {label}
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-3xl font-bold">{value}</div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        {analytics.sessions === 0 ? (
+          <Card>
+            <CardContent className="py-12 text-center text-muted-foreground">
+              <p>No capture sessions in this date range</p>
+              <p className="text-xs mt-1">Sessions are stored automatically when each capture window ends</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            {/* Viewers per hour */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Viewers per Hour</CardTitle>
+                <CardDescription>Unique viewers and capture sessions by local hour of day</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={hourlyChartConfig} className="h-[260px] w-full aspect-auto">
+                  <BarChart data={analytics.byHour}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="label" tickLine={false} axisLine={false} interval={2} />
+                    <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={30} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    <Bar dataKey="viewers" fill="var(--color-viewers)" radius={4} />
+                    <Bar dataKey="sessions" fill="var(--color-sessions)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+
+            {/* Audience mix */}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">Gender Mix</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ChartContainer config={audienceChartConfig} className="h-[240px] w-full aspect-auto">
+                    <PieChart>
+                      <ChartTooltip content={<ChartTooltipContent nameKey="segment" hideLabel />} />
+                      <Pie data={genderData} dataKey="viewers" nameKey="segment" innerRadius={50}>
+                        {genderData.map(d => <Cell key={d.segment} fill={d.fill} />)}
+                      </Pie>
+                      <ChartLegend content={<ChartLegendContent nameKey="segment" />} />
+                    </PieChart>
+                  </ChartContainer>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">Age Mix</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ChartContainer config={audienceChartConfig} className="h-[240px] w-full aspect-auto">
+                    <BarChart data={ageData}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis
+                        dataKey="segment"
+                        tickLine={false}
+                        axisLine={false}
+                        tickFormatter={(value: keyof typeof audienceChartConfig) => audienceChartConfig[value]?.label}
+                      />
+                      <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={30} />
+                      <ChartTooltip content={<ChartTooltipContent nameKey="segment" hideLabel />} />
+                      <Bar dataKey="viewers" radius={4}>
+                        {ageData.map(d => <Cell key={d.segment} fill={d.fill} />)}
+                      </Bar>
+                    </BarChart>
+                  </ChartContainer>
+                </CardContent>
+              </Card>
+            </div>
+
+            {/* Per-ad audience composition */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Audience per Ad</CardTitle>
+                <CardDescription>Gender and age of viewers captured while each ad played</CardDescription>
+              </CardHeader>
+              <CardContent className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <ChartContainer
+                  config={audienceChartConfig}
+                  className="w-full aspect-auto"
+                  style={{ height: Math.max(200, analytics.byAd.length * 40) }}
+                >
+                  <BarChart data={analytics.byAd} layout="vertical">
+                    <CartesianGrid horizontal={false} />
+                    <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} />
+                    <YAxis type="category" dataKey="adTitle" tickLine={false} axisLine={false} width={120} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    <Bar dataKey="male" stackId="gender" fill="var(--color-male)" />
+                    <Bar dataKey="female" stackId="gender" fill="var(--color-female)" radius={[0, 4, 4, 0]} />
+                  </BarChart>
+                </ChartContainer>
+                <ChartContainer
+                  config={audienceChartConfig}
+                  className="w-full aspect-auto"
+                  style={{ height: Math.max(200, analytics.byAd.length * 40) }}
+                >
+                  <BarChart data={analytics.byAd} layout="vertical">
+                    <CartesianGrid horizontal={false} />
+                    <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} />
+                    <YAxis type="category" dataKey="adTitle" tickLine={false} axisLine={false} width={120} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    <Bar dataKey="kid" stackId="age" fill="var(--color-kid)" />
+                    <Bar dataKey="young" stackId="age" fill="var(--color-young)" />
+                    <Bar dataKey="adult" stackId="age" fill="var(--color-adult)" radius={[0, 4, 4, 0]} />
+                  </BarChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AudienceAnalytics;
@@ -0,0 +1,632 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { Link, Navigate } from 'react-router-dom';
+import {
+  ArrowLeft,
+  FileVideo,
+  FileJson,
+  Play,
+  Square,
+  Save,
+  Target,
+  Crosshair,
+  Gauge,
+  Timer,
+  Lock,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { toast } from 'sonner';
+import { DetectionResult } from '@/types/ad';
+import { AnnotatedFace, AnnotationFormat, BenchmarkResult, FrameBenchmark } from '@/types/benchmark';
+import { EvaluationSession, GroundTruthEntry, calculateMetrics } from '@/types/evaluation';
+import { useFaceDetection } from '@/hooks/useFaceDetection';
+import { detectionOptionsFor, loadCaptureSettings } from '@/utils/captureSettings';
+import { biasCorrectionTag } from '@/utils/biasCorrection';
+import { ModelId, modelTag, resolveModel } from '@/utils/modelRegistry';
+import {
+  DEFAULT_FRAME_STEP,
+  DEFAULT_IOU_THRESHOLD,
+  calculateDetectionMetrics,
+  sampleFrames,
+  scoreFrame,
+} from '@/utils/benchmark';
+import {
+  ANNOTATION_FORMAT_LABELS,
+  DEFAULT_ANNOTATION_FPS,
+  detectAnnotationFormat,
+  importAnnotations,
+} from '@/utils/annotationImport';
+
+const STORAGE_KEY = 'smartads-evaluation-sessions';
+const AUTH_KEY = 'smartads-admin-authenticated';
+// A frame that never finishes seeking (corrupt file) shouldn't stall the run
+const SEEK_TIMEOUT_MS = 5000;
+// Frames listed in the per-frame table, worst first
+const MAX_FRAME_ROWS = 20;
+// Import problems listed under the annotation file
+const MAX_ERROR_ROWS = 50;
+
+interface TextFile {
+  name: string;
+  text: string;
+}
+
+interface FramePreview {
+  faces: AnnotatedFace[];
+  detections: DetectionResult[];
+}
+
+const seekVideo = (video: HTMLVideoElement, time: number) =>
+  new Promise<void>((resolve, reject) => {
+    const timeout = window.setTimeout(() => {
+      video.removeEventListener('seeked', handleSeeked);
+      reject(new Error(`Seeking to ${time.toFixed(2)}s timed out`));
+    }, SEEK_TIMEOUT_MS);
+    const handleSeeked = () => {
+      window.clearTimeout(timeout);
+      resolve();
+    };
+    video.addEventListener('seeked', handleSeeked, { once: true });
+    video.currentTime = time;
+  });
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const DetectionBenchmark = () => {
+  const isAuthenticated = sessionStorage.getItem(AUTH_KEY) === 'true';
+
+  // The dashboard's saved settings, run as a video source
+  const settings = useMemo(() => loadCaptureSettings(), []);
+  const detectionOptions = useMemo(() => detectionOptionsFor(settings, 'video'), [settings]);
+  const {
+    isModelLoaded,
+    isLoading: modelsLoading,
+    loadingProgress,
+    error: modelError,
+    ssdLoaded,
+    detectFaces,
+  } = useFaceDetection(settings.detectionSensitivity, detectionOptions);
+
+  const modelVersion = useMemo(() => {
+    const ids: ModelId[] = ['tinyFaceDetector', ...(ssdLoaded ? ['ssdMobilenetv1' as const] : []), 'ageGenderNet'];
+    const learned = settings.biasCorrectionModel;
+    return [
+      ...ids.map(id => modelTag(resolveModel(id, settings.modelVersions))),
+      ...(learned ? [biasCorrectionTag(learned)] : []),
+    ].join('+');
+  }, [ssdLoaded, settings.modelVersions, settings.biasCorrectionModel]);
+
+  const [videoFile, setVideoFile] = useState<File | null>(null);
+  const [videoUrl, setVideoUrl] = useState<string | null>(null);
+  const [videoSize, setVideoSize] = useState({ width: 16, height: 9 });
+  const [annotationFile, setAnnotationFile] = useState<TextFile | null>(null);
+  const [attributesFile, setAttributesFile] = useState<TextFile | null>(null);
+  const [formatChoice, setFormatChoice] = useState<AnnotationFormat | 'auto'>('auto');
+  const [annotationFps, setAnnotationFps] = useState(DEFAULT_ANNOTATION_FPS);
+  const [frameStep, setFrameStep] = useState(DEFAULT_FRAME_STEP);
+  const [iouThreshold, setIouThreshold] = useState(DEFAULT_IOU_THRESHOLD);
+
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [preview, setPreview] = useState<FramePreview | null>(null);
+  const [result, setResult] = useState<BenchmarkResult | null>(null);
+  const [resultEntries, setResultEntries] = useState<GroundTruthEntry[]>([]);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const cancelRef = useRef(false);
+
+  useEffect(() => {
+    if (!videoFile) return;
+    const url = URL.createObjectURL(videoFile);
+    setVideoUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [videoFile]);
+
+  // Stop a running benchmark when leaving the page
+  useEffect(() => () => {
+    cancelRef.current = true;
+  }, []);
+
+  const format = formatChoice === 'auto' && annotationFile
+    ? detectAnnotationFormat(annotationFile.name, annotationFile.text)
+    : formatChoice === 'auto' ? 'smartads' : formatChoice;
+  const imported = useMemo(() => annotationFile
+    ? importAnnotations(format, annotationFile.text, { fps: annotationFps, attributesText: attributesFile?.text })
+    : null,
+  [annotationFile, attributesFile, format, annotationFps]);
+  const dataset = imported?.dataset ?? null;
+
+  const sampled = useMemo(() => dataset ? sampleFrames(dataset, frameStep) : [], [dataset, frameStep]);
+
+  const readTextFile = async (file: File | undefined, setFile: (file: TextFile | null) => void) => {
+    setFile(file ? { name: file.name, text: await file.text() } : null);
+  };
+
+  const runBenchmark = useCallback(async () => {
+    const video = videoRef.current;
+    if (!video || !dataset || !videoFile || sampled.length === 0) return;
+
+    cancelRef.current = false;
+    setRunning(true);
+    setResult(null);
+    setProgress({ done: 0, total: sampled.length });
+    video.pause();
+
+    const frames: FrameBenchmark[] = [];
+    const entries: GroundTruthEntry[] = [];
+    const ious: number[] = [];
+
+    try {
+      for (const annotated of sampled) {
+        if (cancelRef.current) break;
+
+        // Aim for the middle of the frame; its start boundary can decode as the previous frame
+        const time = (annotated.frame + 0.5) / dataset.fps;
+        if (time > video.duration) {
+          console.warn(`[Benchmark] Frame ${annotated.frame} (${time.toFixed(2)}s) is past the end of the video`);
+          break;
+        }
+        await seekVideo(video, time);
+
+        const started = performance.now();
+        const detections = await detectFaces(video);
+        const latencyMs = performance.now() - started;
+
+        const score = scoreFrame(detections, annotated, dataset.fps, iouThreshold, modelVersion);
+        frames.push({ ...score.frame, latencyMs });
+        entries.push(...score.entries);
+        ious.push(...score.ious);
+
+        setPreview({ faces: annotated.faces, detections });
+        setProgress({ done: frames.length, total: sampled.length });
+      }
+    } catch (err) {
+      console.warn('[Benchmark] Run stopped:', err);
+      toast.error(err instanceof Error ? err.message : 'Benchmark failed');
+    }
+
+    if (frames.length > 0) {
+      setResult({
+        videoName: videoFile.name,
+        ranAt: Date.now(),
+        frameStep,
+        iouThreshold,
+        modelVersion,
+        frames,
+        detection: calculateDetectionMetrics(frames, ious),
+        classification: calculateMetrics(entries),
+        avgLatencyMs: frames.reduce((sum, f) => sum + f.latencyMs, 0) / frames.length,
+      });
+      setResultEntries(entries);
+    }
+    setRunning(false);
+  }, [dataset, videoFile, sampled, detectFaces, iouThreshold, frameStep, modelVersion]);
+
+  // Keep the run's entries as an evaluation session, next to hand-labeled ones
+  const handleSaveSession = () => {
+    if (!result) return;
+
+    let sessions: EvaluationSession[] = [];
+    try {
+      const saved = localStorage.getItem(STORAGE_KEY);
+      if (saved) sessions = JSON.parse(saved);
+    } catch { /* ignore */ }
+
+    const session: EvaluationSession = {
+      id: `session_${Date.now()}`,
+      name: `Benchmark ${result.videoName} ${new Date(result.ranAt).toLocaleString()}`,
+      createdAt: Date.now(),
+      entries: resultEntries,
+    };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify([...sessions, session]));
+    window.dispatchEvent(new CustomEvent('smartads-evaluation-updated'));
+    toast.success(`Saved ${resultEntries.length} entries as "${session.name}"`);
+  };
+
+  if (!isAuthenticated) {
+    return <Navigate to="/admin/evaluation" replace />;
+  }
+
+  const canRun = isModelLoaded && !!videoUrl && !!dataset && sampled.length > 0 && !running;
+  const worstFrames = result
+    ? [...result.frames]
+        .filter(f => f.falsePositives + f.falseNegatives > 0)
+        .sort((a, b) => (b.falsePositives + b.falseNegatives) - (a.falsePositives + a.falseNegatives))
+        .slice(0, MAX_FRAME_ROWS)
+    : [];
+
+  const boxStyle = ({ x, y, width, height }: { x: number; y: number; width: number; height: number }) => ({
+    left: `${(x / videoSize.width) * 100}%`,
+    top: `${(y / videoSize.height) * 100}%`,
+    width: `${(width / videoSize.width) * 100}%`,
+    height: `${(height / videoSize.height) * 100}%`,
+  });
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="max-w-7xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Link to="/admin/evaluation">
+              <Button variant="ghost" size="icon">
+                <ArrowLeft className="h-5 w-5" />
+              </Button>
+            </Link>
+            <div>
+              <h1 className="text-2xl font-display font-bold">Detection Benchmark</h1>
+              <p className="text-sm text-muted-foreground">
+                Run the current detection settings over an annotated video, frame by frame
+              </p>
+            </div>
+          </div>
+          <Badge variant="outline" className="text-xs">
+            <Lock className="h-3 w-3 mr-1" />
+            Admin Only
+          </Badge>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {/* Dataset */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Dataset</CardTitle>
+              <CardDescription>
+                A video and its per-frame face boxes (video pixels) with gender and age - SmartAds JSON, COCO, CVAT or MOTChallenge
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-1.5">
+                <Label className="flex items-center gap-2">
+                  <FileVideo className="h-4 w-4 text-primary" />
+                  Video
+                </Label>
+                <Input
+                  type="file"
+                  accept="video/*"
+                  disabled={running}
+                  onChange={(e) => {
+                    setVideoFile(e.target.files?.[0] ?? null);
+                    setResult(null);
+                  }}
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label className="flex items-center gap-2">
+                  <FileJson className="h-4 w-4 text-primary" />
+                  Annotations
+                </Label>
+                <Input
+                  type="file"
+                  accept=".json,.xml,.txt,.csv"
+                  disabled={running}
+                  onChange={(e) => readTextFile(e.target.files?.[0], setAnnotationFile)}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1.5">
+                  <Label className="text-xs">Format</Label>
+                  <Select value={formatChoice} onValueChange={(v) => setFormatChoice(v as AnnotationFormat | 'auto')} disabled={running}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="auto">
+                        Auto-detect{annotationFile ? ` (${ANNOTATION_FORMAT_LABELS[format]})` : ''}
+                      </SelectItem>
+                      {(Object.keys(ANNOTATION_FORMAT_LABELS) as AnnotationFormat[]).map(f => (
+                        <SelectItem key={f} value={f}>{ANNOTATION_FORMAT_LABELS[f]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {format !== 'smartads' && (
+                  <div className="space-y-1.5">
+                    <Label className="text-xs">Video frame rate</Label>
+                    <Input
+                      type="number"
+                      min={1}
+                      value={annotationFps}
+                      disabled={running}
+                      onChange={(e) => setAnnotationFps(Math.max(1, parseFloat(e.target.value) || DEFAULT_ANNOTATION_FPS))}
+                    />
+                  </div>
+                )}
+              </div>
+              {format === 'mot' && (
+                <div className="space-y-1.5">
+                  <Label className="text-xs">Track attributes (id,gender,age per line)</Label>
+                  <Input
+                    type="file"
+                    accept=".csv,.txt"
+                    disabled={running}
+                    onChange={(e) => readTextFile(e.target.files?.[0], setAttributesFile)}
+                  />
+                </div>
+              )}
+              {imported && (
+                <div className="space-y-1.5">
+                  {dataset && (
+                    <p className="text-xs text-muted-foreground">
+                      {dataset.frames.length} annotated frames at {dataset.fps} fps,{' '}
+                      {dataset.frames.reduce((sum, f) => sum + f.faces.length, 0)} faces
+                    </p>
+                  )}
+                  {imported.errors.length > 0 && (
+                    <div className="max-h-40 overflow-y-auto rounded-md border border-destructive/30 bg-destructive/5 p-2 text-xs space-y-0.5">
+                      <p className="font-medium text-destructive">
+                        {dataset
+                          ? `${imported.errors.length} record${imported.errors.length !== 1 ? 's' : ''} skipped`
+                          : 'Could not import this file'}
+                      </p>
+                      {imported.errors.slice(0, MAX_ERROR_ROWS).map((err, i) => (
+                        <p key={i}>
+                          <span className="font-mono text-muted-foreground">{err.location}:</span> {err.message}
+                        </p>
+                      ))}
+                      {imported.errors.length > MAX_ERROR_ROWS && (
+                        <p className="text-muted-foreground">…and {imported.errors.length - MAX_ERROR_ROWS} more</p>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1.5">
+                  <Label className="text-xs">Every Nth frame</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={frameStep}
+                    disabled={running}
+                    onChange={(e) => setFrameStep(Math.max(1, parseInt(e.target.value) || 1))}
+                  />
+                </div>
+                <div className="space-y-1.5">
+                  <Label className="text-xs">IoU match threshold</Label>
+                  <Input
+                    type="number"
+                    min={0.1}
+                    max={0.95}
+                    step={0.05}
+                    value={iouThreshold}
+                    disabled={running}
+                    onChange={(e) => setIouThreshold(Math.min(0.95, Math.max(0.1, parseFloat(e.target.value) || DEFAULT_IOU_THRESHOLD)))}
+                  />
+                </div>
+              </div>
+              {dataset && (
+                <p className="text-xs text-muted-foreground">
+                  {sampled.length} annotated frame{sampled.length !== 1 ? 's' : ''} fall on the step grid
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Configuration under test */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Configuration</CardTitle>
+              <CardDescription>
+                The dashboard's saved settings, as used for video files
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2 text-sm">
+              {[
+                ['Sensitivity', settings.detectionSensitivity.toFixed(2)],
+                ['Detection mode', settings.detectionMode],
+                ['Video quality', settings.videoQuality],
+                ['False positive guard', settings.falsePositiveMinScore.toFixed(2)],
+                ['Female boost', settings.femaleBoostFactor.toFixed(2)],
+                ['Hair heuristics', settings.enableHairHeuristics ? 'On' : 'Off'],
+                ['Face texture check', settings.requireFaceTexture ? 'On' : 'Off'],
+                ['Enhanced detection', settings.enableYoloForVideo ? 'On' : 'Off'],
+              ].map(([label, value]) => (
+                <div key={label} className="flex justify-between">
+                  <span className="text-muted-foreground">{label}</span>
+                  <span className="font-medium">{value}</span>
+                </div>
+              ))}
+              <div className="pt-2 text-xs text-muted-foreground break-all">
+                {modelsLoading
+                  ? `Loading models… ${Math.round(loadingProgress)}%`
+                  : modelError ?? modelVersion}
+              </div>
+              {settings.detectionMode === 'max' && (
+                <p className="text-xs text-warning">
+                  Maximum mode's YOLO detector isn't benchmarked - this runs the face-api.js pipeline.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Run */}
+        <Card>
+          <CardHeader className="pb-3">
+            <div className="flex items-center justify-between">
+              <CardTitle className="text-lg">Run</CardTitle>
+              <div className="flex gap-2">
+                {running ? (
+                  <Button size="sm" variant="destructive" className="gap-1" onClick={() => { cancelRef.current = true; }}>
+                    <Square className="h-4 w-4" />
+                    Stop
+                  </Button>
+                ) : (
+                  <Button size="sm" className="gap-1" onClick={runBenchmark} disabled={!canRun}>
+                    <Play className="h-4 w-4" />
+                    Run Benchmark
+                  </Button>
+                )}
+                <Button size="sm" variant="outline" className="gap-1" onClick={handleSaveSession} disabled={!result || running}>
+                  <Save className="h-4 w-4" />
+                  Save as Session
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {progress.total > 0 && (
+              <div className="space-y-1">
+                <Progress value={(progress.done / progress.total) * 100} className="h-2" />
+                <p className="text-xs text-muted-foreground">
+                  Frame {progress.done} of {progress.total}
+                </p>
+              </div>
+            )}
+            {videoUrl ? (
+              <div
+                className="relative w-full max-w-2xl mx-auto bg-black rounded-lg overflow-hidden"
+                style={{ aspectRatio: `${videoSize.width} / ${videoSize.height}` }}
+              >
+                <video
+                  ref={videoRef}
+                  src={videoUrl}
+                  className="absolute inset-0 w-full h-full"
+                  muted
+                  playsInline
+                  preload="auto"
+                  onLoadedMetadata={(e) => setVideoSize({
+                    width: e.currentTarget.videoWidth || 16,
+                    height: e.currentTarget.videoHeight || 9,
+                  })}
+                />
+                {/* Last processed frame: ground truth in green, detections in blue */}
+                {preview?.faces.map((face, i) => (
+                  <div key={`gt-${i}`} className="absolute border-2 border-success" style={boxStyle(face.boundingBox)} />
+                ))}
+                {preview?.detections.map((detection, i) => detection.boundingBox && (
+                  <div key={`det-${i}`} className="absolute border-2 border-dashed border-info" style={boxStyle(detection.boundingBox)}>
+                    <span className="absolute -top-5 left-0 text-[10px] px-1 rounded bg-info text-background whitespace-nowrap">
+                      {detection.gender === 'male' ? '♂' : '♀'} {detection.ageGroup} {(detection.confidence * 100).toFixed(0)}%
+                    </span>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-center text-muted-foreground py-8">
+                Choose a video and its annotation file to start
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        {result && (
+          <>
+            {/* Detection metrics */}
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              {[
+                { icon: Target, label: 'Detection Precision', value: formatPercent(result.detection.precision), hint: `${result.detection.truePositives} TP / ${result.detection.falsePositives} FP` },
+                { icon: Crosshair, label: 'Detection Recall', value: formatPercent(result.detection.recall), hint: `${result.detection.falseNegatives} faces missed` },
+                { icon: Gauge, label: 'Mean IoU', value: result.detection.meanIoU.toFixed(2), hint: `F1 ${result.detection.f1.toFixed(2)}` },
+                { icon: Timer, label: 'Avg Latency', value: `${Math.round(result.avgLatencyMs)} ms`, hint: `${result.frames.length} frames` },
+              ].map(({ icon: Icon, label, value, hint }) => (
+                <Card key={label}>
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-sm font-medium flex items-center gap-2">
+                      <Icon className="h-4 w-4 text-primary" />
+                      {label}
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-3xl font-bold">{value}</div>
+                    <p className="text-xs text-muted-foreground">{hint}</p>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+
+            {/* Classification metrics on matched faces */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Classification on Matched Faces</CardTitle>
+                <CardDescription>
+                  Gender and age against the annotations, for detections matched at IoU ≥ {result.iouThreshold}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  {[
+                    ['Gender Accuracy', result.classification.genderAccuracy],
+                    ['Male Recall', result.classification.maleRecall],
+                    ['Female Recall', result.classification.femaleRecall],
+                    ['Female Precision', result.classification.femalePrecision],
+                    ['Age Accuracy', result.classification.ageAccuracy],
+                    ['Kid Accuracy', result.classification.kidAccuracy],
+                    ['Young Accuracy', result.classification.youngAccuracy],
+                    ['Adult Accuracy', result.classification.adultAccuracy],
+                    ['Avg Confidence (Correct)', result.classification.avgConfidenceCorrect],
+                    ['Avg Confidence (Incorrect)', result.classification.avgConfidenceIncorrect],
+                  ].map(([label, value]) => (
+                    <div key={label as string} className="space-y-1">
+                      <p className="text-sm text-muted-foreground">{label}</p>
+                      <p className="text-xl font-bold">{formatPercent(value as number)}</p>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Worst frames */}
+            {worstFrames.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">Frames with Errors</CardTitle>
+                  <CardDescription>
+                    Most false positives and missed faces first
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Frame</TableHead>
+                        <TableHead>Time</TableHead>
+                        <TableHead>Matched</TableHead>
+                        <TableHead>False Positives</TableHead>
+                        <TableHead>Missed</TableHead>
+                        <TableHead>Latency</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {worstFrames.map(f => (
+                        <TableRow key={f.frame}>
+                          <TableCell>{f.frame}</TableCell>
+                          <TableCell className="text-xs">{f.time.toFixed(2)}s</TableCell>
+                          <TableCell>{f.truePositives}</TableCell>
+                          <TableCell className={f.falsePositives > 0 ? 'text-destructive font-medium' : ''}>{f.falsePositives}</TableCell>
+                          <TableCell className={f.falseNegatives > 0 ? 'text-warning font-medium' : ''}>{f.falseNegatives}</TableCell>
+                          <TableCell className="text-xs text-muted-foreground">{Math.round(f.latencyMs)} ms</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DetectionBenchmark;
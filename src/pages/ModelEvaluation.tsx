@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { Link } from 'react-router-dom';
 import { 
   ArrowLeft, 
@@ -14,7 +14,8 @@ import {
   Lock,
   Lightbulb,
   TrendingUp,
-  TrendingDown
+  TrendingDown,
+  FileVideo
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
@@ -52,6 +53,10 @@ import {
   calculateMetrics,
   calculateConfusionMatrix,
 } from '@/types/evaluation';
+import { ThresholdSweep } from '@/components/ThresholdSweep';
+import { CalibrationPanel } from '@/components/CalibrationPanel';
+import { BiasCorrectionPanel } from '@/components/BiasCorrectionPanel';
+import { loadCaptureSettings } from '@/utils/captureSettings';
 
 const STORAGE_KEY = 'smartads-evaluation-sessions';
 const AUTH_KEY = 'smartads-admin-authenticated';
@@ -73,6 +78,11 @@ const ModelEvaluation = () => {
   const [showNewSessionDialog, setShowNewSessionDialog] = useState(false);
   const [newSessionName, setNewSessionName] = useState('');
 
+  // Applied calibration and learned correction; the sweep replays raw scores through them
+  const [calibration, setCalibration] = useState(() => loadCaptureSettings().confidenceCalibration);
+  const [biasModel, setBiasModel] = useState(() => loadCaptureSettings().biasCorrectionModel);
+  const sweepCorrection = useMemo(() => ({ calibration, model: biasModel }), [calibration, biasModel]);
+
   // Check authentication on mount
   useEffect(() => {
     const authed = sessionStorage.getItem(AUTH_KEY);
@@ -147,6 +157,15 @@ const ModelEvaluation = () => {
   const allEntries = sessions.flatMap(s => s.entries);
   const allMetrics = allEntries.length > 0 ? calculateMetrics(allEntries) : null;
 
+  // The sweep replays hundreds of combinations - only redo it when the entries change
+  const sweepEntries = useMemo(() => activeSessionId === '__all__'
+    ? sessions.flatMap(s => s.entries)
+    : sessions.find(s => s.id === activeSessionId)?.entries ?? [],
+  [activeSessionId, sessions]);
+
+  // The bias correction always trains on every session
+  const trainingEntries = useMemo(() => sessions.flatMap(s => s.entries), [sessions]);
+
   // Create new session
   const handleCreateSession = useCallback(() => {
     const name = newSessionName.trim() || `Session ${new Date().toLocaleDateString()}`;
@@ -170,7 +189,8 @@ const ModelEvaluation = () => {
     
     const headers = [
       'ID', 'Timestamp', 'Detected Gender', 'Actual Gender', 
-      'Detected Age', 'Actual Age', 'Confidence', 'Face Score', 'False Positive'
+      'Detected Age', 'Actual Age', 'Confidence', 'Face Score', 'False Positive', 'Model Version',
+      'Raw Gender', 'Raw Confidence', 'Hair Score', 'Source'
     ];
     
     const rows = activeSession.entries.map(e => [
@@ -183,6 +203,11 @@ const ModelEvaluation = () => {
       e.detectedConfidence.toFixed(2),
       e.detectedFaceScore.toFixed(2),
       e.isFalsePositive ? 'Yes' : 'No',
+      e.modelVersion ?? '',
+      e.rawGender?.gender ?? '',
+      e.rawGender?.probability.toFixed(2) ?? '',
+      e.rawGender?.hairScore?.toFixed(2) ?? '',
+      e.sourceMode ?? '',
     ]);
     
     const csv = [headers, ...rows].map(row => row.join(',')).join('\n');
@@ -342,6 +367,12 @@ const ModelEvaluation = () => {
             </div>
           </div>
           <div className="flex items-center gap-2">
+            <Link to="/admin/evaluation/benchmark">
+              <Button variant="outline" size="sm" className="gap-1">
+                <FileVideo className="h-4 w-4" />
+                Benchmark
+              </Button>
+            </Link>
             <Badge variant="outline" className="text-xs">
               <Lock className="h-3 w-3 mr-1" />
               Admin Only
@@ -732,6 +763,20 @@ const ModelEvaluation = () => {
           </CardContent>
         </Card>
 
+        {/* Confidence Calibration */}
+        <CalibrationPanel
+          entries={sweepEntries}
+          calibration={calibration}
+          onCalibrationChange={setCalibration}
+          learnedVersion={biasModel?.version}
+        />
+
+        {/* Threshold Sweep */}
+        <ThresholdSweep entries={sweepEntries} correction={sweepCorrection} />
+
+        {/* Learned Bias Correction */}
+        <BiasCorrectionPanel entries={trainingEntries} activeModel={biasModel} onActiveModelChange={setBiasModel} />
+
         {/* Recent Entries */}
         {activeSession && activeSession.entries.length > 0 && activeSessionId !== '__all__' && (
           <Card>
@@ -750,6 +795,7 @@ const ModelEvaluation = () => {
                     <TableHead>Actual</TableHead>
                     <TableHead>Confidence</TableHead>
                     <TableHead>Result</TableHead>
+                    <TableHead>Model</TableHead>
                     <TableHead></TableHead>
                   </TableRow>
                 </TableHeader>
@@ -779,6 +825,9 @@ const ModelEvaluation = () => {
                           <Badge variant="destructive">✗</Badge>
                         )}
                       </TableCell>
+                      <TableCell className="text-xs text-muted-foreground max-w-[220px] truncate" title={entry.modelVersion}>
+                        {entry.modelVersion ?? '—'}
+                      </TableCell>
                       <TableCell>
                         <Button
                           variant="ghost"
@@ -818,7 +867,12 @@ const ModelEvaluation = () => {
             </p>
             <p>
               <strong>4. Tune Settings:</strong> Use the recommendations to adjust detection sensitivity, 
-              female boost factor, and false positive thresholds on the main dashboard.
+              female boost factor, and false positive thresholds on the main dashboard, or let the
+              Threshold Sweep propose a combination and apply it in one click.
+            </p>
+            <p>
+              <strong>5. Benchmark Offline:</strong> Open "Benchmark" to run the current settings over a
+              recorded video with an annotation file, and compare detection precision and recall between settings.
             </p>
           </CardContent>
         </Card>
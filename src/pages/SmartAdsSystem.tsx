@@ -1,23 +1,42 @@
 import { useState, useCallback, useEffect, useRef, useMemo } from 'react';
 import { AdMetadata, DemographicCounts, DetectionResult, FaceBoundingBox } from '@/types/ad';
-import { TrackedFace, DEFAULT_CCTV_CONFIG, DEFAULT_WEBCAM_CONFIG, toDetectionResult, CaptureSessionSummary, ViewerAggregate, getStableGender, getStableAgeGroup } from '@/types/detection';
+import { DEFAULT_CCTV_CONFIG, DEFAULT_WEBCAM_CONFIG, toDetectionResult, CaptureSessionSummary, ViewerAggregate, getStableGender, getStableAgeGroup } from '@/types/detection';
 import { GroundTruthEntry, EvaluationSession } from '@/types/evaluation';
+import { ScreenLayout } from '@/types/layout';
 import { VideoPlayer } from '@/components/VideoPlayer';
 import { DemographicStats } from '@/components/DemographicStats';
 import { AdQueue } from '@/components/AdQueue';
+import { BanditPanel } from '@/components/BanditPanel';
 import { ManualQueueEditor } from '@/components/ManualQueueEditor';
 import { SystemLogs } from '@/components/SystemLogs';
 import { WebcamPreview } from '@/components/WebcamPreview';
 import { SettingsPanel, CaptureSettings } from '@/components/SettingsPanel';
 import { AdManager } from '@/components/AdManager';
+import { ProofOfPlayLedger } from '@/components/ProofOfPlayLedger';
+import { LayoutEditor } from '@/components/LayoutEditor';
+import { ZonePlayer, ZoneAudience } from '@/components/ZonePlayer';
 import { ThemeToggle } from '@/components/ThemeToggle';
 import { InputSourceSelector } from '@/components/InputSourceSelector';
 import { CaptureSessionSummary as CaptureSessionSummaryComponent } from '@/components/CaptureSessionSummary';
 import { useWebcam } from '@/hooks/useWebcam';
 import { useFaceDetection, resetSimulatedPerson } from '@/hooks/useFaceDetection';
+import { useHybridDetection, HybridDetectionOptions } from '@/hooks/useHybridDetection';
 import { useAdQueue } from '@/hooks/useAdQueue';
 import { sampleAds } from '@/data/sampleAds';
-import { Tv, Zap, Activity, AlertCircle, CheckCircle, Eye, EyeOff, Play, Square, Cpu, Home, Tag } from 'lucide-react';
+import { loadStoredAds } from '@/utils/adTargeting';
+import { isRetained } from '@/utils/adBandit';
+import { FaceTracker } from '@/utils/faceTracker';
+import { mergeReturningViewers } from '@/utils/faceReid';
+import { accumulateAttention, attentionWeightedDemographics, isEngaged, isLookingAtScreen } from '@/utils/attention';
+import { addExpressions, dominantExpression, EXPRESSION_EMOJI, emptyExpressions, engagementScore, sessionExpressions } from '@/utils/engagement';
+import { precacheAdVideos } from '@/utils/adVideoCache';
+import { getCreativeUrls } from '@/utils/adCreative';
+import { isMainZone, loadScreenLayout, saveScreenLayout } from '@/utils/screenLayout';
+import { ModelId, modelTag, resolveModel } from '@/utils/modelRegistry';
+import { detectionOptionsFor, genderCorrectionFor, loadCaptureSettings, onStoredCaptureSettingsChange, saveCaptureSettings } from '@/utils/captureSettings';
+import { biasCorrectionTag } from '@/utils/biasCorrection';
+import { ImpressionAudience, ImpressionOutcome, recordImpression, recordCaptureSession } from '@/utils/proofOfPlay';
+import { Tv, Zap, Activity, AlertCircle, CheckCircle, Eye, EyeOff, Play, Square, Cpu, Home, Tag, LineChart } from 'lucide-react';
 import { Link } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Switch } from '@/components/ui/switch';
@@ -28,22 +47,25 @@ const MIN_VOTE_CONFIDENCE = 0.65;
 // Minimum frames a face must be seen to count in session summary
 const MIN_FRAMES_FOR_SESSION = 2;
 
+// A viewer seen within this long before the window closed counts as still watching
+// (covers a couple of ~800ms detection ticks)
+const RETENTION_GRACE_MS = 2000;
+
+// Ads whose video won't load are skipped straight away, but if this many fail
+// in a row (e.g. network down with nothing cached) wait before trying again
+const MAX_IMMEDIATE_LOAD_SKIPS = 3;
+const LOAD_RETRY_DELAY_MS = 10000;
+
 const SmartAdsSystem = () => {
-  // Settings state - default to 40% capture window (60%-100%) and medium sensitivity
-  const [captureSettings, setCaptureSettings] = useState<CaptureSettings>({
-    startPercent: 60,
-    endPercent: 100,
-    detectionSensitivity: 0.35,
-    detectionMode: 'accurate',
-    videoQuality: 'lowQuality',
-    falsePositiveMinScore: 0.18,
-    minDemographicConfidence: 0.75,
-    femaleBoostFactor: 0.15,
-    enableHairHeuristics: true,
-    requireFaceTexture: false, // Disabled by default - can cause real face rejection
-    useDualModelForVideo: true,
-    enableYoloForVideo: false,
-  });
+  // Settings persist across reloads; the evaluation pages benchmark them
+  const [captureSettings, setCaptureSettings] = useState<CaptureSettings>(loadCaptureSettings);
+
+  useEffect(() => {
+    saveCaptureSettings(captureSettings);
+  }, [captureSettings]);
+
+  // Settings applied from the evaluation page in another tab
+  useEffect(() => onStoredCaptureSettingsChange(setCaptureSettings), []);
 
   // Labeling mode for evaluation
   const [labelingMode, setLabelingMode] = useState(false);
@@ -53,23 +75,25 @@ const SmartAdsSystem = () => {
   const [debugMode, setDebugMode] = useState(false);
 
   // Custom ads state - persisted to localStorage
-  const [customAds, setCustomAds] = useState<AdMetadata[]>(() => {
-    const saved = localStorage.getItem('smartads-custom-ads');
-    if (saved) {
-      try {
-        return JSON.parse(saved);
-      } catch {
-        return [...sampleAds];
-      }
-    }
-    return [...sampleAds];
-  });
+  // Entries saved before multi-segment targeting are migrated on load
+  const [customAds, setCustomAds] = useState<AdMetadata[]>(() =>
+    loadStoredAds('smartads-custom-ads', [...sampleAds])
+  );
 
   // Save ads to localStorage whenever they change
   useEffect(() => {
     localStorage.setItem('smartads-custom-ads', JSON.stringify(customAds));
   }, [customAds]);
 
+  // Fullscreen screen layout - the main zone plays the targeted queue, other zones run their own
+  const [screenLayout, setScreenLayout] = useState<ScreenLayout>(() => loadScreenLayout());
+  // Audience from the latest capture, for independently targeted zones
+  const [zoneAudience, setZoneAudience] = useState<ZoneAudience | null>(null);
+
+  useEffect(() => {
+    saveScreenLayout(screenLayout);
+  }, [screenLayout]);
+
   // Recalculate ads when settings change
   const adsWithCaptureWindows = useMemo(() => {
     return customAds.map(ad => ({
@@ -94,17 +118,14 @@ const SmartAdsSystem = () => {
   const [currentViewers, setCurrentViewers] = useState<DetectionResult[]>([]);
   const [testMode, setTestMode] = useState(false);
   const [manualMode, setManualMode] = useState(false);
-  const [manualQueue, setManualQueue] = useState<AdMetadata[]>(() => {
-    const saved = localStorage.getItem('smartads-manual-queue');
-    if (saved) {
-      try {
-        return JSON.parse(saved);
-      } catch {
-        return [];
-      }
-    }
-    return [];
-  });
+  const [manualQueue, setManualQueue] = useState<AdMetadata[]>(() =>
+    loadStoredAds('smartads-manual-queue', [])
+  );
+
+  // House/fallback playlist - played when a capture sees nobody
+  const [fallbackPlaylist, setFallbackPlaylist] = useState<AdMetadata[]>(() =>
+    loadStoredAds('smartads-fallback-playlist', [])
+  );
 
   // Session summary state - shown after capture ends
   const [lastSessionSummary, setLastSessionSummary] = useState<CaptureSessionSummary | null>(null);
@@ -114,15 +135,21 @@ const SmartAdsSystem = () => {
   useEffect(() => {
     localStorage.setItem('smartads-manual-queue', JSON.stringify(manualQueue));
   }, [manualQueue]);
+
+  useEffect(() => {
+    localStorage.setItem('smartads-fallback-playlist', JSON.stringify(fallbackPlaylist));
+  }, [fallbackPlaylist]);
   
   const captureIntervalRef = useRef<number | null>(null);
   const isCapturingRef = useRef(false);
   const initializedRef = useRef(false);
   const lastDemographicsRef = useRef<DemographicCounts>({ male: 0, female: 0, kid: 0, young: 0, adult: 0 });
   const testModeTimeoutRef = useRef<number | null>(null);
+  const loadFailuresRef = useRef(0);
+  const loadRetryTimeoutRef = useRef<number | null>(null);
   
   // Advanced face tracking with temporal stabilization
-  const trackedFacesRef = useRef<Map<string, TrackedFace>>(new Map());
+  const trackerRef = useRef<FaceTracker>(new FaceTracker(DEFAULT_WEBCAM_CONFIG, { minVoteConfidence: MIN_VOTE_CONFIDENCE }));
   
   // Capture session aggregation - tracks unique viewers across capture window
   const captureSessionRef = useRef<{
@@ -136,6 +163,19 @@ const SmartAdsSystem = () => {
     return cctvMode ? DEFAULT_CCTV_CONFIG : DEFAULT_WEBCAM_CONFIG;
   }, [cctvMode]);
 
+  // Keep the live tracker in sync with mode and bias-correction settings
+  useEffect(() => {
+    trackerRef.current.setConfig(trackingConfig);
+  }, [trackingConfig]);
+
+  useEffect(() => {
+    trackerRef.current.setOptions({
+      // The learned bias correction already balances genders before voting
+      femaleBoostFactor: captureSettings.biasCorrectionModel ? 0 : captureSettings.femaleBoostFactor,
+      algorithm: captureSettings.trackingAlgorithm,
+    });
+  }, [captureSettings.femaleBoostFactor, captureSettings.biasCorrectionModel, captureSettings.trackingAlgorithm]);
+
   const { 
     videoRef, 
     isActive: webcamActive, 
@@ -158,13 +198,9 @@ const SmartAdsSystem = () => {
     console.log(`[SmartAdsSystem] inputMode changed to: ${inputMode}, isVideoMode=${isVideoMode}, isWebcamMode=${isWebcamMode}`);
   }, [inputMode, isVideoMode, isWebcamMode]);
   
-  // STRICT ENFORCEMENT:
-  // - Webcam: ALWAYS tiny only (prevents ghost detections)
-  // - Video/Screen: ALWAYS dual mode (Tiny + SSD for best coverage)
-  // The "Enhanced Detection" toggle only affects Pass 2/3 rescue behavior, NOT detector type
-  const effectiveDetector: 'tiny' | 'dual' | 'ssd' = isWebcamMode ? 'tiny' : 'dual';
-  const effectiveCctvMode = isVideoMode ? true : cctvMode; // Force CCTV mode for video
-
+  // Detector per input mode is enforced in detectionOptionsFor: webcam runs
+  // TinyFace only, video/screen always dual. The "Enhanced Detection" toggle
+  // only affects Pass 2/3 rescue behavior, NOT detector type.
   const { 
     isModelLoaded, 
     isLoading: modelsLoading, 
@@ -172,42 +208,122 @@ const SmartAdsSystem = () => {
     error: modelError, 
     backend,
     ssdLoaded,
+    reidLoaded,
     detectFaces,
     getDebugInfo 
   } = useFaceDetection(
     captureSettings.detectionSensitivity,
-    {
-      sourceMode: inputMode,
-      cctvMode: effectiveCctvMode,
-      useDualModel: isVideoMode, // Force dual for video
-      useYolo: false, // YOLO not implemented
-      config: {
-        debugMode,
-        hardMinFaceScore: captureSettings.falsePositiveMinScore,
-        detector: effectiveDetector, // Strictly enforced per input mode
-        detectionMode: captureSettings.detectionMode,
-        videoQuality: captureSettings.videoQuality,
-        // Pass female boost and heuristics settings
-        femaleBoostFactor: captureSettings.femaleBoostFactor,
-        enableHairHeuristics: captureSettings.enableHairHeuristics,
-        requireFaceTexture: captureSettings.requireFaceTexture,
-        // Enable enhanced rescue passes for video when toggle is on
-        enableEnhancedRescue: isVideoMode && captureSettings.enableYoloForVideo,
-      },
-    }
+    detectionOptionsFor(captureSettings, inputMode, { cctvMode, debugMode })
   );
   
+  // Maximum mode: YOLOv8-face boxes + face-api.js age/gender crops, when the
+  // ONNX model is downloaded. Otherwise the regular pipeline keeps running.
+  const yoloRequested = captureSettings.detectionMode === 'max';
+  const hybridOptions = useMemo((): HybridDetectionOptions => ({
+    mode: 'max',
+    debugMode,
+    enabled: yoloRequested,
+    modelSelection: captureSettings.modelVersions,
+    genderCorrection: genderCorrectionFor(captureSettings, inputMode),
+    enableHairHeuristics: captureSettings.enableHairHeuristics,
+  }), [debugMode, yoloRequested, captureSettings, inputMode]);
+  const {
+    isModelLoaded: hybridReady,
+    yoloLoaded,
+    detectFaces: detectFacesYolo,
+    getDebugInfo: getYoloDebugInfo,
+  } = useHybridDetection(captureSettings.detectionSensitivity, hybridOptions);
+  const yoloActive = yoloRequested && yoloLoaded && hybridReady;
+
   // Get current active detector label for UI
-  const activeDetectorLabel = isWebcamMode ? 'Tiny' : (ssdLoaded ? 'Dual' : 'Tiny');
+  const activeDetectorLabel = yoloActive ? 'YOLO' : isWebcamMode ? 'Tiny' : (ssdLoaded ? 'Dual' : 'Tiny');
+
+  // Versions of the models behind the current detections, e.g.
+  // "tinyFaceDetector@0.22.2+ageGenderNet@0.22.2" - stamped on evaluation entries
+  const activeModelVersion = useMemo(() => {
+    const ids: ModelId[] = yoloActive
+      ? ['yolov8Face', 'ageGenderNet']
+      : ['tinyFaceDetector', ...(!isWebcamMode && ssdLoaded ? ['ssdMobilenetv1' as const] : []), 'ageGenderNet'];
+    const learned = captureSettings.biasCorrectionModel;
+    return [
+      ...ids.map(id => modelTag(resolveModel(id, captureSettings.modelVersions))),
+      ...(learned ? [biasCorrectionTag(learned)] : []),
+    ].join('+');
+  }, [yoloActive, isWebcamMode, ssdLoaded, captureSettings.modelVersions, captureSettings.biasCorrectionModel]);
   
-  const { queue, logs, getNextAd, reorderQueue, addLog, updateQueue, resetManualQueueIndex } = useAdQueue({
+  const {
+    queue,
+    logs,
+    getNextAd,
+    upcomingAd,
+    reorderQueue,
+    addLog,
+    updateQueue,
+    resetManualQueueIndex,
+    recordPlay,
+    forgetPlay,
+    ineligibleAds,
+    usingFallback,
+    applyFallbackPlaylist,
+    banditPosteriors,
+    recordRetention,
+    resetBanditPosteriors,
+  } = useAdQueue({
     customAds: adsWithCaptureWindows,
     captureStartPercent: captureSettings.startPercent,
     captureEndPercent: captureSettings.endPercent,
     manualMode,
     manualQueue,
+    scoringWeights: captureSettings.scoringWeights,
+    queueLength: captureSettings.queueLength,
+    reorderMode: captureSettings.queueReorderMode,
+    fallbackPlaylist,
+    selectionMode: captureSettings.adSelectionMode,
   });
 
+  // Offline-first: keep a local copy of every library and house ad video and image.
+  // Keyed on the URL list so edits that don't touch media don't re-check the cache.
+  const adVideoUrls = useMemo(
+    () => [...new Set([...customAds, ...fallbackPlaylist, ...manualQueue].flatMap(getCreativeUrls))].join('\n'),
+    [customAds, fallbackPlaylist, manualQueue]
+  );
+  useEffect(() => {
+    if (!adVideoUrls) return;
+    let cancelled = false;
+    precacheAdVideos(adVideoUrls.split('\n')).then(({ cached, total }) => {
+      if (cancelled) return;
+      addLog('ad', `📦 Offline cache: ${cached}/${total} ad files stored locally${cached < total ? ' - the rest need a network' : ''}`);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [adVideoUrls, addLog]);
+
+  // Proof-of-play: the impression on screen, written to the ledger when it ends
+  const impressionRef = useRef<{
+    adId: string;
+    adTitle: string;
+    startedAt: number;
+    audience?: ImpressionAudience;
+  } | null>(null);
+
+  const startImpression = useCallback((ad: AdMetadata) => {
+    impressionRef.current = { adId: ad.id, adTitle: ad.title, startedAt: Date.now() };
+  }, []);
+
+  const finishImpression = useCallback((outcome: ImpressionOutcome) => {
+    const impression = impressionRef.current;
+    if (!impression) return;
+    impressionRef.current = null;
+
+    recordImpression({
+      id: `imp_${Date.now()}_${Math.random().toString(36).substr(2, 5)}`,
+      ...impression,
+      endedAt: Date.now(),
+      outcome,
+    }).catch(err => console.warn('[Ledger] Failed to record impression:', err));
+  }, []);
+
   // Update queue when ads change
   useEffect(() => {
     updateQueue(adsWithCaptureWindows);
@@ -222,16 +338,18 @@ const SmartAdsSystem = () => {
     if (firstAd) {
       setCurrentAd(firstAd);
       setIsPlaying(true);
+      recordPlay(firstAd.id);
+      startImpression(firstAd);
       addLog('ad', `Starting system with: "${firstAd.title}"`);
       addLog('info', `Capture window: ${firstAd.captureStart}s - ${firstAd.captureEnd}s`);
     }
-  }, [adsWithCaptureWindows, addLog]);
+  }, [adsWithCaptureWindows, addLog, recordPlay, startImpression]);
 
   // Handle settings change - log all settings for debugging
   const handleSettingsChange = useCallback((newSettings: CaptureSettings) => {
     setCaptureSettings(newSettings);
     addLog('info', `⚙️ Settings: Sensitivity=${newSettings.detectionSensitivity.toFixed(2)}, FPGuard=${newSettings.falsePositiveMinScore.toFixed(2)}, FemaleBoost=${newSettings.femaleBoostFactor.toFixed(2)}`);
-    addLog('info', `⚙️ Mode: ${newSettings.detectionMode}, Quality: ${newSettings.videoQuality}, Enhanced: ${newSettings.enableYoloForVideo}`);
+    addLog('info', `⚙️ Mode: ${newSettings.detectionMode}, Quality: ${newSettings.videoQuality}, Enhanced: ${newSettings.enableYoloForVideo}, Tracking: ${newSettings.trackingAlgorithm}`);
   }, [addLog]);
 
   // Handle ads change
@@ -240,34 +358,10 @@ const SmartAdsSystem = () => {
     addLog('info', `📁 Ad library updated: ${newAds.length} ads`);
   }, [addLog]);
 
-  // Helper: Calculate IoU (Intersection over Union) for face matching
-  const calculateIoU = useCallback((box1?: FaceBoundingBox, box2?: FaceBoundingBox): number => {
-    if (!box1 || !box2) return 0;
-    
-    const x1 = Math.max(box1.x, box2.x);
-    const y1 = Math.max(box1.y, box2.y);
-    const x2 = Math.min(box1.x + box1.width, box2.x + box2.width);
-    const y2 = Math.min(box1.y + box1.height, box2.y + box2.height);
-    
-    const intersection = Math.max(0, x2 - x1) * Math.max(0, y2 - y1);
-    const area1 = box1.width * box1.height;
-    const area2 = box2.width * box2.height;
-    const union = area1 + area2 - intersection;
-    
-    return union > 0 ? intersection / union : 0;
-  }, []);
-
-  // Helper: Calculate center distance
-  const calculateCenterDistance = useCallback((box1?: FaceBoundingBox, box2?: FaceBoundingBox): number => {
-    if (!box1 || !box2) return Infinity;
-    
-    const cx1 = box1.x + box1.width / 2;
-    const cy1 = box1.y + box1.height / 2;
-    const cx2 = box2.x + box2.width / 2;
-    const cy2 = box2.y + box2.height / 2;
-    
-    return Math.sqrt(Math.pow(cx2 - cx1, 2) + Math.pow(cy2 - cy1, 2));
-  }, []);
+  const handleLayoutChange = useCallback((layout: ScreenLayout) => {
+    setScreenLayout(layout);
+    addLog('info', `🖥️ Screen layout: ${layout.name} (${layout.zones.length} zone${layout.zones.length !== 1 ? 's' : ''})`);
+  }, [addLog]);
 
   // Start detection loop - detects current viewers in frame
   const startDetectionLoop = useCallback(() => {
@@ -276,7 +370,7 @@ const SmartAdsSystem = () => {
     }
 
     // Clear tracking cache on new detection session
-    trackedFacesRef.current.clear();
+    trackerRef.current.reset();
     
     // Initialize capture session for aggregation
     captureSessionRef.current = {
@@ -290,234 +384,80 @@ const SmartAdsSystem = () => {
       if (!isCapturingRef.current || !videoRef.current) return;
 
       console.log('[Loop] Running detection...');
-      const results = await detectFaces(videoRef.current);
+      const results = yoloActive
+        ? await detectFacesYolo(videoRef.current)
+        : await detectFaces(videoRef.current);
       
-      const tracked = trackedFacesRef.current;
+      const tracker = trackerRef.current;
       const currentTime = Date.now();
-      const config = trackingConfig;
       
       // Increment frame count for session
       if (captureSessionRef.current) {
         captureSessionRef.current.frameCount++;
       }
       
-      // Match new detections to tracked faces using IoU + distance
-      const matchedIds = new Set<string>();
-      const usedDetections = new Set<number>();
+      // Match detections to tracks, vote, and evict stale faces
+      const stableTracks = tracker.update(results, currentTime);
+      if (tracker.lastReidentified.length > 0) {
+        addLog('detection', `🔁 Re-identified ${tracker.lastReidentified.length} returning viewer(s)`);
+      }
       
-      // For each tracked face, find best matching new detection
-      for (const [id, trackedFace] of tracked.entries()) {
-        let bestMatch: number | null = null;
-        let bestScore = 0;
-        
-        for (let i = 0; i < results.length; i++) {
-          if (usedDetections.has(i)) continue;
-          
-          const detection = results[i];
-          const iou = calculateIoU(detection.boundingBox, trackedFace.boundingBox);
-          const distance = calculateCenterDistance(detection.boundingBox, trackedFace.boundingBox);
-          
-          // Predict position based on velocity
-          const predictedX = trackedFace.boundingBox.x + trackedFace.velocity.vx;
-          const predictedY = trackedFace.boundingBox.y + trackedFace.velocity.vy;
-          const predictedBox = { ...trackedFace.boundingBox, x: predictedX, y: predictedY };
-          const predictedDistance = calculateCenterDistance(detection.boundingBox, predictedBox);
-          
-          // Use minimum of actual and predicted distance
-          const effectiveDistance = Math.min(distance, predictedDistance);
-          
-          // Reject if moved too far (likely different person)
-          if (effectiveDistance > config.maxVelocityPx) continue;
-          
-          // Score: IoU weighted higher + inverse distance bonus
-          const score = iou * 0.6 + Math.max(0, 1 - effectiveDistance / 200) * 0.4;
-          
-          if (score > bestScore && (iou > 0.2 || effectiveDistance < 80)) {
-            bestScore = score;
-            bestMatch = i;
-          }
-        }
+      // Update capture session aggregation from tracks that were already stable
+      if (captureSessionRef.current) {
+        const session = captureSessionRef.current;
         
-        if (bestMatch !== null) {
-          const detection = results[bestMatch];
-          usedDetections.add(bestMatch);
-          matchedIds.add(id);
-          
-          // Update tracked face with smoothing
-          const alpha = 0.7; // Smoothing factor
-          const newVx = (detection.boundingBox!.x - trackedFace.boundingBox.x);
-          const newVy = (detection.boundingBox!.y - trackedFace.boundingBox.y);
-          
-          // Skip demographic updates if user has manually corrected this face
-          const isUserCorrected = trackedFace.isUserCorrected === true;
+        for (const { track, detection, wasStable } of tracker.lastMatches) {
+          if (!wasStable) continue;
+          const id = track.id;
+          const existing = session.viewers.get(id);
           
-          // Temporal voting: only add votes if confidence is high enough AND not user-corrected
-          const newGenderVotes = isUserCorrected 
-            ? trackedFace.genderVotes 
-            : { ...trackedFace.genderVotes };
-          const newAgeVotes = isUserCorrected 
-            ? trackedFace.ageVotes 
-            : { ...trackedFace.ageVotes };
-          
-          if (!isUserCorrected && detection.confidence >= MIN_VOTE_CONFIDENCE) {
-            const voteWeight = detection.confidence * Math.min(detection.faceScore, 1);
-            
-            // Apply female boost PROPORTIONALLY based on confidence (not just uncertain)
-            // Lower confidence = more boost, higher confidence = less boost
-            // At 0.5 confidence: full boost, at 1.0 confidence: no boost
-            const confidenceScale = Math.max(0, 1 - (detection.confidence - 0.5) * 2);
-            const femaleBoost = captureSettings.femaleBoostFactor * confidenceScale;
-            
-            if (detection.gender === 'male') {
-              newGenderVotes.male += voteWeight;
-            } else {
-              // Boost female votes proportionally to uncertainty
-              newGenderVotes.female += voteWeight * (1 + femaleBoost);
+          if (existing) {
+            // Update existing viewer aggregate
+            if (detection.confidence >= MIN_VOTE_CONFIDENCE) {
+              existing.genderVotes[detection.gender] += detection.confidence;
+              existing.ageVotes[detection.ageGroup] += detection.confidence;
             }
-            newAgeVotes[detection.ageGroup] += voteWeight;
-          }
-          
-          // Calculate stable gender/age from votes (avoid default-male bias on weak evidence)
-          // For user-corrected faces, keep the user's values
-          const stableGender = isUserCorrected 
-            ? trackedFace.stableGender 
-            : getStableGender(newGenderVotes, trackedFace.stableGender);
-          const stableAgeGroup = isUserCorrected 
-            ? trackedFace.stableAgeGroup 
-            : getStableAgeGroup(newAgeVotes, trackedFace.stableAgeGroup);
-          
-          tracked.set(id, {
-            ...trackedFace,
-            boundingBox: {
-              x: trackedFace.boundingBox.x * (1 - alpha) + detection.boundingBox!.x * alpha,
-              y: trackedFace.boundingBox.y * (1 - alpha) + detection.boundingBox!.y * alpha,
-              width: trackedFace.boundingBox.width * (1 - alpha) + detection.boundingBox!.width * alpha,
-              height: trackedFace.boundingBox.height * (1 - alpha) + detection.boundingBox!.height * alpha,
-            },
-            velocity: {
-              vx: trackedFace.velocity.vx * 0.5 + newVx * 0.5,
-              vy: trackedFace.velocity.vy * 0.5 + newVy * 0.5,
-            },
-            confidence: isUserCorrected ? 1.0 : detection.confidence, // User corrections get max confidence
-            faceScore: detection.faceScore,
-            gender: isUserCorrected ? trackedFace.gender : detection.gender,
-            ageGroup: isUserCorrected ? trackedFace.ageGroup : detection.ageGroup,
-            consecutiveHits: trackedFace.consecutiveHits + 1,
-            missedFrames: 0,
-            lastSeenAt: currentTime,
-            detectorUsed: detection.trackingId?.startsWith('ssd') ? 'ssd' : 'tiny',
-            genderVotes: newGenderVotes,
-            ageVotes: newAgeVotes,
-            stableGender,
-            stableAgeGroup,
-            isUserCorrected, // Preserve the flag
-          });
-          
-          // Update capture session aggregation
-          if (captureSessionRef.current && trackedFace.consecutiveHits >= config.minConsecutiveFrames) {
-            const session = captureSessionRef.current;
-            const existing = session.viewers.get(id);
-            
-            if (existing) {
-              // Update existing viewer aggregate
-              if (detection.confidence >= MIN_VOTE_CONFIDENCE) {
-                existing.genderVotes[detection.gender] += detection.confidence;
-                existing.ageVotes[detection.ageGroup] += detection.confidence;
-              }
-              existing.seenFrames++;
-              existing.bestFaceScore = Math.max(existing.bestFaceScore, detection.faceScore);
-              existing.bestConfidence = Math.max(existing.bestConfidence, detection.confidence);
-              existing.finalGender = getStableGender(existing.genderVotes, existing.finalGender);
-              existing.finalAgeGroup = getStableAgeGroup(existing.ageVotes, existing.finalAgeGroup);
-            } else {
-              // New viewer in session
-              session.viewers.set(id, {
-                trackingId: id,
-                genderVotes: { male: detection.gender === 'male' ? detection.confidence : 0, female: detection.gender === 'female' ? detection.confidence : 0 },
-                ageVotes: { 
-                  kid: detection.ageGroup === 'kid' ? detection.confidence : 0, 
-                  young: detection.ageGroup === 'young' ? detection.confidence : 0, 
-                  adult: detection.ageGroup === 'adult' ? detection.confidence : 0 
-                },
-                seenFrames: 1,
-                bestFaceScore: detection.faceScore,
-                bestConfidence: detection.confidence,
-                finalGender: detection.gender,
-                finalAgeGroup: detection.ageGroup,
-              });
+            existing.seenFrames++;
+            existing.bestFaceScore = Math.max(existing.bestFaceScore, detection.faceScore);
+            existing.bestConfidence = Math.max(existing.bestConfidence, detection.confidence);
+            existing.finalGender = getStableGender(existing.genderVotes, existing.finalGender);
+            existing.finalAgeGroup = getStableAgeGroup(existing.ageVotes, existing.finalAgeGroup);
+            accumulateAttention(existing, currentTime, track.isLooking);
+            existing.lastSeenAt = currentTime;
+            existing.descriptor = track.descriptor ?? existing.descriptor;
+            if (detection.expressions) {
+              existing.expressions = existing.expressions ?? emptyExpressions();
+              addExpressions(existing.expressions, detection.expressions);
+              existing.expressionFrames = (existing.expressionFrames ?? 0) + 1;
             }
-          }
-        }
-      }
-      
-      // Add new unmatched detections
-      for (let i = 0; i < results.length; i++) {
-        if (usedDetections.has(i)) continue;
-        
-        const detection = results[i];
-        const newId = `face_${currentTime}_${Math.random().toString(36).substr(2, 5)}`;
-        
-        // Initialize with votes from first detection
-        const initialGenderVotes = { male: 0, female: 0 };
-        const initialAgeVotes = { kid: 0, young: 0, adult: 0 };
-        
-        if (detection.confidence >= MIN_VOTE_CONFIDENCE) {
-          const voteWeight = detection.confidence * Math.min(detection.faceScore, 1);
-          
-          // Apply female boost PROPORTIONALLY based on confidence
-          const confidenceScale = Math.max(0, 1 - (detection.confidence - 0.5) * 2);
-          const femaleBoost = captureSettings.femaleBoostFactor * confidenceScale;
-          
-          if (detection.gender === 'male') {
-            initialGenderVotes.male = voteWeight;
           } else {
-            initialGenderVotes.female = voteWeight * (1 + femaleBoost);
-          }
-          initialAgeVotes[detection.ageGroup] = voteWeight;
-        }
-        
-        tracked.set(newId, {
-          id: newId,
-          boundingBox: detection.boundingBox!,
-          velocity: { vx: 0, vy: 0 },
-          confidence: detection.confidence,
-          faceScore: detection.faceScore,
-          gender: detection.gender,
-          ageGroup: detection.ageGroup,
-          consecutiveHits: 1,
-          missedFrames: 0,
-          firstSeenAt: currentTime,
-          lastSeenAt: currentTime,
-          detectorUsed: detection.trackingId?.startsWith('ssd') ? 'ssd' : 'tiny',
-          genderVotes: initialGenderVotes,
-          ageVotes: initialAgeVotes,
-          stableGender: detection.gender,
-          stableAgeGroup: detection.ageGroup,
-        });
-      }
-      
-      // Update missed frames and remove stale faces
-      for (const [id, trackedFace] of tracked.entries()) {
-        if (!matchedIds.has(id) && !results.some((_, i) => !usedDetections.has(i))) {
-          trackedFace.missedFrames++;
-          
-          // Apply velocity prediction for smooth tracking during occlusion
-          if (trackedFace.missedFrames <= config.holdFrames / 2) {
-            trackedFace.boundingBox.x += trackedFace.velocity.vx * 0.5;
-            trackedFace.boundingBox.y += trackedFace.velocity.vy * 0.5;
-          }
-          
-          // Remove if missed too many frames
-          if (trackedFace.missedFrames > config.holdFrames) {
-            tracked.delete(id);
+            // New viewer in session
+            session.viewers.set(id, {
+              trackingId: id,
+              genderVotes: { male: detection.gender === 'male' ? detection.confidence : 0, female: detection.gender === 'female' ? detection.confidence : 0 },
+              ageVotes: { 
+                kid: detection.ageGroup === 'kid' ? detection.confidence : 0, 
+                young: detection.ageGroup === 'young' ? detection.confidence : 0, 
+                adult: detection.ageGroup === 'adult' ? detection.confidence : 0 
+              },
+              seenFrames: 1,
+              bestFaceScore: detection.faceScore,
+              bestConfidence: detection.confidence,
+              finalGender: detection.gender,
+              finalAgeGroup: detection.ageGroup,
+              lastSeenAt: currentTime,
+              descriptor: track.descriptor,
+              dwellSeconds: 0,
+              attentionSeconds: 0,
+              expressions: detection.expressions ? { ...detection.expressions } : undefined,
+              expressionFrames: detection.expressions ? 1 : 0,
+            });
           }
         }
       }
       
       // Get stable detections (consecutive hits >= threshold) - uses temporal voting
-      const stableViewers = Array.from(tracked.values())
-        .filter(face => face.consecutiveHits >= config.minConsecutiveFrames)
-        .map(toDetectionResult);
+      const stableViewers = stableTracks.map(toDetectionResult);
       
       // ALWAYS update viewers (fixes stuck bounding box)
       setCurrentViewers(stableViewers);
@@ -536,7 +476,7 @@ const SmartAdsSystem = () => {
         setDemographics(newDemographics);
         lastDemographicsRef.current = newDemographics;
         
-        addLog('detection', `👁️ ${stableViewers.length} viewer(s): ${stableViewers.map(r => `${r.gender}/${r.ageGroup} (${Math.round(r.faceScore * 100)}%)`).join(', ')}`);
+        addLog('detection', `👁️ ${stableViewers.length} viewer(s): ${stableViewers.map(r => `${r.gender}/${r.ageGroup} (${Math.round(r.faceScore * 100)}%)${r.headPose ? (isLookingAtScreen(r.headPose) ? ' 👀' : ' ↪️') : ''}`).join(', ')}`);
       } else {
         // Clear demographics when no viewers
         const zeroDemographics: DemographicCounts = { male: 0, female: 0, kid: 0, young: 0, adult: 0 };
@@ -544,7 +484,7 @@ const SmartAdsSystem = () => {
         lastDemographicsRef.current = zeroDemographics;
       }
     }, 800); // Faster interval for CCTV tracking
-  }, [detectFaces, addLog, videoRef, calculateIoU, calculateCenterDistance, trackingConfig]);
+  }, [detectFaces, detectFacesYolo, yoloActive, addLog, videoRef]);
 
   const stopDetectionLoop = useCallback(() => {
     if (captureIntervalRef.current) {
@@ -663,6 +603,11 @@ const SmartAdsSystem = () => {
     }
   }, [resetManualQueueIndex, addLog]);
 
+  const handleFallbackPlaylistChange = useCallback((newPlaylist: AdMetadata[]) => {
+    setFallbackPlaylist(newPlaylist);
+    addLog('info', `🏠 Fallback playlist updated: ${newPlaylist.length} ads`);
+  }, [addLog]);
+
   // Handle ground truth labeling for evaluation AND correct the live detection
   const handleLabelDetection = useCallback((entry: GroundTruthEntry & { trackingId?: string }) => {
     // Load existing evaluation data
@@ -687,8 +632,8 @@ const SmartAdsSystem = () => {
       sessions.push(currentSession);
     }
     
-    // Add entry
-    currentSession.entries.push(entry);
+    // Add entry, recording which model versions and source produced the detection
+    currentSession.entries.push({ ...entry, modelVersion: activeModelVersion, sourceMode: inputMode });
     
     // Save back
     localStorage.setItem(storageKey, JSON.stringify(sessions));
@@ -697,41 +642,20 @@ const SmartAdsSystem = () => {
     window.dispatchEvent(new CustomEvent('smartads-evaluation-updated'));
     
     // CORRECTION: Apply the label to the live tracked face
-    if (entry.trackingId && trackedFacesRef.current.has(entry.trackingId)) {
-      const tracked = trackedFacesRef.current.get(entry.trackingId)!;
-      
+    const tracker = trackerRef.current;
+    if (entry.trackingId && tracker.get(entry.trackingId)) {
       if (entry.isFalsePositive) {
         // Remove false positive from tracking
-        trackedFacesRef.current.delete(entry.trackingId);
+        tracker.remove(entry.trackingId);
         addLog('info', `🏷️ FALSE POSITIVE removed from tracking`);
       } else {
         // Correct the tracked face with user-provided ground truth
-        // Set overwhelming vote weights so the correction persists
-        const correctionWeight = 100;
-        tracked.genderVotes = { 
-          male: entry.actualGender === 'male' ? correctionWeight : 0, 
-          female: entry.actualGender === 'female' ? correctionWeight : 0 
-        };
-        tracked.ageVotes = { 
-          kid: entry.actualAgeGroup === 'kid' ? correctionWeight : 0, 
-          young: entry.actualAgeGroup === 'young' ? correctionWeight : 0, 
-          adult: entry.actualAgeGroup === 'adult' ? correctionWeight : 0 
-        };
-        tracked.stableGender = entry.actualGender;
-        tracked.stableAgeGroup = entry.actualAgeGroup;
-        tracked.gender = entry.actualGender;
-        tracked.ageGroup = entry.actualAgeGroup;
-        tracked.isUserCorrected = true;
-        // Set confidence to 100% since it's user-labeled
-        tracked.confidence = 1.0;
-        tracked.faceScore = 1.0;
-        
-        trackedFacesRef.current.set(entry.trackingId, tracked);
+        tracker.correct(entry.trackingId, entry.actualGender, entry.actualAgeGroup);
         addLog('info', `🏷️ Corrected: ${entry.actualGender}/${entry.actualAgeGroup} (100% confidence)`);
       }
       
       // Update displayed detections immediately with 100% confidence for labeled
-      const updatedDetections = Array.from(trackedFacesRef.current.values())
+      const updatedDetections = tracker.getTracks()
         .filter(f => f.consecutiveHits >= 2)
         .map(f => ({
           gender: f.stableGender,
@@ -748,7 +672,7 @@ const SmartAdsSystem = () => {
       const wasCorrect = entry.detectedGender === entry.actualGender && entry.detectedAgeGroup === entry.actualAgeGroup && !entry.isFalsePositive;
       addLog('info', `🏷️ Labeled: ${entry.isFalsePositive ? 'FALSE POSITIVE' : wasCorrect ? '✓ Correct' : `✗ ${entry.actualGender}/${entry.actualAgeGroup}`}`);
     }
-  }, [addLog]);
+  }, [addLog, activeModelVersion, inputMode]);
 
   // Capture window logic - only runs when not in manual mode
   useEffect(() => {
@@ -797,9 +721,15 @@ const SmartAdsSystem = () => {
       if (captureSessionRef.current) {
         const session = captureSessionRef.current;
         
-        // Filter viewers who were seen in enough frames (reduces false positives)
-        // and only count those with at least one confident demographic classification.
-        const stableViewers = Array.from(session.viewers.values())
+        // Merge ids that belong to the same face, then filter viewers who were seen
+        // in enough frames (reduces false positives) and only count those with at
+        // least one confident demographic classification.
+        const sessionViewers = Array.from(session.viewers.values());
+        const mergedViewers = mergeReturningViewers(sessionViewers);
+        if (mergedViewers.length < sessionViewers.length) {
+          addLog('info', `🔁 Merged ${sessionViewers.length - mergedViewers.length} returning viewer(s) by appearance`);
+        }
+        const stableViewers = mergedViewers
           .filter(v => v.seenFrames >= MIN_FRAMES_FOR_SESSION)
           .filter(v => v.bestConfidence >= captureSettings.minDemographicConfidence);
 
@@ -812,14 +742,23 @@ const SmartAdsSystem = () => {
           adult: stableViewers.filter(v => v.finalAgeGroup === 'adult').length,
         };
         
+        // Engagement from per-viewer expression distributions (null when the pass is off)
+        const expressionDistribution = sessionExpressions(stableViewers);
+
         // Create summary for display
+        const endedAt = Date.now();
         const summary: CaptureSessionSummary = {
           startedAt: session.startedAt,
-          endedAt: Date.now(),
+          endedAt,
           totalFrames: session.frameCount,
           uniqueViewers: stableViewers.length,
           demographics: sessionDemographics,
           viewers: stableViewers,
+          retainedViewers: stableViewers.filter(v => isRetained(v, endedAt, RETENTION_GRACE_MS)).length,
+          engagedViewers: stableViewers.filter(isEngaged).length,
+          attentionSeconds: stableViewers.reduce((sum, v) => sum + v.attentionSeconds, 0),
+          expressions: expressionDistribution ?? undefined,
+          engagementScore: expressionDistribution ? engagementScore(expressionDistribution) : undefined,
         };
         
         setLastSessionSummary(summary);
@@ -827,11 +766,51 @@ const SmartAdsSystem = () => {
         
         // Log session summary
         addLog('info', `📊 Session Summary: ${stableViewers.length} unique viewers over ${session.frameCount} frames`);
+        addLog('info', `👀 Attention: ${summary.engagedViewers}/${stableViewers.length} engaged, ${summary.attentionSeconds!.toFixed(1)}s watched in total`);
+        if (expressionDistribution) {
+          const dominant = dominantExpression(expressionDistribution);
+          addLog('info', `${EXPRESSION_EMOJI[dominant]} Engagement: ${summary.engagementScore}/100 (mostly ${dominant})`);
+        }
         addLog('info', `📊 Demographics: ${sessionDemographics.male}M/${sessionDemographics.female}F, ${sessionDemographics.kid} kid/${sessionDemographics.young} young/${sessionDemographics.adult} adult`);
         
-        // Reorder queue based on session summary (not last frame)
+        // Attach the measured audience to this ad's proof-of-play record
+        if (impressionRef.current?.adId === currentAd.id) {
+          impressionRef.current.audience = {
+            uniqueViewers: summary.uniqueViewers,
+            retainedViewers: summary.retainedViewers,
+            demographics: sessionDemographics,
+          };
+        }
+
+        // Keep every session for the /analytics history
+        recordCaptureSession({
+          id: `cap_${session.startedAt}_${Math.random().toString(36).substr(2, 5)}`,
+          adId: currentAd.id,
+          adTitle: currentAd.title,
+          startedAt: session.startedAt,
+          endedAt,
+          totalFrames: session.frameCount,
+          uniqueViewers: summary.uniqueViewers,
+          retainedViewers: summary.retainedViewers,
+          demographics: sessionDemographics,
+          engagementScore: summary.engagementScore,
+          expressions: summary.expressions,
+        }).catch(err => console.warn('[Analytics] Failed to store capture session:', err));
+
+        // Reward the ad that just ran with how many viewers it kept
+        if (stableViewers.length > 0) {
+          recordRetention(currentAd.id, summary, RETENTION_GRACE_MS);
+          addLog('info', `🎰 Retention: ${summary.retainedViewers}/${stableViewers.length} still watching "${currentAd.title}"`);
+        }
+        
+        // Reorder queue based on session summary (not last frame), weighting
+        // engaged viewers above passers-by
         if (sessionDemographics.male + sessionDemographics.female > 0) {
-          reorderQueue(sessionDemographics);
+          const audience = attentionWeightedDemographics(stableViewers);
+          reorderQueue(audience);
+          setZoneAudience({ demographics: audience, capturedAt: Date.now() });
+        } else {
+          applyFallbackPlaylist();
         }
         
         // Clear session
@@ -843,7 +822,7 @@ const SmartAdsSystem = () => {
         }, 8000);
       }
     }
-  }, [currentTime, currentAd, isPlaying, manualMode, startWebcam, stopWebcam, startDetectionLoop, stopDetectionLoop, addLog, reorderQueue]);
+  }, [currentTime, currentAd, isPlaying, manualMode, startWebcam, stopWebcam, startDetectionLoop, stopDetectionLoop, addLog, reorderQueue, applyFallbackPlaylist, recordRetention]);
 
   // Cleanup on unmount
   useEffect(() => {
@@ -852,6 +831,9 @@ const SmartAdsSystem = () => {
       if (testModeTimeoutRef.current) {
         window.clearTimeout(testModeTimeoutRef.current);
       }
+      if (loadRetryTimeoutRef.current) {
+        window.clearTimeout(loadRetryTimeoutRef.current);
+      }
     };
   }, [stopDetectionLoop]);
 
@@ -880,7 +862,17 @@ const SmartAdsSystem = () => {
     });
   }, [captureSettings, addLog]);
 
-  const handleAdEnded = useCallback(() => {
+  // A null outcome drops the impression - the ad never reached the screen
+  const playNextAd = useCallback((outcome: ImpressionOutcome | null) => {
+    if (loadRetryTimeoutRef.current) {
+      window.clearTimeout(loadRetryTimeoutRef.current);
+      loadRetryTimeoutRef.current = null;
+    }
+    if (outcome) {
+      finishImpression(outcome);
+    } else {
+      impressionRef.current = null;
+    }
     isCapturingRef.current = false;
     setIsCapturing(false);
     stopDetectionLoop();
@@ -896,14 +888,39 @@ const SmartAdsSystem = () => {
       setCurrentAd(adWithWindow);
       setCurrentTime(0);
       setIsPlaying(true);
+      startImpression(adWithWindow);
       addLog('info', `Capture window: ${adWithWindow.captureStart}s - ${adWithWindow.captureEnd}s`);
     }
-  }, [getNextAd, stopWebcam, stopDetectionLoop, addLog, captureSettings]);
+  }, [getNextAd, stopWebcam, stopDetectionLoop, addLog, captureSettings, startImpression, finishImpression]);
+
+  const handleAdEnded = useCallback(() => {
+    loadFailuresRef.current = 0;
+    playNextAd('completed');
+  }, [playNextAd]);
 
   const handleSkip = useCallback(() => {
+    loadFailuresRef.current = 0;
     addLog('ad', `⏭️ Skipped: "${currentAd?.title}"`);
-    handleAdEnded();
-  }, [currentAd, handleAdEnded, addLog]);
+    playNextAd('skipped');
+  }, [currentAd, playNextAd, addLog]);
+
+  const handleAdLoadError = useCallback((ad: AdMetadata, message: string) => {
+    // getNextAd counted the play up front; an ad that never showed doesn't use up its caps
+    forgetPlay(ad.id);
+    loadFailuresRef.current += 1;
+    if (loadFailuresRef.current <= MAX_IMMEDIATE_LOAD_SKIPS) {
+      addLog('ad', `❌ Could not load "${ad.title}": ${message} - skipping`);
+      playNextAd(null);
+      return;
+    }
+
+    addLog('ad', `❌ Could not load "${ad.title}": ${message} - ${loadFailuresRef.current} ads failed in a row, retrying in ${LOAD_RETRY_DELAY_MS / 1000}s`);
+    if (loadRetryTimeoutRef.current) window.clearTimeout(loadRetryTimeoutRef.current);
+    loadRetryTimeoutRef.current = window.setTimeout(() => {
+      loadRetryTimeoutRef.current = null;
+      playNextAd(null);
+    }, LOAD_RETRY_DELAY_MS);
+  }, [playNextAd, addLog, forgetPlay]);
 
   const captureWindow = currentAd ? {
     start: currentAd.captureStart,
@@ -912,10 +929,10 @@ const SmartAdsSystem = () => {
 
   // Get tracked faces for debug overlay
   const trackedFacesArray = useMemo(() => {
-    return Array.from(trackedFacesRef.current.values());
+    return trackerRef.current.getTracks();
   }, [currentViewers]); // Update when viewers change
 
-  // Fullscreen mode - renders only the video player
+  // Fullscreen mode - renders only the screen layout's zones
   if (isFullscreen) {
     return (
       <div className="fixed inset-0 z-50 bg-black">
@@ -928,20 +945,48 @@ const SmartAdsSystem = () => {
           className="hidden"
         />
         
-        <VideoPlayer
-          ad={currentAd}
-          isPlaying={isPlaying}
-          onTimeUpdate={handleTimeUpdate}
-          onDurationDetected={handleDurationDetected}
-          onEnded={handleAdEnded}
-          onPlay={() => setIsPlaying(true)}
-          onPause={() => setIsPlaying(false)}
-          onSkip={handleSkip}
-          isCapturing={isCapturing}
-          captureWindow={captureWindow}
-          isFullscreen={true}
-          onFullscreenToggle={() => setIsFullscreen(false)}
-        />
+        {screenLayout.zones.map(zone => (
+          <div
+            key={zone.id}
+            className="absolute overflow-hidden"
+            style={{ left: `${zone.x}%`, top: `${zone.y}%`, width: `${zone.width}%`, height: `${zone.height}%` }}
+          >
+            {isMainZone(zone) ? (
+              <VideoPlayer
+                ad={currentAd}
+                nextAd={upcomingAd}
+                isPlaying={isPlaying}
+                onTimeUpdate={handleTimeUpdate}
+                onDurationDetected={handleDurationDetected}
+                onEnded={handleAdEnded}
+                onPlay={() => setIsPlaying(true)}
+                onPause={() => setIsPlaying(false)}
+                onSkip={handleSkip}
+                onLoadError={handleAdLoadError}
+                isCapturing={isCapturing}
+                captureWindow={captureWindow}
+                transition={captureSettings.adTransition}
+                transitionMs={captureSettings.transitionMs}
+                isFullscreen={true}
+                fill
+                onFullscreenToggle={() => setIsFullscreen(false)}
+              />
+            ) : (
+              <ZonePlayer
+                zone={zone}
+                library={customAds}
+                audience={zoneAudience}
+                captureStartPercent={captureSettings.startPercent}
+                captureEndPercent={captureSettings.endPercent}
+                scoringWeights={captureSettings.scoringWeights}
+                queueLength={captureSettings.queueLength}
+                selectionMode={captureSettings.adSelectionMode}
+                transition={captureSettings.adTransition}
+                transitionMs={captureSettings.transitionMs}
+              />
+            )}
+          </div>
+        ))}
       </div>
     );
   }
@@ -1063,6 +1108,18 @@ const SmartAdsSystem = () => {
               captureStartPercent={captureSettings.startPercent}
               captureEndPercent={captureSettings.endPercent}
             />
+            <LayoutEditor
+              layout={screenLayout}
+              onLayoutChange={handleLayoutChange}
+              ads={customAds}
+            />
+            <ProofOfPlayLedger />
+            <Link to="/analytics">
+              <Button variant="outline" size="sm" className="gap-2">
+                <LineChart className="h-4 w-4" />
+                Analytics
+              </Button>
+            </Link>
             <SettingsPanel 
               settings={captureSettings}
               onSettingsChange={handleSettingsChange}
@@ -1114,6 +1171,7 @@ const SmartAdsSystem = () => {
         <div className="lg:col-span-7 space-y-6">
           <VideoPlayer
             ad={currentAd}
+            nextAd={upcomingAd}
             isPlaying={isPlaying}
             onTimeUpdate={handleTimeUpdate}
             onDurationDetected={handleDurationDetected}
@@ -1121,8 +1179,11 @@ const SmartAdsSystem = () => {
             onPlay={() => setIsPlaying(true)}
             onPause={() => setIsPlaying(false)}
             onSkip={handleSkip}
+            onLoadError={handleAdLoadError}
             isCapturing={isCapturing}
             captureWindow={captureWindow}
+            transition={captureSettings.adTransition}
+            transitionMs={captureSettings.transitionMs}
             isFullscreen={false}
             onFullscreenToggle={() => setIsFullscreen(true)}
           />
@@ -1138,7 +1199,7 @@ const SmartAdsSystem = () => {
               inputMode={inputMode}
               videoFileName={videoFileName}
               debugMode={debugMode}
-              debugInfo={getDebugInfo()}
+              debugInfo={yoloActive ? getYoloDebugInfo() : getDebugInfo()}
               trackedFaces={trackedFacesArray}
               labelingMode={labelingMode}
               onLabelDetection={handleLabelDetection}
@@ -1168,10 +1229,29 @@ const SmartAdsSystem = () => {
               onQueueChange={handleManualQueueChange}
             />
           ) : (
-            <AdQueue
-              queue={queue}
-              currentAdId={currentAd?.id || null}
-            />
+            <>
+              <AdQueue
+                queue={queue}
+                currentAdId={currentAd?.id || null}
+                ineligibleAds={ineligibleAds}
+                queueLength={captureSettings.queueLength}
+                reorderMode={captureSettings.queueReorderMode}
+                usingFallback={usingFallback}
+              />
+              <BanditPanel
+                ads={customAds}
+                posteriors={banditPosteriors}
+                isActive={captureSettings.adSelectionMode === 'bandit'}
+                onReset={resetBanditPosteriors}
+              />
+              <ManualQueueEditor
+                title="Fallback Playlist"
+                availableAds={customAds}
+                manualQueue={fallbackPlaylist}
+                onQueueChange={handleFallbackPlaylistChange}
+                footerNote="🏠 Plays when a capture sees no confident viewers"
+              />
+            </>
           )}
         </div>
       </div>
@@ -1182,7 +1262,7 @@ const SmartAdsSystem = () => {
           <div className="flex items-center gap-4">
             <span className="flex items-center gap-1.5">
               <Zap className="h-3 w-3 text-primary" />
-              face-api.js ({ssdLoaded ? 'TinyFace + SSD Mobilenet' : 'TinyFaceDetector'} + AgeGender)
+              face-api.js ({ssdLoaded ? 'TinyFace + SSD Mobilenet' : 'TinyFaceDetector'} + AgeGender{reidLoaded ? ' + Re-ID' : ''})
             </span>
             <span>•</span>
             <span>Backend: {backend || 'Loading...'}</span>
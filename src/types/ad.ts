@@ -1,14 +1,46 @@
+export interface TargetSegment {
+  gender: 'male' | 'female' | 'all';
+  ageGroup: 'kid' | 'young' | 'adult' | 'all';
+  weight?: number;             // Relative priority of this segment (default 1)
+}
+
+export interface AdFrequencyCap {
+  maxPerHour?: number;           // Max plays in any rolling 60 minutes
+  maxPerDay?: number;            // Max plays since local midnight
+  minSeparationMinutes?: number; // Minimum gap between two plays of this ad
+  dailyTarget?: number;          // Plays per day to pace toward evenly
+}
+
+export interface DailyTimeWindow {
+  start: string;  // "HH:MM" local time
+  end: string;    // "HH:MM" local time; earlier than start = runs past midnight
+}
+
+export interface AdSchedule {
+  startDate?: string;            // "YYYY-MM-DD" first day of the flight (inclusive)
+  endDate?: string;              // "YYYY-MM-DD" last day of the flight (inclusive)
+  weekdays?: number[];           // 0 = Sunday ... 6 = Saturday; empty/undefined = every day
+  timeWindows?: DailyTimeWindow[]; // Empty/undefined = all day
+}
+
+/** What an ad shows. Everything but video runs for its explicit `duration`. */
+export type CreativeType = 'video' | 'image' | 'html' | 'slideshow';
+
 export interface AdMetadata {
   id: string;
   filename: string;
   title: string;
-  gender: 'male' | 'female' | 'all';
-  ageGroup: 'kid' | 'young' | 'adult' | 'all';
+  targetSegments: TargetSegment[];  // Empty list = everyone
+  creativeType?: CreativeType;      // Missing = 'video' (ads saved before creative types)
   duration: number;
   captureStart: number;
   captureEnd: number;
   thumbnail?: string;
-  videoUrl: string;
+  videoUrl: string;                 // Video creatives; '' for the other types
+  imageUrls?: string[];             // Image (one entry) and slideshow creatives, in display order
+  htmlUrl?: string;                 // HTML creatives, shown in a sandboxed iframe
+  frequencyCap?: AdFrequencyCap;
+  schedule?: AdSchedule;
 }
 
 export interface DemographicCounts {
@@ -26,6 +58,25 @@ export interface FaceBoundingBox {
   height: number;
 }
 
+/** Head orientation in degrees; 0/0 = facing the camera. Yaw > 0 = turned right, pitch > 0 = looking down. */
+export interface HeadPose {
+  yaw: number;
+  pitch: number;
+}
+
+export type FaceExpression = 'neutral' | 'happy' | 'sad' | 'angry' | 'fearful' | 'disgusted' | 'surprised';
+
+/** faceExpressionNet probabilities (or running sums of them) per expression. */
+export type ExpressionScores = Record<FaceExpression, number>;
+
+/** face-api.js gender output before bias correction, so evaluation can replay other settings. */
+export interface RawGenderScore {
+  gender: 'male' | 'female';
+  probability: number;
+  /** Hair-region score (0-1), when hair heuristics ran */
+  hairScore?: number;
+}
+
 export interface DetectionResult {
   gender: 'male' | 'female';
   ageGroup: 'kid' | 'young' | 'adult';
@@ -35,6 +86,24 @@ export interface DetectionResult {
   trackingId?: string;         // For temporal tracking
   lastSeen?: number;           // Timestamp for tracking
   isUserCorrected?: boolean;   // True if user-labeled (100% confidence)
+  descriptor?: Float32Array;   // 128-d appearance embedding for re-ID - in-memory only
+  headPose?: HeadPose;         // From 68-point landmarks, when the landmark model is loaded
+  expressions?: ExpressionScores;  // When the optional expression pass is on
+  rawGender?: RawGenderScore;  // Before the female boost
+}
+
+/** How a capture updates the auto queue: swap in the top-scored ads, or re-sort the current ones. */
+export type QueueReorderMode = 'replace' | 'rerank';
+
+/** How the auto queue ranks ads: fixed scoring rules, or Thompson sampling on learned retention. */
+export type AdSelectionMode = 'rules' | 'bandit';
+
+/** How the player switches between ads: fade the next one in over the last frame, or a hard cut. */
+export type AdTransition = 'crossfade' | 'cut';
+
+export interface IneligibleAd {
+  ad: AdMetadata;
+  reason: string;  // e.g. "Outside 07:00–10:00", "Capped: 3/3 plays today"
 }
 
 export interface AdScore {
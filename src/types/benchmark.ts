@@ -0,0 +1,83 @@
+/**
+ * Benchmark Types
+ *
+ * An annotated video dataset and the results of running the face detection
+ * pipeline over it offline.
+ */
+
+import { FaceBoundingBox } from './ad';
+import { EvaluationMetrics } from './evaluation';
+
+/** A labeled face in one frame; the box is in video pixels. */
+export interface AnnotatedFace {
+  boundingBox: FaceBoundingBox;
+  gender: 'male' | 'female';
+  ageGroup: 'kid' | 'young' | 'adult';
+}
+
+/** Every face in a frame. A frame with no faces is a labeled empty frame. */
+export interface AnnotatedFrame {
+  frame: number;
+  faces: AnnotatedFace[];
+  /**
+   * "Don't care" regions: ignore boxes and faces whose labels were rejected.
+   * Detections on them are neither matches nor false positives.
+   */
+  ignore?: FaceBoundingBox[];
+}
+
+export interface BenchmarkDataset {
+  fps: number;
+  frames: AnnotatedFrame[];
+}
+
+/** Annotation file formats the benchmark can import. */
+export type AnnotationFormat = 'smartads' | 'coco' | 'cvat' | 'mot';
+
+/** One rejected record; the rest of the file still imports. */
+export interface AnnotationError {
+  /** e.g. "line 14", "annotation 57", "frames[3].faces[1]" */
+  location: string;
+  message: string;
+}
+
+export interface AnnotationImport {
+  format: AnnotationFormat;
+  /** Null when the file as a whole can't be read */
+  dataset: BenchmarkDataset | null;
+  errors: AnnotationError[];
+}
+
+export interface FrameBenchmark {
+  frame: number;
+  time: number;
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  latencyMs: number;
+}
+
+export interface DetectionMetrics {
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  precision: number;
+  recall: number;
+  f1: number;
+  /** Mean IoU of matched detection/ground-truth pairs */
+  meanIoU: number;
+}
+
+export interface BenchmarkResult {
+  videoName: string;
+  ranAt: number;
+  frameStep: number;
+  iouThreshold: number;
+  /** Registry versions the run used, as stamped on evaluation entries */
+  modelVersion: string;
+  frames: FrameBenchmark[];
+  detection: DetectionMetrics;
+  /** Classification on matched faces; unmatched detections count as false positives */
+  classification: EvaluationMetrics;
+  avgLatencyMs: number;
+}
@@ -2,8 +2,13 @@
  * Extended types for CCTV-optimized face detection
  */
 
-import { FaceBoundingBox, DetectionResult } from './ad';
+import { FaceBoundingBox, DetectionResult, ExpressionScores, HeadPose, RawGenderScore } from './ad';
 import { PreprocessingOptions, ROIConfig } from '@/utils/imagePreprocessing';
+import { SourceGenderCorrection } from '@/utils/biasCorrection';
+import { KalmanBoxState } from '@/utils/kalmanFilter';
+
+/** Greedy IoU matching with fixed smoothing, or Hungarian assignment with a Kalman filter per face. */
+export type TrackingAlgorithm = 'greedy' | 'kalman';
 
 // Temporal voting for stable gender/age classification
 export interface DemographicVotes {
@@ -34,6 +39,16 @@ export interface TrackedFace {
   stableAgeGroup: 'kid' | 'young' | 'adult';
   // User correction flag - when true, ignore AI updates
   isUserCorrected?: boolean;
+  // Constant-velocity filter state (Kalman tracking only)
+  kalman?: KalmanBoxState;
+  // Mean appearance descriptor for re-identification (in-memory only)
+  descriptor?: Float32Array;
+  descriptorSamples?: number;
+  // Attention - undefined when landmarks are unavailable
+  headPose?: HeadPose;
+  isLooking?: boolean;
+  // Latest detection's pre-boost gender output, recorded with labels
+  rawGender?: RawGenderScore;
 }
 
 export interface DetectionDebugInfo {
@@ -49,6 +64,7 @@ export interface DetectionDebugInfo {
   upscaled: boolean;
   frameSize: { width: number; height: number };
   roiActive: boolean;
+  inferenceThread?: 'worker' | 'main';
   // Hybrid detection additions
   yoloActive?: boolean;
   yoloDetections?: number;
@@ -87,12 +103,16 @@ export interface CCTVDetectionConfig {
   videoQuality?: 'hd' | 'lowQuality' | 'nightIR' | 'crowd';
   
   // Bias correction settings
-  femaleBoostFactor?: number;
   enableHairHeuristics?: boolean;
   requireFaceTexture?: boolean;
+  // Learned model, or calibration then the female boost, for the current source
+  genderCorrection?: SourceGenderCorrection;
   
   // Enhanced rescue passes (Pass 2/3) for difficult CCTV footage
   enableEnhancedRescue?: boolean;
+
+  // Optional faceExpressionNet pass for engagement scoring
+  enableExpressions?: boolean;
 }
 
 export const DEFAULT_CCTV_CONFIG: CCTVDetectionConfig = {
@@ -154,6 +174,12 @@ export interface ViewerAggregate {
   bestConfidence: number;
   finalGender: 'male' | 'female';
   finalAgeGroup: 'kid' | 'young' | 'adult';
+  lastSeenAt: number;          // Timestamp of the latest frame this viewer appeared in
+  descriptor?: Float32Array;   // Appearance embedding for merging returning viewers - never persisted
+  dwellSeconds: number;        // Time in frame while tracked
+  attentionSeconds: number;    // Part of the dwell time spent facing the screen
+  expressions?: ExpressionScores;  // Sum of per-frame expression probabilities
+  expressionFrames?: number;   // Frames that contributed to `expressions`
 }
 
 export interface CaptureSessionSummary {
@@ -169,6 +195,11 @@ export interface CaptureSessionSummary {
     adult: number;
   };
   viewers: ViewerAggregate[];
+  retainedViewers?: number;    // Viewers still in frame when the window closed
+  engagedViewers?: number;     // Viewers who watched for at least MIN_ENGAGED_SECONDS
+  attentionSeconds?: number;   // Total attention across all viewers
+  expressions?: ExpressionScores;  // Mean expression distribution across viewers
+  engagementScore?: number;    // 0-100, from `expressions`
 }
 
 export function toDetectionResult(tracked: TrackedFace): DetectionResult {
@@ -180,6 +211,8 @@ export function toDetectionResult(tracked: TrackedFace): DetectionResult {
     boundingBox: tracked.boundingBox,
     trackingId: tracked.id,
     lastSeen: tracked.lastSeenAt,
+    headPose: tracked.headPose,
+    rawGender: tracked.rawGender,
   };
 }
 
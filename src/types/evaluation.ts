@@ -4,6 +4,8 @@
  * Types for tracking detection accuracy and model performance.
  */
 
+import { RawGenderScore } from './ad';
+
 export interface GroundTruthEntry {
   id: string;
   timestamp: number;
@@ -22,6 +24,12 @@ export interface GroundTruthEntry {
   actualGender: 'male' | 'female';
   actualAgeGroup: 'kid' | 'young' | 'adult';
   isFalsePositive: boolean; // Not a real face
+  // Registry versions behind the detection, e.g. "tinyFaceDetector@0.22.2+ageGenderNet@0.22.2"
+  modelVersion?: string;
+  // Gender output before the female boost - lets the threshold sweep replay other boosts
+  rawGender?: RawGenderScore;
+  // Input source at detection time - calibration is fitted per source
+  sourceMode?: CalibrationSource;
 }
 
 export interface EvaluationSession {
@@ -31,6 +39,58 @@ export interface EvaluationSession {
   entries: GroundTruthEntry[];
 }
 
+export type CalibrationSource = 'webcam' | 'video' | 'screen';
+
+/**
+ * Fitted scaling of face-api.js gender probabilities, applied to the male
+ * probability's logit: p' = sigmoid(scale * logit(p) + bias). Temperature
+ * scaling keeps bias at 0 (scale = 1/T); Platt scaling fits both.
+ */
+export interface GenderCalibration {
+  method: 'temperature' | 'platt';
+  scale: number;
+  bias: number;
+  samples: number;
+  fittedAt: number;
+  // Expected calibration error on the fitting entries, raw and calibrated
+  eceBefore: number;
+  eceAfter: number;
+}
+
+/** One calibration per source mode; sources without one use raw probabilities. */
+export type ConfidenceCalibration = Partial<Record<CalibrationSource, GenderCalibration>>;
+
+export interface BiasCorrectionMetrics {
+  genderAccuracy: number;
+  maleRecall: number;
+  femaleRecall: number;
+  /** Expected calibration error of the output probability */
+  ece: number;
+}
+
+/**
+ * Logistic regression from the raw gender output, face size, hair score and
+ * source to P(male). Used in place of calibration and the fixed female boost.
+ */
+export interface BiasCorrectionModel {
+  version: number;
+  trainedAt: number;
+  samples: number;
+  /** One per feature, in the order the model was trained with */
+  weights: number[];
+  // Cross-validated on the training entries: the fixed boost path vs this model
+  before: BiasCorrectionMetrics;
+  after: BiasCorrectionMetrics;
+}
+
+export interface ReliabilityBin {
+  lower: number;
+  upper: number;
+  count: number;
+  avgConfidence: number;
+  accuracy: number;
+}
+
 export interface EvaluationMetrics {
   totalSamples: number;
   // Gender metrics
@@ -0,0 +1,23 @@
+/**
+ * Screen layout types. Zone geometry is in percent of the screen so a
+ * layout fits any display resolution.
+ */
+
+/** Where a secondary zone's ads come from: a fixed rotation, or its own demographic ranking. */
+export type ZoneSource = 'static' | 'targeted';
+
+export interface ScreenZone {
+  id: string;
+  name: string;
+  x: number;        // Left edge, % of screen width
+  y: number;        // Top edge, % of screen height
+  width: number;    // % of screen width
+  height: number;   // % of screen height
+  source: ZoneSource;  // Ignored for the main zone, which always plays the dashboard queue
+  adIds: string[];     // Ads this zone plays, in rotation order; empty = whole library
+}
+
+export interface ScreenLayout {
+  name: string;
+  zones: ScreenZone[];  // Later zones draw on top; the main zone is always present
+}
@@ -0,0 +1,196 @@
+/**
+ * Bandit Ad Selection (Thompson Sampling)
+ *
+ * Learns which ads hold viewers. Every stable viewer in a capture window is
+ * one Bernoulli trial for the ad that was playing: success if they were
+ * still in frame when the window closed, failure if they left. Trials are
+ * kept per (ad, gender × age segment) as Beta posteriors and persisted to
+ * localStorage. Selection samples each posterior and ranks ads by the
+ * sampled retention, weighted by the current audience mix.
+ */
+
+import { AdMetadata, AdScore, DemographicCounts } from '@/types/ad';
+import { CaptureSessionSummary, ViewerAggregate } from '@/types/detection';
+
+export const BANDIT_POSTERIORS_KEY = 'smartads-bandit-posteriors';
+
+export type BanditSegment =
+  | 'male_kid' | 'male_young' | 'male_adult'
+  | 'female_kid' | 'female_young' | 'female_adult';
+
+export const BANDIT_SEGMENTS: BanditSegment[] = [
+  'male_kid', 'male_young', 'male_adult',
+  'female_kid', 'female_young', 'female_adult',
+];
+
+export interface BetaPosterior {
+  alpha: number; // 1 + viewers retained
+  beta: number;  // 1 + viewers lost
+}
+
+/** adId -> segment -> posterior. Missing entries mean the uniform Beta(1, 1) prior. */
+export type BanditPosteriors = Record<string, Partial<Record<BanditSegment, BetaPosterior>>>;
+
+const PRIOR: BetaPosterior = { alpha: 1, beta: 1 };
+
+export function segmentOf(viewer: Pick<ViewerAggregate, 'finalGender' | 'finalAgeGroup'>): BanditSegment {
+  return `${viewer.finalGender}_${viewer.finalAgeGroup}` as BanditSegment;
+}
+
+export function describeBanditSegment(segment: BanditSegment): string {
+  const [gender, age] = segment.split('_');
+  return `${gender === 'male' ? 'M' : 'F'} ${age}`;
+}
+
+export function getPosterior(posteriors: BanditPosteriors, adId: string, segment: BanditSegment): BetaPosterior {
+  return posteriors[adId]?.[segment] ?? PRIOR;
+}
+
+export function posteriorMean({ alpha, beta }: BetaPosterior): number {
+  return alpha / (alpha + beta);
+}
+
+/** Number of observed viewers behind a posterior (excludes the prior). */
+export function posteriorTrials({ alpha, beta }: BetaPosterior): number {
+  return alpha + beta - PRIOR.alpha - PRIOR.beta;
+}
+
+export function loadBanditPosteriors(): BanditPosteriors {
+  try {
+    const saved = localStorage.getItem(BANDIT_POSTERIORS_KEY);
+    if (!saved) return {};
+    const parsed = JSON.parse(saved);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+export function saveBanditPosteriors(posteriors: BanditPosteriors): void {
+  localStorage.setItem(BANDIT_POSTERIORS_KEY, JSON.stringify(posteriors));
+}
+
+/**
+ * True if the viewer was still in frame when the capture window closed.
+ * `graceMs` should cover a couple of detection intervals so a single missed
+ * frame at the end does not count as leaving.
+ */
+export function isRetained(viewer: ViewerAggregate, endedAt: number, graceMs: number): boolean {
+  return endedAt - viewer.lastSeenAt <= graceMs;
+}
+
+/**
+ * Fold one capture session into the posteriors of the ad that was playing.
+ * Returns a new object; sessions without viewers leave posteriors unchanged.
+ */
+export function updatePosteriors(
+  posteriors: BanditPosteriors,
+  adId: string,
+  summary: CaptureSessionSummary,
+  graceMs: number
+): BanditPosteriors {
+  if (summary.viewers.length === 0) return posteriors;
+
+  const endedAt = summary.endedAt ?? Date.now();
+  const adPosteriors = { ...posteriors[adId] };
+
+  for (const viewer of summary.viewers) {
+    const segment = segmentOf(viewer);
+    const current = adPosteriors[segment] ?? PRIOR;
+    adPosteriors[segment] = isRetained(viewer, endedAt, graceMs)
+      ? { ...current, alpha: current.alpha + 1 }
+      : { ...current, beta: current.beta + 1 };
+  }
+
+  return { ...posteriors, [adId]: adPosteriors };
+}
+
+/**
+ * Audience share per gender × age segment. DemographicCounts only holds the
+ * marginals, so each cell is estimated as the product of the two shares.
+ */
+export function segmentShares(demographics: DemographicCounts): Record<BanditSegment, number> {
+  const genderTotal = demographics.male + demographics.female;
+  const ageTotal = demographics.kid + demographics.young + demographics.adult;
+
+  return BANDIT_SEGMENTS.reduce((shares, segment) => {
+    const [gender, age] = segment.split('_') as ['male' | 'female', 'kid' | 'young' | 'adult'];
+    shares[segment] = genderTotal > 0 && ageTotal > 0
+      ? (demographics[gender] / genderTotal) * (demographics[age] / ageTotal)
+      : 0;
+    return shares;
+  }, {} as Record<BanditSegment, number>);
+}
+
+// Standard normal via Box-Muller
+function sampleNormal(): number {
+  const u = 1 - Math.random();
+  const v = Math.random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+// Gamma(shape, 1) via Marsaglia-Tsang; shape < 1 uses the boost trick
+function sampleGamma(shape: number): number {
+  if (shape < 1) {
+    return sampleGamma(shape + 1) * Math.pow(Math.random(), 1 / shape);
+  }
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  for (;;) {
+    let x: number;
+    let v: number;
+    do {
+      x = sampleNormal();
+      v = 1 + c * x;
+    } while (v <= 0);
+    v = v * v * v;
+    const u = Math.random();
+    if (u < 1 - 0.0331 * x * x * x * x) return d * v;
+    if (Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) return d * v;
+  }
+}
+
+export function sampleBeta({ alpha, beta }: BetaPosterior): number {
+  const x = sampleGamma(alpha);
+  const y = sampleGamma(beta);
+  return x / (x + y);
+}
+
+/**
+ * Thompson sampling score for one ad: sample a retention rate per segment
+ * and weight it by that segment's share of the current audience. With no
+ * audience every segment counts equally.
+ */
+export function scoreAdWithBandit(
+  ad: AdMetadata,
+  demographics: DemographicCounts,
+  posteriors: BanditPosteriors
+): AdScore {
+  const shares = segmentShares(demographics);
+  const hasAudience = BANDIT_SEGMENTS.some(s => shares[s] > 0);
+
+  let sampled = 0;
+  const reasons: string[] = [];
+  for (const segment of BANDIT_SEGMENTS) {
+    const share = hasAudience ? shares[segment] : 1 / BANDIT_SEGMENTS.length;
+    if (share === 0) continue;
+
+    const posterior = getPosterior(posteriors, ad.id, segment);
+    const draw = sampleBeta(posterior);
+    sampled += share * draw;
+
+    if (hasAudience && share >= 0.1) {
+      const trials = posteriorTrials(posterior);
+      reasons.push(
+        `🎰 ${describeBanditSegment(segment)} ${Math.round(share * 100)}%: ` +
+        `drew ${Math.round(draw * 100)}% (mean ${Math.round(posteriorMean(posterior) * 100)}%, n=${trials})`
+      );
+    }
+  }
+
+  return {
+    ad,
+    score: Math.round(sampled * 100) / 100,
+    reasons,
+  };
+}
@@ -0,0 +1,60 @@
+/**
+ * Ad Creative Utilities
+ *
+ * Helpers for the creative types an ad can carry: video, a single image, an
+ * HTML page in an iframe, or a slideshow of images. Ads stored before
+ * creative types existed have no `creativeType` and are videos.
+ */
+
+import { AdMetadata, CreativeType } from '@/types/ad';
+
+export const CREATIVE_TYPE_LABELS: Record<CreativeType, string> = {
+  video: 'Video',
+  image: 'Image',
+  html: 'HTML page',
+  slideshow: 'Slideshow',
+};
+
+export function getCreativeType(ad: Pick<AdMetadata, 'creativeType'>): CreativeType {
+  return ad.creativeType ?? 'video';
+}
+
+/**
+ * URLs that make up the creative and can be stored for offline playback.
+ * HTML pages load their own subresources, so they always need the network.
+ */
+export function getCreativeUrls(ad: Pick<AdMetadata, 'creativeType' | 'videoUrl' | 'imageUrls'>): string[] {
+  switch (getCreativeType(ad)) {
+    case 'video':
+      return ad.videoUrl ? [ad.videoUrl] : [];
+    case 'image':
+      return (ad.imageUrls ?? []).slice(0, 1);
+    case 'slideshow':
+      return ad.imageUrls ?? [];
+    case 'html':
+      return [];
+  }
+}
+
+/** Identifies what is on screen - two ads with the same key render identically. */
+export function creativeKey(ad: AdMetadata): string {
+  const type = getCreativeType(ad);
+  return type === 'html'
+    ? `html|${ad.htmlUrl ?? ''}`
+    : `${type}|${getCreativeUrls(ad).join('|')}`;
+}
+
+/** Seconds each slide stays up; slides share the ad's duration evenly. */
+export function slideDuration(ad: AdMetadata): number {
+  const slides = Math.max(1, ad.imageUrls?.length ?? 0);
+  return ad.duration / slides;
+}
+
+/** "Slideshow (4 slides)", "Image", ... */
+export function describeCreative(ad: AdMetadata): string {
+  const type = getCreativeType(ad);
+  const slides = ad.imageUrls?.length ?? 0;
+  return type === 'slideshow'
+    ? `${CREATIVE_TYPE_LABELS.slideshow} (${slides} slide${slides !== 1 ? 's' : ''})`
+    : CREATIVE_TYPE_LABELS[type];
+}
@@ -0,0 +1,121 @@
+/**
+ * Ad Frequency Capping & Pacing
+ *
+ * Play history is persisted to localStorage so a kiosk restart does not
+ * reset the counters. Caps exclude an ad from the auto queue; pacing nudges
+ * its score toward an even spread of plays across the day.
+ */
+
+import { AdMetadata } from '@/types/ad';
+
+export const PLAY_HISTORY_KEY = 'smartads-play-history';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+// Keep one rolling day of history - enough for hourly and daily caps
+const HISTORY_RETENTION_MS = DAY_MS;
+
+export interface PlayRecord {
+  adId: string;
+  playedAt: number;
+}
+
+export interface FrequencyCapStatus {
+  capped: boolean;
+  reason?: string;
+}
+
+export interface PacingStatus {
+  playsToday: number;
+  expectedByNow: number;
+  deficit: number; // > 0 = behind target, < 0 = ahead
+}
+
+/**
+ * Drop records older than the retention window.
+ */
+export function prunePlayHistory(history: PlayRecord[], now: number = Date.now()): PlayRecord[] {
+  return history.filter(r => now - r.playedAt < HISTORY_RETENTION_MS);
+}
+
+export function loadPlayHistory(): PlayRecord[] {
+  try {
+    const saved = localStorage.getItem(PLAY_HISTORY_KEY);
+    if (!saved) return [];
+    const parsed = JSON.parse(saved);
+    return Array.isArray(parsed) ? prunePlayHistory(parsed) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function savePlayHistory(history: PlayRecord[]): void {
+  localStorage.setItem(PLAY_HISTORY_KEY, JSON.stringify(history));
+}
+
+function startOfDay(now: number): number {
+  const d = new Date(now);
+  d.setHours(0, 0, 0, 0);
+  return d.getTime();
+}
+
+function playsFor(adId: string, history: PlayRecord[], since: number): PlayRecord[] {
+  return history.filter(r => r.adId === adId && r.playedAt >= since);
+}
+
+/**
+ * Check an ad against its frequency cap. Ads without a cap are never capped.
+ */
+export function getFrequencyCapStatus(
+  ad: AdMetadata,
+  history: PlayRecord[],
+  now: number = Date.now()
+): FrequencyCapStatus {
+  const cap = ad.frequencyCap;
+  if (!cap) return { capped: false };
+
+  if (cap.maxPerHour) {
+    const lastHour = playsFor(ad.id, history, now - HOUR_MS).length;
+    if (lastHour >= cap.maxPerHour) {
+      return { capped: true, reason: `${lastHour}/${cap.maxPerHour} plays this hour` };
+    }
+  }
+
+  if (cap.maxPerDay) {
+    const today = playsFor(ad.id, history, startOfDay(now)).length;
+    if (today >= cap.maxPerDay) {
+      return { capped: true, reason: `${today}/${cap.maxPerDay} plays today` };
+    }
+  }
+
+  if (cap.minSeparationMinutes) {
+    const lastPlay = playsFor(ad.id, history, 0).reduce((max, r) => Math.max(max, r.playedAt), 0);
+    const minutesSince = (now - lastPlay) / MINUTE_MS;
+    if (lastPlay > 0 && minutesSince < cap.minSeparationMinutes) {
+      return { capped: true, reason: `played ${Math.floor(minutesSince)}m ago (min ${cap.minSeparationMinutes}m)` };
+    }
+  }
+
+  return { capped: false };
+}
+
+/**
+ * Compare today's plays with an even spread of the daily target.
+ * Returns null for ads without a daily target.
+ */
+export function getPacingStatus(
+  ad: AdMetadata,
+  history: PlayRecord[],
+  now: number = Date.now()
+): PacingStatus | null {
+  const target = ad.frequencyCap?.dailyTarget;
+  if (!target) return null;
+
+  const dayStart = startOfDay(now);
+  const dayFraction = (now - dayStart) / DAY_MS;
+  const playsToday = playsFor(ad.id, history, dayStart).length;
+  const expectedByNow = target * dayFraction;
+
+  return { playsToday, expectedByNow, deficit: expectedByNow - playsToday };
+}
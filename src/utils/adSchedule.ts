@@ -0,0 +1,119 @@
+/**
+ * Ad Scheduling (Flight Dates & Dayparting)
+ *
+ * Decides whether an ad may run at a given moment based on its flight
+ * dates, weekday mask and daily time windows. All times are local.
+ */
+
+import { AdMetadata, AdSchedule, DailyTimeWindow } from '@/types/ad';
+
+export interface ScheduleStatus {
+  eligible: boolean;
+  reason?: string;
+}
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/** Local calendar date as "YYYY-MM-DD" (matches <input type="date"> values). */
+function toDateKey(date: Date): string {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, '0');
+  const d = String(date.getDate()).padStart(2, '0');
+  return `${y}-${m}-${d}`;
+}
+
+function toMinutes(time: string): number {
+  const [h, m] = time.split(':').map(n => parseInt(n) || 0);
+  return h * 60 + m;
+}
+
+/**
+ * True if the minute-of-day falls inside the window.
+ * A window whose end is before its start wraps past midnight (e.g. 22:00-02:00).
+ */
+function inTimeWindow(minuteOfDay: number, window: DailyTimeWindow): boolean {
+  const start = toMinutes(window.start);
+  const end = toMinutes(window.end);
+  if (start === end) return true;
+  return start < end
+    ? minuteOfDay >= start && minuteOfDay < end
+    : minuteOfDay >= start || minuteOfDay < end;
+}
+
+/**
+ * Weekday the window's current stretch started on. The after-midnight part
+ * of a wrapping window belongs to the previous day (Fri 22:00-02:00 still
+ * runs at 01:00 Saturday).
+ */
+function windowStartDay(minuteOfDay: number, window: DailyTimeWindow, weekday: number): number {
+  const start = toMinutes(window.start);
+  const end = toMinutes(window.end);
+  const afterMidnight = start > end && minuteOfDay < end;
+  return afterMidnight ? (weekday + 6) % 7 : weekday;
+}
+
+export function describeTimeWindows(windows: DailyTimeWindow[]): string {
+  return windows.map(w => `${w.start}–${w.end}`).join(', ');
+}
+
+/**
+ * Check an ad's schedule at `now`. Ads without a schedule are always eligible.
+ */
+export function getScheduleStatus(ad: AdMetadata, now: Date = new Date()): ScheduleStatus {
+  const schedule: AdSchedule | undefined = ad.schedule;
+  if (!schedule) return { eligible: true };
+
+  const today = toDateKey(now);
+
+  if (schedule.startDate && today < schedule.startDate) {
+    return { eligible: false, reason: `Flight starts ${schedule.startDate}` };
+  }
+
+  if (schedule.endDate && today > schedule.endDate) {
+    return { eligible: false, reason: `Flight ended ${schedule.endDate}` };
+  }
+
+  const weekdays = schedule.weekdays && schedule.weekdays.length > 0 ? schedule.weekdays : null;
+  const runsOn = (day: number) => !weekdays || weekdays.includes(day);
+  const weekdayStatus = (): ScheduleStatus => {
+    const days = [...weekdays!].sort((a, b) => a - b).map(d => WEEKDAY_LABELS[d]).join('/');
+    return { eligible: false, reason: `Runs ${days} only` };
+  };
+
+  if (!schedule.timeWindows || schedule.timeWindows.length === 0) {
+    return runsOn(now.getDay()) ? { eligible: true } : weekdayStatus();
+  }
+
+  const minuteOfDay = now.getHours() * 60 + now.getMinutes();
+  const openWindows = schedule.timeWindows.filter(w => inTimeWindow(minuteOfDay, w));
+  if (openWindows.length === 0) {
+    return runsOn(now.getDay())
+      ? { eligible: false, reason: `Outside ${describeTimeWindows(schedule.timeWindows)}` }
+      : weekdayStatus();
+  }
+  // Weekdays apply to the day a window opened on
+  if (!openWindows.some(w => runsOn(windowStartDay(minuteOfDay, w, now.getDay())))) {
+    return weekdayStatus();
+  }
+
+  return { eligible: true };
+}
+
+/**
+ * Short summary for ad lists, e.g. "2026-01-01 → 2026-03-31 • Sat/Sun • 07:00–10:00".
+ */
+export function describeSchedule(schedule?: AdSchedule): string {
+  if (!schedule) return '';
+
+  const parts: string[] = [];
+  if (schedule.startDate || schedule.endDate) {
+    parts.push(`${schedule.startDate || '…'} → ${schedule.endDate || '…'}`);
+  }
+  if (schedule.weekdays && schedule.weekdays.length > 0 && schedule.weekdays.length < 7) {
+    parts.push([...schedule.weekdays].sort((a, b) => a - b).map(d => WEEKDAY_LABELS[d]).join('/'));
+  }
+  if (schedule.timeWindows && schedule.timeWindows.length > 0) {
+    parts.push(describeTimeWindows(schedule.timeWindows));
+  }
+  return parts.join(' • ');
+}
@@ -0,0 +1,275 @@
+/**
+ * Ad Scoring Engine
+ *
+ * Scores an ad against the full audience distribution instead of a single
+ * dominant gender/age. Each rule contributes points (positive or negative)
+ * and a human-readable reason, so AdScore.reasons always reflects the
+ * actual math behind the score.
+ */
+
+import { AdMetadata, AdScore, DemographicCounts, TargetSegment } from '@/types/ad';
+import { getTargetSegments, segmentWeight } from '@/utils/adTargeting';
+import { PlayRecord, getPacingStatus } from '@/utils/adPacing';
+
+export type GenderSegment = 'male' | 'female';
+export type AgeSegment = 'kid' | 'young' | 'adult';
+
+export interface ScoringWeights {
+  genderWeight: number;      // Points for a 100% gender share match
+  ageWeight: number;         // Points for a 100% age share match
+  jointWeight: number;       // Extra points when gender AND age both match (scaled by joint share)
+  broadTargetFactor: number; // 0-1: fraction of full points an 'all' target earns
+  /** Per-segment multipliers (1 = neutral, >1 = prioritize that audience). */
+  segmentWeights: Record<GenderSegment | AgeSegment, number>;
+  mismatchPenalty: number;   // Subtracted when nobody in the audience matches
+  recentPlayPenalty: number; // Subtracted when the ad just played
+  pacingWeight: number;      // Points per play behind (or ahead of) an ad's daily target
+}
+
+export const DEFAULT_SCORING_WEIGHTS: ScoringWeights = {
+  genderWeight: 4,
+  ageWeight: 3,
+  jointWeight: 3,
+  broadTargetFactor: 0.5,
+  segmentWeights: { male: 1, female: 1, kid: 1, young: 1, adult: 1 },
+  mismatchPenalty: 5,
+  recentPlayPenalty: 3,
+  pacingWeight: 1,
+};
+
+export interface ScoringContext {
+  ad: AdMetadata;
+  demographics: DemographicCounts;
+  weights: ScoringWeights;
+  lastPlayedId: string | null;
+  playHistory: PlayRecord[];
+  now: number;
+}
+
+export interface ScoreContribution {
+  points: number;
+  reason: string;
+}
+
+/** A scoring rule returns zero or more contributions for an ad. */
+export type ScoringRule = (ctx: ScoringContext) => ScoreContribution[];
+
+const GENDERS: GenderSegment[] = ['male', 'female'];
+const AGES: AgeSegment[] = ['kid', 'young', 'adult'];
+
+const formatPoints = (points: number) => `${points >= 0 ? '+' : ''}${points.toFixed(1)}`;
+const formatShare = (share: number) => `${Math.round(share * 100)}%`;
+
+/**
+ * Share of the audience (0-1) per value of one dimension.
+ * All shares are 0 when there is no audience for that dimension.
+ */
+function audienceShares<K extends string>(counts: Record<K, number>, keys: K[]): Record<K, number> {
+  const total = keys.reduce((sum, k) => sum + counts[k], 0);
+  return keys.reduce((shares, k) => {
+    shares[k] = total > 0 ? counts[k] / total : 0;
+    return shares;
+  }, {} as Record<K, number>);
+}
+
+interface DimensionMatch<K extends string> {
+  points: number;
+  share: number;        // Share of the audience reached on this dimension
+  broad: boolean;       // Reached through an 'all' segment
+  matched: K[];         // Specific values reached
+}
+
+/**
+ * Score one dimension (gender or age) across every target segment.
+ * Each audience value takes the best factor among the segments that reach it:
+ * an 'all' segment earns `broadTargetFactor`, a specific one earns the
+ * per-segment weight from settings, both scaled by the ad's own segment weight.
+ */
+function matchDimension<K extends GenderSegment | AgeSegment>(
+  segments: TargetSegment[],
+  pick: (segment: TargetSegment) => K | 'all',
+  shares: Record<K, number>,
+  keys: K[],
+  weights: ScoringWeights
+): DimensionMatch<K> {
+  let points = 0;
+  let share = 0;
+  let broad = false;
+  const matched: K[] = [];
+
+  for (const key of keys) {
+    if (shares[key] === 0) continue;
+
+    const reaching = segments.filter(segment => pick(segment) === 'all' || pick(segment) === key);
+    if (reaching.length === 0) continue;
+
+    // Best factor wins; on a tie prefer the specific segment over 'all'
+    let bestFactor = -1;
+    let bestIsBroad = false;
+    for (const segment of reaching) {
+      const isBroad = pick(segment) === 'all';
+      const factor = segmentWeight(segment) *
+        (isBroad ? weights.broadTargetFactor : weights.segmentWeights[key]);
+      if (factor > bestFactor || (factor === bestFactor && !isBroad)) {
+        bestFactor = factor;
+        bestIsBroad = isBroad;
+      }
+    }
+
+    points += shares[key] * bestFactor;
+    share += shares[key];
+    if (bestIsBroad) broad = true;
+    else matched.push(key);
+  }
+
+  return { points, share, broad, matched };
+}
+
+function dimensionRule<K extends GenderSegment | AgeSegment>(
+  keys: K[],
+  pick: (segment: TargetSegment) => K | 'all',
+  weightOf: (weights: ScoringWeights) => number,
+  broadLabel: string
+): ScoringRule {
+  return ({ ad, demographics, weights }) => {
+    const shares = audienceShares(demographics, keys);
+    const match = matchDimension(getTargetSegments(ad), pick, shares, keys, weights);
+    if (match.share === 0) return [];
+
+    const points = weightOf(weights) * match.points;
+    const label = match.broad ? broadLabel : `${match.matched.join('/')} ${formatShare(match.share)} of audience`;
+    return [{ points, reason: `✓ ${label} (${formatPoints(points)})` }];
+  };
+}
+
+/**
+ * Gender match: points scale with the share of viewers whose gender the ad targets.
+ */
+export const genderShareRule: ScoringRule = dimensionRule(
+  GENDERS, s => s.gender, w => w.genderWeight, 'All genders'
+);
+
+/**
+ * Age match: points scale with the share of viewers in the ad's age groups.
+ */
+export const ageShareRule: ScoringRule = dimensionRule(
+  AGES, s => s.ageGroup, w => w.ageWeight, 'All ages'
+);
+
+/**
+ * Joint match bonus for segments targeting a specific gender AND age group.
+ * DemographicCounts has no joint distribution, so each gender × age cell is
+ * estimated as the product of the marginal shares. Cells reached by several
+ * segments count once, at the highest segment weight.
+ */
+export const jointMatchRule: ScoringRule = ({ ad, demographics, weights }) => {
+  const segments = getTargetSegments(ad).filter(s => s.gender !== 'all' && s.ageGroup !== 'all');
+  if (segments.length === 0) return [];
+
+  const genderShares = audienceShares(demographics, GENDERS);
+  const ageShares = audienceShares(demographics, AGES);
+
+  let jointShare = 0;
+  let weighted = 0;
+  const cells: string[] = [];
+  for (const gender of GENDERS) {
+    for (const age of AGES) {
+      const reaching = segments.filter(s => s.gender === gender && s.ageGroup === age);
+      if (reaching.length === 0) continue;
+      const cellShare = genderShares[gender] * ageShares[age];
+      if (cellShare === 0) continue;
+      jointShare += cellShare;
+      weighted += cellShare * Math.max(...reaching.map(segmentWeight));
+      cells.push(`${gender} + ${age}`);
+    }
+  }
+  if (jointShare === 0) return [];
+
+  const points = weights.jointWeight * weighted;
+  return [{ points, reason: `★ ${cells.join(', ')} ≈${formatShare(jointShare)} (${formatPoints(points)})` }];
+};
+
+/**
+ * Penalty when no segment reaches anyone in the audience on either dimension.
+ */
+export const mismatchRule: ScoringRule = ({ ad, demographics, weights }) => {
+  if (weights.mismatchPenalty === 0) return [];
+
+  const genderShares = audienceShares(demographics, GENDERS);
+  const ageShares = audienceShares(demographics, AGES);
+  const reachesAnyone = getTargetSegments(ad).some(s =>
+    (s.gender === 'all' ? GENDERS.some(g => genderShares[g] > 0) : genderShares[s.gender] > 0) ||
+    (s.ageGroup === 'all' ? AGES.some(a => ageShares[a] > 0) : ageShares[s.ageGroup] > 0)
+  );
+  if (reachesAnyone) return [];
+
+  return [{ points: -weights.mismatchPenalty, reason: `✗ No audience match (${formatPoints(-weights.mismatchPenalty)})` }];
+};
+
+/**
+ * Penalty for the ad that just played, to avoid back-to-back repeats.
+ */
+export const recentPlayRule: ScoringRule = ({ ad, weights, lastPlayedId }) => {
+  if (ad.id !== lastPlayedId || weights.recentPlayPenalty === 0) return [];
+  return [{ points: -weights.recentPlayPenalty, reason: `Just played (${formatPoints(-weights.recentPlayPenalty)})` }];
+};
+
+// Cap the pacing nudge so it never outweighs a strong audience match
+const MAX_PACING_PLAYS = 3;
+
+/**
+ * Even pacing toward an ad's daily target: ads behind schedule get a bonus,
+ * ads ahead of schedule get a penalty.
+ */
+export const pacingRule: ScoringRule = ({ ad, weights, playHistory, now }) => {
+  const pacing = getPacingStatus(ad, playHistory, now);
+  if (!pacing || weights.pacingWeight === 0) return [];
+
+  const deficit = Math.max(-MAX_PACING_PLAYS, Math.min(MAX_PACING_PLAYS, pacing.deficit));
+  const points = weights.pacingWeight * deficit;
+  if (Math.abs(points) < 0.05) return [];
+
+  const label = deficit > 0 ? '📈 Behind pace' : '📉 Ahead of pace';
+  return [{
+    points,
+    reason: `${label}: ${pacing.playsToday} played, ${pacing.expectedByNow.toFixed(1)} expected (${formatPoints(points)})`,
+  }];
+};
+
+export const DEFAULT_SCORING_RULES: ScoringRule[] = [
+  genderShareRule,
+  ageShareRule,
+  jointMatchRule,
+  mismatchRule,
+  recentPlayRule,
+  pacingRule,
+];
+
+/**
+ * Run every rule against an ad and sum the contributions.
+ */
+export function scoreAdWithRules(
+  ctx: ScoringContext,
+  rules: ScoringRule[] = DEFAULT_SCORING_RULES
+): AdScore {
+  const contributions = rules.flatMap(rule => rule(ctx));
+  const score = contributions.reduce((sum, c) => sum + c.points, 0);
+
+  return {
+    ad: ctx.ad,
+    score: Math.round(score * 100) / 100,
+    reasons: contributions.map(c => c.reason),
+  };
+}
+
+/**
+ * Describe the audience mix for logs, e.g. "3F/2M, 4 young/1 adult".
+ * Attention-weighted counts are fractional, so they are rounded to whole viewers.
+ */
+export function describeAudience(demographics: DemographicCounts): string {
+  const ages = AGES
+    .filter(a => Math.round(demographics[a]) > 0)
+    .map(a => `${Math.round(demographics[a])} ${a}`)
+    .join('/');
+  return `${Math.round(demographics.female)}F/${Math.round(demographics.male)}M${ages ? `, ${ages}` : ''}`;
+}
@@ -0,0 +1,112 @@
+/**
+ * Ad Targeting Utilities
+ *
+ * Helpers for multi-segment ad targeting (gender × age combinations)
+ * and migration of ads stored before segments existed.
+ */
+
+import { AdMetadata, TargetSegment } from '@/types/ad';
+
+export type GenderTarget = TargetSegment['gender'];
+export type AgeTarget = TargetSegment['ageGroup'];
+
+export const EVERYONE_SEGMENT: TargetSegment = { gender: 'all', ageGroup: 'all' };
+
+/**
+ * Ad shape as it may appear in localStorage: either the current
+ * `targetSegments` list or the legacy single `gender` + `ageGroup` pair.
+ */
+export type StoredAdMetadata = Omit<AdMetadata, 'targetSegments'> & {
+  targetSegments?: TargetSegment[];
+  gender?: GenderTarget;
+  ageGroup?: AgeTarget;
+};
+
+const GENDER_VALUES: GenderTarget[] = ['male', 'female', 'all'];
+const AGE_VALUES: AgeTarget[] = ['kid', 'young', 'adult', 'all'];
+
+function sanitizeSegment(segment: Partial<TargetSegment>): TargetSegment {
+  const gender = GENDER_VALUES.includes(segment.gender as GenderTarget) ? segment.gender : 'all';
+  const ageGroup = AGE_VALUES.includes(segment.ageGroup as AgeTarget) ? segment.ageGroup : 'all';
+  const weight = typeof segment.weight === 'number' && segment.weight > 0 ? segment.weight : undefined;
+  return weight !== undefined ? { gender, ageGroup, weight } : { gender, ageGroup };
+}
+
+/**
+ * Convert a stored ad (current or legacy shape) into AdMetadata.
+ * Legacy `gender`/`ageGroup` fields become a single target segment.
+ */
+export function migrateAdMetadata(stored: StoredAdMetadata): AdMetadata {
+  const { gender, ageGroup, targetSegments, ...rest } = stored;
+
+  const segments = Array.isArray(targetSegments)
+    ? targetSegments.map(sanitizeSegment)
+    : [sanitizeSegment({ gender, ageGroup })];
+
+  return { ...rest, targetSegments: segments };
+}
+
+/**
+ * Parse a JSON ad list from localStorage, migrating legacy entries.
+ * Returns `fallback` when the key is missing or unreadable.
+ */
+export function loadStoredAds(storageKey: string, fallback: AdMetadata[]): AdMetadata[] {
+  const saved = localStorage.getItem(storageKey);
+  if (!saved) return fallback;
+
+  try {
+    const parsed = JSON.parse(saved) as StoredAdMetadata[];
+    return Array.isArray(parsed) ? parsed.map(migrateAdMetadata) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+/** Segments for an ad, treating an empty list as "everyone". */
+export function getTargetSegments(ad: AdMetadata): TargetSegment[] {
+  return ad.targetSegments && ad.targetSegments.length > 0 ? ad.targetSegments : [EVERYONE_SEGMENT];
+}
+
+export function segmentWeight(segment: TargetSegment): number {
+  return segment.weight ?? 1;
+}
+
+/** True if the ad explicitly targets this gender (not via 'all'). */
+export function targetsGender(ad: AdMetadata, gender: 'male' | 'female'): boolean {
+  return getTargetSegments(ad).some(s => s.gender === gender);
+}
+
+/** True if the ad explicitly targets this age group (not via 'all'). */
+export function targetsAgeGroup(ad: AdMetadata, ageGroup: 'kid' | 'young' | 'adult'): boolean {
+  return getTargetSegments(ad).some(s => s.ageGroup === ageGroup);
+}
+
+/** True if any segment reaches this viewer (including 'all' segments). */
+export function adReaches(ad: AdMetadata, gender?: string, ageGroup?: string): boolean {
+  return getTargetSegments(ad).some(s =>
+    (!gender || s.gender === 'all' || s.gender === gender) &&
+    (!ageGroup || s.ageGroup === 'all' || s.ageGroup === ageGroup)
+  );
+}
+
+/**
+ * Human-readable label for one segment, e.g. "female young", "all ages male".
+ */
+export function describeSegment(segment: TargetSegment): string {
+  if (segment.gender === 'all' && segment.ageGroup === 'all') return 'Everyone';
+  if (segment.gender === 'all') return `${segment.ageGroup} (all genders)`;
+  if (segment.ageGroup === 'all') return `${segment.gender} (all ages)`;
+  return `${segment.gender} ${segment.ageGroup}`;
+}
+
+/**
+ * Human-readable summary of all segments, e.g. "female young, female adult".
+ */
+export function describeTargets(ad: AdMetadata): string {
+  return getTargetSegments(ad)
+    .map(s => {
+      const label = describeSegment(s);
+      return segmentWeight(s) !== 1 ? `${label} ×${segmentWeight(s)}` : label;
+    })
+    .join(', ');
+}
@@ -0,0 +1,253 @@
+/**
+ * Offline Ad Video Cache
+ *
+ * Keeps a local copy of every ad video (and the images of image and slideshow
+ * creatives) in Cache Storage, keyed by URL, so a kiosk that loses its
+ * network keeps playing. Remote files are downloaded once; uploaded files
+ * live only here, under a same-origin `/ad-videos/` URL. The service worker
+ * (public/sw.js) answers requests from this cache; without it, the player
+ * falls back to object URLs.
+ */
+
+// Must match VIDEO_CACHE in public/sw.js
+const VIDEO_CACHE = 'smartads-ad-videos';
+const LOCAL_VIDEO_PREFIX = '/ad-videos/';
+
+export type AdCacheState = 'cached' | 'missing' | 'downloading' | 'error';
+
+export interface AdCacheStatus {
+  state: AdCacheState;
+  /** Size of the cached copy */
+  bytes?: number;
+  /** Download progress 0-100 while downloading */
+  progress?: number;
+  error?: string;
+}
+
+export interface StorageUsage {
+  /** Bytes used by this origin (all storage, not just videos) */
+  usage: number;
+  /** Bytes the browser will let this origin use */
+  quota: number;
+  /** Bytes held by cached ad videos */
+  videoBytes: number;
+  /** True when the browser won't evict our storage under pressure */
+  persisted: boolean;
+}
+
+type CacheListener = (url: string, status: AdCacheStatus) => void;
+
+const listeners = new Set<CacheListener>();
+const inFlight = new Map<string, Promise<AdCacheStatus>>();
+let persistRequested = false;
+
+export function isCacheSupported(): boolean {
+  return typeof caches !== 'undefined';
+}
+
+/** True for uploaded videos, which exist only in the cache. */
+export function isLocalVideo(url: string): boolean {
+  return url.startsWith(LOCAL_VIDEO_PREFIX);
+}
+
+/** Be told about download progress and status changes, from any caller. */
+export function onAdVideoCacheChange(listener: CacheListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function notify(url: string, status: AdCacheStatus) {
+  listeners.forEach(listener => listener(url, status));
+}
+
+function cacheKey(url: string): string {
+  return new URL(url, location.origin).href;
+}
+
+function responseBytes(response: Response): number | undefined {
+  const length = response.headers.get('content-length');
+  return length ? parseInt(length, 10) : undefined;
+}
+
+function videoResponse(blob: Blob, contentType: string): Response {
+  return new Response(blob, {
+    headers: {
+      'Content-Type': contentType || 'video/mp4',
+      'Content-Length': String(blob.size),
+    },
+  });
+}
+
+export async function getCachedVideo(url: string): Promise<Response | undefined> {
+  if (!isCacheSupported() || !url) return undefined;
+  const cache = await caches.open(VIDEO_CACHE);
+  return cache.match(cacheKey(url));
+}
+
+export async function getCacheStatus(url: string): Promise<AdCacheStatus> {
+  const cached = await getCachedVideo(url);
+  return cached ? { state: 'cached', bytes: responseBytes(cached) } : { state: 'missing' };
+}
+
+/** Status per video URL. Downloads in progress report as 'downloading'. */
+export async function getCacheStatuses(urls: string[]): Promise<Map<string, AdCacheStatus>> {
+  const statuses = new Map<string, AdCacheStatus>();
+  for (const url of urls) {
+    statuses.set(url, inFlight.has(url)
+      ? { state: 'downloading', progress: 0 }
+      : await getCacheStatus(url));
+  }
+  return statuses;
+}
+
+async function downloadVideo(url: string): Promise<AdCacheStatus> {
+  notify(url, { state: 'downloading', progress: 0 });
+
+  try {
+    // CORS mode so the bytes are readable - hosts without CORS headers can't be cached
+    const response = await fetch(url, { mode: 'cors' });
+    if (!response.ok) {
+      throw new Error(`${response.status} ${response.statusText}`);
+    }
+
+    const contentType = response.headers.get('content-type') ?? '';
+    if (contentType.startsWith('text/html')) {
+      throw new Error('Not a video file');
+    }
+
+    const total = responseBytes(response);
+    const cache = await caches.open(VIDEO_CACHE);
+    let bytes: number;
+
+    if (response.body && total) {
+      // Stream straight into the cache - long videos never sit in memory
+      let loaded = 0;
+      let reported = 0;
+      const progress = new TransformStream<Uint8Array, Uint8Array>({
+        transform(chunk, controller) {
+          loaded += chunk.length;
+          const percent = Math.round((loaded / total) * 100);
+          if (percent !== reported) {
+            reported = percent;
+            notify(url, { state: 'downloading', progress: percent });
+          }
+          controller.enqueue(chunk);
+        },
+      });
+      await cache.put(cacheKey(url), new Response(response.body.pipeThrough(progress), {
+        headers: {
+          'Content-Type': contentType || 'video/mp4',
+          'Content-Length': String(total),
+        },
+      }));
+      bytes = total;
+    } else {
+      // Unknown length: buffer it so the cached copy records its size
+      const blob = await response.blob();
+      await cache.put(cacheKey(url), videoResponse(blob, contentType));
+      bytes = blob.size;
+    }
+
+    const status: AdCacheStatus = { state: 'cached', bytes };
+    notify(url, status);
+    return status;
+  } catch (err) {
+    const message = err instanceof TypeError
+      ? 'Network or CORS error'
+      : err instanceof Error ? err.message : 'Unknown error';
+    console.warn(`[AdCache] ⚠️ Could not cache ${url}:`, err);
+    const status: AdCacheStatus = { state: 'error', error: message };
+    notify(url, status);
+    return status;
+  }
+}
+
+/** Download one video into the cache. Concurrent calls for the same URL share one download. */
+export async function cacheAdVideo(url: string): Promise<AdCacheStatus> {
+  if (!isCacheSupported()) return { state: 'error', error: 'Cache Storage unavailable' };
+
+  const existing = await getCacheStatus(url);
+  if (existing.state === 'cached') return existing;
+  if (isLocalVideo(url)) return { state: 'error', error: 'Uploaded file is missing from this browser' };
+
+  let download = inFlight.get(url);
+  if (!download) {
+    download = downloadVideo(url).finally(() => inFlight.delete(url));
+    inFlight.set(url, download);
+  }
+  return download;
+}
+
+/**
+ * Download every video not cached yet, one at a time so a kiosk on a slow
+ * link isn't saturated. Returns how many of the URLs are now cached.
+ */
+export async function precacheAdVideos(videoUrls: string[]): Promise<{ cached: number; total: number }> {
+  // A kiosk's cache has to survive disk pressure - ask once per page load
+  if (!persistRequested) {
+    persistRequested = true;
+    navigator.storage?.persist?.().catch(() => false);
+  }
+
+  const urls = [...new Set(videoUrls.filter(Boolean))];
+  let cached = 0;
+  for (const url of urls) {
+    const status = await cacheAdVideo(url);
+    if (status.state === 'cached') cached++;
+  }
+  return { cached, total: urls.length };
+}
+
+/** Store an uploaded video or image and return the URL to save on the ad. */
+export async function storeUploadedFile(file: File): Promise<string> {
+  if (!isCacheSupported()) {
+    throw new Error('This browser cannot store uploaded files');
+  }
+
+  const safeName = file.name.replace(/[^\w.-]+/g, '_');
+  const url = `${LOCAL_VIDEO_PREFIX}${Date.now()}-${safeName}`;
+  const cache = await caches.open(VIDEO_CACHE);
+  await cache.put(cacheKey(url), videoResponse(file, file.type));
+
+  notify(url, { state: 'cached', bytes: file.size });
+  return url;
+}
+
+export async function removeCachedVideo(url: string): Promise<void> {
+  if (!isCacheSupported()) return;
+  const cache = await caches.open(VIDEO_CACHE);
+  await cache.delete(cacheKey(url));
+  notify(url, { state: 'missing' });
+}
+
+/** Storage used by the origin and by cached videos. */
+export async function getStorageUsage(): Promise<StorageUsage> {
+  let videoBytes = 0;
+  if (isCacheSupported()) {
+    const cache = await caches.open(VIDEO_CACHE);
+    for (const request of await cache.keys()) {
+      const response = await cache.match(request);
+      if (response) videoBytes += responseBytes(response) ?? 0;
+    }
+  }
+
+  const storage = typeof navigator !== 'undefined' ? navigator.storage : undefined;
+  const estimate = await storage?.estimate?.().catch(() => undefined);
+  const persisted = await storage?.persisted?.().catch(() => false) ?? false;
+
+  return {
+    usage: estimate?.usage ?? videoBytes,
+    quota: estimate?.quota ?? 0,
+    videoBytes,
+    persisted,
+  };
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024 / 1024).toFixed(1)} GB`;
+  if (bytes >= 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${bytes} B`;
+}
@@ -0,0 +1,145 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { detectAnnotationFormat, importAnnotations } from '@/utils/annotationImport';
+
+const box = (x: number, y: number, width = 40, height = 40) => ({ x, y, width, height });
+
+describe('SmartAds JSON', () => {
+  it('imports labeled faces and keeps a rejected face as an ignore region', () => {
+    const text = JSON.stringify({
+      fps: 25,
+      frames: [
+        { frame: 0, faces: [{ x: 10, y: 20, width: 40, height: 40, gender: 'F', age: '28' }] },
+        { frame: 1, faces: [{ x: 12, y: 20, width: 40, height: 40, gender: 'robot', age: 'adult' }] },
+      ],
+    });
+    const { dataset, errors } = importAnnotations('smartads', text);
+
+    expect(dataset?.fps).toBe(25);
+    expect(dataset?.frames[0].faces).toEqual([{ boundingBox: box(10, 20), gender: 'female', ageGroup: 'young' }]);
+    expect(dataset?.frames[1]).toEqual({ frame: 1, faces: [], ignore: [box(12, 20)] });
+    expect(errors).toEqual([{ location: 'frames[1].faces[0]', message: 'unknown gender "robot"' }]);
+  });
+});
+
+describe('COCO JSON', () => {
+  const coco = (overrides: Record<string, unknown> = {}) => JSON.stringify({
+    images: [{ id: 7, file_name: 'frame_000012.jpg' }, { id: 8, file_name: 'frame_000013.jpg' }],
+    annotations: [
+      { id: 1, image_id: 7, category_id: 1, bbox: [10, 20, 40, 40], attributes: { Gender: 'male', age: '40-49' } },
+      { id: 2, image_id: 7, category_id: 2, bbox: [0, 0, 200, 400], attributes: {} },
+      { id: 3, image_id: 99, category_id: 1, bbox: [10, 20, 40, 40], attributes: { gender: 'male', age: 30 } },
+    ],
+    categories: [{ id: 1, name: 'face' }, { id: 2, name: 'person' }],
+    ...overrides,
+  });
+
+  it('numbers frames from file names and skips non-face categories', () => {
+    const { dataset, errors } = importAnnotations('coco', coco(), { fps: 10 });
+
+    expect(dataset).toEqual({
+      fps: 10,
+      frames: [
+        { frame: 12, faces: [{ boundingBox: box(10, 20), gender: 'male', ageGroup: 'adult' }] },
+        { frame: 13, faces: [] },
+      ],
+    });
+    expect(errors).toEqual([{ location: 'annotation 3', message: 'unknown image_id 99' }]);
+  });
+
+  it('reports null images and annotations without throwing', () => {
+    const { dataset, errors } = importAnnotations('coco', JSON.stringify({
+      images: [null, { id: 1, frame_id: 4 }, { file_name: 'frame_5.jpg' }],
+      annotations: [null, { id: 1, image_id: 1, bbox: [0, 0, 30, 30], attributes: { gender: 'f', age: 'kid' } }],
+    }));
+
+    expect(dataset?.frames.map(f => f.frame)).toEqual([4]);
+    expect(dataset?.frames[0].faces).toHaveLength(1);
+    expect(errors.map(e => e.location)).toEqual(['image #0', 'image #2', 'annotation #0']);
+  });
+
+  it('rejects categories that are not an array', () => {
+    const result = importAnnotations('coco', coco({ categories: {} }));
+    expect(result.dataset).toBeNull();
+    expect(result.errors).toEqual([{ location: 'file', message: 'categories: expected an array' }]);
+  });
+});
+
+describe('CVAT XML', () => {
+  const xml = [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<annotations>',
+    '  <meta><task><size>3</size></task></meta>',
+    '  <track id="0" label="face">',
+    '    <box frame="0" xtl="10" ytl="20" xbr="50" ybr="60" outside="0">',
+    '      <attribute name="gender">female</attribute>',
+    '      <attribute name="age">kid</attribute>',
+    '    </box>',
+    '    <box frame="1" xtl="12" ytl="20" xbr="52" ybr="60" outside="0">',
+    '      <attribute name="age">kid</attribute>',
+    '    </box>',
+    '    <box frame="2" xtl="14" ytl="20" xbr="54" ybr="60" outside="1"></box>',
+    '  </track>',
+    '</annotations>',
+  ].join('\n');
+
+  it('imports track boxes and reports a bad box by its line', () => {
+    const { dataset, errors } = importAnnotations('cvat', xml);
+
+    expect(dataset?.frames).toEqual([
+      { frame: 0, faces: [{ boundingBox: box(10, 20), gender: 'female', ageGroup: 'kid' }] },
+      { frame: 1, faces: [], ignore: [box(12, 20)] },
+      { frame: 2, faces: [] },
+    ]);
+    expect(errors).toEqual([{ location: 'line 9', message: 'missing gender attribute' }]);
+  });
+
+  it('fails on a document that is not XML', () => {
+    const result = importAnnotations('cvat', '<annotations><box></annotations>');
+    expect(result.dataset).toBeNull();
+    expect(result.errors[0].location).toBe('file');
+  });
+});
+
+describe('MOTChallenge txt', () => {
+  const gt = [
+    '1,1,10,20,40,40,1,-1,-1',
+    '1,2,100,20,40,40,0,-1,-1',
+    '2,1,12,20,40,40,1,-1,-1',
+    '2,3,200,20,40,40,1,-1,-1',
+    '3,3,202,20,40,40,1,-1,-1',
+    'x,1,14,20,40,40,1,-1,-1',
+  ].join('\n');
+  const attributes = 'id,gender,age\n1,male,30\n';
+
+  it('imports labeled tracks, conf-0 ignore boxes and unlabeled tracks as ignore regions', () => {
+    const { dataset, errors } = importAnnotations('mot', gt, { attributesText: attributes });
+
+    const male = (x: number) => ({ boundingBox: box(x, 20), gender: 'male', ageGroup: 'young' });
+    expect(dataset?.frames).toEqual([
+      { frame: 0, faces: [male(10)], ignore: [box(100, 20)] },
+      { frame: 1, faces: [male(12)], ignore: [box(200, 20)] },
+      { frame: 2, faces: [], ignore: [box(202, 20)] },
+    ]);
+    // The unlabeled track is reported once, not once per box
+    expect(errors).toEqual([
+      { location: 'line 4', message: 'track 3 has no entry in the attribute file' },
+      { location: 'line 6', message: 'expected "frame,id,left,top,width,height,..."' },
+    ]);
+  });
+
+  it('needs the attribute side-file', () => {
+    const result = importAnnotations('mot', gt);
+    expect(result.dataset).toBeNull();
+    expect(result.errors[0].location).toBe('file');
+  });
+});
+
+describe('detectAnnotationFormat', () => {
+  it('guesses the format from the file name and contents', () => {
+    expect(detectAnnotationFormat('task.xml', '')).toBe('cvat');
+    expect(detectAnnotationFormat('gt.txt', '1,1,0,0,1,1')).toBe('mot');
+    expect(detectAnnotationFormat('labels.json', '{"images":[],"annotations":[]}')).toBe('coco');
+    expect(detectAnnotationFormat('labels.json', '{"fps":30,"frames":[]}')).toBe('smartads');
+  });
+});
@@ -0,0 +1,460 @@
+/**
+ * Annotation Importers
+ *
+ * Turns annotation files from common labeling tools into benchmark ground
+ * truth (per-frame face boxes with gender and age group). Bad records are
+ * skipped and reported with their line (or record) so the rest of a large
+ * dataset still imports.
+ *
+ * - SmartAds JSON: `{ fps, frames: [{ frame, faces: [{ x, y, width, height, gender, age }] }] }`
+ * - COCO JSON: `images` are frames (`frame_id`, else the number in `file_name`,
+ *   else list order); `annotations[].attributes` carry gender and age
+ * - CVAT XML: "for video" tracks or "for images" boxes, with gender and age
+ *   `<attribute>` children; `outside` boxes are ignored
+ * - MOTChallenge `gt.txt` (1-based frames) plus a side-file of `id,gender,age`
+ *   per track
+ *
+ * Ignore boxes (MOT `conf 0`) and rejected records become "don't care"
+ * regions of their frame, so detecting those faces isn't scored as a false
+ * positive. A rejected record without a usable box drops its frame.
+ */
+
+import { AnnotatedFace, AnnotatedFrame, AnnotationError, AnnotationFormat, AnnotationImport, BenchmarkDataset } from '@/types/benchmark';
+
+export const ANNOTATION_FORMAT_LABELS: Record<AnnotationFormat, string> = {
+  smartads: 'SmartAds JSON',
+  coco: 'COCO JSON',
+  cvat: 'CVAT XML',
+  mot: 'MOTChallenge txt',
+};
+
+// Assumed frame rate for formats that don't record one
+export const DEFAULT_ANNOTATION_FPS = 30;
+
+const GENDER_ALIASES: Record<string, AnnotatedFace['gender']> = {
+  male: 'male', m: 'male', man: 'male', boy: 'male',
+  female: 'female', f: 'female', woman: 'female', girl: 'female',
+};
+
+const AGE_GROUP_ALIASES: Record<string, AnnotatedFace['ageGroup']> = {
+  kid: 'kid', child: 'kid', children: 'kid',
+  young: 'young', youth: 'young', teen: 'young', 'young adult': 'young',
+  adult: 'adult', senior: 'adult', elderly: 'adult', old: 'adult',
+};
+
+const GENDER_KEYS = ['gender', 'sex'];
+const AGE_KEYS = ['age', 'age_group', 'agegroup', 'age group'];
+
+type FaceBox = AnnotatedFace['boundingBox'];
+
+// Same buckets as the detector: kid (<13), young (13-34), adult (35+)
+export function ageToGroup(age: number): AnnotatedFace['ageGroup'] {
+  if (age < 13) return 'kid';
+  if (age < 35) return 'young';
+  return 'adult';
+}
+
+function parseGender(value: unknown): AnnotatedFace['gender'] | null {
+  return GENDER_ALIASES[String(value ?? '').trim().toLowerCase()] ?? null;
+}
+
+/** Years ("28"), a range ("20-29", midpoint) or a group name. */
+function parseAgeGroup(value: unknown): AnnotatedFace['ageGroup'] | null {
+  if (typeof value === 'number') return value >= 0 ? ageToGroup(value) : null;
+  const text = String(value ?? '').trim().toLowerCase();
+  if (!text) return null;
+  if (AGE_GROUP_ALIASES[text]) return AGE_GROUP_ALIASES[text];
+
+  const range = text.match(/^(\d+(?:\.\d+)?)\s*-\s*(\d+(?:\.\d+)?)$/);
+  if (range) return ageToGroup((parseFloat(range[1]) + parseFloat(range[2])) / 2);
+  const years = Number(text);
+  return Number.isFinite(years) && years >= 0 ? ageToGroup(years) : null;
+}
+
+// Attribute names vary between tools - match them case-insensitively
+function findAttribute(attributes: Record<string, unknown>, keys: string[]): unknown {
+  const entry = Object.entries(attributes).find(([key]) => keys.includes(key.trim().toLowerCase()));
+  return entry?.[1];
+}
+
+/** A labeled face, or why the record can't be one. */
+function toFace(box: FaceBox, attributes: Record<string, unknown>): AnnotatedFace | string {
+  if (![box.x, box.y, box.width, box.height].every(Number.isFinite)) return 'box coordinates must be numbers';
+  if (box.width <= 0 || box.height <= 0) return 'box width and height must be positive';
+
+  const rawGender = findAttribute(attributes, GENDER_KEYS);
+  const gender = parseGender(rawGender);
+  if (!gender) {
+    return rawGender === undefined ? 'missing gender attribute' : `unknown gender "${rawGender}"`;
+  }
+
+  const rawAge = findAttribute(attributes, AGE_KEYS);
+  const ageGroup = parseAgeGroup(rawAge);
+  if (!ageGroup) {
+    return rawAge === undefined ? 'missing age attribute' : `unknown age "${rawAge}"`;
+  }
+
+  return { boundingBox: box, gender, ageGroup };
+}
+
+const isUsableBox = (box: FaceBox) =>
+  [box.x, box.y, box.width, box.height].every(Number.isFinite) && box.width > 0 && box.height > 0;
+
+/** Collects faces per frame; listed frames without faces stay as labeled empty frames. */
+class FrameCollector {
+  private frames = new Map<number, AnnotatedFrame>();
+  // Frames with a rejected record of unknown extent - their ground truth is incomplete
+  private dropped = new Set<number>();
+
+  markFrame(frame: number) {
+    if (!this.frames.has(frame)) this.frames.set(frame, { frame, faces: [] });
+  }
+
+  add(frame: number, face: AnnotatedFace) {
+    this.markFrame(frame);
+    this.frames.get(frame)!.faces.push(face);
+  }
+
+  /** Leave a frame out of the dataset - something in it couldn't be placed. */
+  drop(frame: number) {
+    this.dropped.add(frame);
+  }
+
+  /** A box that isn't a labeled face - an ignore region or a rejected record. */
+  ignore(frame: number, box: FaceBox) {
+    if (!isUsableBox(box)) {
+      this.drop(frame);
+      return;
+    }
+    this.markFrame(frame);
+    const annotated = this.frames.get(frame)!;
+    annotated.ignore = [...(annotated.ignore ?? []), box];
+  }
+
+  toDataset(fps: number): BenchmarkDataset | null {
+    const frames = [...this.frames.values()]
+      .filter(f => !this.dropped.has(f.frame))
+      .sort((a, b) => a.frame - b.frame);
+    return frames.length > 0 ? { fps, frames } : null;
+  }
+}
+
+const fatal = (format: AnnotationFormat, message: string): AnnotationImport => ({
+  format,
+  dataset: null,
+  errors: [{ location: 'file', message }],
+});
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+// 1-based line of each character offset, for tools that only give offsets
+function lineAt(text: string, offsets: number[]): number[] {
+  const lines: number[] = [];
+  let line = 1;
+  let pos = 0;
+  for (const offset of offsets) {
+    for (; pos < offset; pos++) {
+      if (text.charCodeAt(pos) === 10) line++;
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+function importSmartAds(text: string): AnnotationImport {
+  const data = parseJson(text) as { fps?: unknown; frames?: unknown } | undefined;
+  if (!data || typeof data !== 'object') return fatal('smartads', 'not valid JSON');
+  if (typeof data.fps !== 'number' || data.fps <= 0) return fatal('smartads', 'fps: expected a positive number');
+  if (!Array.isArray(data.frames)) return fatal('smartads', 'frames: expected an array');
+
+  const collector = new FrameCollector();
+  const errors: AnnotationError[] = [];
+  const seen = new Set<number>();
+
+  data.frames.forEach((raw, i) => {
+    const location = `frames[${i}]`;
+    const { frame, faces } = (raw ?? {}) as { frame?: unknown; faces?: unknown };
+    if (typeof frame !== 'number' || !Number.isInteger(frame) || frame < 0) {
+      errors.push({ location, message: 'frame: expected a frame number' });
+      return;
+    }
+    if (seen.has(frame)) {
+      errors.push({ location, message: `frame ${frame} is annotated twice` });
+      return;
+    }
+    if (!Array.isArray(faces)) {
+      errors.push({ location, message: 'faces: expected an array' });
+      return;
+    }
+    seen.add(frame);
+    collector.markFrame(frame);
+
+    faces.forEach((rawFace, j) => {
+      const face = (rawFace ?? {}) as Record<string, unknown>;
+      const result = toFace(
+        { x: face.x as number, y: face.y as number, width: face.width as number, height: face.height as number },
+        face
+      );
+      if (typeof result === 'string') {
+        errors.push({ location: `${location}.faces[${j}]`, message: result });
+        collector.ignore(frame, { x: face.x as number, y: face.y as number, width: face.width as number, height: face.height as number });
+      } else {
+        collector.add(frame, result);
+      }
+    });
+  });
+
+  return { format: 'smartads', dataset: collector.toDataset(data.fps), errors };
+}
+
+interface CocoImage { id: number; file_name?: string; frame_id?: number }
+interface CocoAnnotation {
+  id?: number;
+  image_id?: number;
+  category_id?: number;
+  bbox?: number[];
+  attributes?: Record<string, unknown>;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function importCoco(text: string, fps: number): AnnotationImport {
+  const data = parseJson(text) as {
+    images?: unknown[];
+    annotations?: unknown[];
+    categories?: unknown;
+  } | undefined;
+  if (!data || typeof data !== 'object') return fatal('coco', 'not valid JSON');
+  if (!Array.isArray(data.images) || !Array.isArray(data.annotations)) {
+    return fatal('coco', 'expected "images" and "annotations" arrays');
+  }
+  if (data.categories !== undefined && !Array.isArray(data.categories)) {
+    return fatal('coco', 'categories: expected an array');
+  }
+
+  // With a "face" category, other categories (e.g. "person") are ignored
+  const faceCategories = new Set(((data.categories ?? []) as unknown[])
+    .filter(isRecord)
+    .filter(c => /face/i.test(String(c.name ?? '')))
+    .map(c => c.id));
+
+  const collector = new FrameCollector();
+  const errors: AnnotationError[] = [];
+  const frameOfImage = new Map<number, number>();
+
+  data.images.forEach((raw, index) => {
+    if (!isRecord(raw) || typeof raw.id !== 'number') {
+      errors.push({ location: `image #${index}`, message: 'expected an object with a numeric id' });
+      return;
+    }
+    const image = raw as unknown as CocoImage;
+    const fromName = (typeof image.file_name === 'string' ? image.file_name : '').match(/(\d+)\.\w+$/);
+    const frame = Number.isInteger(image.frame_id) ? image.frame_id!
+      : fromName ? parseInt(fromName[1], 10)
+      : index;
+    frameOfImage.set(image.id, frame);
+    collector.markFrame(frame);
+  });
+
+  data.annotations.forEach((raw, index) => {
+    if (!isRecord(raw)) {
+      errors.push({ location: `annotation #${index}`, message: 'expected an object' });
+      return;
+    }
+    const annotation = raw as CocoAnnotation;
+    const location = `annotation ${annotation.id ?? `#${index}`}`;
+    if (faceCategories.size > 0 && !faceCategories.has(annotation.category_id ?? -1)) return;
+
+    const frame = frameOfImage.get(annotation.image_id ?? -1);
+    if (frame === undefined) {
+      errors.push({ location, message: `unknown image_id ${annotation.image_id}` });
+      return;
+    }
+    if (!Array.isArray(annotation.bbox) || annotation.bbox.length !== 4) {
+      errors.push({ location, message: 'bbox: expected [x, y, width, height]' });
+      collector.drop(frame);
+      return;
+    }
+
+    const [x, y, width, height] = annotation.bbox;
+    const result = toFace({ x, y, width, height }, isRecord(annotation.attributes) ? annotation.attributes : {});
+    if (typeof result === 'string') {
+      errors.push({ location, message: result });
+      collector.ignore(frame, { x, y, width, height });
+    } else {
+      collector.add(frame, result);
+    }
+  });
+
+  return { format: 'coco', dataset: collector.toDataset(fps), errors };
+}
+
+function importCvat(text: string, fps: number): AnnotationImport {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  const parseError = doc.querySelector('parsererror');
+  if (parseError) return fatal('cvat', `not valid XML: ${parseError.textContent?.split('\n')[0] ?? ''}`);
+  if (doc.documentElement.nodeName !== 'annotations') return fatal('cvat', 'expected an <annotations> root element');
+
+  // Elements come back in document order, so the Nth <box> tag in the text is the Nth box element
+  const boxLines = lineAt(text, [...text.matchAll(/<box\b/g)].map(m => m.index ?? 0));
+  const boxes = [...doc.getElementsByTagName('box')];
+
+  const collector = new FrameCollector();
+  const errors: AnnotationError[] = [];
+
+  // Video tasks label every frame of the task, even ones with no boxes
+  const size = parseInt(doc.querySelector('meta task size, meta job size')?.textContent ?? '', 10);
+  if (Number.isInteger(size) && doc.getElementsByTagName('track').length > 0) {
+    for (let frame = 0; frame < size; frame++) collector.markFrame(frame);
+  }
+  for (const image of doc.getElementsByTagName('image')) {
+    const frame = parseInt(image.getAttribute('id') ?? '', 10);
+    if (Number.isInteger(frame)) collector.markFrame(frame);
+  }
+
+  boxes.forEach((box, index) => {
+    const location = `line ${boxLines[index] ?? '?'}`;
+    const parent = box.parentElement;
+    const label = box.getAttribute('label') ?? parent?.getAttribute('label') ?? '';
+    // Only face boxes when the task labels other things too
+    if (label && !/face/i.test(label)) return;
+    if (box.getAttribute('outside') === '1') return;
+
+    const frameAttr = parent?.nodeName === 'image' ? parent.getAttribute('id') : box.getAttribute('frame');
+    const frame = parseInt(frameAttr ?? '', 10);
+    if (!Number.isInteger(frame) || frame < 0) {
+      errors.push({ location, message: 'missing frame number' });
+      return;
+    }
+
+    const [xtl, ytl, xbr, ybr] = ['xtl', 'ytl', 'xbr', 'ybr'].map(name => parseFloat(box.getAttribute(name) ?? ''));
+    const attributes: Record<string, unknown> = {};
+    for (const attribute of box.getElementsByTagName('attribute')) {
+      attributes[attribute.getAttribute('name') ?? ''] = attribute.textContent ?? '';
+    }
+
+    const faceBox = { x: xtl, y: ytl, width: xbr - xtl, height: ybr - ytl };
+    const result = toFace(faceBox, attributes);
+    if (typeof result === 'string') {
+      errors.push({ location, message: result });
+      collector.ignore(frame, faceBox);
+    } else {
+      collector.add(frame, result);
+    }
+  });
+
+  return { format: 'cvat', dataset: collector.toDataset(fps), errors };
+}
+
+/** MOT attribute side-file: `id,gender,age` per line, optional header. */
+function parseMotAttributes(text: string, errors: AnnotationError[]): Map<number, Record<string, unknown>> {
+  const tracks = new Map<number, Record<string, unknown>>();
+  text.split(/\r?\n/).forEach((line, index) => {
+    const fields = line.split(',').map(f => f.trim());
+    if (!line.trim() || (index === 0 && !/^\d+$/.test(fields[0]))) return;
+
+    const location = `attributes line ${index + 1}`;
+    const id = parseInt(fields[0], 10);
+    if (!Number.isInteger(id) || fields.length < 3) {
+      errors.push({ location, message: 'expected "id,gender,age"' });
+      return;
+    }
+    tracks.set(id, { gender: fields[1], age: fields[2] });
+  });
+  return tracks;
+}
+
+function importMot(text: string, attributesText: string | undefined, fps: number): AnnotationImport {
+  if (!attributesText) return fatal('mot', 'MOTChallenge needs an attribute side-file (id,gender,age per track)');
+
+  const errors: AnnotationError[] = [];
+  const attributes = parseMotAttributes(attributesText, errors);
+  const collector = new FrameCollector();
+  const unlabeledTracks = new Set<number>();
+  let lastFrame = 0;
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) return;
+    const location = `line ${index + 1}`;
+    const fields = line.trim().split(/[,\s]+/).map(Number);
+    if (fields.length < 6 || fields.slice(0, 6).some(f => !Number.isFinite(f))) {
+      errors.push({ location, message: 'expected "frame,id,left,top,width,height,..."' });
+      return;
+    }
+
+    const [frame, id, x, y, width, height, conf] = fields;
+    if (!Number.isInteger(frame) || frame < 1) {
+      errors.push({ location, message: `frame ${frame} is not a 1-based frame number` });
+      return;
+    }
+    lastFrame = Math.max(lastFrame, frame);
+    const box = { x, y, width, height };
+    // conf 0 marks boxes the ground truth says to ignore
+    if (conf === 0) {
+      collector.ignore(frame - 1, box);
+      return;
+    }
+
+    const trackAttributes = attributes.get(id);
+    if (!trackAttributes) {
+      // Once per track, not once per box
+      if (!unlabeledTracks.has(id)) {
+        unlabeledTracks.add(id);
+        errors.push({ location, message: `track ${id} has no entry in the attribute file` });
+      }
+      collector.ignore(frame - 1, box);
+      return;
+    }
+
+    const result = toFace(box, trackAttributes);
+    if (typeof result === 'string') {
+      errors.push({ location, message: `track ${id}: ${result}` });
+      collector.ignore(frame - 1, box);
+    } else {
+      collector.add(frame - 1, result);
+    }
+  });
+
+  // MOT ground truth covers every frame up to the last one
+  for (let frame = 0; frame < lastFrame; frame++) collector.markFrame(frame);
+
+  return { format: 'mot', dataset: collector.toDataset(fps), errors };
+}
+
+/** Best guess from the file name and contents. */
+export function detectAnnotationFormat(fileName: string, text: string): AnnotationFormat {
+  const name = fileName.toLowerCase();
+  if (name.endsWith('.xml') || text.trimStart().startsWith('<')) return 'cvat';
+  if (name.endsWith('.txt') || name.endsWith('.csv')) return 'mot';
+  const data = parseJson(text) as Record<string, unknown> | undefined;
+  return data && Array.isArray(data.images) && Array.isArray(data.annotations) ? 'coco' : 'smartads';
+}
+
+/**
+ * Import an annotation file. `fps` applies to formats that don't store one;
+ * MOT needs its attribute side-file.
+ */
+export function importAnnotations(
+  format: AnnotationFormat,
+  text: string,
+  { fps = DEFAULT_ANNOTATION_FPS, attributesText }: { fps?: number; attributesText?: string } = {}
+): AnnotationImport {
+  // Last guard - a record shape no importer checks for shouldn't take the page down
+  try {
+    switch (format) {
+      case 'coco': return importCoco(text, fps);
+      case 'cvat': return importCvat(text, fps);
+      case 'mot': return importMot(text, attributesText, fps);
+      default: return importSmartAds(text);
+    }
+  } catch (err) {
+    return fatal(format, `could not import: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
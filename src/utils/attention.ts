@@ -0,0 +1,116 @@
+/**
+ * Viewer Attention
+ *
+ * Estimates head yaw/pitch from face-api.js 68-point landmarks, decides
+ * whether a face is looking at the screen, and turns per-viewer attention
+ * into weights so engaged viewers count more than passers-by.
+ *
+ * Pose is a geometric approximation (nose tip vs. jaw line and eye line),
+ * good enough to tell "facing the screen" from "walking past" - not a full
+ * 3D head-pose solve.
+ */
+
+import { DemographicCounts, HeadPose } from '@/types/ad';
+import { ViewerAggregate } from '@/types/detection';
+
+export interface FacePoint {
+  x: number;
+  y: number;
+}
+
+/** Faces turned further than this are not looking at the screen. */
+export const LOOKING_MAX_YAW = 30;
+export const LOOKING_MAX_PITCH = 25;
+
+/** Viewers with at least this much attention count as engaged. */
+export const MIN_ENGAGED_SECONDS = 1;
+
+/** Weight of a viewer who never looked, relative to one who watched throughout. */
+export const PASSERBY_WEIGHT = 0.25;
+
+// Longest gap between two sightings still counted as continuous dwell
+export const MAX_DWELL_GAP_MS = 2000;
+
+// Nose tip sits about a third of the way from the eye line to the chin on a frontal face
+const NEUTRAL_NOSE_RATIO = 0.33;
+const PITCH_DEGREES_PER_RATIO = 150;
+
+const RAD_TO_DEG = 180 / Math.PI;
+
+const mean = (points: FacePoint[]) => ({
+  x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+  y: points.reduce((sum, p) => sum + p.y, 0) / points.length,
+});
+
+/**
+ * Head pose from the 68-point layout (0-16 jaw, 30 nose tip, 36-47 eyes, 8 chin).
+ * Returns null for malformed landmark sets.
+ */
+export function estimateHeadPose(points: FacePoint[]): HeadPose | null {
+  if (points.length < 68) return null;
+
+  const jawLeft = points[0];
+  const jawRight = points[16];
+  const noseTip = points[30];
+  const chin = points[8];
+  const eyes = mean(points.slice(36, 48));
+
+  const faceWidth = jawRight.x - jawLeft.x;
+  const faceHeight = chin.y - eyes.y;
+  if (faceWidth <= 0 || faceHeight <= 0) return null;
+
+  // Yaw: nose offset from the jaw midline, -1 (hard left) .. 1 (hard right)
+  const offset = ((noseTip.x - jawLeft.x) - (jawRight.x - noseTip.x)) / faceWidth;
+  const yaw = Math.asin(Math.max(-1, Math.min(1, offset))) * RAD_TO_DEG;
+
+  // Pitch: nose drops toward the chin when looking down, rises toward the eyes looking up
+  const noseRatio = (noseTip.y - eyes.y) / faceHeight;
+  const pitch = (noseRatio - NEUTRAL_NOSE_RATIO) * PITCH_DEGREES_PER_RATIO;
+
+  return { yaw, pitch };
+}
+
+export function isLookingAtScreen(pose: HeadPose): boolean {
+  return Math.abs(pose.yaw) <= LOOKING_MAX_YAW && Math.abs(pose.pitch) <= LOOKING_MAX_PITCH;
+}
+
+/**
+ * Add one sighting to a viewer's dwell/attention. The time since the
+ * previous sighting counts toward dwell, and toward attention if the viewer
+ * was looking. Unknown looking state (no landmark model) counts as looking,
+ * so attention falls back to dwell time.
+ */
+export function accumulateAttention(
+  viewer: Pick<ViewerAggregate, 'dwellSeconds' | 'attentionSeconds' | 'lastSeenAt'>,
+  now: number,
+  isLooking: boolean | undefined
+) {
+  const elapsedSeconds = Math.min(Math.max(0, now - viewer.lastSeenAt), MAX_DWELL_GAP_MS) / 1000;
+  viewer.dwellSeconds += elapsedSeconds;
+  if (isLooking !== false) {
+    viewer.attentionSeconds += elapsedSeconds;
+  }
+}
+
+export function isEngaged(viewer: ViewerAggregate): boolean {
+  return viewer.attentionSeconds >= MIN_ENGAGED_SECONDS;
+}
+
+/** PASSERBY_WEIGHT for a viewer who never looked, up to 1 for one who watched the whole time. */
+export function engagementWeight(viewer: ViewerAggregate): number {
+  const attentionShare = viewer.dwellSeconds > 0
+    ? Math.min(1, viewer.attentionSeconds / viewer.dwellSeconds)
+    : 1;
+  return PASSERBY_WEIGHT + (1 - PASSERBY_WEIGHT) * attentionShare;
+}
+
+/** Demographic counts where each viewer contributes their engagement weight instead of 1. */
+export function attentionWeightedDemographics(viewers: ViewerAggregate[]): DemographicCounts {
+  const counts: DemographicCounts = { male: 0, female: 0, kid: 0, young: 0, adult: 0 };
+  for (const viewer of viewers) {
+    const weight = engagementWeight(viewer);
+    counts[viewer.finalGender] += weight;
+    counts[viewer.finalAgeGroup] += weight;
+  }
+  return counts;
+}
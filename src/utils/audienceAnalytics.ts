@@ -0,0 +1,105 @@
+/**
+ * Audience Analytics
+ *
+ * Aggregates stored capture sessions into the totals, mixes and breakdowns
+ * shown on the /analytics page. Pure functions - loading lives in proofOfPlay.ts.
+ */
+
+import { DemographicCounts } from '@/types/ad';
+import { StoredCaptureSession } from '@/utils/proofOfPlay';
+
+export interface HourlyAudience {
+  hour: number;       // 0-23, local time
+  label: string;      // "07:00"
+  sessions: number;
+  viewers: number;
+}
+
+export interface AdAudience extends DemographicCounts {
+  adId: string;
+  adTitle: string;
+  sessions: number;
+  viewers: number;
+  /** Mean expression engagement (0-100) over sessions that recorded one, else null. */
+  engagementScore: number | null;
+  engagementSessions: number;
+}
+
+export interface AudienceAnalytics {
+  sessions: number;
+  uniqueViewers: number;
+  retainedViewers: number;
+  avgViewersPerSession: number;
+  demographics: DemographicCounts;
+  byHour: HourlyAudience[];
+  byAd: AdAudience[];
+}
+
+const emptyDemographics = (): DemographicCounts => ({ male: 0, female: 0, kid: 0, young: 0, adult: 0 });
+
+const addDemographics = (target: DemographicCounts, source: DemographicCounts) => {
+  target.male += source.male;
+  target.female += source.female;
+  target.kid += source.kid;
+  target.young += source.young;
+  target.adult += source.adult;
+};
+
+export function aggregateSessions(sessions: StoredCaptureSession[]): AudienceAnalytics {
+  const demographics = emptyDemographics();
+  const byHour: HourlyAudience[] = Array.from({ length: 24 }, (_, hour) => ({
+    hour,
+    label: `${String(hour).padStart(2, '0')}:00`,
+    sessions: 0,
+    viewers: 0,
+  }));
+  const byAd = new Map<string, AdAudience>();
+  const engagementTotals = new Map<string, number>();
+
+  let uniqueViewers = 0;
+  let retainedViewers = 0;
+
+  for (const session of sessions) {
+    uniqueViewers += session.uniqueViewers;
+    retainedViewers += session.retainedViewers ?? 0;
+    addDemographics(demographics, session.demographics);
+
+    const hour = byHour[new Date(session.startedAt).getHours()];
+    hour.sessions++;
+    hour.viewers += session.uniqueViewers;
+
+    let ad = byAd.get(session.adId);
+    if (!ad) {
+      ad = {
+        adId: session.adId,
+        adTitle: session.adTitle,
+        sessions: 0,
+        viewers: 0,
+        engagementScore: null,
+        engagementSessions: 0,
+        ...emptyDemographics(),
+      };
+      byAd.set(session.adId, ad);
+    }
+    ad.sessions++;
+    ad.viewers += session.uniqueViewers;
+    addDemographics(ad, session.demographics);
+
+    if (session.engagementScore !== undefined) {
+      const total = (engagementTotals.get(session.adId) ?? 0) + session.engagementScore;
+      engagementTotals.set(session.adId, total);
+      ad.engagementSessions++;
+      ad.engagementScore = Math.round(total / ad.engagementSessions);
+    }
+  }
+
+  return {
+    sessions: sessions.length,
+    uniqueViewers,
+    retainedViewers,
+    avgViewersPerSession: sessions.length > 0 ? uniqueViewers / sessions.length : 0,
+    demographics,
+    byHour,
+    byAd: Array.from(byAd.values()).sort((a, b) => b.viewers - a.viewers),
+  };
+}
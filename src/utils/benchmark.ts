@@ -0,0 +1,109 @@
+/**
+ * Offline Detection Benchmark
+ *
+ * Scores the face detection pipeline against an annotated video: each
+ * sampled frame's detections are matched one-to-one to the labeled faces by
+ * IoU. Matched pairs become evaluation entries for the usual classification
+ * metrics; unmatched detections are false positives and unmatched labels are
+ * missed faces. Unmatched detections on a frame's "don't care" regions are
+ * left out. Datasets come from the annotation importers.
+ */
+
+import { DetectionResult } from '@/types/ad';
+import { AnnotatedFrame, BenchmarkDataset, DetectionMetrics, FrameBenchmark } from '@/types/benchmark';
+import { GroundTruthEntry } from '@/types/evaluation';
+import { boxIoU } from '@/utils/faceTracker';
+import { solveAssignment } from '@/utils/hungarian';
+
+export const DEFAULT_IOU_THRESHOLD = 0.5;
+export const DEFAULT_FRAME_STEP = 10;
+
+/** Annotated frames on the step grid (every Nth frame) - unannotated frames have no ground truth. */
+export function sampleFrames(dataset: BenchmarkDataset, frameStep: number): AnnotatedFrame[] {
+  const step = Math.max(1, Math.round(frameStep));
+  return dataset.frames.filter(f => f.frame % step === 0);
+}
+
+export interface FrameScore {
+  frame: Omit<FrameBenchmark, 'latencyMs'>;
+  /** One per scored detection: matched ones carry the label, the rest are false positives */
+  entries: GroundTruthEntry[];
+  /** IoU of each matched pair */
+  ious: number[];
+}
+
+/**
+ * Match one frame's detections to its labeled faces (one-to-one, maximizing
+ * total IoU) and turn them into entries.
+ */
+export function scoreFrame(
+  detections: DetectionResult[],
+  annotated: AnnotatedFrame,
+  fps: number,
+  iouThreshold: number,
+  modelVersion?: string
+): FrameScore {
+  const time = annotated.frame / fps;
+  const ious = detections.map(d => annotated.faces.map(f => boxIoU(d.boundingBox, f.boundingBox)));
+  // Pairs under the threshold cost the same as leaving both unmatched
+  const assignment = solveAssignment(ious.map(row => row.map(iou => iou >= iouThreshold ? 1 - iou : 1)));
+
+  const entries: GroundTruthEntry[] = [];
+  const matchedIous: number[] = [];
+  const matchedFaces = new Set<number>();
+  const ignore = annotated.ignore ?? [];
+
+  detections.forEach((detection, d) => {
+    const f = assignment[d];
+    const iou = f >= 0 ? ious[d][f] : 0;
+    const face = iou >= iouThreshold ? annotated.faces[f] : undefined;
+    if (face) {
+      matchedFaces.add(f);
+      matchedIous.push(iou);
+    } else if (ignore.some(box => boxIoU(detection.boundingBox, box) >= iouThreshold)) {
+      // On an ignore region or a face without a usable label - not scored
+      return;
+    }
+
+    entries.push({
+      id: `bench_${annotated.frame}_${d}`,
+      timestamp: Math.round(time * 1000),
+      boundingBox: detection.boundingBox ?? { x: 0, y: 0, width: 0, height: 0 },
+      detectedGender: detection.gender,
+      detectedAgeGroup: detection.ageGroup,
+      detectedConfidence: detection.confidence,
+      detectedFaceScore: detection.faceScore,
+      actualGender: face?.gender ?? detection.gender,
+      actualAgeGroup: face?.ageGroup ?? detection.ageGroup,
+      isFalsePositive: !face,
+      modelVersion,
+      rawGender: detection.rawGender,
+      sourceMode: 'video',
+    });
+  });
+
+  return {
+    frame: {
+      frame: annotated.frame,
+      time,
+      truePositives: matchedFaces.size,
+      falsePositives: entries.length - matchedFaces.size,
+      falseNegatives: annotated.faces.length - matchedFaces.size,
+    },
+    entries,
+    ious: matchedIous,
+  };
+}
+
+export function calculateDetectionMetrics(frames: FrameBenchmark[], ious: number[]): DetectionMetrics {
+  const truePositives = frames.reduce((sum, f) => sum + f.truePositives, 0);
+  const falsePositives = frames.reduce((sum, f) => sum + f.falsePositives, 0);
+  const falseNegatives = frames.reduce((sum, f) => sum + f.falseNegatives, 0);
+
+  const precision = truePositives + falsePositives > 0 ? truePositives / (truePositives + falsePositives) : 0;
+  const recall = truePositives + falseNegatives > 0 ? truePositives / (truePositives + falseNegatives) : 0;
+  const f1 = precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0;
+  const meanIoU = ious.length > 0 ? ious.reduce((sum, iou) => sum + iou, 0) / ious.length : 0;
+
+  return { truePositives, falsePositives, falseNegatives, precision, recall, f1, meanIoU };
+}
@@ -0,0 +1,322 @@
+/**
+ * Learned Bias Correction
+ *
+ * A logistic regression trained in the browser on labeled evaluation entries,
+ * replacing the hand-tuned female boost and the tracker's extra female vote
+ * weight. It maps the raw face-api.js gender output, face size, hair score
+ * and input source to P(male). The fit minimizes log loss, so the output is
+ * calibrated too and per-source calibration is skipped while a model is in
+ * use. Trained models are kept as numbered versions; the one in use is copied
+ * into the capture settings.
+ */
+
+import { RawGenderScore } from '@/types/ad';
+import {
+  BiasCorrectionMetrics,
+  BiasCorrectionModel,
+  CalibrationSource,
+  ConfidenceCalibration,
+  GenderCalibration,
+  GroundTruthEntry,
+} from '@/types/evaluation';
+import {
+  MAX_NEWTON_STEPS,
+  REGULARIZATION,
+  calibrateGender,
+  expectedCalibrationError,
+  logit,
+  reliabilityBins,
+  sigmoid,
+} from '@/utils/confidenceCalibration';
+import { applyFemaleBoost } from '@/utils/genderHeuristics';
+
+export const BIAS_MODELS_KEY = 'smartads-bias-models';
+// Highest version ever saved, so a deleted version's number is never reused
+const LAST_VERSION_KEY = 'smartads-bias-models-last-version';
+const MAX_STORED_MODELS = 10;
+
+export const MIN_TRAINING_SAMPLES = 50;
+export const MIN_SAMPLES_PER_GENDER = 10;
+
+/** Feature order of the model weights. */
+export const BIAS_FEATURES = [
+  'Intercept',
+  'Raw score (male logit)',
+  'Raw gender is male',
+  'Face size',
+  'Raw score x face size',
+  'Hair score',
+  'Video source',
+  'Screen source',
+] as const;
+
+// Regularization pulls weights toward "trust the raw score" when labels are few
+const PRIOR_WEIGHTS = [0, 1, 0, 0, 0, 0, 0, 0];
+const CV_FOLDS = 5;
+// Face heights are measured against 64px (log2 scale, 0 at 64px)
+const REFERENCE_FACE_PX = 64;
+
+export interface BiasCorrectionInput {
+  gender: 'male' | 'female';
+  probability: number;
+  hairScore?: number;
+  faceHeight: number;
+  sourceMode?: CalibrationSource;
+}
+
+function biasFeatures(input: BiasCorrectionInput): number[] {
+  const score = logit(input.gender === 'male' ? input.probability : 1 - input.probability);
+  const faceSize = Math.log2(Math.max(input.faceHeight, 8) / REFERENCE_FACE_PX);
+  return [
+    1,
+    score,
+    input.gender === 'male' ? 1 : 0,
+    faceSize,
+    score * faceSize,
+    (input.hairScore ?? 0.5) - 0.5,
+    input.sourceMode === 'video' ? 1 : 0,
+    input.sourceMode === 'screen' ? 1 : 0,
+  ];
+}
+
+function predict(weights: number[], features: number[]): { gender: 'male' | 'female'; confidence: number } {
+  const maleProbability = sigmoid(features.reduce((sum, x, i) => sum + x * weights[i], 0));
+  return maleProbability >= 0.5
+    ? { gender: 'male', confidence: maleProbability }
+    : { gender: 'female', confidence: 1 - maleProbability };
+}
+
+/** Corrected gender and its probability. A model from a different feature set is ignored. */
+export function correctGender(
+  model: BiasCorrectionModel,
+  input: BiasCorrectionInput
+): { gender: 'male' | 'female'; confidence: number } {
+  if (model.weights.length !== BIAS_FEATURES.length) {
+    return { gender: input.gender, confidence: input.probability };
+  }
+  return predict(model.weights, biasFeatures(input));
+}
+
+/** How raw gender output is corrected: a learned model, or calibration then the fixed boost. */
+export interface GenderCorrection {
+  femaleBoostFactor: number;
+  calibration?: ConfidenceCalibration;
+  model?: BiasCorrectionModel | null;
+}
+
+/** A correction resolved for one source, as the detection pipelines run it. */
+export interface SourceGenderCorrection {
+  sourceMode?: CalibrationSource;
+  femaleBoostFactor: number;
+  calibration?: GenderCalibration;
+  model?: BiasCorrectionModel | null;
+}
+
+/**
+ * Raw face-api.js gender output through the learned model, or through the
+ * source's calibration and then the fixed boost. Both detection pipelines
+ * and the evaluation replay go through here.
+ */
+export function correctRawGender(
+  raw: RawGenderScore,
+  faceHeight: number,
+  correction: SourceGenderCorrection
+): { gender: 'male' | 'female'; confidence: number } {
+  if (correction.model) {
+    return correctGender(correction.model, { ...raw, faceHeight, sourceMode: correction.sourceMode });
+  }
+
+  const calibrated = calibrateGender(raw.gender, raw.probability, correction.calibration);
+  if (correction.femaleBoostFactor <= 0) return calibrated;
+  return applyFemaleBoost(calibrated.gender, calibrated.confidence, correction.femaleBoostFactor, raw.hairScore ?? 0.5);
+}
+
+/**
+ * The pipeline's gender output for an entry under a correction. Entries
+ * without raw output keep what was recorded.
+ */
+export function replayGender(
+  entry: GroundTruthEntry,
+  correction: GenderCorrection
+): { gender: 'male' | 'female'; confidence: number } {
+  if (!entry.rawGender) return { gender: entry.detectedGender, confidence: entry.detectedConfidence };
+  return correctRawGender(entry.rawGender, entry.boundingBox.height, {
+    sourceMode: entry.sourceMode,
+    femaleBoostFactor: correction.femaleBoostFactor,
+    calibration: entry.sourceMode && correction.calibration?.[entry.sourceMode],
+    model: correction.model,
+  });
+}
+
+function entryInput(entry: GroundTruthEntry): BiasCorrectionInput {
+  return {
+    gender: entry.rawGender!.gender,
+    probability: entry.rawGender!.probability,
+    hairScore: entry.rawGender!.hairScore,
+    faceHeight: entry.boundingBox.height,
+    sourceMode: entry.sourceMode,
+  };
+}
+
+/** Real faces that recorded the raw gender output. */
+export function trainingEntries(entries: GroundTruthEntry[]): GroundTruthEntry[] {
+  return entries.filter(e => !e.isFalsePositive && e.rawGender);
+}
+
+/** Why the entries can't train a model yet, or null when they can. */
+export function trainingShortfall(entries: GroundTruthEntry[]): string | null {
+  const training = trainingEntries(entries);
+  if (training.length < MIN_TRAINING_SAMPLES) {
+    return `Needs ${MIN_TRAINING_SAMPLES} labeled faces with raw scores (have ${training.length})`;
+  }
+  const females = training.filter(e => e.actualGender === 'female').length;
+  const fewest = Math.min(females, training.length - females);
+  if (fewest < MIN_SAMPLES_PER_GENDER) {
+    return `Needs ${MIN_SAMPLES_PER_GENDER} labeled faces of each gender`;
+  }
+  return null;
+}
+
+// Gaussian elimination with partial pivoting; null when singular
+function solveLinear(matrix: number[][], vector: number[]): number[] | null {
+  const n = vector.length;
+  const a = matrix.map((row, i) => [...row, vector[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    if (Math.abs(a[pivot][col]) < 1e-12) return null;
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = a[row][col] / a[col][col];
+      for (let k = col; k <= n; k++) a[row][k] -= factor * a[col][k];
+    }
+  }
+
+  const x = new Array(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = a[row][n];
+    for (let k = row + 1; k < n; k++) sum -= a[row][k] * x[k];
+    x[row] = sum / a[row][row];
+  }
+  return x;
+}
+
+// Newton's method on the regularized log loss
+function fitWeights(features: number[][], labels: number[]): number[] {
+  const n = PRIOR_WEIGHTS.length;
+  let weights = [...PRIOR_WEIGHTS];
+
+  for (let step = 0; step < MAX_NEWTON_STEPS; step++) {
+    // The intercept is left unregularized
+    const gradient = weights.map((w, i) => i === 0 ? 0 : REGULARIZATION * (w - PRIOR_WEIGHTS[i]));
+    const hessian = Array.from({ length: n }, (_, i) =>
+      Array.from({ length: n }, (_, j) => i === j && i !== 0 ? REGULARIZATION : 0)
+    );
+
+    features.forEach((x, s) => {
+      const p = sigmoid(x.reduce((sum, xi, i) => sum + xi * weights[i], 0));
+      const w = p * (1 - p);
+      for (let i = 0; i < n; i++) {
+        gradient[i] += (p - labels[s]) * x[i];
+        for (let j = 0; j < n; j++) hessian[i][j] += w * x[i] * x[j];
+      }
+    });
+
+    const delta = solveLinear(hessian, gradient);
+    if (!delta) break;
+    weights = weights.map((w, i) => w - delta[i]);
+    if (delta.every(d => Math.abs(d) < 1e-6)) break;
+  }
+  return weights;
+}
+
+function measure(predictions: { gender: 'male' | 'female'; confidence: number; actual: 'male' | 'female' }[]): BiasCorrectionMetrics {
+  const correct = predictions.filter(p => p.gender === p.actual);
+  const males = predictions.filter(p => p.actual === 'male');
+  const females = predictions.filter(p => p.actual === 'female');
+  const bins = reliabilityBins(predictions.map(p => ({ confidence: p.confidence, correct: p.gender === p.actual })));
+
+  return {
+    genderAccuracy: predictions.length > 0 ? correct.length / predictions.length : 0,
+    maleRecall: males.length > 0 ? males.filter(p => p.gender === 'male').length / males.length : 0,
+    femaleRecall: females.length > 0 ? females.filter(p => p.gender === 'female').length / females.length : 0,
+    ece: expectedCalibrationError(bins),
+  };
+}
+
+/**
+ * Train a model on every eligible entry. The reported metrics are
+ * cross-validated (each entry scored by a model that didn't see it), and
+ * compared with the fixed boost path under the given settings.
+ */
+export function trainBiasCorrection(
+  entries: GroundTruthEntry[],
+  fixed: Omit<GenderCorrection, 'model'>,
+  version: number
+): BiasCorrectionModel | null {
+  if (trainingShortfall(entries)) return null;
+
+  const training = trainingEntries(entries);
+  const features = training.map(e => biasFeatures(entryInput(e)));
+  const labels = training.map(e => e.actualGender === 'male' ? 1 : 0);
+
+  // Each entry is scored by the fold model that didn't see it
+  const foldWeights = Array.from({ length: CV_FOLDS }, (_, fold) => fitWeights(
+    features.filter((_, i) => i % CV_FOLDS !== fold),
+    labels.filter((_, i) => i % CV_FOLDS !== fold)
+  ));
+
+  const afterPredictions = training.map((entry, i) => ({
+    ...predict(foldWeights[i % CV_FOLDS], features[i]),
+    actual: entry.actualGender,
+  }));
+  const beforePredictions = training.map(entry => ({
+    ...replayGender(entry, fixed),
+    actual: entry.actualGender,
+  }));
+
+  return {
+    version,
+    trainedAt: Date.now(),
+    samples: training.length,
+    weights: fitWeights(features, labels),
+    before: measure(beforePredictions),
+    after: measure(afterPredictions),
+  };
+}
+
+/** Stored versions, newest first. */
+export function loadBiasModels(): BiasCorrectionModel[] {
+  try {
+    const saved = localStorage.getItem(BIAS_MODELS_KEY);
+    if (!saved) return [];
+    const parsed = JSON.parse(saved);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function lastSavedVersion(): number {
+  return Number(localStorage.getItem(LAST_VERSION_KEY)) || 0;
+}
+
+/** Keeps the newest versions only. */
+export function saveBiasModels(models: BiasCorrectionModel[]): void {
+  const newestFirst = [...models].sort((a, b) => b.version - a.version).slice(0, MAX_STORED_MODELS);
+  localStorage.setItem(BIAS_MODELS_KEY, JSON.stringify(newestFirst));
+  localStorage.setItem(LAST_VERSION_KEY, String(Math.max(lastSavedVersion(), newestFirst[0]?.version ?? 0)));
+}
+
+export function nextBiasModelVersion(models: BiasCorrectionModel[]): number {
+  return models.reduce((max, m) => Math.max(max, m.version), lastSavedVersion()) + 1;
+}
+
+/** Stamped on evaluation entries next to the registry model tags. */
+export function biasCorrectionTag(model: BiasCorrectionModel): string {
+  return `biasCorrection@v${model.version}`;
+}
@@ -0,0 +1,128 @@
+/**
+ * Capture Settings Persistence
+ *
+ * The dashboard's capture and detection settings survive a reload, and the
+ * admin evaluation pages read them so a benchmark runs the configuration the
+ * kiosk is actually using. Model versions keep their own key in the model
+ * registry (the cached YOLO download and evaluation history are tied to them).
+ */
+
+import { CaptureSettings } from '@/components/SettingsPanel';
+import { FaceDetectionOptions } from '@/hooks/useFaceDetection';
+import { DEFAULT_SCORING_WEIGHTS } from '@/utils/adScoring';
+import { loadModelSelection, saveModelSelection } from '@/utils/modelRegistry';
+import { SourceGenderCorrection } from '@/utils/biasCorrection';
+
+const SETTINGS_STORAGE_KEY = 'smartads-capture-settings';
+
+// Default 40% capture window (60%-100%) and medium sensitivity
+export const DEFAULT_CAPTURE_SETTINGS: Omit<CaptureSettings, 'modelVersions'> = {
+  startPercent: 60,
+  endPercent: 100,
+  detectionSensitivity: 0.35,
+  detectionMode: 'accurate',
+  videoQuality: 'lowQuality',
+  falsePositiveMinScore: 0.18,
+  minDemographicConfidence: 0.75,
+  confidenceCalibration: {},
+  femaleBoostFactor: 0.15,
+  biasCorrectionModel: null,
+  enableHairHeuristics: true,
+  requireFaceTexture: false, // Disabled by default - can cause real face rejection
+  useDualModelForVideo: true,
+  enableYoloForVideo: false,
+  scoringWeights: DEFAULT_SCORING_WEIGHTS,
+  queueLength: 2,
+  queueReorderMode: 'replace',
+  adSelectionMode: 'rules',
+  adTransition: 'crossfade',
+  transitionMs: 500,
+  trackingAlgorithm: 'greedy',
+  enableExpressionAnalysis: false,
+};
+
+/** Saved settings over the defaults, so settings added later get their default. */
+export function loadCaptureSettings(): CaptureSettings {
+  let saved: Partial<CaptureSettings> = {};
+  try {
+    const raw = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    if (raw) saved = JSON.parse(raw);
+  } catch {
+    console.warn('[Settings] Ignoring unreadable saved settings');
+  }
+
+  return {
+    ...DEFAULT_CAPTURE_SETTINGS,
+    ...saved,
+    scoringWeights: { ...DEFAULT_CAPTURE_SETTINGS.scoringWeights, ...saved.scoringWeights },
+    modelVersions: loadModelSelection(),
+  };
+}
+
+export function saveCaptureSettings(settings: CaptureSettings) {
+  const { modelVersions, ...rest } = settings;
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(rest));
+  saveModelSelection(modelVersions);
+}
+
+/** Change some saved settings outside the dashboard (e.g. from the threshold sweep). */
+export function updateStoredCaptureSettings(patch: Partial<Omit<CaptureSettings, 'modelVersions'>>): CaptureSettings {
+  const next = { ...loadCaptureSettings(), ...patch };
+  saveCaptureSettings(next);
+  return next;
+}
+
+/** Calls the listener when another tab saves settings; returns the unsubscribe. */
+export function onStoredCaptureSettingsChange(listener: (settings: CaptureSettings) => void): () => void {
+  const handleStorage = (e: StorageEvent) => {
+    if (e.key === SETTINGS_STORAGE_KEY) listener(loadCaptureSettings());
+  };
+  window.addEventListener('storage', handleStorage);
+  return () => window.removeEventListener('storage', handleStorage);
+}
+
+/** Gender correction for a source. A learned bias correction replaces both calibration and the boost. */
+export function genderCorrectionFor(
+  settings: CaptureSettings,
+  sourceMode: NonNullable<FaceDetectionOptions['sourceMode']>
+): SourceGenderCorrection {
+  const learned = settings.biasCorrectionModel;
+  return learned
+    ? { sourceMode, femaleBoostFactor: 0, model: learned }
+    : { sourceMode, femaleBoostFactor: settings.femaleBoostFactor, calibration: settings.confidenceCalibration[sourceMode] };
+}
+
+/**
+ * useFaceDetection options for the settings and input source. Webcams run
+ * TinyFace only (SSD produces ghost faces on live cameras); video files and
+ * screen capture always run dual TinyFace + SSD, with the rescue passes when
+ * Enhanced Detection is on.
+ */
+export function detectionOptionsFor(
+  settings: CaptureSettings,
+  sourceMode: NonNullable<FaceDetectionOptions['sourceMode']>,
+  { cctvMode = false, debugMode = false }: { cctvMode?: boolean; debugMode?: boolean } = {}
+): FaceDetectionOptions {
+  const isVideoMode = sourceMode === 'video' || sourceMode === 'screen';
+
+  return {
+    sourceMode,
+    // Video is always treated as CCTV footage
+    cctvMode: isVideoMode || cctvMode,
+    modelSelection: settings.modelVersions,
+    useDualModel: isVideoMode,
+    config: {
+      debugMode,
+      hardMinFaceScore: settings.falsePositiveMinScore,
+      detector: sourceMode === 'webcam' ? 'tiny' : 'dual',
+      detectionMode: settings.detectionMode,
+      videoQuality: settings.videoQuality,
+      genderCorrection: genderCorrectionFor(settings, sourceMode),
+      enableHairHeuristics: settings.enableHairHeuristics,
+      requireFaceTexture: settings.requireFaceTexture,
+      enableEnhancedRescue: isVideoMode && settings.enableYoloForVideo,
+      // Expression pass for engagement scoring (only runs if the model is present)
+      enableExpressions: settings.enableExpressionAnalysis,
+    },
+  };
+}
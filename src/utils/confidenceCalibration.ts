@@ -0,0 +1,189 @@
+/**
+ * Confidence Calibration
+ *
+ * face-api.js gender probabilities are not calibrated: a "0.80" face is
+ * right far less than 80% of the time on CCTV footage. Temperature or Platt
+ * scaling is fitted per source mode on labeled entries' raw gender output,
+ * then applied in processDetections before the female boost, so Min
+ * Demographic Confidence and the tracker's vote threshold mean measured
+ * accuracy. Reliability bins span 0.5-1: the predicted gender's probability
+ * is never below 0.5.
+ */
+
+import {
+  CalibrationSource,
+  ConfidenceCalibration,
+  GenderCalibration,
+  GroundTruthEntry,
+  ReliabilityBin,
+} from '@/types/evaluation';
+
+export const CALIBRATION_SOURCES: CalibrationSource[] = ['webcam', 'video', 'screen'];
+export const RELIABILITY_BIN_COUNT = 10;
+
+/** Fewer labels than this fit noise rather than the model's bias. */
+export const MIN_CALIBRATION_SAMPLES = 30;
+
+// Shared with the learned bias correction (biasCorrection.ts), which fits the same way.
+// Pulls the fit toward its prior (here identity: scale 1, bias 0) when labels are few or separable
+export const REGULARIZATION = 1;
+export const MAX_NEWTON_STEPS = 50;
+export const PROBABILITY_EPSILON = 1e-4;
+
+export interface CalibrationSample {
+  confidence: number;
+  correct: boolean;
+}
+
+export const sigmoid = (z: number) => 1 / (1 + Math.exp(-z));
+
+/** Log-odds of a probability, clamped away from 0 and 1. */
+export function logit(p: number): number {
+  const clamped = Math.min(1 - PROBABILITY_EPSILON, Math.max(PROBABILITY_EPSILON, p));
+  return Math.log(clamped / (1 - clamped));
+}
+
+/** Calibrated gender and its probability; without a calibration the input is returned as is. */
+export function calibrateGender(
+  gender: 'male' | 'female',
+  probability: number,
+  calibration?: GenderCalibration
+): { gender: 'male' | 'female'; confidence: number } {
+  if (!calibration) return { gender, confidence: probability };
+
+  const maleProbability = gender === 'male' ? probability : 1 - probability;
+  const calibrated = sigmoid(calibration.scale * logit(maleProbability) + calibration.bias);
+  return calibrated >= 0.5
+    ? { gender: 'male', confidence: calibrated }
+    : { gender: 'female', confidence: 1 - calibrated };
+}
+
+/** Real-face entries from one source that recorded the raw gender output. */
+export function fittingEntries(entries: GroundTruthEntry[], source: CalibrationSource): GroundTruthEntry[] {
+  return entries.filter(e => !e.isFalsePositive && e.rawGender && e.sourceMode === source);
+}
+
+/** Confidence as recorded - what the thresholds actually saw. */
+export function recordedSamples(entries: GroundTruthEntry[]): CalibrationSample[] {
+  return entries
+    .filter(e => !e.isFalsePositive)
+    .map(e => ({ confidence: e.detectedConfidence, correct: e.detectedGender === e.actualGender }));
+}
+
+/** Raw face-api.js output, passed through the calibration for each entry's source when given. */
+export function rawSamples(entries: GroundTruthEntry[], calibration: ConfidenceCalibration = {}): CalibrationSample[] {
+  return entries
+    .filter(e => !e.isFalsePositive && e.rawGender)
+    .map(e => {
+      const { gender, confidence } = calibrateGender(
+        e.rawGender!.gender,
+        e.rawGender!.probability,
+        e.sourceMode && calibration[e.sourceMode]
+      );
+      return { confidence, correct: gender === e.actualGender };
+    });
+}
+
+export function reliabilityBins(samples: CalibrationSample[], binCount = RELIABILITY_BIN_COUNT): ReliabilityBin[] {
+  const width = 0.5 / binCount;
+  const bins = Array.from({ length: binCount }, (_, i) => ({
+    lower: 0.5 + i * width,
+    upper: 0.5 + (i + 1) * width,
+    count: 0,
+    confidenceSum: 0,
+    correct: 0,
+  }));
+
+  for (const sample of samples) {
+    const index = Math.min(binCount - 1, Math.max(0, Math.floor((sample.confidence - 0.5) / width)));
+    bins[index].count++;
+    bins[index].confidenceSum += sample.confidence;
+    if (sample.correct) bins[index].correct++;
+  }
+
+  return bins.map(({ lower, upper, count, confidenceSum, correct }) => ({
+    lower,
+    upper,
+    count,
+    avgConfidence: count > 0 ? confidenceSum / count : 0,
+    accuracy: count > 0 ? correct / count : 0,
+  }));
+}
+
+/** Sample-weighted mean gap between confidence and accuracy across bins. */
+export function expectedCalibrationError(bins: ReliabilityBin[]): number {
+  const total = bins.reduce((sum, b) => sum + b.count, 0);
+  if (total === 0) return 0;
+  return bins.reduce((sum, b) => sum + (b.count / total) * Math.abs(b.accuracy - b.avgConfidence), 0);
+}
+
+/**
+ * Fit scale (and for Platt, bias) by Newton's method on the log loss of the
+ * raw male probability against the labels. Null below the sample minimum.
+ */
+export function fitCalibration(
+  entries: GroundTruthEntry[],
+  source: CalibrationSource,
+  method: GenderCalibration['method']
+): GenderCalibration | null {
+  const fitting = fittingEntries(entries, source);
+  if (fitting.length < MIN_CALIBRATION_SAMPLES) return null;
+
+  const xs = fitting.map(e => logit(e.rawGender!.gender === 'male' ? e.rawGender!.probability : 1 - e.rawGender!.probability));
+  const ys = fitting.map(e => e.actualGender === 'male' ? 1 : 0);
+
+  let scale = 1;
+  let bias = 0;
+  for (let step = 0; step < MAX_NEWTON_STEPS; step++) {
+    let gScale = REGULARIZATION * (scale - 1);
+    let gBias = REGULARIZATION * bias;
+    let hScale = REGULARIZATION;
+    let hCross = 0;
+    let hBias = REGULARIZATION;
+
+    xs.forEach((x, i) => {
+      const p = sigmoid(scale * x + bias);
+      const w = p * (1 - p);
+      gScale += (p - ys[i]) * x;
+      gBias += p - ys[i];
+      hScale += w * x * x;
+      hCross += w * x;
+      hBias += w;
+    });
+
+    let dScale: number;
+    let dBias = 0;
+    if (method === 'temperature') {
+      dScale = gScale / hScale;
+    } else {
+      const det = hScale * hBias - hCross * hCross;
+      if (Math.abs(det) < 1e-12) break;
+      dScale = (hBias * gScale - hCross * gBias) / det;
+      dBias = (hScale * gBias - hCross * gScale) / det;
+    }
+
+    scale -= dScale;
+    bias -= dBias;
+    if (Math.abs(dScale) < 1e-6 && Math.abs(dBias) < 1e-6) break;
+  }
+
+  const fitted: GenderCalibration = {
+    method,
+    scale,
+    bias,
+    samples: fitting.length,
+    fittedAt: Date.now(),
+    eceBefore: 0,
+    eceAfter: 0,
+  };
+  fitted.eceBefore = expectedCalibrationError(reliabilityBins(rawSamples(fitting)));
+  fitted.eceAfter = expectedCalibrationError(reliabilityBins(rawSamples(fitting, { [source]: fitted })));
+  return fitted;
+}
+
+/** Fitted parameters as shown to users: temperature T = 1 / scale, or Platt a and b. */
+export function describeCalibration(calibration: GenderCalibration): string {
+  return calibration.method === 'temperature'
+    ? `T = ${(1 / calibration.scale).toFixed(2)}`
+    : `a = ${calibration.scale.toFixed(2)}, b = ${calibration.bias.toFixed(2)}`;
+}
@@ -0,0 +1,91 @@
+/**
+ * Expression Engagement
+ *
+ * Turns faceExpressionNet probability distributions into an engagement
+ * score. Each viewer's expressions are averaged over the frames they were
+ * seen, viewers are averaged into a session distribution, and the score
+ * (0-100) weights reactive expressions (happy, surprised) above a flat
+ * neutral stare. A heuristic signal for comparing ads, not a measure of
+ * how anyone actually feels.
+ */
+
+import { ExpressionScores, FaceExpression } from '@/types/ad';
+
+export const FACE_EXPRESSIONS: FaceExpression[] = [
+  'neutral', 'happy', 'sad', 'angry', 'fearful', 'disgusted', 'surprised',
+];
+
+/** How much each expression counts toward engagement (0-1). */
+export const EXPRESSION_ENGAGEMENT_WEIGHTS: ExpressionScores = {
+  happy: 1,
+  surprised: 0.9,
+  neutral: 0.4,
+  sad: 0.3,
+  fearful: 0.3,
+  angry: 0.2,
+  disgusted: 0.1,
+};
+
+export const EXPRESSION_EMOJI: Record<FaceExpression, string> = {
+  neutral: '😐',
+  happy: '😊',
+  sad: '😢',
+  angry: '😠',
+  fearful: '😨',
+  disgusted: '🤢',
+  surprised: '😮',
+};
+
+export const emptyExpressions = (): ExpressionScores => ({
+  neutral: 0, happy: 0, sad: 0, angry: 0, fearful: 0, disgusted: 0, surprised: 0,
+});
+
+/** Add one frame's probabilities into a running sum. */
+export function addExpressions(target: ExpressionScores, source: ExpressionScores) {
+  for (const e of FACE_EXPRESSIONS) {
+    target[e] += source[e];
+  }
+}
+
+/** Divide a running sum into a distribution (all zeros when count is 0). */
+export function averageExpressions(sum: ExpressionScores, count: number): ExpressionScores {
+  const avg = emptyExpressions();
+  if (count <= 0) return avg;
+  for (const e of FACE_EXPRESSIONS) {
+    avg[e] = sum[e] / count;
+  }
+  return avg;
+}
+
+/**
+ * Session distribution: each viewer's mean distribution counts once, so a
+ * viewer seen for many frames doesn't drown out the rest. Returns null when
+ * no viewer has expression samples.
+ */
+export function sessionExpressions(
+  viewers: { expressions?: ExpressionScores; expressionFrames?: number }[]
+): ExpressionScores | null {
+  const sum = emptyExpressions();
+  let count = 0;
+
+  for (const viewer of viewers) {
+    if (!viewer.expressions || !viewer.expressionFrames) continue;
+    addExpressions(sum, averageExpressions(viewer.expressions, viewer.expressionFrames));
+    count++;
+  }
+
+  return count > 0 ? averageExpressions(sum, count) : null;
+}
+
+/** Engagement score 0-100 for an expression distribution. */
+export function engagementScore(distribution: ExpressionScores): number {
+  const total = FACE_EXPRESSIONS.reduce((sum, e) => sum + distribution[e], 0);
+  if (total <= 0) return 0;
+
+  const weighted = FACE_EXPRESSIONS.reduce((sum, e) => sum + distribution[e] * EXPRESSION_ENGAGEMENT_WEIGHTS[e], 0);
+  return Math.round((weighted / total) * 100);
+}
+
+export function dominantExpression(distribution: ExpressionScores): FaceExpression {
+  return FACE_EXPRESSIONS.reduce((best, e) => (distribution[e] > distribution[best] ? e : best), 'neutral' as FaceExpression);
+}
@@ -0,0 +1,82 @@
+/**
+ * Face Crop Analysis
+ *
+ * Per-face work that runs on the final detection boxes: 128-d appearance
+ * descriptors (re-identification), 68-point landmarks (head pose /
+ * attention) and expression probabilities (engagement). Shared by
+ * useFaceDetection and the face detection worker so both inference paths
+ * produce identical results.
+ */
+
+import * as faceapi from 'face-api.js';
+import { ExpressionScores, FaceBoundingBox } from '@/types/ad';
+import { FacePoint } from '@/utils/attention';
+
+export interface FaceAnalysis {
+  descriptor: Float32Array | null;
+  landmarks: FacePoint[] | null;
+  expressions: ExpressionScores | null;
+}
+
+/** Which optional models to run - skipped ones yield null fields. */
+export interface FaceAnalysisModels {
+  descriptors: boolean;
+  landmarks: boolean;
+  expressions: boolean;
+}
+
+export async function analyzeFaceCrops(
+  input: HTMLVideoElement | HTMLCanvasElement,
+  boxes: FaceBoundingBox[],
+  models: FaceAnalysisModels
+): Promise<FaceAnalysis[]> {
+  if (boxes.length === 0 || (!models.descriptors && !models.landmarks && !models.expressions)) {
+    return boxes.map(() => ({ descriptor: null, landmarks: null, expressions: null }));
+  }
+
+  const crops = await faceapi.extractFaces(input, boxes.map(b => new faceapi.Rect(b.x, b.y, b.width, b.height)));
+
+  // One crop at a time - the nets share the GPU
+  const results: FaceAnalysis[] = [];
+  for (const crop of crops) {
+    const analysis: FaceAnalysis = { descriptor: null, landmarks: null, expressions: null };
+
+    if (models.descriptors) {
+      try {
+        analysis.descriptor = await faceapi.computeFaceDescriptor(crop) as Float32Array;
+      } catch {
+        // Leave null - this face just can't be re-identified this frame
+      }
+    }
+
+    if (models.landmarks) {
+      try {
+        const landmarks = await faceapi.detectFaceLandmarksTiny(crop) as faceapi.FaceLandmarks68;
+        analysis.landmarks = landmarks.positions.map(p => ({ x: p.x, y: p.y }));
+      } catch {
+        // Leave null - attention falls back to "looking"
+      }
+    }
+
+    if (models.expressions) {
+      try {
+        const e = await faceapi.recognizeFaceExpressions(crop) as faceapi.FaceExpressions;
+        analysis.expressions = {
+          neutral: e.neutral,
+          happy: e.happy,
+          sad: e.sad,
+          angry: e.angry,
+          fearful: e.fearful,
+          disgusted: e.disgusted,
+          surprised: e.surprised,
+        };
+      } catch {
+        // Leave null - this frame just doesn't count toward engagement
+      }
+    }
+
+    results.push(analysis);
+  }
+
+  return results;
+}
@@ -0,0 +1,58 @@
+/**
+ * face-api.js Model Loading
+ *
+ * Loads registry-resolved face-api.js weights with hash verification. The
+ * manifest and shards are fetched once, hashed, then decoded straight into
+ * the network, so the weights in use are exactly the bytes that were checked.
+ * Shared by useFaceDetection, useHybridDetection and the face detection worker.
+ */
+
+import * as faceapi from 'face-api.js';
+import { FaceApiModelId, ModelIntegrityError, ResolvedModel, verifyModelBytes } from '@/utils/modelRegistry';
+
+async function fetchBytes(model: ResolvedModel, url: string): Promise<ArrayBuffer> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`${model.name}: ${url} not found (${response.status})`);
+  }
+  return response.arrayBuffer();
+}
+
+/** Load (or swap in) a face-api.js network. Throws if files are missing or fail verification. */
+export async function loadFaceApiModel(model: ResolvedModel): Promise<void> {
+  const base = model.url.replace(/\/$/, '');
+
+  const manifestBytes = await fetchBytes(model, `${base}/${model.manifest}-weights_manifest.json`);
+  const manifest = JSON.parse(new TextDecoder().decode(manifestBytes)) as faceapi.tf.io.WeightsManifestConfig;
+  const shards = await Promise.all(
+    manifest.flatMap(group => group.paths).map(path => fetchBytes(model, `${base}/${path}`))
+  );
+
+  await verifyModelBytes(model, [manifestBytes, ...shards]);
+
+  const weightMap = faceapi.tf.io.decodeWeights(
+    faceapi.tf.io.concatenateArrayBuffers(shards),
+    manifest.flatMap(group => group.weights)
+  );
+
+  // Switching versions replaces the weights - free the old ones first
+  const net = faceapi.nets[model.id as FaceApiModelId];
+  if (net.isLoaded) net.dispose(false);
+  net.loadFromWeightMap(weightMap);
+}
+
+/**
+ * Optional models: false when missing or corrupt. Integrity failures are
+ * logged as errors - a missing optional model is normal, a tampered one isn't.
+ */
+export async function tryLoadFaceApiModel(model: ResolvedModel): Promise<boolean> {
+  try {
+    await loadFaceApiModel(model);
+    return true;
+  } catch (err) {
+    if (err instanceof ModelIntegrityError) {
+      console.error(`[Models] ❌ ${err.message}`);
+    }
+    return false;
+  }
+}
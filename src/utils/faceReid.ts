@@ -0,0 +1,113 @@
+/**
+ * Face Re-identification
+ *
+ * Compares 128-d faceRecognitionNet descriptors so a viewer who leaves the
+ * frame and returns keeps the same identity within a capture session.
+ * Descriptors are biometric data: they live in memory only and must never be
+ * written to localStorage, IndexedDB or exports.
+ */
+
+import { ViewerAggregate, getStableGender, getStableAgeGroup } from '@/types/detection';
+import { addExpressions, emptyExpressions } from '@/utils/engagement';
+
+/** Euclidean distance below which two descriptors are the same person (face-api.js convention). */
+export const DEFAULT_REID_THRESHOLD = 0.6;
+
+// Running means stop moving much after this many samples
+const MAX_DESCRIPTOR_SAMPLES = 10;
+
+export function descriptorDistance(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    const d = a[i] - b[i];
+    sum += d * d;
+  }
+  return Math.sqrt(sum);
+}
+
+/**
+ * Fold a new sample into a running mean descriptor. `samples` is how many
+ * descriptors the current mean already holds.
+ */
+export function blendDescriptor(current: Float32Array | undefined, next: Float32Array, samples: number): Float32Array {
+  if (!current || samples <= 0) return new Float32Array(next);
+
+  const weight = 1 / Math.min(samples + 1, MAX_DESCRIPTOR_SAMPLES);
+  const blended = new Float32Array(current.length);
+  for (let i = 0; i < current.length; i++) {
+    blended[i] = current[i] + (next[i] - current[i]) * weight;
+  }
+  return blended;
+}
+
+/** Index of the closest candidate within `threshold`, or -1. */
+export function findClosestDescriptor(
+  descriptor: Float32Array,
+  candidates: (Float32Array | undefined)[],
+  threshold: number = DEFAULT_REID_THRESHOLD
+): number {
+  let best = -1;
+  let bestDistance = threshold;
+
+  candidates.forEach((candidate, i) => {
+    if (!candidate) return;
+    const distance = descriptorDistance(descriptor, candidate);
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = i;
+    }
+  });
+
+  return best;
+}
+
+/**
+ * Merge session viewers that share an appearance - e.g. someone re-entered
+ * while their old track was still being held, so the tracker opened a second
+ * id. Viewers without a descriptor are kept as-is.
+ */
+export function mergeReturningViewers(
+  viewers: ViewerAggregate[],
+  threshold: number = DEFAULT_REID_THRESHOLD
+): ViewerAggregate[] {
+  const merged: ViewerAggregate[] = [];
+
+  for (const viewer of viewers) {
+    const target = viewer.descriptor
+      ? findClosestDescriptor(viewer.descriptor, merged.map(m => m.descriptor), threshold)
+      : -1;
+
+    if (target < 0) {
+      merged.push({
+        ...viewer,
+        genderVotes: { ...viewer.genderVotes },
+        ageVotes: { ...viewer.ageVotes },
+        expressions: viewer.expressions ? { ...viewer.expressions } : undefined,
+      });
+      continue;
+    }
+
+    const into = merged[target];
+    into.genderVotes.male += viewer.genderVotes.male;
+    into.genderVotes.female += viewer.genderVotes.female;
+    into.ageVotes.kid += viewer.ageVotes.kid;
+    into.ageVotes.young += viewer.ageVotes.young;
+    into.ageVotes.adult += viewer.ageVotes.adult;
+    into.descriptor = blendDescriptor(into.descriptor, viewer.descriptor!, into.seenFrames);
+    into.seenFrames += viewer.seenFrames;
+    into.dwellSeconds += viewer.dwellSeconds;
+    into.attentionSeconds += viewer.attentionSeconds;
+    if (viewer.expressions) {
+      into.expressions = into.expressions ?? emptyExpressions();
+      addExpressions(into.expressions, viewer.expressions);
+      into.expressionFrames = (into.expressionFrames ?? 0) + (viewer.expressionFrames ?? 0);
+    }
+    into.bestFaceScore = Math.max(into.bestFaceScore, viewer.bestFaceScore);
+    into.bestConfidence = Math.max(into.bestConfidence, viewer.bestConfidence);
+    into.lastSeenAt = Math.max(into.lastSeenAt, viewer.lastSeenAt);
+    into.finalGender = getStableGender(into.genderVotes, into.finalGender);
+    into.finalAgeGroup = getStableAgeGroup(into.ageVotes, into.finalAgeGroup);
+  }
+
+  return merged;
+}
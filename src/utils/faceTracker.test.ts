@@ -0,0 +1,156 @@
+import { describe, expect, it } from 'vitest';
+import { DetectionResult } from '@/types/ad';
+import { TrackingAlgorithm } from '@/types/detection';
+import { FaceTracker, FaceTrackerConfig, boxCenterDistance, boxIoU } from '@/utils/faceTracker';
+
+const CONFIG: FaceTrackerConfig = { minConsecutiveFrames: 2, holdFrames: 6, maxVelocityPx: 150 };
+const FRAME_MS = 100;
+const FACE_PX = 60;
+
+// One recorded detection: left, top, gender and an optional appearance descriptor
+type RecordedFace = [number, number, 'male' | 'female', number[]?];
+
+// Two people walking toward each other along a corridor at 20px/frame, as the
+// detector reported them (left to right, so the order flips when they cross)
+const CROSSING: RecordedFace[][] = [
+  [[0, 100, 'male'], [300, 104, 'female']],
+  [[20, 100, 'male'], [280, 104, 'female']],
+  [[40, 100, 'male'], [260, 104, 'female']],
+  [[60, 100, 'male'], [240, 104, 'female']],
+  [[80, 100, 'male'], [220, 104, 'female']],
+  [[100, 100, 'male'], [200, 104, 'female']],
+  [[120, 100, 'male'], [180, 104, 'female']],
+  [[140, 100, 'male'], [160, 104, 'female']],
+  [[140, 104, 'female'], [160, 100, 'male']],
+  [[120, 104, 'female'], [180, 100, 'male']],
+  [[100, 104, 'female'], [200, 100, 'male']],
+  [[80, 104, 'female'], [220, 100, 'male']],
+  [[60, 104, 'female'], [240, 100, 'male']],
+];
+
+// A man walks right past a woman standing still and is hidden for three
+// frames (frames 4-6) before he comes out on the other side
+const OCCLUSION: RecordedFace[][] = [
+  [[0, 100, 'male'], [400, 100, 'female']],
+  [[20, 100, 'male'], [400, 100, 'female']],
+  [[40, 100, 'male'], [400, 100, 'female']],
+  [[60, 100, 'male'], [400, 100, 'female']],
+  [[400, 100, 'female']],
+  [[400, 100, 'female']],
+  [[400, 100, 'female']],
+  [[140, 100, 'male'], [400, 100, 'female']],
+  [[160, 100, 'male'], [400, 100, 'female']],
+];
+
+function toDetections(frame: RecordedFace[]): DetectionResult[] {
+  return frame.map(([x, y, gender, descriptor]) => ({
+    gender,
+    ageGroup: 'adult',
+    confidence: 0.9,
+    faceScore: 0.9,
+    boundingBox: { x, y, width: FACE_PX, height: FACE_PX },
+    descriptor: descriptor ? Float32Array.from(descriptor) : undefined,
+  }));
+}
+
+function createTracker(algorithm: TrackingAlgorithm) {
+  let next = 0;
+  return new FaceTracker(CONFIG, { algorithm, createId: () => `track_${++next}` });
+}
+
+// Replays a sequence and returns, per frame, the id of the track each gender's detection went to
+function replay(tracker: FaceTracker, frames: RecordedFace[][]) {
+  return frames.map((frame, i) => {
+    tracker.update(toDetections(frame), i * FRAME_MS);
+    const seen = tracker.getTracks().filter(track => track.missedFrames === 0);
+    return Object.fromEntries(seen.map(track => [track.gender, track.id]));
+  });
+}
+
+describe('box geometry', () => {
+  it('measures overlap and center distance', () => {
+    const box = { x: 0, y: 0, width: 10, height: 10 };
+    expect(boxIoU(box, box)).toBe(1);
+    expect(boxIoU(box, { x: 5, y: 0, width: 10, height: 10 })).toBeCloseTo(50 / 150);
+    expect(boxIoU(box, { x: 20, y: 0, width: 10, height: 10 })).toBe(0);
+    expect(boxIoU(box, undefined)).toBe(0);
+    expect(boxCenterDistance(box, { x: 3, y: 4, width: 10, height: 10 })).toBe(5);
+  });
+});
+
+describe('FaceTracker', () => {
+  it.each<TrackingAlgorithm>(['greedy', 'kalman'])('only reports faces seen on enough consecutive frames (%s)', (algorithm) => {
+    const tracker = createTracker(algorithm);
+    expect(tracker.update(toDetections([[0, 100, 'male']]), 0)).toHaveLength(0);
+    expect(tracker.update(toDetections([[5, 100, 'male']]), FRAME_MS)).toHaveLength(1);
+    expect(tracker.getStableTracks()[0].id).toBe('track_1');
+  });
+
+  it('swaps identities of people crossing with greedy matching', () => {
+    const matches = replay(createTracker('greedy'), CROSSING);
+    expect(matches[0]).toEqual({ male: 'track_1', female: 'track_2' });
+    expect(matches[matches.length - 1]).toEqual({ male: 'track_2', female: 'track_1' });
+  });
+
+  it('keeps identities of people crossing with Kalman + Hungarian matching', () => {
+    const matches = replay(createTracker('kalman'), CROSSING);
+    for (const frame of matches) {
+      expect(frame).toEqual({ male: 'track_1', female: 'track_2' });
+    }
+  });
+
+  it.each<TrackingAlgorithm>(['greedy', 'kalman'])('keeps the id of a face hidden for fewer than holdFrames (%s)', (algorithm) => {
+    const tracker = createTracker(algorithm);
+    const matches = replay(tracker, OCCLUSION);
+
+    expect(matches.map(m => m.male).filter(Boolean)).toEqual(Array(OCCLUSION.length - 3).fill('track_1'));
+    expect(matches.every(m => m.female === 'track_2')).toBe(true);
+    expect(tracker.getTracks()).toHaveLength(2);
+  });
+
+  it('coasts a hidden face along its predicted path (kalman)', () => {
+    const tracker = createTracker('kalman');
+    replay(tracker, OCCLUSION.slice(0, 5));
+
+    const hidden = tracker.get('track_1')!;
+    expect(hidden.missedFrames).toBe(1);
+    expect(hidden.boundingBox.x).toBeGreaterThan(60);
+  });
+
+  it.each<TrackingAlgorithm>(['greedy', 'kalman'])('drops a face missing for more than holdFrames (%s)', (algorithm) => {
+    const tracker = createTracker(algorithm);
+    const away = Array.from({ length: CONFIG.holdFrames + 1 }, (): RecordedFace[] => [[400, 100, 'female']]);
+    const matches = replay(tracker, [...OCCLUSION.slice(0, 4), ...away, [[60, 100, 'male'], [400, 100, 'female']]]);
+
+    expect(tracker.get('track_1')).toBeUndefined();
+    expect(matches[matches.length - 1].male).toBe('track_3');
+  });
+
+  it('gives a returning face its old id back when descriptors match', () => {
+    const tracker = createTracker('kalman');
+    const descriptor = Array(128).fill(0.1);
+    const other = Array(128).fill(0.9);
+    const away = Array.from({ length: CONFIG.holdFrames + 1 }, (): RecordedFace[] => [[400, 100, 'female', other]]);
+    const matches = replay(tracker, [
+      [[0, 100, 'male', descriptor], [400, 100, 'female', other]],
+      [[10, 100, 'male', descriptor], [400, 100, 'female', other]],
+      ...away,
+      [[300, 300, 'male', descriptor], [400, 100, 'female', other]],
+    ]);
+
+    expect(matches[matches.length - 1].male).toBe('track_1');
+    expect(tracker.lastReidentified).toEqual(['track_1']);
+  });
+
+  it('keeps user corrections over later detections', () => {
+    const tracker = createTracker('greedy');
+    replay(tracker, OCCLUSION.slice(0, 2));
+    expect(tracker.correct('track_1', 'female', 'young')).toBe(true);
+
+    tracker.update(toDetections([[40, 100, 'male'], [400, 100, 'female']]), 2 * FRAME_MS);
+    const corrected = tracker.get('track_1')!;
+    expect(corrected.stableGender).toBe('female');
+    expect(corrected.stableAgeGroup).toBe('young');
+    expect(corrected.confidence).toBe(1);
+  });
+});
@@ -0,0 +1,484 @@
+/**
+ * Face Tracker
+ *
+ * Frame-to-frame identity tracking for detected faces: IoU + center-distance
+ * matching with velocity prediction, temporal gender/age voting and stale-track
+ * eviction. Framework-free so it can be replayed on recorded detection
+ * sequences and reused outside SmartAdsSystem.
+ *
+ * Two algorithms: 'greedy' matches each track to its best detection in
+ * insertion order with fixed smoothing; 'kalman' solves a global Hungarian
+ * assignment against Kalman-predicted boxes, which keeps identities when
+ * people cross.
+ *
+ * When detections carry appearance descriptors, evicted tracks are kept in a
+ * per-session gallery and a returning face gets its old id back instead of a
+ * new one. The gallery is memory-only and cleared by reset().
+ */
+
+import { DetectionResult, FaceBoundingBox } from '@/types/ad';
+import { CCTVDetectionConfig, TrackedFace, TrackingAlgorithm, getStableGender, getStableAgeGroup } from '@/types/detection';
+import { solveAssignment } from '@/utils/hungarian';
+import { isLookingAtScreen } from '@/utils/attention';
+import { blendDescriptor, findClosestDescriptor, DEFAULT_REID_THRESHOLD } from '@/utils/faceReid';
+import { KalmanBoxState, initKalmanBox, predictKalmanBox, updateKalmanBox, kalmanToBox, kalmanVelocity } from '@/utils/kalmanFilter';
+
+export type FaceTrackerConfig = Pick<CCTVDetectionConfig, 'minConsecutiveFrames' | 'holdFrames' | 'maxVelocityPx'>;
+
+export interface FaceTrackerOptions {
+  algorithm?: TrackingAlgorithm;  // Default 'greedy'
+  femaleBoostFactor?: number;   // Extra female vote weight on uncertain detections (0 = off)
+  minVoteConfidence?: number;   // Detections below this confidence don't vote
+  reidThreshold?: number;       // Max descriptor distance to revive an evicted track
+  createId?: (now: number) => string;  // Override for deterministic ids in replays
+}
+
+/** A tracked face that was matched to a detection in the latest update. */
+export interface TrackMatch {
+  track: TrackedFace;
+  detection: DetectionResult;
+  wasStable: boolean;           // Track had enough consecutive hits before this frame
+}
+
+export const DEFAULT_MIN_VOTE_CONFIDENCE = 0.65;
+
+const POSITION_SMOOTHING = 0.7;
+
+// Evicted tracks remembered for re-identification, oldest dropped first
+const MAX_LOST_TRACKS = 200;
+
+// Cost for pairs that fail the distance/overlap gate - never a real match
+const GATED_COST = 1e6;
+
+interface TrackMotion {
+  boundingBox: FaceBoundingBox;
+  velocity: { vx: number; vy: number };
+  kalman?: KalmanBoxState;
+}
+
+const defaultCreateId = (now: number) => `face_${now}_${Math.random().toString(36).substr(2, 5)}`;
+
+// Intersection over Union of two boxes
+export function boxIoU(box1?: FaceBoundingBox, box2?: FaceBoundingBox): number {
+  if (!box1 || !box2) return 0;
+
+  const x1 = Math.max(box1.x, box2.x);
+  const y1 = Math.max(box1.y, box2.y);
+  const x2 = Math.min(box1.x + box1.width, box2.x + box2.width);
+  const y2 = Math.min(box1.y + box1.height, box2.y + box2.height);
+
+  const intersection = Math.max(0, x2 - x1) * Math.max(0, y2 - y1);
+  const area1 = box1.width * box1.height;
+  const area2 = box2.width * box2.height;
+  const union = area1 + area2 - intersection;
+
+  return union > 0 ? intersection / union : 0;
+}
+
+// Distance between box centers in pixels
+export function boxCenterDistance(box1?: FaceBoundingBox, box2?: FaceBoundingBox): number {
+  if (!box1 || !box2) return Infinity;
+
+  const cx1 = box1.x + box1.width / 2;
+  const cy1 = box1.y + box1.height / 2;
+  const cx2 = box2.x + box2.width / 2;
+  const cy2 = box2.y + box2.height / 2;
+
+  return Math.sqrt(Math.pow(cx2 - cx1, 2) + Math.pow(cy2 - cy1, 2));
+}
+
+export class FaceTracker {
+  private tracks = new Map<string, TrackedFace>();
+  private matches: TrackMatch[] = [];
+  private lost = new Map<string, TrackedFace>();
+  private reidentified: string[] = [];
+  private config: FaceTrackerConfig;
+  private options: FaceTrackerOptions;
+
+  constructor(config: FaceTrackerConfig, options: FaceTrackerOptions = {}) {
+    this.config = config;
+    this.options = options;
+  }
+
+  setConfig(config: FaceTrackerConfig) {
+    this.config = config;
+  }
+
+  setOptions(options: FaceTrackerOptions) {
+    this.options = { ...this.options, ...options };
+  }
+
+  /** Drop every track, e.g. when a new capture session starts. */
+  reset() {
+    this.tracks.clear();
+    this.lost.clear();
+    this.matches = [];
+    this.reidentified = [];
+  }
+
+  /**
+   * Feed one frame of detections. Returns the stable tracks (enough
+   * consecutive hits); `lastMatches` holds the matched pairs of this frame.
+   */
+  update(detections: DetectionResult[], now: number = Date.now()): TrackedFace[] {
+    this.matches = [];
+    this.reidentified = [];
+
+    if (this.options.algorithm === 'kalman') {
+      this.updateKalman(detections, now);
+    } else {
+      this.updateGreedy(detections, now);
+    }
+
+    return this.getStableTracks();
+  }
+
+  private updateGreedy(detections: DetectionResult[], now: number) {
+    const { maxVelocityPx, holdFrames } = this.config;
+    const matchedIds = new Set<string>();
+    const usedDetections = new Set<number>();
+
+    // For each tracked face, find best matching new detection
+    for (const [id, trackedFace] of this.tracks.entries()) {
+      let bestMatch: number | null = null;
+      let bestScore = 0;
+
+      for (let i = 0; i < detections.length; i++) {
+        if (usedDetections.has(i)) continue;
+
+        const detection = detections[i];
+        const iou = boxIoU(detection.boundingBox, trackedFace.boundingBox);
+        const distance = boxCenterDistance(detection.boundingBox, trackedFace.boundingBox);
+
+        // Predict position based on velocity
+        const predictedBox = {
+          ...trackedFace.boundingBox,
+          x: trackedFace.boundingBox.x + trackedFace.velocity.vx,
+          y: trackedFace.boundingBox.y + trackedFace.velocity.vy,
+        };
+        const predictedDistance = boxCenterDistance(detection.boundingBox, predictedBox);
+
+        // Use minimum of actual and predicted distance
+        const effectiveDistance = Math.min(distance, predictedDistance);
+
+        // Reject if moved too far (likely different person)
+        if (effectiveDistance > maxVelocityPx) continue;
+
+        // Score: IoU weighted higher + inverse distance bonus
+        const score = iou * 0.6 + Math.max(0, 1 - effectiveDistance / 200) * 0.4;
+
+        if (score > bestScore && (iou > 0.2 || effectiveDistance < 80)) {
+          bestScore = score;
+          bestMatch = i;
+        }
+      }
+
+      if (bestMatch !== null) {
+        const detection = detections[bestMatch];
+        usedDetections.add(bestMatch);
+        matchedIds.add(id);
+
+        this.matchTrack(trackedFace, detection, now, this.smoothMotion(trackedFace, detection.boundingBox!));
+      }
+    }
+
+    // Add new unmatched detections
+    for (let i = 0; i < detections.length; i++) {
+      if (usedDetections.has(i)) continue;
+      const track = this.spawnTrack(detections[i], now);
+      this.tracks.set(track.id, track);
+    }
+
+    // Update missed frames and remove stale faces. Unmatched tracks only age
+    // on frames where every detection was matched to an existing track.
+    const hasUnmatchedDetections = detections.some((_, i) => !usedDetections.has(i));
+    for (const [id, trackedFace] of this.tracks.entries()) {
+      if (matchedIds.has(id) || hasUnmatchedDetections) continue;
+
+      trackedFace.missedFrames++;
+
+      // Apply velocity prediction for smooth tracking during occlusion
+      if (trackedFace.missedFrames <= holdFrames / 2) {
+        trackedFace.boundingBox.x += trackedFace.velocity.vx * 0.5;
+        trackedFace.boundingBox.y += trackedFace.velocity.vy * 0.5;
+      }
+
+      // Remove if missed too many frames
+      if (trackedFace.missedFrames > holdFrames) {
+        this.evict(id);
+      }
+    }
+  }
+
+  private updateKalman(detections: DetectionResult[], now: number) {
+    const { maxVelocityPx, holdFrames } = this.config;
+    const tracks = this.getTracks();
+
+    // Predict every track one frame ahead (tracks from greedy mode start a filter here)
+    const predicted = tracks.map(track => predictKalmanBox(track.kalman ?? initKalmanBox(track.boundingBox)));
+    const predictedBoxes = predicted.map(kalmanToBox);
+
+    // Same IoU + distance score as greedy, against the predicted box
+    const cost = predictedBoxes.map(predictedBox => detections.map(detection => {
+      const iou = boxIoU(detection.boundingBox, predictedBox);
+      const distance = boxCenterDistance(detection.boundingBox, predictedBox);
+      if (distance > maxVelocityPx || !(iou > 0.2 || distance < 80)) return GATED_COST;
+      return 1 - (iou * 0.6 + Math.max(0, 1 - distance / 200) * 0.4);
+    }));
+
+    const assignment = solveAssignment(cost);
+    const usedDetections = new Set<number>();
+
+    tracks.forEach((track, t) => {
+      const d = assignment[t];
+
+      if (d >= 0 && cost[t][d] < GATED_COST) {
+        const detection = detections[d];
+        usedDetections.add(d);
+        const kalman = updateKalmanBox(predicted[t], detection.boundingBox!);
+        this.matchTrack(track, detection, now, {
+          boundingBox: kalmanToBox(kalman),
+          velocity: kalmanVelocity(kalman),
+          kalman,
+        });
+        return;
+      }
+
+      // Unmatched: coast on the prediction until the hold runs out
+      track.missedFrames++;
+      if (track.missedFrames > holdFrames) {
+        this.evict(track.id);
+        return;
+      }
+      track.kalman = predicted[t];
+      track.boundingBox = predictedBoxes[t];
+      track.velocity = kalmanVelocity(predicted[t]);
+    });
+
+    for (let i = 0; i < detections.length; i++) {
+      if (usedDetections.has(i)) continue;
+      const track = this.spawnTrack(detections[i], now);
+      track.kalman = initKalmanBox(track.boundingBox);
+      this.tracks.set(track.id, track);
+    }
+  }
+
+  /** Matched track/detection pairs from the most recent update. */
+  get lastMatches(): TrackMatch[] {
+    return this.matches;
+  }
+
+  /** Ids revived from the re-ID gallery in the most recent update. */
+  get lastReidentified(): string[] {
+    return this.reidentified;
+  }
+
+  getTracks(): TrackedFace[] {
+    return Array.from(this.tracks.values());
+  }
+
+  getStableTracks(): TrackedFace[] {
+    return this.getTracks().filter(face => face.consecutiveHits >= this.config.minConsecutiveFrames);
+  }
+
+  get(id: string): TrackedFace | undefined {
+    return this.tracks.get(id);
+  }
+
+  /** Drop a track for good (e.g. a false positive) - it is not kept for re-ID. */
+  remove(id: string): boolean {
+    this.lost.delete(id);
+    return this.tracks.delete(id);
+  }
+
+  /**
+   * Pin a track to user-provided ground truth. Overwhelming vote weights keep
+   * the correction, and later detections no longer update its demographics.
+   */
+  correct(id: string, gender: 'male' | 'female', ageGroup: 'kid' | 'young' | 'adult'): boolean {
+    const tracked = this.tracks.get(id);
+    if (!tracked) return false;
+
+    const correctionWeight = 100;
+    tracked.genderVotes = {
+      male: gender === 'male' ? correctionWeight : 0,
+      female: gender === 'female' ? correctionWeight : 0,
+    };
+    tracked.ageVotes = {
+      kid: ageGroup === 'kid' ? correctionWeight : 0,
+      young: ageGroup === 'young' ? correctionWeight : 0,
+      adult: ageGroup === 'adult' ? correctionWeight : 0,
+    };
+    tracked.stableGender = gender;
+    tracked.stableAgeGroup = ageGroup;
+    tracked.gender = gender;
+    tracked.ageGroup = ageGroup;
+    tracked.isUserCorrected = true;
+    // User-labeled, so full confidence
+    tracked.confidence = 1.0;
+    tracked.faceScore = 1.0;
+    return true;
+  }
+
+  // Add a detection's weighted votes. The female boost scales with
+  // uncertainty: full boost at 0.5 confidence, none at 1.0.
+  private addVotes(
+    genderVotes: TrackedFace['genderVotes'],
+    ageVotes: TrackedFace['ageVotes'],
+    detection: DetectionResult
+  ) {
+    const minVoteConfidence = this.options.minVoteConfidence ?? DEFAULT_MIN_VOTE_CONFIDENCE;
+    if (detection.confidence < minVoteConfidence) return;
+
+    const voteWeight = detection.confidence * Math.min(detection.faceScore, 1);
+    const confidenceScale = Math.max(0, 1 - (detection.confidence - 0.5) * 2);
+    const femaleBoost = (this.options.femaleBoostFactor ?? 0) * confidenceScale;
+
+    if (detection.gender === 'male') {
+      genderVotes.male += voteWeight;
+    } else {
+      genderVotes.female += voteWeight * (1 + femaleBoost);
+    }
+    ageVotes[detection.ageGroup] += voteWeight;
+  }
+
+  // Greedy motion model: exponential smoothing of box and velocity
+  private smoothMotion(trackedFace: TrackedFace, box: FaceBoundingBox): TrackMotion {
+    const alpha = POSITION_SMOOTHING;
+    const newVx = box.x - trackedFace.boundingBox.x;
+    const newVy = box.y - trackedFace.boundingBox.y;
+
+    return {
+      boundingBox: {
+        x: trackedFace.boundingBox.x * (1 - alpha) + box.x * alpha,
+        y: trackedFace.boundingBox.y * (1 - alpha) + box.y * alpha,
+        width: trackedFace.boundingBox.width * (1 - alpha) + box.width * alpha,
+        height: trackedFace.boundingBox.height * (1 - alpha) + box.height * alpha,
+      },
+      velocity: {
+        vx: trackedFace.velocity.vx * 0.5 + newVx * 0.5,
+        vy: trackedFace.velocity.vy * 0.5 + newVy * 0.5,
+      },
+    };
+  }
+
+  // Move a stale track into the re-ID gallery (only if it has an appearance)
+  private evict(id: string) {
+    const track = this.tracks.get(id);
+    this.tracks.delete(id);
+    if (!track?.descriptor) return;
+
+    this.lost.set(id, track);
+    if (this.lost.size > MAX_LOST_TRACKS) {
+      this.lost.delete(this.lost.keys().next().value!);
+    }
+  }
+
+  // New track for an unmatched detection - or an evicted one whose appearance matches
+  private spawnTrack(detection: DetectionResult, now: number): TrackedFace {
+    if (detection.descriptor && this.lost.size > 0) {
+      const lostTracks = Array.from(this.lost.values());
+      const index = findClosestDescriptor(
+        detection.descriptor,
+        lostTracks.map(track => track.descriptor),
+        this.options.reidThreshold ?? DEFAULT_REID_THRESHOLD
+      );
+
+      if (index >= 0) {
+        const previous = lostTracks[index];
+        this.lost.delete(previous.id);
+        this.reidentified.push(previous.id);
+
+        // Keep id, votes and corrections; restart motion and stability
+        const revived = this.applyDetection(previous, detection, now, {
+          boundingBox: { ...detection.boundingBox! },
+          velocity: { vx: 0, vy: 0 },
+        });
+        return { ...revived, consecutiveHits: 1 };
+      }
+    }
+
+    return this.createTrack(detection, now);
+  }
+
+  // Store the updated track and record the match
+  private matchTrack(trackedFace: TrackedFace, detection: DetectionResult, now: number, motion: TrackMotion) {
+    const updated = this.applyDetection(trackedFace, detection, now, motion);
+    this.tracks.set(updated.id, updated);
+    this.matches.push({
+      track: updated,
+      detection,
+      wasStable: trackedFace.consecutiveHits >= this.config.minConsecutiveFrames,
+    });
+  }
+
+  private applyDetection(trackedFace: TrackedFace, detection: DetectionResult, now: number, motion: TrackMotion): TrackedFace {
+    // Skip demographic updates if user has manually corrected this face
+    const isUserCorrected = trackedFace.isUserCorrected === true;
+
+    const genderVotes = isUserCorrected ? trackedFace.genderVotes : { ...trackedFace.genderVotes };
+    const ageVotes = isUserCorrected ? trackedFace.ageVotes : { ...trackedFace.ageVotes };
+    if (!isUserCorrected) {
+      this.addVotes(genderVotes, ageVotes, detection);
+    }
+
+    return {
+      ...trackedFace,
+      boundingBox: motion.boundingBox,
+      velocity: motion.velocity,
+      kalman: motion.kalman,
+      descriptor: detection.descriptor
+        ? blendDescriptor(trackedFace.descriptor, detection.descriptor, trackedFace.descriptorSamples ?? 0)
+        : trackedFace.descriptor,
+      descriptorSamples: (trackedFace.descriptorSamples ?? 0) + (detection.descriptor ? 1 : 0),
+      headPose: detection.headPose,
+      isLooking: detection.headPose ? isLookingAtScreen(detection.headPose) : undefined,
+      rawGender: detection.rawGender,
+      confidence: isUserCorrected ? 1.0 : detection.confidence,
+      faceScore: detection.faceScore,
+      gender: isUserCorrected ? trackedFace.gender : detection.gender,
+      ageGroup: isUserCorrected ? trackedFace.ageGroup : detection.ageGroup,
+      consecutiveHits: trackedFace.consecutiveHits + 1,
+      missedFrames: 0,
+      lastSeenAt: now,
+      detectorUsed: detection.trackingId?.startsWith('ssd') ? 'ssd' : 'tiny',
+      genderVotes,
+      ageVotes,
+      // Avoid default-male bias on weak evidence; corrected faces keep the user's values
+      stableGender: isUserCorrected ? trackedFace.stableGender : getStableGender(genderVotes, trackedFace.stableGender),
+      stableAgeGroup: isUserCorrected ? trackedFace.stableAgeGroup : getStableAgeGroup(ageVotes, trackedFace.stableAgeGroup),
+      isUserCorrected,
+    };
+  }
+
+  private createTrack(detection: DetectionResult, now: number): TrackedFace {
+    const genderVotes = { male: 0, female: 0 };
+    const ageVotes = { kid: 0, young: 0, adult: 0 };
+    this.addVotes(genderVotes, ageVotes, detection);
+
+    const id = (this.options.createId ?? defaultCreateId)(now);
+    return {
+      id,
+      boundingBox: { ...detection.boundingBox! },
+      velocity: { vx: 0, vy: 0 },
+      confidence: detection.confidence,
+      faceScore: detection.faceScore,
+      gender: detection.gender,
+      ageGroup: detection.ageGroup,
+      consecutiveHits: 1,
+      missedFrames: 0,
+      firstSeenAt: now,
+      lastSeenAt: now,
+      detectorUsed: detection.trackingId?.startsWith('ssd') ? 'ssd' : 'tiny',
+      genderVotes,
+      ageVotes,
+      stableGender: detection.gender,
+      stableAgeGroup: detection.ageGroup,
+      descriptor: detection.descriptor,
+      descriptorSamples: detection.descriptor ? 1 : 0,
+      headPose: detection.headPose,
+      isLooking: detection.headPose ? isLookingAtScreen(detection.headPose) : undefined,
+      rawGender: detection.rawGender,
+    };
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * Hungarian Assignment
+ *
+ * Minimum-cost one-to-one assignment (Kuhn-Munkres, O(n³)) for rectangular
+ * cost matrices. Used by the face tracker to match tracks to detections
+ * globally instead of greedily.
+ */
+
+/**
+ * Solve the assignment problem for `cost[row][col]`.
+ * Returns, for each row, the assigned column index or -1 when the row is
+ * left unassigned (more rows than columns).
+ */
+export function solveAssignment(cost: number[][]): number[] {
+  const rows = cost.length;
+  const cols = rows > 0 ? cost[0].length : 0;
+  if (rows === 0 || cols === 0) return new Array(rows).fill(-1);
+
+  // Pad to a square matrix; padded cells cost nothing so they never influence real pairs
+  const n = Math.max(rows, cols);
+  const at = (i: number, j: number) => (i < rows && j < cols ? cost[i][j] : 0);
+
+  // Potentials and matching, 1-indexed as in the classic formulation
+  const u = new Array(n + 1).fill(0);
+  const v = new Array(n + 1).fill(0);
+  const match = new Array(n + 1).fill(0);   // match[col] = row
+  const way = new Array(n + 1).fill(0);
+
+  for (let i = 1; i <= n; i++) {
+    match[0] = i;
+    let j0 = 0;
+    const minv = new Array(n + 1).fill(Infinity);
+    const used = new Array(n + 1).fill(false);
+
+    do {
+      used[j0] = true;
+      const i0 = match[j0];
+      let delta = Infinity;
+      let j1 = 0;
+
+      for (let j = 1; j <= n; j++) {
+        if (used[j]) continue;
+        const cur = at(i0 - 1, j - 1) - u[i0] - v[j];
+        if (cur < minv[j]) {
+          minv[j] = cur;
+          way[j] = j0;
+        }
+        if (minv[j] < delta) {
+          delta = minv[j];
+          j1 = j;
+        }
+      }
+
+      for (let j = 0; j <= n; j++) {
+        if (used[j]) {
+          u[match[j]] += delta;
+          v[j] -= delta;
+        } else {
+          minv[j] -= delta;
+        }
+      }
+      j0 = j1;
+    } while (match[j0] !== 0);
+
+    // Augment along the alternating path
+    do {
+      const j1 = way[j0];
+      match[j0] = match[j1];
+      j0 = j1;
+    } while (j0 !== 0);
+  }
+
+  const assignment = new Array(rows).fill(-1);
+  for (let j = 1; j <= n; j++) {
+    const row = match[j] - 1;
+    if (row < rows && j - 1 < cols) {
+      assignment[row] = j - 1;
+    }
+  }
+  return assignment;
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { FaceBoundingBox } from '@/types/ad';
+import {
+  DEFAULT_KALMAN_NOISE,
+  initKalmanBox,
+  kalmanToBox,
+  kalmanVelocity,
+  predictKalmanBox,
+  updateKalmanBox,
+} from '@/utils/kalmanFilter';
+
+const box = (x: number, y: number, size = 60): FaceBoundingBox => ({ x, y, width: size, height: size });
+
+// Feeds a face moving at (vx, vy) px/frame through predict + update, like the tracker does per frame
+function trackConstantVelocity(vx: number, vy: number, frames: number) {
+  let state = initKalmanBox(box(0, 100));
+  for (let i = 1; i < frames; i++) {
+    state = updateKalmanBox(predictKalmanBox(state), box(i * vx, 100 + i * vy));
+  }
+  return state;
+}
+
+describe('Kalman box filter', () => {
+  it('starts at the detected box with no velocity', () => {
+    const state = initKalmanBox(box(10, 20, 40));
+    expect(kalmanToBox(state)).toEqual(box(10, 20, 40));
+    expect(kalmanVelocity(state)).toEqual({ vx: 0, vy: 0 });
+    expect(state.cx.p00).toBe(DEFAULT_KALMAN_NOISE.measurement);
+  });
+
+  it('converges on the velocity of a constant-velocity track', () => {
+    const state = trackConstantVelocity(20, -5, 15);
+    const { vx, vy } = kalmanVelocity(state);
+    expect(vx).toBeCloseTo(20, 0);
+    expect(vy).toBeCloseTo(-5, 0);
+
+    const estimate = kalmanToBox(state);
+    expect(estimate.x).toBeCloseTo(14 * 20, 0);
+    expect(estimate.y).toBeCloseTo(100 - 14 * 5, 0);
+    expect(estimate.width).toBeCloseTo(60, 5);
+  });
+
+  it('moves the box along its velocity when predicting without a measurement', () => {
+    const state = trackConstantVelocity(20, 0, 15);
+    const before = kalmanToBox(state);
+    const after = kalmanToBox(predictKalmanBox(predictKalmanBox(state)));
+
+    expect(after.x - before.x).toBeCloseTo(40, 0);
+    expect(after.y).toBeCloseTo(before.y, 5);
+    expect(after.width).toBeCloseTo(before.width, 5);
+  });
+
+  it('grows the covariance while coasting and shrinks it on the next update', () => {
+    let state = trackConstantVelocity(20, 0, 15);
+    const settled = state.cx.p00;
+
+    const variances: number[] = [];
+    for (let i = 0; i < 3; i++) {
+      state = predictKalmanBox(state);
+      variances.push(state.cx.p00);
+    }
+    expect(variances[0]).toBeGreaterThan(settled);
+    expect(variances[1]).toBeGreaterThan(variances[0]);
+    expect(variances[2]).toBeGreaterThan(variances[1]);
+
+    state = updateKalmanBox(state, box(18 * 20, 100));
+    expect(state.cx.p00).toBeLessThan(variances[2]);
+    expect(state.cx.p00).toBeLessThan(DEFAULT_KALMAN_NOISE.measurement);
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Constant-Velocity Kalman Filter for face boxes
+ *
+ * Each box coordinate (center x/y, width, height) is an independent
+ * position + velocity filter with a time step of one detection frame.
+ * State is a plain object so it can live on a TrackedFace.
+ */
+
+import { FaceBoundingBox } from '@/types/ad';
+
+/** Position/velocity estimate with its 2x2 covariance (symmetric, p01 = p10). */
+export interface KalmanAxis {
+  x: number;
+  v: number;
+  p00: number;
+  p01: number;
+  p11: number;
+}
+
+export interface KalmanBoxState {
+  cx: KalmanAxis;
+  cy: KalmanAxis;
+  w: KalmanAxis;
+  h: KalmanAxis;
+}
+
+export interface KalmanNoise {
+  process: number;       // Acceleration noise - higher follows direction changes faster
+  measurement: number;   // Detector jitter in pixels²
+}
+
+export const DEFAULT_KALMAN_NOISE: KalmanNoise = {
+  process: 4,
+  measurement: 25,
+};
+
+// Unknown initial velocity gets a wide prior so the first matches set it
+const INITIAL_VELOCITY_VARIANCE = 1000;
+
+const initAxis = (x: number, noise: KalmanNoise): KalmanAxis => ({
+  x,
+  v: 0,
+  p00: noise.measurement,
+  p01: 0,
+  p11: INITIAL_VELOCITY_VARIANCE,
+});
+
+// x' = x + v, v' = v; P' = F P Fᵀ + Q with white-acceleration Q
+function predictAxis(a: KalmanAxis, q: number): KalmanAxis {
+  return {
+    x: a.x + a.v,
+    v: a.v,
+    p00: a.p00 + 2 * a.p01 + a.p11 + q / 4,
+    p01: a.p01 + a.p11 + q / 2,
+    p11: a.p11 + q,
+  };
+}
+
+// Position-only measurement: H = [1, 0]
+function updateAxis(a: KalmanAxis, z: number, r: number): KalmanAxis {
+  const s = a.p00 + r;
+  const k0 = a.p00 / s;
+  const k1 = a.p01 / s;
+  const residual = z - a.x;
+
+  return {
+    x: a.x + k0 * residual,
+    v: a.v + k1 * residual,
+    p00: (1 - k0) * a.p00,
+    p01: (1 - k0) * a.p01,
+    p11: a.p11 - k1 * a.p01,
+  };
+}
+
+export function initKalmanBox(box: FaceBoundingBox, noise: KalmanNoise = DEFAULT_KALMAN_NOISE): KalmanBoxState {
+  return {
+    cx: initAxis(box.x + box.width / 2, noise),
+    cy: initAxis(box.y + box.height / 2, noise),
+    w: initAxis(box.width, noise),
+    h: initAxis(box.height, noise),
+  };
+}
+
+/** Advance the state one frame. */
+export function predictKalmanBox(state: KalmanBoxState, noise: KalmanNoise = DEFAULT_KALMAN_NOISE): KalmanBoxState {
+  return {
+    cx: predictAxis(state.cx, noise.process),
+    cy: predictAxis(state.cy, noise.process),
+    w: predictAxis(state.w, noise.process),
+    h: predictAxis(state.h, noise.process),
+  };
+}
+
+/** Correct a predicted state with a detected box. */
+export function updateKalmanBox(
+  state: KalmanBoxState,
+  box: FaceBoundingBox,
+  noise: KalmanNoise = DEFAULT_KALMAN_NOISE
+): KalmanBoxState {
+  return {
+    cx: updateAxis(state.cx, box.x + box.width / 2, noise.measurement),
+    cy: updateAxis(state.cy, box.y + box.height / 2, noise.measurement),
+    w: updateAxis(state.w, box.width, noise.measurement),
+    h: updateAxis(state.h, box.height, noise.measurement),
+  };
+}
+
+export function kalmanToBox(state: KalmanBoxState): FaceBoundingBox {
+  const width = Math.max(1, state.w.x);
+  const height = Math.max(1, state.h.x);
+  return {
+    x: state.cx.x - width / 2,
+    y: state.cy.x - height / 2,
+    width,
+    height,
+  };
+}
+
+/** Velocity of the box center in pixels per frame. */
+export function kalmanVelocity(state: KalmanBoxState): { vx: number; vy: number } {
+  return { vx: state.cx.v, vy: state.cy.v };
+}
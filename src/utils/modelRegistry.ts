@@ -0,0 +1,231 @@
+/**
+ * Model Registry
+ *
+ * Single description of every model the app can load: where it comes from,
+ * which versions exist, their SHA-256 and input size. Loaders resolve the
+ * operator's selected version here and verify pinned hashes before any
+ * weights reach a network, so a truncated download or swapped file fails
+ * loudly instead of producing silently wrong detections. Only the weights
+ * shipped in public/models are pinned; the rest, including the downloaded
+ * YOLO file, load unverified until a hash of a known-good copy is added.
+ */
+
+export type FaceApiModelId =
+  | 'tinyFaceDetector'
+  | 'ageGenderNet'
+  | 'ssdMobilenetv1'
+  | 'faceRecognitionNet'
+  | 'faceLandmark68TinyNet'
+  | 'faceExpressionNet';
+
+export type ModelId = FaceApiModelId | 'yolov8Face';
+
+export interface ModelVersion {
+  version: string;
+  /** face-api.js: directory holding the weights manifest and shards. ONNX: download URL of the .onnx file. */
+  url: string;
+  /** Self-hosted copy, checked before downloading (ONNX only). */
+  localPath?: string;
+  /**
+   * Hex SHA-256 of the weights - for face-api.js the manifest followed by its
+   * shards in manifest order. Versions without one load unverified.
+   */
+  sha256?: string;
+}
+
+export interface ModelDescriptor {
+  id: ModelId;
+  name: string;
+  runtime: 'face-api' | 'onnx';
+  /** face-api.js file prefix: `<manifest>-weights_manifest.json` */
+  manifest?: string;
+  /** Square input size in pixels the model expects (or is usually run at). */
+  inputSize: number;
+  /** Optional models may be missing - the features using them switch off. */
+  optional: boolean;
+  /** First entry is the default. */
+  versions: ModelVersion[];
+}
+
+/** A descriptor with one version picked. */
+export type ResolvedModel = Omit<ModelDescriptor, 'versions'> & ModelVersion;
+
+/** Selected version per model; missing entries use the default. */
+export type ModelSelection = Partial<Record<ModelId, string>>;
+
+export type FaceApiModelSources = Record<FaceApiModelId, ResolvedModel>;
+
+// face-api.js 0.22.2 weights shipped in public/models
+const FACE_API_VERSION = '0.22.2';
+const LOCAL_MODELS_URL = '/models';
+
+export const MODEL_REGISTRY: Record<ModelId, ModelDescriptor> = {
+  tinyFaceDetector: {
+    id: 'tinyFaceDetector',
+    name: 'TinyFaceDetector',
+    runtime: 'face-api',
+    manifest: 'tiny_face_detector_model',
+    inputSize: 416,
+    optional: false,
+    versions: [{
+      version: FACE_API_VERSION,
+      url: LOCAL_MODELS_URL,
+      sha256: 'c6b57aa83456a1b29a944a67131e0908bf10a4e5d37bbc0e19d0133427beac10',
+    }],
+  },
+  ageGenderNet: {
+    id: 'ageGenderNet',
+    name: 'AgeGenderNet',
+    runtime: 'face-api',
+    manifest: 'age_gender_model',
+    inputSize: 112,
+    optional: false,
+    versions: [{
+      version: FACE_API_VERSION,
+      url: LOCAL_MODELS_URL,
+      sha256: '14a296a802ed30f2b636c648b5925d610dd0a08f11214878ec5e148b44deb612',
+    }],
+  },
+  ssdMobilenetv1: {
+    id: 'ssdMobilenetv1',
+    name: 'SSD Mobilenet V1',
+    runtime: 'face-api',
+    manifest: 'ssd_mobilenetv1_model',
+    inputSize: 512,
+    optional: true,
+    versions: [{ version: FACE_API_VERSION, url: LOCAL_MODELS_URL }],
+  },
+  faceRecognitionNet: {
+    id: 'faceRecognitionNet',
+    name: 'FaceRecognitionNet',
+    runtime: 'face-api',
+    manifest: 'face_recognition_model',
+    inputSize: 150,
+    optional: true,
+    versions: [{ version: FACE_API_VERSION, url: LOCAL_MODELS_URL }],
+  },
+  faceLandmark68TinyNet: {
+    id: 'faceLandmark68TinyNet',
+    name: 'FaceLandmark68TinyNet',
+    runtime: 'face-api',
+    manifest: 'face_landmark_68_tiny_model',
+    inputSize: 112,
+    optional: true,
+    versions: [{ version: FACE_API_VERSION, url: LOCAL_MODELS_URL }],
+  },
+  faceExpressionNet: {
+    id: 'faceExpressionNet',
+    name: 'FaceExpressionNet',
+    runtime: 'face-api',
+    manifest: 'face_expression_model',
+    inputSize: 112,
+    optional: true,
+    versions: [{ version: FACE_API_VERSION, url: LOCAL_MODELS_URL }],
+  },
+  yolov8Face: {
+    id: 'yolov8Face',
+    name: 'YOLOv8-face',
+    runtime: 'onnx',
+    inputSize: 640,
+    optional: true,
+    versions: [{
+      version: 'yolov8n-face',
+      url: 'https://huggingface.co/nickmuchi/yolov8-face-detection/resolve/main/yolov8n-face.onnx',
+      localPath: '/models/yolov8-face/yolov8n-face.onnx',
+    }],
+  },
+};
+
+export const FACE_API_MODEL_IDS: FaceApiModelId[] = [
+  'tinyFaceDetector',
+  'ageGenderNet',
+  'ssdMobilenetv1',
+  'faceRecognitionNet',
+  'faceLandmark68TinyNet',
+  'faceExpressionNet',
+];
+
+const SELECTION_STORAGE_KEY = 'smartads-model-versions';
+
+export class ModelIntegrityError extends Error {
+  constructor(model: ResolvedModel, actual: string) {
+    super(`${model.name} ${model.version} failed its integrity check (SHA-256 ${actual.slice(0, 12)}…, expected ${model.sha256?.slice(0, 12)}…)`);
+    this.name = 'ModelIntegrityError';
+  }
+}
+
+/** The selected version of a model, falling back to the default for unknown versions. */
+export function resolveModel(id: ModelId, selection: ModelSelection = {}): ResolvedModel {
+  const { versions, ...descriptor } = MODEL_REGISTRY[id];
+  const version = versions.find(v => v.version === selection[id]) ?? versions[0];
+  return { ...descriptor, ...version };
+}
+
+export function resolveFaceApiModels(selection: ModelSelection = {}): FaceApiModelSources {
+  return Object.fromEntries(
+    FACE_API_MODEL_IDS.map(id => [id, resolveModel(id, selection)])
+  ) as FaceApiModelSources;
+}
+
+/** "tinyFaceDetector@0.22.2" - how evaluation entries record the model that produced them. */
+export function modelTag(model: ResolvedModel): string {
+  return `${model.id}@${model.version}`;
+}
+
+export function loadModelSelection(): ModelSelection {
+  try {
+    const saved = localStorage.getItem(SELECTION_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : {};
+  } catch {
+    return {};
+  }
+}
+
+export function saveModelSelection(selection: ModelSelection) {
+  localStorage.setItem(SELECTION_STORAGE_KEY, JSON.stringify(selection));
+}
+
+/**
+ * Hex SHA-256 over the buffers in order, or null where WebCrypto is
+ * unavailable (plain-http pages are not a secure context).
+ */
+export async function sha256Hex(buffers: ArrayBuffer[]): Promise<string | null> {
+  if (typeof crypto === 'undefined' || !crypto.subtle) return null;
+
+  const total = buffers.reduce((sum, b) => sum + b.byteLength, 0);
+  const joined = new Uint8Array(total);
+  let offset = 0;
+  for (const buffer of buffers) {
+    joined.set(new Uint8Array(buffer), offset);
+    offset += buffer.byteLength;
+  }
+
+  const digest = await crypto.subtle.digest('SHA-256', joined);
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Throw ModelIntegrityError unless the buffers hash to `expected` (the
+ * pinned hash by default). Unpinned models and pages without WebCrypto pass
+ * with a warning. Returns the computed hash.
+ */
+export async function verifyModelBytes(
+  model: ResolvedModel,
+  buffers: ArrayBuffer[],
+  expected: string | undefined = model.sha256
+): Promise<string | null> {
+  const actual = await sha256Hex(buffers);
+
+  if (!expected) {
+    console.warn(`[Models] ⚠️ ${model.name} ${model.version} has no pinned SHA-256 - loading unverified`);
+    return actual;
+  }
+  if (!actual) {
+    console.warn(`[Models] ⚠️ WebCrypto unavailable (not a secure context) - cannot verify ${model.name}`);
+    return null;
+  }
+  if (actual !== expected.toLowerCase()) {
+    throw new ModelIntegrityError({ ...model, sha256: expected }, actual);
+  }
+  return actual;
+}
@@ -0,0 +1,206 @@
+/**
+ * Proof-of-Play Ledger
+ *
+ * Persists one record per ad impression in IndexedDB so plays can be
+ * reported to advertisers: which ad ran, when, whether it completed or was
+ * skipped, and the audience measured during its capture window. Every
+ * capture session is also stored on its own for the audience analytics page.
+ */
+
+import { DemographicCounts, ExpressionScores } from '@/types/ad';
+
+const DB_NAME = 'smartads-ledger';
+const DB_VERSION = 2;
+const IMPRESSIONS_STORE = 'impressions';
+const SESSIONS_STORE = 'captureSessions';
+const STARTED_AT_INDEX = 'startedAt';
+
+export type ImpressionOutcome = 'completed' | 'skipped';
+
+export interface ImpressionAudience {
+  uniqueViewers: number;
+  retainedViewers?: number;
+  demographics: DemographicCounts;
+}
+
+export interface ImpressionRecord {
+  id: string;
+  adId: string;
+  adTitle: string;
+  startedAt: number;
+  endedAt: number;
+  outcome: ImpressionOutcome;
+  /** Audience from the capture window; absent when no capture ran (e.g. skipped early). */
+  audience?: ImpressionAudience;
+}
+
+/** A finished capture window, kept for historical audience analytics. */
+export interface StoredCaptureSession extends ImpressionAudience {
+  id: string;
+  adId: string;
+  adTitle: string;
+  startedAt: number;
+  endedAt: number;
+  totalFrames: number;
+  /** 0-100 expression engagement; absent when the expression pass was off. */
+  engagementScore?: number;
+  expressions?: ExpressionScores;
+}
+
+type LedgerStore = typeof IMPRESSIONS_STORE | typeof SESSIONS_STORE;
+
+/**
+ * Open IndexedDB connection
+ */
+function openDB(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onerror = () => reject(new Error('Failed to open proof-of-play ledger'));
+
+    request.onsuccess = () => resolve(request.result);
+
+    request.onupgradeneeded = (event) => {
+      const db = (event.target as IDBOpenDBRequest).result;
+      for (const name of [IMPRESSIONS_STORE, SESSIONS_STORE]) {
+        if (!db.objectStoreNames.contains(name)) {
+          const store = db.createObjectStore(name, { keyPath: 'id' });
+          store.createIndex(STARTED_AT_INDEX, STARTED_AT_INDEX);
+        }
+      }
+    };
+  });
+}
+
+async function putRecord(storeName: LedgerStore, record: { id: string }, errorMessage: string): Promise<void> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, 'readwrite');
+    const request = tx.objectStore(storeName).put(record);
+
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(new Error(errorMessage));
+
+    tx.oncomplete = () => db.close();
+  });
+}
+
+/**
+ * Records that started within [from, to] (inclusive, epoch ms), oldest first.
+ * Omit either bound for an open range.
+ */
+async function getRange<T>(storeName: LedgerStore, from?: number, to?: number): Promise<T[]> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, 'readonly');
+    const index = tx.objectStore(storeName).index(STARTED_AT_INDEX);
+
+    const range = from !== undefined && to !== undefined ? IDBKeyRange.bound(from, to)
+      : from !== undefined ? IDBKeyRange.lowerBound(from)
+      : to !== undefined ? IDBKeyRange.upperBound(to)
+      : undefined;
+    const request = index.getAll(range);
+
+    request.onsuccess = () => resolve(request.result as T[]);
+    request.onerror = () => reject(new Error('Failed to read proof-of-play ledger'));
+
+    tx.oncomplete = () => db.close();
+  });
+}
+
+async function clearStore(storeName: LedgerStore): Promise<void> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, 'readwrite');
+    const request = tx.objectStore(storeName).clear();
+
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(new Error('Failed to clear proof-of-play ledger'));
+
+    tx.oncomplete = () => db.close();
+  });
+}
+
+/**
+ * Append an impression to the ledger
+ */
+export function recordImpression(record: ImpressionRecord): Promise<void> {
+  return putRecord(IMPRESSIONS_STORE, record, 'Failed to record impression');
+}
+
+export function getImpressions(from?: number, to?: number): Promise<ImpressionRecord[]> {
+  return getRange<ImpressionRecord>(IMPRESSIONS_STORE, from, to);
+}
+
+/**
+ * Delete every impression
+ */
+export function clearImpressions(): Promise<void> {
+  return clearStore(IMPRESSIONS_STORE);
+}
+
+/**
+ * Append a finished capture session
+ */
+export function recordCaptureSession(session: StoredCaptureSession): Promise<void> {
+  return putRecord(SESSIONS_STORE, session, 'Failed to record capture session');
+}
+
+export function getCaptureSessions(from?: number, to?: number): Promise<StoredCaptureSession[]> {
+  return getRange<StoredCaptureSession>(SESSIONS_STORE, from, to);
+}
+
+/**
+ * Delete every stored capture session
+ */
+export function clearCaptureSessions(): Promise<void> {
+  return clearStore(SESSIONS_STORE);
+}
+
+/** Local "YYYY-MM-DD" for <input type="date"> range filters. */
+export function toDateInput(date: Date): string {
+  const m = String(date.getMonth() + 1).padStart(2, '0');
+  const d = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${m}-${d}`;
+}
+
+/** Date input value -> epoch ms at the local start (or end) of that day; undefined when blank. */
+export function parseDateInput(value: string, endOfDay: boolean): number | undefined {
+  if (!value) return undefined;
+  const [y, m, d] = value.split('-').map(Number);
+  return endOfDay
+    ? new Date(y, m - 1, d, 23, 59, 59, 999).getTime()
+    : new Date(y, m - 1, d).getTime();
+}
+
+const csvCell = (value: string | number | undefined) => {
+  if (value === undefined) return '';
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function impressionsToCSV(records: ImpressionRecord[]): string {
+  const headers = [
+    'ID', 'Ad ID', 'Ad Title', 'Started', 'Ended', 'Duration (s)', 'Outcome',
+    'Viewers', 'Retained', 'Male', 'Female', 'Kid', 'Young', 'Adult',
+  ];
+
+  const rows = records.map(r => [
+    r.id,
+    r.adId,
+    r.adTitle,
+    new Date(r.startedAt).toISOString(),
+    new Date(r.endedAt).toISOString(),
+    Math.round((r.endedAt - r.startedAt) / 1000),
+    r.outcome,
+    r.audience?.uniqueViewers,
+    r.audience?.retainedViewers,
+    r.audience?.demographics.male,
+    r.audience?.demographics.female,
+    r.audience?.demographics.kid,
+    r.audience?.demographics.young,
+    r.audience?.demographics.adult,
+  ]);
+
+  return [headers, ...rows].map(row => row.map(csvCell).join(',')).join('\n');
+}
@@ -0,0 +1,131 @@
+/**
+ * Screen Layouts
+ *
+ * A screen is divided into rectangular zones. The main zone plays the
+ * dashboard's demographic-targeted queue (and hosts capture); every other
+ * zone runs its own queue, either a fixed rotation or ranked independently
+ * for the audience the main zone's captures see. The layout is persisted
+ * to localStorage.
+ */
+
+import { AdMetadata } from '@/types/ad';
+import { ScreenLayout, ScreenZone } from '@/types/layout';
+
+export const MAIN_ZONE_ID = 'main';
+
+const LAYOUT_STORAGE_KEY = 'smartads-screen-layout';
+// Smallest zone edge, % of the screen
+const MIN_ZONE_SIZE = 5;
+
+const mainZone = (width: number, height: number): ScreenZone => ({
+  id: MAIN_ZONE_ID,
+  name: 'Main',
+  x: 0,
+  y: 0,
+  width,
+  height,
+  source: 'targeted',
+  adIds: [],
+});
+
+export const LAYOUT_PRESETS: ScreenLayout[] = [
+  {
+    name: 'Full screen',
+    zones: [mainZone(100, 100)],
+  },
+  {
+    name: 'Main + side banner',
+    zones: [
+      mainZone(75, 100),
+      { id: 'banner', name: 'Side banner', x: 75, y: 0, width: 25, height: 100, source: 'static', adIds: [] },
+    ],
+  },
+  {
+    name: 'Main + side banner + ticker',
+    zones: [
+      mainZone(75, 88),
+      { id: 'banner', name: 'Side banner', x: 75, y: 0, width: 25, height: 88, source: 'static', adIds: [] },
+      { id: 'ticker', name: 'Ticker', x: 0, y: 88, width: 100, height: 12, source: 'static', adIds: [] },
+    ],
+  },
+];
+
+export const DEFAULT_LAYOUT = LAYOUT_PRESETS[0];
+
+export function isMainZone(zone: ScreenZone): boolean {
+  return zone.id === MAIN_ZONE_ID;
+}
+
+/** Keep a zone on screen and at least MIN_ZONE_SIZE in each direction. */
+export function clampZone(zone: ScreenZone): ScreenZone {
+  const width = Math.min(100, Math.max(MIN_ZONE_SIZE, zone.width));
+  const height = Math.min(100, Math.max(MIN_ZONE_SIZE, zone.height));
+  return {
+    ...zone,
+    width,
+    height,
+    x: Math.min(100 - width, Math.max(0, zone.x)),
+    y: Math.min(100 - height, Math.max(0, zone.y)),
+  };
+}
+
+/** A new secondary zone in the bottom-right corner. */
+export function createZone(layout: ScreenLayout): ScreenZone {
+  return {
+    id: `zone-${Date.now()}`,
+    name: `Zone ${layout.zones.length + 1}`,
+    x: 70,
+    y: 70,
+    width: 30,
+    height: 30,
+    source: 'static',
+    adIds: [],
+  };
+}
+
+/** Names of zone pairs that overlap - usually a mistake in the editor. */
+export function findOverlappingZones(layout: ScreenLayout): [string, string][] {
+  const overlaps: [string, string][] = [];
+  layout.zones.forEach((a, i) => {
+    layout.zones.slice(i + 1).forEach(b => {
+      const overlapX = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+      const overlapY = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+      if (overlapX > 0.5 && overlapY > 0.5) overlaps.push([a.name, b.name]);
+    });
+  });
+  return overlaps;
+}
+
+/** The ads a zone plays, in its rotation order. Falls back to the library when none are left. */
+export function getZoneAds(zone: ScreenZone, library: AdMetadata[]): AdMetadata[] {
+  const picked = zone.adIds
+    .map(id => library.find(ad => ad.id === id))
+    .filter((ad): ad is AdMetadata => ad !== undefined);
+  return picked.length > 0 ? picked : library;
+}
+
+// Stored layouts may be from an older version or hand-edited - make sure the main zone exists
+function sanitizeLayout(stored: Partial<ScreenLayout>): ScreenLayout {
+  const zones = Array.isArray(stored.zones) ? stored.zones.map(clampZone) : [];
+  const main = zones.find(isMainZone) ?? mainZone(100, 100);
+  return {
+    name: stored.name || DEFAULT_LAYOUT.name,
+    zones: [main, ...zones.filter(zone => !isMainZone(zone))].map(zone => ({
+      ...zone,
+      adIds: Array.isArray(zone.adIds) ? zone.adIds : [],
+    })),
+  };
+}
+
+export function loadScreenLayout(): ScreenLayout {
+  try {
+    const saved = localStorage.getItem(LAYOUT_STORAGE_KEY);
+    return saved ? sanitizeLayout(JSON.parse(saved)) : DEFAULT_LAYOUT;
+  } catch {
+    return DEFAULT_LAYOUT;
+  }
+}
+
+export function saveScreenLayout(layout: ScreenLayout) {
+  localStorage.setItem(LAYOUT_STORAGE_KEY, JSON.stringify(layout));
+}
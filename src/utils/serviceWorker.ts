@@ -0,0 +1,33 @@
+/**
+ * Service Worker Registration
+ *
+ * Registers public/sw.js so the app shell and cached ad videos load without
+ * a network. Production builds only - in dev the worker would cache Vite's
+ * module graph and fight HMR.
+ */
+
+import { isLocalVideo } from '@/utils/adVideoCache';
+
+export function registerServiceWorker() {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+  window.addEventListener('load', async () => {
+    try {
+      const registration = await navigator.serviceWorker.register('/sw.js');
+      await navigator.serviceWorker.ready;
+
+      // Files loaded before the worker took control never went through it - hand them over
+      const urls = [
+        location.href,
+        ...performance.getEntriesByType('resource')
+          .map(entry => entry.name)
+          .filter(url => url.startsWith(location.origin) && !isLocalVideo(new URL(url).pathname)),
+      ];
+      registration.active?.postMessage({ type: 'cache-urls', urls });
+
+      console.log('[Offline] ✅ Service worker ready');
+    } catch (err) {
+      console.warn('[Offline] ⚠️ Service worker registration failed:', err);
+    }
+  });
+}
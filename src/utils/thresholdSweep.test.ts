@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { GroundTruthEntry } from '@/types/evaluation';
+import { SweepSettings, bestSettings, evaluateSettings, sweepThresholds, sweepValues } from '@/utils/thresholdSweep';
+
+type Labeled = Pick<GroundTruthEntry, 'detectedGender' | 'detectedConfidence' | 'detectedFaceScore' | 'actualGender' | 'isFalsePositive'>;
+
+// No raw gender output, so the recorded gender and confidence replay unchanged
+function entry(id: string, labeled: Labeled): GroundTruthEntry {
+  return {
+    id,
+    timestamp: 0,
+    boundingBox: { x: 0, y: 0, width: 60, height: 60 },
+    detectedAgeGroup: 'adult',
+    actualAgeGroup: 'adult',
+    ...labeled,
+  };
+}
+
+const ENTRIES: GroundTruthEntry[] = [
+  entry('man', { detectedGender: 'male', detectedConfidence: 0.9, detectedFaceScore: 0.8, actualGender: 'male', isFalsePositive: false }),
+  entry('woman read as a man', { detectedGender: 'male', detectedConfidence: 0.6, detectedFaceScore: 0.6, actualGender: 'female', isFalsePositive: false }),
+  entry('faint woman', { detectedGender: 'female', detectedConfidence: 0.8, detectedFaceScore: 0.3, actualGender: 'female', isFalsePositive: false }),
+  entry('poster', { detectedGender: 'male', detectedConfidence: 0.7, detectedFaceScore: 0.5, actualGender: 'male', isFalsePositive: true }),
+];
+
+const settings = (falsePositiveMinScore: number, minDemographicConfidence: number): SweepSettings =>
+  ({ falsePositiveMinScore, minDemographicConfidence, femaleBoostFactor: 0 });
+
+describe('evaluateSettings', () => {
+  it('scores detection and demographics separately', () => {
+    // The guard drops the faint woman; the confidence bar drops the misread woman
+    const point = evaluateSettings(ENTRIES, settings(0.4, 0.65));
+
+    expect(point.precision).toBeCloseTo(2 / 3);
+    expect(point.recall).toBeCloseTo(2 / 3);
+    expect(point.genderAccuracy).toBe(1);
+    expect(point.coverage).toBeCloseTo(1 / 3);
+    expect(point.maleRecall).toBe(1);
+    expect(point.femaleRecall).toBe(0);
+    // One correct face over three real faces plus the counted poster
+    expect(point.correctCounts).toBeCloseTo(1 / 4);
+  });
+
+  it('counts every real face when no threshold removes one', () => {
+    const point = evaluateSettings(ENTRIES, settings(0.1, 0.55));
+    expect(point.recall).toBe(1);
+    expect(point.coverage).toBe(1);
+    expect(point.genderAccuracy).toBeCloseTo(2 / 3);
+  });
+});
+
+describe('bestSettings', () => {
+  it('ignores gender accuracy bought by counting under half the real faces', () => {
+    const strict = evaluateSettings(ENTRIES, settings(0.4, 0.65));
+    const loose = evaluateSettings(ENTRIES, settings(0.1, 0.55));
+    expect(strict.genderAccuracy).toBeGreaterThan(loose.genderAccuracy);
+
+    expect(bestSettings([strict, loose], 'genderAccuracy')).toBe(loose);
+    expect(bestSettings([strict], 'genderAccuracy')).toBeNull();
+  });
+
+  it('breaks ties toward the settings that count more faces', () => {
+    // Counting the misread woman adds no correct face, so both score 1/4
+    const strict = evaluateSettings(ENTRIES, settings(0.4, 0.65));
+    const loose = evaluateSettings(ENTRIES, settings(0.4, 0.55));
+    expect(loose.correctCounts).toBeCloseTo(strict.correctCounts);
+    expect(loose.coverage).toBeGreaterThan(strict.coverage);
+
+    expect(bestSettings([strict, loose], 'correctCounts')).toBe(loose);
+    expect(bestSettings([loose, strict], 'correctCounts')).toBe(loose);
+  });
+
+  it('returns null for an empty sweep', () => {
+    expect(sweepThresholds([])).toEqual([]);
+    expect(bestSettings([], 'correctCounts')).toBeNull();
+  });
+});
+
+describe('sweepValues', () => {
+  it('lands exactly on the slider values', () => {
+    expect(sweepValues('falsePositiveMinScore')).toEqual(
+      [0.1, 0.15, 0.2, 0.25, 0.3, 0.35, 0.4, 0.45, 0.5, 0.55, 0.6, 0.65, 0.7]
+    );
+    expect(sweepValues('minDemographicConfidence')).toEqual([0.55, 0.6, 0.65, 0.7, 0.75, 0.8, 0.85, 0.9]);
+    expect(sweepValues('femaleBoostFactor')).toEqual([0, 0.05, 0.1, 0.15, 0.2, 0.25, 0.3]);
+  });
+
+  it('sweeps every combination', () => {
+    expect(sweepThresholds(ENTRIES)).toHaveLength(13 * 8 * 7);
+  });
+});
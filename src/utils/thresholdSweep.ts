@@ -0,0 +1,194 @@
+/**
+ * Threshold Sweep
+ *
+ * Replays labeled evaluation entries under other values of the three
+ * thresholds that decide what the dashboard counts: the false positive guard
+ * (face score floor), the female boost (re-applied to the raw gender output)
+ * and the minimum demographic confidence. Raw output goes through the applied
+ * calibration or learned bias correction (see biasCorrection.ts). Each entry
+ * is replayed on its own, without temporal voting, and detections the
+ * recording settings already dropped can't come back - so lowering a
+ * threshold below what the data was recorded with is optimistic.
+ */
+
+import { GroundTruthEntry } from '@/types/evaluation';
+import { GenderCorrection, replayGender } from '@/utils/biasCorrection';
+
+export interface SweepSettings {
+  falsePositiveMinScore: number;
+  minDemographicConfidence: number;
+  femaleBoostFactor: number;
+}
+
+export type SweepParameter = keyof SweepSettings;
+
+export type SweepObjective = 'correctCounts' | 'detectionF1' | 'genderAccuracy' | 'balancedGender';
+
+export interface SweepPoint extends SweepSettings {
+  // Detection: entries whose face score clears the guard
+  precision: number;
+  recall: number;
+  f1: number;
+  // Demographics: accepted real faces that also clear the confidence bar
+  genderAccuracy: number;
+  coverage: number;
+  maleRecall: number;
+  femaleRecall: number;
+  balancedGender: number;
+  correctCounts: number;
+}
+
+// Same ranges and steps as the Settings sliders
+export const SWEEP_RANGES: Record<SweepParameter, { label: string; min: number; max: number; step: number }> = {
+  falsePositiveMinScore: { label: 'False Positive Guard', min: 0.1, max: 0.7, step: 0.05 },
+  minDemographicConfidence: { label: 'Min Demographic Confidence', min: 0.55, max: 0.9, step: 0.05 },
+  femaleBoostFactor: { label: 'Female Boost Factor', min: 0, max: 0.3, step: 0.05 },
+};
+
+// Accuracy alone is maximized by counting almost nobody
+const MIN_ACCURACY_COVERAGE = 0.5;
+
+export const SWEEP_OBJECTIVES: Record<SweepObjective, { label: string; description: string }> = {
+  correctCounts: {
+    label: 'Correct audience counts',
+    description: 'Correctly gendered faces counted, over real faces plus false positives counted',
+  },
+  detectionF1: {
+    label: 'Detection F1',
+    description: 'Balance of detection precision and recall',
+  },
+  genderAccuracy: {
+    label: 'Gender accuracy',
+    description: `Accuracy of counted faces, keeping at least ${Math.round(MIN_ACCURACY_COVERAGE * 100)}% of real faces counted`,
+  },
+  balancedGender: {
+    label: 'Balanced gender recall',
+    description: 'Mean of male and female recall - penalizes favoring either gender',
+  },
+};
+
+export function sweepValues(parameter: SweepParameter): number[] {
+  const { min, max, step } = SWEEP_RANGES[parameter];
+  const values: number[] = [];
+  // Rounded so float steps land exactly on the slider values
+  for (let i = 0; min + i * step <= max + 1e-9; i++) {
+    values.push(Math.round((min + i * step) * 100) / 100);
+  }
+  return values;
+}
+
+/** Entries that recorded the raw gender output - the only ones a boost change affects. */
+export function countReplayable(entries: GroundTruthEntry[]): number {
+  return entries.filter(e => e.rawGender).length;
+}
+
+/** Applied correction other than the swept boost. */
+export type SweepCorrection = Omit<GenderCorrection, 'femaleBoostFactor'>;
+
+const ratio = (a: number, b: number) => b > 0 ? a / b : 0;
+
+export function evaluateSettings(
+  entries: GroundTruthEntry[],
+  settings: SweepSettings,
+  correction: SweepCorrection = {}
+): SweepPoint {
+  let realFaces = 0;
+  let acceptedReal = 0;
+  let acceptedFalse = 0;
+  let countedReal = 0;
+  let countedFalse = 0;
+  let correct = 0;
+  const actual = { male: 0, female: 0 };
+  const correctBy = { male: 0, female: 0 };
+
+  for (const entry of entries) {
+    if (!entry.isFalsePositive) {
+      realFaces++;
+      actual[entry.actualGender]++;
+    }
+    if (entry.detectedFaceScore < settings.falsePositiveMinScore) continue;
+
+    const { gender, confidence } = replayGender(entry, { ...correction, femaleBoostFactor: settings.femaleBoostFactor });
+    const counted = confidence >= settings.minDemographicConfidence;
+
+    if (entry.isFalsePositive) {
+      acceptedFalse++;
+      if (counted) countedFalse++;
+      continue;
+    }
+
+    acceptedReal++;
+    if (!counted) continue;
+    countedReal++;
+    if (gender === entry.actualGender) {
+      correct++;
+      correctBy[gender]++;
+    }
+  }
+
+  const precision = ratio(acceptedReal, acceptedReal + acceptedFalse);
+  const recall = ratio(acceptedReal, realFaces);
+  const maleRecall = ratio(correctBy.male, actual.male);
+  const femaleRecall = ratio(correctBy.female, actual.female);
+
+  return {
+    ...settings,
+    precision,
+    recall,
+    f1: ratio(2 * precision * recall, precision + recall),
+    genderAccuracy: ratio(correct, countedReal),
+    coverage: ratio(countedReal, realFaces),
+    maleRecall,
+    femaleRecall,
+    balancedGender: (maleRecall + femaleRecall) / 2,
+    correctCounts: ratio(correct, realFaces + countedFalse),
+  };
+}
+
+/** Every combination of the three thresholds. */
+export function sweepThresholds(entries: GroundTruthEntry[], correction: SweepCorrection = {}): SweepPoint[] {
+  if (entries.length === 0) return [];
+
+  const points: SweepPoint[] = [];
+  for (const falsePositiveMinScore of sweepValues('falsePositiveMinScore')) {
+    for (const minDemographicConfidence of sweepValues('minDemographicConfidence')) {
+      for (const femaleBoostFactor of sweepValues('femaleBoostFactor')) {
+        points.push(evaluateSettings(entries, { falsePositiveMinScore, minDemographicConfidence, femaleBoostFactor }, correction));
+      }
+    }
+  }
+  return points;
+}
+
+export function objectiveScore(point: SweepPoint, objective: SweepObjective): number {
+  switch (objective) {
+    case 'detectionF1': return point.f1;
+    case 'genderAccuracy': return point.coverage >= MIN_ACCURACY_COVERAGE ? point.genderAccuracy : -1;
+    case 'balancedGender': return point.balancedGender;
+    default: return point.correctCounts;
+  }
+}
+
+/** Highest-scoring combination; ties go to the one counting more faces. */
+export function bestSettings(points: SweepPoint[], objective: SweepObjective): SweepPoint | null {
+  let best: SweepPoint | null = null;
+  for (const point of points) {
+    if (!best) {
+      best = point;
+      continue;
+    }
+    const diff = objectiveScore(point, objective) - objectiveScore(best, objective);
+    if (diff > 1e-9 || (Math.abs(diff) <= 1e-9 && point.coverage > best.coverage)) best = point;
+  }
+  return best && objectiveScore(best, objective) >= 0 ? best : null;
+}
+
+/** One parameter across its range, the other two held fixed - for threshold curves. */
+export function sweepCurve(
+  entries: GroundTruthEntry[],
+  parameter: SweepParameter,
+  fixed: SweepSettings,
+  correction: SweepCorrection = {}
+): SweepPoint[] {
+  return sweepValues(parameter).map(value => evaluateSettings(entries, { ...fixed, [parameter]: value }, correction));
+}
@@ -1,20 +1,32 @@
 /**
  * YOLO Model Auto-Downloader with IndexedDB Caching
  * 
- * Downloads YOLOv8-face model from a public URL and caches it in IndexedDB
- * for offline use. This avoids re-downloading on every page load.
+ * Downloads the YOLOv8-face ONNX model from a public URL and caches the raw
+ * bytes in IndexedDB for offline use. This avoids re-downloading on every
+ * page load. The model is run with onnxruntime-web (useYoloFaceDetection).
+ * Sources and hashes come from the model registry; each version is cached
+ * under its own key and re-verified every time it is loaded.
  */
 
+import { MODEL_REGISTRY, ResolvedModel, modelTag, verifyModelBytes } from '@/utils/modelRegistry';
+
 const DB_NAME = 'yolo-model-cache';
 const DB_VERSION = 1;
 const STORE_NAME = 'models';
-const MODEL_KEY = 'yolov8-face';
 
-// Public YOLOv8-face model URL (ONNX converted to TensorFlow.js)
-// This is a placeholder - user needs to provide actual model URL or files
-const DEFAULT_MODEL_URL = 'https://huggingface.co/nickmuchi/yolov8-face-detection/resolve/main/yolov8n-face.onnx';
+// Key used before models were versioned - still read for the default version
+const LEGACY_MODEL_KEY = 'yolov8-face';
 
 export interface YoloModelFiles {
+  model: ArrayBuffer;
+  timestamp: number;
+  /** SHA-256 computed when cached - checked on load for unpinned versions. */
+  sha256?: string;
+}
+
+// Entries cached before the ONNX runtime switch kept the .onnx bytes in weights[0]
+// next to a placeholder model.json
+interface LegacyYoloModelFiles {
   modelJson: ArrayBuffer;
   weights: ArrayBuffer[];
   timestamp: number;
@@ -46,18 +58,40 @@ function openDB(): Promise<IDBDatabase> {
   });
 }
 
+// Dev servers answer unknown paths with the SPA's index.html
+const isModelFile = (response: Response) =>
+  response.ok && !response.headers.get('content-type')?.includes('text/html');
+
+const isDefaultVersion = (model: ResolvedModel) =>
+  MODEL_REGISTRY[model.id].versions[0].version === model.version;
+
 /**
  * Get cached model from IndexedDB
  */
-async function getCachedModel(): Promise<YoloModelFiles | null> {
+async function getCachedModel(model: ResolvedModel): Promise<YoloModelFiles | null> {
+  const cached = await readCacheEntry(modelTag(model));
+  if (cached || !isDefaultVersion(model)) return cached;
+  return readCacheEntry(LEGACY_MODEL_KEY);
+}
+
+async function readCacheEntry(key: string): Promise<YoloModelFiles | null> {
   try {
     const db = await openDB();
     return new Promise((resolve, reject) => {
       const tx = db.transaction(STORE_NAME, 'readonly');
       const store = tx.objectStore(STORE_NAME);
-      const request = store.get(MODEL_KEY);
+      const request = store.get(key);
       
-      request.onsuccess = () => resolve(request.result || null);
+      request.onsuccess = () => {
+        const entry = request.result as YoloModelFiles | LegacyYoloModelFiles | undefined;
+        if (!entry) {
+          resolve(null);
+        } else if ('model' in entry) {
+          resolve(entry);
+        } else {
+          resolve(entry.weights[0] ? { model: entry.weights[0], timestamp: entry.timestamp } : null);
+        }
+      };
       request.onerror = () => reject(new Error('Failed to read from cache'));
       
       tx.oncomplete = () => db.close();
@@ -70,12 +104,12 @@ async function getCachedModel(): Promise<YoloModelFiles | null> {
 /**
  * Save model to IndexedDB cache
  */
-async function cacheModel(files: YoloModelFiles): Promise<void> {
+async function cacheModel(model: ResolvedModel, files: YoloModelFiles): Promise<void> {
   const db = await openDB();
   return new Promise((resolve, reject) => {
     const tx = db.transaction(STORE_NAME, 'readwrite');
     const store = tx.objectStore(STORE_NAME);
-    const request = store.put(files, MODEL_KEY);
+    const request = store.put(files, modelTag(model));
     
     request.onsuccess = () => resolve();
     request.onerror = () => reject(new Error('Failed to cache model'));
@@ -85,14 +119,15 @@ async function cacheModel(files: YoloModelFiles): Promise<void> {
 }
 
 /**
- * Clear cached model
+ * Clear cached model (and the pre-versioning entry for the default version)
  */
-export async function clearCachedModel(): Promise<void> {
+export async function clearCachedModel(model: ResolvedModel): Promise<void> {
   const db = await openDB();
   return new Promise((resolve, reject) => {
     const tx = db.transaction(STORE_NAME, 'readwrite');
     const store = tx.objectStore(STORE_NAME);
-    const request = store.delete(MODEL_KEY);
+    if (isDefaultVersion(model)) store.delete(LEGACY_MODEL_KEY);
+    const request = store.delete(modelTag(model));
     
     request.onsuccess = () => resolve();
     request.onerror = () => reject(new Error('Failed to clear cache'));
@@ -104,10 +139,11 @@ export async function clearCachedModel(): Promise<void> {
 /**
  * Check if model exists locally in public folder
  */
-export async function checkLocalModel(): Promise<boolean> {
+export async function checkLocalModel(model: ResolvedModel): Promise<boolean> {
+  if (!model.localPath) return false;
   try {
-    const response = await fetch('/models/yolov8-face/model.json', { method: 'HEAD' });
-    return response.ok;
+    const response = await fetch(model.localPath, { method: 'HEAD' });
+    return isModelFile(response);
   } catch {
     return false;
   }
@@ -116,8 +152,8 @@ export async function checkLocalModel(): Promise<boolean> {
 /**
  * Check if model exists in cache
  */
-export async function checkCachedModel(): Promise<boolean> {
-  const cached = await getCachedModel();
+export async function checkCachedModel(model: ResolvedModel): Promise<boolean> {
+  const cached = await getCachedModel(model);
   return cached !== null;
 }
 
@@ -166,45 +202,12 @@ async function downloadWithProgress(
 }
 
 /**
- * Convert ONNX model to TensorFlow.js format (simplified placeholder)
- * In production, you would use tf.loadGraphModel or pre-converted model
- */
-async function prepareModelFiles(modelBuffer: ArrayBuffer): Promise<{ json: string; weights: ArrayBuffer[] }> {
-  // For now, we'll create a placeholder model.json that references the weights
-  // Real implementation would require ONNX to TFJS conversion
-  
-  const weightsBlob = new Uint8Array(modelBuffer);
-  
-  // Create a simple model.json structure
-  const modelJson = {
-    format: 'graph-model',
-    generatedBy: 'yolo-downloader',
-    convertedBy: 'TensorFlow.js Converter',
-    modelTopology: {
-      node: [],
-      library: {},
-      versions: { producer: 1 }
-    },
-    weightsManifest: [{
-      paths: ['weights.bin'],
-      weights: []
-    }]
-  };
-  
-  return {
-    json: JSON.stringify(modelJson),
-    weights: [weightsBlob.buffer]
-  };
-}
-
-/**
- * Download and cache YOLO model from URL
+ * Download, verify and cache a YOLO model version
  */
 export async function downloadAndCacheYoloModel(
-  modelUrl?: string,
+  model: ResolvedModel,
   onProgress?: (progress: DownloadProgress) => void
 ): Promise<boolean> {
-  const url = modelUrl || DEFAULT_MODEL_URL;
   const report = (stage: DownloadProgress['stage'], progress: number, message: string) => {
     onProgress?.({ stage, progress, message });
   };
@@ -212,37 +215,37 @@ export async function downloadAndCacheYoloModel(
   try {
     // Check if already cached
     report('checking', 0, 'Checking cache...');
-    const cached = await getCachedModel();
+    const cached = await getCachedModel(model);
     if (cached) {
       report('ready', 100, 'Model loaded from cache');
       return true;
     }
     
     // Check local folder
-    const hasLocal = await checkLocalModel();
+    const hasLocal = await checkLocalModel(model);
     if (hasLocal) {
       report('ready', 100, 'Using local model files');
       return true;
     }
     
     // Download model
-    report('downloading', 0, 'Downloading YOLO model...');
+    report('downloading', 0, `Downloading ${model.name} ${model.version}...`);
     
-    const modelBuffer = await downloadWithProgress(url, (loaded, total) => {
+    const modelBuffer = await downloadWithProgress(model.url, (loaded, total) => {
       const pct = total > 0 ? Math.round((loaded / total) * 100) : 0;
       report('downloading', pct, `Downloading: ${(loaded / 1024 / 1024).toFixed(1)} MB`);
     });
     
-    // Prepare files
-    report('caching', 90, 'Processing model...');
-    const { json, weights } = await prepareModelFiles(modelBuffer);
+    // Never cache bytes that don't match the pinned hash
+    report('caching', 90, 'Verifying...');
+    const sha256 = await verifyModelBytes(model, [modelBuffer]);
     
     // Cache to IndexedDB
     report('caching', 95, 'Saving to cache...');
-    await cacheModel({
-      modelJson: new TextEncoder().encode(json).buffer,
-      weights,
-      timestamp: Date.now()
+    await cacheModel(model, {
+      model: modelBuffer,
+      timestamp: Date.now(),
+      sha256: sha256 ?? undefined,
     });
     
     report('ready', 100, 'Model ready!');
@@ -259,13 +262,13 @@ export async function downloadAndCacheYoloModel(
 /**
  * Get model status
  */
-export async function getYoloModelStatus(): Promise<{
+export async function getYoloModelStatus(model: ResolvedModel): Promise<{
   hasLocal: boolean;
   hasCached: boolean;
   cacheTimestamp?: number;
 }> {
-  const hasLocal = await checkLocalModel();
-  const cached = await getCachedModel();
+  const hasLocal = await checkLocalModel(model);
+  const cached = await getCachedModel(model);
   
   return {
     hasLocal,
@@ -275,27 +278,28 @@ export async function getYoloModelStatus(): Promise<{
 }
 
 /**
- * Create blob URLs for cached model (for tf.loadGraphModel)
+ * Raw ONNX bytes for onnxruntime-web: the IndexedDB cache first, then the
+ * self-hosted file. Null when neither exists; throws ModelIntegrityError
+ * when the bytes don't match the pinned (or cached-at-download) hash.
  */
-export async function getCachedModelUrls(): Promise<{ modelUrl: string; weightsUrls: string[] } | null> {
-  const cached = await getCachedModel();
-  if (!cached) return null;
-  
-  const modelBlob = new Blob([cached.modelJson], { type: 'application/json' });
-  const modelUrl = URL.createObjectURL(modelBlob);
-  
-  const weightsUrls = cached.weights.map(w => {
-    const blob = new Blob([w], { type: 'application/octet-stream' });
-    return URL.createObjectURL(blob);
-  });
-  
-  return { modelUrl, weightsUrls };
-}
+export async function loadYoloModelBuffer(model: ResolvedModel): Promise<ArrayBuffer | null> {
+  const cached = await getCachedModel(model);
+  if (cached) {
+    await verifyModelBytes(model, [cached.model], model.sha256 ?? cached.sha256);
+    return cached.model;
+  }
 
-/**
- * Revoke blob URLs when done
- */
-export function revokeModelUrls(urls: { modelUrl: string; weightsUrls: string[] }): void {
-  URL.revokeObjectURL(urls.modelUrl);
-  urls.weightsUrls.forEach(url => URL.revokeObjectURL(url));
+  if (!model.localPath) return null;
+
+  let buffer: ArrayBuffer;
+  try {
+    const response = await fetch(model.localPath);
+    if (!isModelFile(response)) return null;
+    buffer = await response.arrayBuffer();
+  } catch {
+    return null;
+  }
+
+  await verifyModelBytes(model, [buffer]);
+  return buffer;
 }
@@ -0,0 +1,147 @@
+/**
+ * Face Detection Worker
+ *
+ * Runs face-api.js (TinyFaceDetector / SSD Mobilenet + AgeGender, plus
+ * re-ID descriptors, attention landmarks and expressions) off the
+ * main thread so inference does not stutter video playback. Frames arrive as
+ * transferred ImageBitmaps and are drawn onto an OffscreenCanvas.
+ */
+
+import * as faceapi from 'face-api.js';
+import * as tf from '@tensorflow/tfjs';
+import { analyzeFaceCrops } from '@/utils/faceAnalysis';
+import { loadFaceApiModel, tryLoadFaceApiModel } from '@/utils/faceApiModels';
+import { FaceApiModelSources } from '@/utils/modelRegistry';
+import { DetectorJob, FaceWorkerRequest, FaceWorkerResponse, SerializedDetection } from './faceDetectionMessages';
+
+const ctx = self as unknown as Worker;
+
+// face-api.js only knows browser (DOM) and Node environments - give it an
+// OffscreenCanvas-backed one. Image/Video are never passed in a worker.
+class UnavailableElement {}
+
+faceapi.env.setEnv({
+  Canvas: OffscreenCanvas as unknown as typeof HTMLCanvasElement,
+  CanvasRenderingContext2D: OffscreenCanvasRenderingContext2D as unknown as typeof CanvasRenderingContext2D,
+  Image: UnavailableElement as unknown as typeof HTMLImageElement,
+  ImageData,
+  Video: UnavailableElement as unknown as typeof HTMLVideoElement,
+  createCanvasElement: () => new OffscreenCanvas(1, 1) as unknown as HTMLCanvasElement,
+  createImageElement: () => {
+    throw new Error('Image elements are not available in the face detection worker');
+  },
+  fetch: (url, init) => fetch(url, init),
+  readFile: () => {
+    throw new Error('readFile is not available in the face detection worker');
+  },
+});
+
+let ssdLoaded = false;
+let reidLoaded = false;
+let landmarksLoaded = false;
+let expressionsLoaded = false;
+
+const post = (message: FaceWorkerResponse) => ctx.postMessage(message);
+
+async function loadModels(models: FaceApiModelSources) {
+  // Same backend preference as the main-thread path: WebGL, then CPU
+  try {
+    await tf.setBackend('webgl');
+    await tf.ready();
+  } catch {
+    await tf.setBackend('cpu');
+    await tf.ready();
+  }
+
+  await Promise.all([
+    loadFaceApiModel(models.tinyFaceDetector),
+    loadFaceApiModel(models.ageGenderNet),
+  ]);
+
+  ssdLoaded = await tryLoadFaceApiModel(models.ssdMobilenetv1);
+
+  // Appearance descriptors for re-ID are optional too
+  reidLoaded = await tryLoadFaceApiModel(models.faceRecognitionNet);
+  landmarksLoaded = await tryLoadFaceApiModel(models.faceLandmark68TinyNet);
+  expressionsLoaded = await tryLoadFaceApiModel(models.faceExpressionNet);
+
+  return tf.getBackend() || 'unknown';
+}
+
+async function runJob(canvas: OffscreenCanvas, job: DetectorJob): Promise<SerializedDetection[]> {
+  const input = canvas as unknown as HTMLCanvasElement;
+  const options = job.detector === 'tiny'
+    ? new faceapi.TinyFaceDetectorOptions({ inputSize: job.inputSize, scoreThreshold: job.scoreThreshold })
+    : new faceapi.SsdMobilenetv1Options({ minConfidence: job.minConfidence });
+
+  if (job.detector === 'ssd' && !ssdLoaded) return [];
+
+  const detections = await faceapi.detectAllFaces(input, options).withAgeAndGender();
+
+  return detections.map(d => ({
+    detection: {
+      score: d.detection.score,
+      box: { x: d.detection.box.x, y: d.detection.box.y, width: d.detection.box.width, height: d.detection.box.height },
+    },
+    age: d.age,
+    gender: d.gender as 'male' | 'female',
+    genderProbability: d.genderProbability,
+  }));
+}
+
+const drawFrame = (frame: ImageBitmap) => {
+  const canvas = new OffscreenCanvas(frame.width, frame.height);
+  canvas.getContext('2d')!.drawImage(frame, 0, 0);
+  frame.close();
+  return canvas;
+};
+
+ctx.onmessage = async (event: MessageEvent<FaceWorkerRequest>) => {
+  const message = event.data;
+
+  if (message.type === 'load') {
+    try {
+      const backend = await loadModels(message.models);
+      post({ type: 'loaded', backend, ssdLoaded, reidLoaded, landmarksLoaded, expressionsLoaded });
+    } catch (err) {
+      post({ type: 'loadError', message: err instanceof Error ? err.message : String(err) });
+    }
+    return;
+  }
+
+  if (message.type === 'detect') {
+    const { requestId, frame, jobs } = message;
+    try {
+      const canvas = drawFrame(frame);
+
+      // Jobs share the GPU, so run them in order rather than in parallel
+      const results: SerializedDetection[][] = [];
+      for (const job of jobs) {
+        try {
+          results.push(await runJob(canvas, job));
+        } catch {
+          results.push([]);
+        }
+      }
+      post({ type: 'detected', requestId, results });
+    } catch (err) {
+      post({ type: 'detectError', requestId, message: err instanceof Error ? err.message : String(err) });
+    }
+    return;
+  }
+
+  if (message.type === 'analyze') {
+    const { requestId, frame, boxes, models } = message;
+    try {
+      const canvas = drawFrame(frame) as unknown as HTMLCanvasElement;
+      const faces = await analyzeFaceCrops(canvas, boxes, {
+        descriptors: models.descriptors && reidLoaded,
+        landmarks: models.landmarks && landmarksLoaded,
+        expressions: models.expressions && expressionsLoaded,
+      });
+      post({ type: 'analyzed', requestId, faces });
+    } catch (err) {
+      post({ type: 'detectError', requestId, message: err instanceof Error ? err.message : String(err) });
+    }
+  }
+};
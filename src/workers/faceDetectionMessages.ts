@@ -0,0 +1,40 @@
+/**
+ * Message protocol between useFaceDetection and faceDetection.worker.
+ *
+ * The worker only runs face-api.js inference; filtering, merging and bias
+ * correction stay on the main thread, so results are sent back in the same
+ * shape face-api.js returns (`detection.box`, `age`, `gender`, ...).
+ */
+
+import { FaceBoundingBox } from '@/types/ad';
+import { FaceAnalysis, FaceAnalysisModels } from '@/utils/faceAnalysis';
+import { FaceApiModelSources } from '@/utils/modelRegistry';
+
+export type DetectorJob =
+  | { detector: 'tiny'; inputSize: number; scoreThreshold: number }
+  | { detector: 'ssd'; minConfidence: number };
+
+export interface SerializedDetection {
+  detection: {
+    score: number;
+    box: { x: number; y: number; width: number; height: number };
+  };
+  age: number;
+  gender: 'male' | 'female';
+  genderProbability: number;
+}
+
+export type FaceWorkerRequest =
+  /** Registry-resolved versions to load (and verify) */
+  | { type: 'load'; models: FaceApiModelSources }
+  | { type: 'detect'; requestId: number; frame: ImageBitmap; jobs: DetectorJob[] }
+  | { type: 'analyze'; requestId: number; frame: ImageBitmap; boxes: FaceBoundingBox[]; models: FaceAnalysisModels };
+
+export type FaceWorkerResponse =
+  | { type: 'loaded'; backend: string; ssdLoaded: boolean; reidLoaded: boolean; landmarksLoaded: boolean; expressionsLoaded: boolean }
+  | { type: 'loadError'; message: string }
+  /** One result list per job, in job order. */
+  | { type: 'detected'; requestId: number; results: SerializedDetection[][] }
+  /** Descriptor, landmarks and expressions per box (null where skipped or failed), in box order. */
+  | { type: 'analyzed'; requestId: number; faces: FaceAnalysis[] }
+  | { type: 'detectError'; requestId: number; message: string };
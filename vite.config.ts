@@ -8,6 +8,11 @@ export default defineConfig({
     port: 8080,
   },
   plugins: [react()],
+  optimizeDeps: {
+    // onnxruntime-web locates its .wasm files relative to import.meta.url,
+    // which pre-bundling would break
+    exclude: ["onnxruntime-web"],
+  },
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),